@@ -1,6 +1,17 @@
 import app from './src/routes/app';
 import dotenv from 'dotenv';
 import { connectDB } from './src/config/db.connects';
+import { ensureSystemRoles } from './src/services/role.service';
+import { startPurgeJob } from './src/jobs/purgeDeleted.job';
+import { startProductScheduleJob } from './src/jobs/productSchedule.job';
+import { startReservationSweeper } from './src/jobs/reservationSweeper.job';
+import { startStockAlertJob } from './src/jobs/stockAlerts.job';
+import { startBackInStockJob } from './src/jobs/backInStock.job';
+import { backfillProductStatus, backfillProductRatings } from './src/services/product.service';
+import { failInterruptedImportJobs } from './src/services/productImport.service';
+import { recordOpeningBalances, assignUnlocatedStock } from './src/services/inventory.service';
+import { ensureDefaultWarehouse } from './src/services/warehouse.service';
+import { backfillCategoryTree } from './src/services/category.service';
 
 dotenv.config();
 
@@ -10,6 +21,45 @@ const startServer = async () => {
   try {
     // Connect to database first
     await connectDB();
+
+    // Built-in roles must exist before any request is authorized
+    await ensureSystemRoles();
+
+    // Products from before the publishing workflow stay public
+    await backfillProductStatus();
+
+    // Products from before rating facets get their average from existing reviews
+    await backfillProductRatings();
+
+    // Categories from before subcategories become top-level categories
+    await backfillCategoryTree();
+
+    // Import jobs keep their rows in memory and cannot resume after a restart
+    await failInterruptedImportJobs();
+
+    // Stock changes that do not name a warehouse go to the default one
+    await ensureDefaultWarehouse();
+
+    // Stock from before the movement ledger becomes its opening balance
+    await recordOpeningBalances();
+
+    // Stock from before warehouses is kept at the default warehouse
+    await assignUnlocatedStock();
+
+    // Permanently remove soft-deleted records past their retention window
+    startPurgeJob();
+
+    // Publish and archive products at their scheduled times
+    startProductScheduleJob();
+
+    // Give back stock held by checkouts that were never completed
+    startReservationSweeper();
+
+    // Tell vendors when their products run low
+    startStockAlertJob();
+
+    // Tell waiting customers about restocked products, a batch at a time
+    startBackInStockJob();
     
     // Then start the server
     app.listen(port, () => {
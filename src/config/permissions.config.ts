@@ -0,0 +1,69 @@
+// Every permission the API checks. Roles (stored in the database) grant a subset;
+// '*' grants everything and is reserved for the admin role.
+export const PERMISSIONS = {
+  'users:read': 'View user accounts',
+  'users:write': 'Create and update user accounts, sessions and lockouts',
+  'users:delete': 'Delete user accounts',
+  'users:impersonate': 'Act as another user for support',
+  'audit-logs:read': 'View the audit trail',
+  'roles:manage': 'Define roles and assign them to users',
+  'security:manage': 'Change platform security policies',
+  'vendors:apply': 'Apply to become a vendor',
+  'vendors:review': 'Approve or reject vendor applications',
+  'categories:write': 'Create, update and delete categories',
+  'products:write': 'Create, update and delete own products',
+  'products:manage-all': 'Manage products created by anyone',
+  'products:publish': 'Approve, reject and publish products',
+  'inventory:read': 'View stock levels and low-stock reports',
+  'inventory:write': 'Change stock levels',
+  'warehouses:manage': 'Manage warehouses and transfer stock between them',
+  'cart:manage': 'Use a shopping cart',
+  'orders:place': 'Place and cancel own orders',
+  'orders:read-own': 'View own orders',
+  'orders:read-vendor': 'View orders containing own products',
+  'orders:read-all': 'View every order and order statistics',
+  'orders:update-status': 'Change order statuses',
+  'reviews:write': 'Write reviews',
+  'reviews:moderate': 'Delete anyone\'s reviews',
+  'api-keys:manage': 'Create and revoke personal API keys'
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const ALL_PERMISSIONS = '*';
+
+// Built-in roles, created at startup if missing. Their permissions can be
+// edited afterwards (except admin, which always has every permission).
+export const SYSTEM_ROLES: Array<{ name: string; description: string; permissions: string[] }> = [
+  {
+    name: 'admin',
+    description: 'Full access to every part of the platform',
+    permissions: [ALL_PERMISSIONS]
+  },
+  {
+    name: 'vendor',
+    description: 'Sells products on the marketplace',
+    permissions: [
+      'products:write',
+      'inventory:read',
+      'inventory:write',
+      'orders:read-vendor',
+      'api-keys:manage'
+    ]
+  },
+  {
+    name: 'customer',
+    description: 'Shops, places orders and writes reviews',
+    permissions: [
+      'cart:manage',
+      'orders:place',
+      'orders:read-own',
+      'reviews:write',
+      'vendors:apply'
+    ]
+  }
+];
+
+export const isValidPermission = (permission: string): permission is Permission => {
+  return Object.prototype.hasOwnProperty.call(PERMISSIONS, permission);
+};
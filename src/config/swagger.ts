@@ -69,6 +69,14 @@ const swaggerOptions: SwaggerOptions = {
       {
         name: 'Reviews',
         description: 'Product reviews and ratings'
+      },
+      {
+        name: 'Vendors',
+        description: 'Vendor onboarding applications'
+      },
+      {
+        name: 'API Keys',
+        description: 'Scoped API keys for vendor integrations'
       }
     ],
     components: {
@@ -78,6 +86,12 @@ const swaggerOptions: SwaggerOptions = {
           scheme: 'bearer',
           bearerFormat: 'JWT',
           description: 'Enter your JWT token in the format: Bearer <token>'
+        },
+        apiKeyAuth: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-API-Key',
+          description: 'API key created at /api/v1/api-keys. Accepted only on endpoints that list this scheme, and only if the key has the scope named in the endpoint description.'
         }
       },
       schemas: {
@@ -104,9 +118,15 @@ const swaggerOptions: SwaggerOptions = {
             },
             role: {
               type: 'string',
-              enum: ['admin', 'vendor', 'customer'],
+              description: 'Role name: admin, vendor, customer or a custom role',
               example: 'customer'
             },
+            deletedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'Set when soft-deleted; only visible with includeDeleted'
+            },
             createdAt: {
               type: 'string',
               format: 'date-time'
@@ -138,13 +158,12 @@ const swaggerOptions: SwaggerOptions = {
               type: 'string',
               format: 'password',
               minLength: 8,
+              description: 'Must satisfy the password policy (see GET /api/v1/auth/password-policy)',
               example: 'Password123!'
             },
-            role: {
-              type: 'string',
-              enum: ['admin', 'vendor', 'customer'],
-              example: 'customer',
-              description: 'Optional. Defaults to customer if not specified.'
+            age: {
+              type: 'number',
+              example: 28
             }
           }
         },
@@ -173,8 +192,14 @@ const swaggerOptions: SwaggerOptions = {
             },
             token: {
               type: 'string',
+              description: 'Short-lived access token',
               example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...'
             },
+            refreshToken: {
+              type: 'string',
+              description: 'Single-use refresh token for POST /api/v1/auth/refresh',
+              example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08...'
+            },
             user: {
               $ref: '#/components/schemas/User'
             }
@@ -201,6 +226,39 @@ const swaggerOptions: SwaggerOptions = {
               type: 'string',
               example: 'Electronic devices and accessories'
             },
+            parent: {
+              type: 'string',
+              nullable: true,
+              example: null
+            },
+            ancestors: {
+              type: 'array',
+              description: 'Ancestor category IDs, top-level first',
+              items: {
+                type: 'string'
+              }
+            },
+            path: {
+              type: 'string',
+              description: 'Slug path from the top-level category',
+              example: 'electronics'
+            },
+            depth: {
+              type: 'number',
+              example: 0
+            },
+            attributeSchema: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/CategoryAttribute'
+              }
+            },
+            deletedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'Set when soft-deleted; only visible with includeDeleted'
+            },
             createdAt: {
               type: 'string',
               format: 'date-time'
@@ -211,6 +269,93 @@ const swaggerOptions: SwaggerOptions = {
             }
           }
         },
+        CategoryTreeNode: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              example: '507f1f77bcf86cd799439011'
+            },
+            name: {
+              type: 'string',
+              example: 'Electronics'
+            },
+            slug: {
+              type: 'string',
+              example: 'electronics'
+            },
+            path: {
+              type: 'string',
+              example: 'electronics'
+            },
+            isActive: {
+              type: 'boolean',
+              example: true
+            },
+            children: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/CategoryTreeNode'
+              }
+            }
+          }
+        },
+        Breadcrumb: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              example: '507f1f77bcf86cd799439012'
+            },
+            name: {
+              type: 'string',
+              example: 'Audio'
+            },
+            slug: {
+              type: 'string',
+              example: 'audio'
+            },
+            path: {
+              type: 'string',
+              example: 'electronics/audio'
+            }
+          }
+        },
+        CategoryAttribute: {
+          type: 'object',
+          required: ['key', 'label', 'type'],
+          properties: {
+            key: {
+              type: 'string',
+              description: 'Used as attr.<key> in product filters',
+              example: 'wattage'
+            },
+            label: {
+              type: 'string',
+              example: 'Wattage'
+            },
+            type: {
+              type: 'string',
+              enum: ['string', 'number', 'boolean', 'enum'],
+              example: 'number'
+            },
+            options: {
+              type: 'array',
+              description: 'Allowed values for enum attributes',
+              items: {
+                type: 'string'
+              }
+            },
+            unit: {
+              type: 'string',
+              example: 'W'
+            },
+            required: {
+              type: 'boolean',
+              example: false
+            }
+          }
+        },
         CategoryRequest: {
           type: 'object',
           required: ['name'],
@@ -238,6 +383,11 @@ const swaggerOptions: SwaggerOptions = {
               type: 'string',
               example: 'Laptop Pro 15'
             },
+            sku: {
+              type: 'string',
+              description: 'SKU of a product without variants',
+              example: 'LP-15'
+            },
             slug: {
               type: 'string',
               example: 'laptop-pro-15'
@@ -264,17 +414,127 @@ const swaggerOptions: SwaggerOptions = {
               type: 'number',
               example: 50
             },
+            reserved: {
+              type: 'number',
+              description: 'Held by checkout reservations (products without variants)',
+              example: 2
+            },
+            available: {
+              type: 'number',
+              description: 'Quantity on hand minus reserved, summed over variants when there are any',
+              example: 48
+            },
+            reorderThreshold: {
+              type: 'number',
+              nullable: true,
+              description: 'Stock level that triggers a low-stock alert to the vendor; LOW_STOCK_THRESHOLD when null',
+              example: 5
+            },
+            stockAlert: {
+              type: 'object',
+              description: 'Current low-stock alert; level is null once restocked above the threshold',
+              properties: {
+                level: {
+                  type: 'string',
+                  enum: ['low', 'out'],
+                  nullable: true
+                },
+                since: {
+                  type: 'string',
+                  format: 'date-time',
+                  nullable: true
+                },
+                notifiedAt: {
+                  type: 'string',
+                  format: 'date-time',
+                  nullable: true
+                }
+              }
+            },
             images: {
               type: 'array',
               items: {
                 type: 'string'
               }
             },
+            options: {
+              type: 'array',
+              description: 'Option axes the variants are built from',
+              items: {
+                $ref: '#/components/schemas/ProductOption'
+              }
+            },
+            attributes: {
+              type: 'array',
+              description: 'Values for the category attribute schema',
+              items: {
+                type: 'object',
+                properties: {
+                  key: {
+                    type: 'string',
+                    example: 'brand'
+                  },
+                  value: {
+                    oneOf: [{ type: 'string' }, { type: 'number' }, { type: 'boolean' }],
+                    example: 'Acme'
+                  }
+                }
+              }
+            },
+            ratingAverage: {
+              type: 'number',
+              description: 'Average review rating, kept up to date as reviews change',
+              example: 4.5
+            },
+            ratingCount: {
+              type: 'number',
+              example: 12
+            },
+            variants: {
+              type: 'array',
+              description: 'When present, price is the lowest variant price and quantity the total variant stock',
+              items: {
+                $ref: '#/components/schemas/ProductVariant'
+              }
+            },
+            status: {
+              type: 'string',
+              enum: ['draft', 'in_review', 'published', 'archived'],
+              description: 'Only published products are public',
+              example: 'published'
+            },
+            publishAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'Scheduled go-live once approved'
+            },
+            unpublishAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'Scheduled archiving of a published product'
+            },
+            publishedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true
+            },
+            reviewNote: {
+              type: 'string',
+              description: 'Reason given when the product was last rejected'
+            },
             createdBy: {
               type: 'string',
               example: '507f1f77bcf86cd799439011',
               description: 'User ID of the vendor who created this product'
             },
+            deletedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'Set when soft-deleted; only visible with includeDeleted'
+            },
             createdAt: {
               type: 'string',
               format: 'date-time'
@@ -285,6 +545,291 @@ const swaggerOptions: SwaggerOptions = {
             }
           }
         },
+        ProductOption: {
+          type: 'object',
+          required: ['name', 'values'],
+          properties: {
+            name: {
+              type: 'string',
+              example: 'size'
+            },
+            values: {
+              type: 'array',
+              items: {
+                type: 'string'
+              },
+              example: ['S', 'M', 'L']
+            }
+          }
+        },
+        ProductVariant: {
+          type: 'object',
+          required: ['sku', 'options', 'price'],
+          properties: {
+            _id: {
+              type: 'string',
+              description: 'Variant ID; pass it back when replacing variants to keep existing cart lines',
+              example: '65a1f77bcf86cd7994390a1'
+            },
+            sku: {
+              type: 'string',
+              description: 'Unique across the catalog (stored uppercase)',
+              example: 'TSHIRT-BLK-M'
+            },
+            options: {
+              type: 'array',
+              description: 'One value for each of the product options',
+              items: {
+                type: 'object',
+                properties: {
+                  name: {
+                    type: 'string',
+                    example: 'size'
+                  },
+                  value: {
+                    type: 'string',
+                    example: 'M'
+                  }
+                }
+              }
+            },
+            price: {
+              type: 'number',
+              format: 'float',
+              example: 24.99
+            },
+            quantity: {
+              type: 'number',
+              example: 15
+            },
+            reserved: {
+              type: 'number',
+              description: 'Held by checkout reservations',
+              example: 1
+            },
+            available: {
+              type: 'number',
+              description: 'Quantity on hand minus reserved',
+              example: 14
+            },
+            images: {
+              type: 'array',
+              items: {
+                type: 'string'
+              }
+            }
+          }
+        },
+        StockMovement: {
+          type: 'object',
+          properties: {
+            _id: {
+              type: 'string'
+            },
+            product: {
+              type: 'string',
+              example: '507f1f77bcf86cd799439011'
+            },
+            variant: {
+              type: 'string',
+              nullable: true
+            },
+            sku: {
+              type: 'string',
+              example: 'TSHIRT-BLK-M'
+            },
+            quantity: {
+              type: 'number',
+              description: 'Signed change; negative when stock leaves',
+              example: -2
+            },
+            balance: {
+              type: 'number',
+              description: 'Quantity after this movement',
+              example: 13
+            },
+            reason: {
+              type: 'string',
+              enum: ['initial', 'sale', 'cancellation', 'adjustment', 'import', 'return', 'damage', 'transfer']
+            },
+            actor: {
+              type: 'object',
+              nullable: true,
+              description: 'User who made the change (firstName, lastName); null for system changes'
+            },
+            order: {
+              type: 'string',
+              nullable: true,
+              description: 'Order ID for sales and cancellations'
+            },
+            warehouse: {
+              type: 'string',
+              nullable: true,
+              description: 'Set when the change applied to a single warehouse, e.g. transfers'
+            },
+            note: {
+              type: 'string'
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time'
+            }
+          }
+        },
+        StockReservation: {
+          type: 'object',
+          properties: {
+            _id: {
+              type: 'string'
+            },
+            user: {
+              type: 'string'
+            },
+            product: {
+              type: 'string',
+              example: '507f1f77bcf86cd799439011'
+            },
+            variant: {
+              type: 'string',
+              nullable: true
+            },
+            sku: {
+              type: 'string',
+              example: 'TSHIRT-BLK-M'
+            },
+            quantity: {
+              type: 'number',
+              example: 2
+            },
+            status: {
+              type: 'string',
+              enum: ['active', 'converted', 'released', 'expired']
+            },
+            expiresAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            order: {
+              type: 'string',
+              nullable: true,
+              description: 'Order the reservation became part of'
+            }
+          }
+        },
+        StockSubscription: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string'
+            },
+            product: {
+              type: 'string',
+              example: '507f1f77bcf86cd799439011'
+            },
+            email: {
+              type: 'string',
+              example: 'jane@example.com'
+            },
+            status: {
+              type: 'string',
+              enum: ['pending', 'notified', 'cancelled']
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Earlier subscriptions are notified first'
+            }
+          }
+        },
+        Address: {
+          type: 'object',
+          required: ['line1', 'city', 'country'],
+          properties: {
+            line1: {
+              type: 'string',
+              example: 'Friedrichstraße 68'
+            },
+            line2: {
+              type: 'string'
+            },
+            city: {
+              type: 'string',
+              example: 'Berlin'
+            },
+            region: {
+              type: 'string',
+              example: 'Berlin'
+            },
+            postalCode: {
+              type: 'string',
+              example: '10117'
+            },
+            country: {
+              type: 'string',
+              description: 'ISO 3166-1 alpha-2 code',
+              example: 'DE'
+            },
+            latitude: {
+              type: 'number',
+              description: 'With longitude, used to find the closest warehouse',
+              example: 52.5106
+            },
+            longitude: {
+              type: 'number',
+              example: 13.3889
+            }
+          }
+        },
+        Warehouse: {
+          type: 'object',
+          properties: {
+            _id: {
+              type: 'string'
+            },
+            name: {
+              type: 'string',
+              example: 'Berlin fulfillment center'
+            },
+            code: {
+              type: 'string',
+              example: 'BER-1'
+            },
+            address: {
+              $ref: '#/components/schemas/Address'
+            },
+            isDefault: {
+              type: 'boolean',
+              description: 'Receives stock changes that do not name a warehouse'
+            },
+            isActive: {
+              type: 'boolean'
+            },
+            stockQuantity: {
+              type: 'number',
+              description: 'Units held, all products together'
+            }
+          }
+        },
+        InventoryLevel: {
+          type: 'object',
+          properties: {
+            product: {
+              type: 'string'
+            },
+            variant: {
+              type: 'string',
+              nullable: true
+            },
+            warehouse: {
+              type: 'object',
+              description: 'name, code, isDefault and isActive of the warehouse'
+            },
+            quantity: {
+              type: 'number',
+              example: 12
+            }
+          }
+        },
         ProductRequest: {
           type: 'object',
           required: ['name', 'price', 'category'],
@@ -316,6 +861,19 @@ const swaggerOptions: SwaggerOptions = {
               type: 'number',
               example: 50,
               minimum: 0
+            },
+            options: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/ProductOption'
+              }
+            },
+            variants: {
+              type: 'array',
+              description: 'When given, price and quantity are derived from the variants',
+              items: {
+                $ref: '#/components/schemas/ProductVariant'
+              }
             }
           }
         },
@@ -327,6 +885,15 @@ const swaggerOptions: SwaggerOptions = {
             productId: {
               $ref: '#/components/schemas/Product'
             },
+            variantId: {
+              type: 'string',
+              nullable: true,
+              example: '65a1f77bcf86cd7994390a1'
+            },
+            sku: {
+              type: 'string',
+              example: 'TSHIRT-BLK-M'
+            },
             quantity: {
               type: 'number',
               example: 2
@@ -378,6 +945,11 @@ const swaggerOptions: SwaggerOptions = {
               type: 'string',
               example: '507f1f77bcf86cd799439011'
             },
+            variantId: {
+              type: 'string',
+              description: 'Required when the product has variants',
+              example: '65a1f77bcf86cd7994390a1'
+            },
             quantity: {
               type: 'number',
               example: 2,
@@ -393,6 +965,11 @@ const swaggerOptions: SwaggerOptions = {
               type: 'number',
               example: 3,
               minimum: 1
+            },
+            variantId: {
+              type: 'string',
+              description: 'Identifies the cart line when the product has variants',
+              example: '65a1f77bcf86cd7994390a1'
             }
           }
         },
@@ -405,6 +982,31 @@ const swaggerOptions: SwaggerOptions = {
               type: 'string',
               example: '507f1f77bcf86cd799439011'
             },
+            variantId: {
+              type: 'string',
+              nullable: true,
+              example: '65a1f77bcf86cd7994390a1'
+            },
+            sku: {
+              type: 'string',
+              example: 'TSHIRT-BLK-M'
+            },
+            variantOptions: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  name: {
+                    type: 'string',
+                    example: 'size'
+                  },
+                  value: {
+                    type: 'string',
+                    example: 'M'
+                  }
+                }
+              }
+            },
             name: {
               type: 'string',
               example: 'Laptop Pro 15'
@@ -422,6 +1024,26 @@ const swaggerOptions: SwaggerOptions = {
               type: 'number',
               format: 'float',
               example: 1299.99
+            },
+            shipsFrom: {
+              type: 'array',
+              description: 'Warehouses the line ships from',
+              items: {
+                type: 'object',
+                properties: {
+                  warehouse: {
+                    type: 'string'
+                  },
+                  code: {
+                    type: 'string',
+                    example: 'BER-1'
+                  },
+                  quantity: {
+                    type: 'number',
+                    example: 1
+                  }
+                }
+              }
             }
           }
         },
@@ -447,6 +1069,9 @@ const swaggerOptions: SwaggerOptions = {
               format: 'float',
               example: 1299.99
             },
+            shippingAddress: {
+              $ref: '#/components/schemas/Address'
+            },
             status: {
               type: 'string',
               enum: ['pending', 'confirmed', 'shipped', 'delivered', 'cancelled'],
@@ -0,0 +1,137 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middlewares/auth.middleware';
+import * as ApiKeyService from '../services/apiKey.service';
+import { IApiKey, API_KEY_SCOPES } from '../models/apiKey.model';
+
+const MAX_EXPIRY_DAYS = 365;
+
+// Never expose the key hash
+const formatApiKey = (apiKey: IApiKey) => ({
+  id: apiKey._id,
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  scopes: apiKey.scopes,
+  expiresAt: apiKey.expiresAt,
+  lastUsedAt: apiKey.lastUsedAt,
+  lastUsedIp: apiKey.lastUsedIp,
+  revokedAt: apiKey.revokedAt,
+  createdAt: apiKey.createdAt
+});
+
+// Vendor/Admin: Create API key
+export const createApiKey = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const { name, scopes, expiresInDays } = req.body || {};
+
+    if (!name || !Array.isArray(scopes) || scopes.length === 0) {
+      res.status(400).json({ message: 'Please provide name and at least one scope' });
+      return;
+    }
+
+    const invalidScopes = scopes.filter((scope: unknown) =>
+      typeof scope !== 'string' || !ApiKeyService.isValidScope(scope)
+    );
+    if (invalidScopes.length > 0) {
+      res.status(400).json({
+        message: `Invalid scopes: ${invalidScopes.join(', ')}. Allowed scopes: ${API_KEY_SCOPES.join(', ')}`
+      });
+      return;
+    }
+
+    if (expiresInDays !== undefined &&
+        (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_EXPIRY_DAYS)) {
+      res.status(400).json({
+        message: `expiresInDays must be a whole number between 1 and ${MAX_EXPIRY_DAYS}`
+      });
+      return;
+    }
+
+    const { apiKey, key } = await ApiKeyService.createApiKey(req.user.id, {
+      name,
+      scopes,
+      expiresInDays
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'API key created. Copy it now; it will not be shown again.',
+      key,
+      apiKey: formatApiKey(apiKey)
+    });
+  } catch (error: any) {
+    if (error.message.includes('active API keys')) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    if (error.name === 'ValidationError') {
+      res.status(400).json({
+        message: 'Validation error',
+        errors: error.errors
+      });
+      return;
+    }
+    res.status(500).json({
+      message: 'Error creating API key',
+      error: error.message
+    });
+  }
+};
+
+// Vendor/Admin: List own API keys
+export const getMyApiKeys = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const apiKeys = await ApiKeyService.getUserApiKeys(req.user.id);
+
+    res.status(200).json({
+      success: true,
+      count: apiKeys.length,
+      apiKeys: apiKeys.map(formatApiKey)
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      message: 'Error fetching API keys',
+      error: error.message
+    });
+  }
+};
+
+// Vendor/Admin: Revoke own API key
+export const revokeApiKey = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const apiKey = await ApiKeyService.revokeApiKey(req.user.id, req.params.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'API key revoked',
+      apiKey: formatApiKey(apiKey)
+    });
+  } catch (error: any) {
+    if (error.message === 'API key not found') {
+      res.status(404).json({ message: error.message });
+      return;
+    }
+    if (error.kind === 'ObjectId') {
+      res.status(400).json({ message: 'Invalid API key ID format' });
+      return;
+    }
+    res.status(500).json({
+      message: 'Error revoking API key',
+      error: error.message
+    });
+  }
+};
@@ -0,0 +1,38 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import { AuthRequest } from '../middlewares/auth.middleware';
+import * as AuditService from '../services/audit.service';
+
+// Admin: Browse the audit trail
+export const getAuditLogs = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const actorId = req.query.actorId as string;
+    const subjectId = req.query.subjectId as string;
+
+    if ((actorId && !mongoose.isValidObjectId(actorId)) ||
+        (subjectId && !mongoose.isValidObjectId(subjectId))) {
+      res.status(400).json({ message: 'Invalid user ID format' });
+      return;
+    }
+
+    const filters = {
+      action: req.query.action as string,
+      actorId,
+      subjectId,
+      page: req.query.page ? Number(req.query.page) : 1,
+      limit: req.query.limit ? Number(req.query.limit) : 20
+    };
+
+    const result = await AuditService.getAuditLogs(filters);
+
+    res.status(200).json({
+      success: true,
+      ...result
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      message: 'Error fetching audit logs',
+      error: error.message
+    });
+  }
+};
@@ -4,17 +4,29 @@ import * as AuthService from '../services/auth.service';
 import { 
   sendWelcomeEmail, 
   sendPasswordResetEmail, 
-  sendPasswordChangedEmail 
+  sendPasswordChangedEmail,
+  sendEmailVerificationEmail
 } from '../services/email.service';
 import { User } from '../models/user.model';
-import { deleteFile } from '../middlewares/upload.middleware';
+import * as SessionService from '../services/session.service';
+import * as PasswordPolicyService from '../services/passwordPolicy.service';
+import * as PrivacyService from '../services/privacy.service';
+import * as UserService from '../services/user.service';
+import * as ApiKeyService from '../services/apiKey.service';
+import { SessionMetadata } from '../services/session.service';
+
+// Device details recorded on the server-side session
+const getSessionMetadata = (req: AuthRequest): SessionMetadata => ({
+  userAgent: req.get('user-agent'),
+  ipAddress: req.ip
+});
 
 // @desc    Register new user
 // @route   POST /api/auth/register
 // @access  Public
 export const register = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const { firstName, lastName, email, password, age, role } = req.body;
+    const { firstName, lastName, email, password, age } = req.body;
 
     // Validation
     if (!firstName || !lastName || !email || !password) {
@@ -24,24 +36,22 @@ export const register = async (req: AuthRequest, res: Response): Promise<void> =
       return;
     }
 
-    const { user, token } = await AuthService.registerUser({
+    const { user, verificationToken } = await AuthService.registerUser({
       firstName,
       lastName,
       email,
       password,
-      age,
-      role
+      age
     });
 
-    // Send welcome email (don't wait for it)
-    sendWelcomeEmail(user.email, user.firstName).catch(err => {
-      console.error('Failed to send welcome email:', err);
+    // Send verification email (don't wait for it)
+    sendEmailVerificationEmail(user.email, user.firstName, verificationToken).catch(err => {
+      console.error('Failed to send verification email:', err);
     });
 
     res.status(201).json({
       success: true,
-      message: 'User registered successfully',
-      token,
+      message: 'User registered successfully. Please check your email to verify your account.',
       user: {
         id: user._id,
         firstName: user.firstName,
@@ -57,6 +67,14 @@ export const register = async (req: AuthRequest, res: Response): Promise<void> =
       res.status(400).json({ message: error.message });
       return;
     }
+    if (error.name === 'PasswordPolicyError') {
+      res.status(400).json({ 
+        message: error.message, 
+        code: 'PASSWORD_POLICY_VIOLATION', 
+        violations: error.violations 
+      });
+      return;
+    }
     if (error.name === 'ValidationError') {
       res.status(400).json({ 
         message: 'Validation error', 
@@ -80,12 +98,31 @@ export const login = async (req: AuthRequest, res: Response): Promise<void> => {
       return;
     }
 
-    const { user, token } = await AuthService.loginUser(email, password);
+    const {
+      user,
+      token,
+      refreshToken,
+      twoFactorRequired,
+      challengeToken,
+      twoFactorSetupRequired
+    } = await AuthService.loginUser(email, password, getSessionMetadata(req));
+
+    if (twoFactorRequired) {
+      res.status(200).json({
+        success: true,
+        message: 'Two-factor authentication required',
+        twoFactorRequired: true,
+        challengeToken
+      });
+      return;
+    }
 
     res.status(200).json({
       success: true,
       message: 'Login successful',
       token,
+      refreshToken,
+      twoFactorSetupRequired,
       user: {
         id: user._id,
         firstName: user.firstName,
@@ -97,6 +134,18 @@ export const login = async (req: AuthRequest, res: Response): Promise<void> => {
       }
     });
   } catch (error: any) {
+    if (error.message === 'Email address has not been verified') {
+      res.status(403).json({ message: error.message, code: 'EMAIL_NOT_VERIFIED' });
+      return;
+    }
+    if (error.message.startsWith('Account is temporarily locked')) {
+      res.status(423).json({ message: error.message, code: 'ACCOUNT_LOCKED' });
+      return;
+    }
+    if (error.message.startsWith('Too many failed login attempts')) {
+      res.status(429).json({ message: error.message, code: 'TOO_MANY_ATTEMPTS' });
+      return;
+    }
     if (error.message === 'Invalid email or password' || 
         error.message.includes('Account is not active')) {
       res.status(401).json({ message: error.message });
@@ -109,6 +158,152 @@ export const login = async (req: AuthRequest, res: Response): Promise<void> => {
   }
 };
 
+// @desc    Complete login with a two-factor code
+// @route   POST /api/v1/auth/login/2fa
+// @access  Public (requires login challenge token)
+export const loginTwoFactor = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body || {};
+
+    if (!challengeToken || (!code && !recoveryCode)) {
+      res.status(400).json({ 
+        message: 'Please provide challengeToken and either code or recoveryCode' 
+      });
+      return;
+    }
+
+    const { user, token, refreshToken, recoveryCodeUsed } = await AuthService.completeTwoFactorLogin(
+      challengeToken,
+      { code, recoveryCode },
+      getSessionMetadata(req)
+    );
+
+    res.status(200).json({
+      success: true,
+      message: recoveryCodeUsed
+        ? 'Login successful. A recovery code was used and cannot be used again.'
+        : 'Login successful',
+      token,
+      refreshToken,
+      user: {
+        id: user._id,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        email: user.email,
+        age: user.age,
+        status: user.status,
+        role: user.role
+      }
+    });
+  } catch (error: any) {
+    if (error.message.startsWith('Account is temporarily locked')) {
+      res.status(423).json({ message: error.message, code: 'ACCOUNT_LOCKED' });
+      return;
+    }
+    if (error.message.startsWith('Too many failed login attempts')) {
+      res.status(429).json({ message: error.message, code: 'TOO_MANY_ATTEMPTS' });
+      return;
+    }
+    if (error.message === 'Invalid two-factor code' ||
+        error.message === 'Invalid or expired login challenge' ||
+        error.message.includes('Account is not active')) {
+      res.status(401).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ 
+      message: 'Error completing two-factor login', 
+      error: error.message 
+    });
+  }
+};
+
+
+// @desc    Verify email address and activate account
+// @route   POST /api/v1/auth/verify-email
+// @access  Public
+export const verifyEmail = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { token } = req.body || {};
+
+    if (!token) {
+      res.status(400).json({ message: 'Verification token is required' });
+      return;
+    }
+
+    const { user, token: accessToken, refreshToken } = await AuthService.verifyEmail(
+      token,
+      getSessionMetadata(req)
+    );
+
+    // Send welcome email now that the account is active
+    sendWelcomeEmail(user.email, user.firstName).catch(err => {
+      console.error('Failed to send welcome email:', err);
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Email verified successfully',
+      token: accessToken,
+      refreshToken,
+      user: {
+        id: user._id,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        email: user.email,
+        age: user.age,
+        status: user.status,
+        role: user.role
+      }
+    });
+  } catch (error: any) {
+    if (error.message === 'Invalid or expired verification token') {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ 
+      message: 'Error verifying email', 
+      error: error.message 
+    });
+  }
+};
+
+// @desc    Resend email verification link
+// @route   POST /api/v1/auth/resend-verification
+// @access  Public
+export const resendVerification = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { email } = req.body || {};
+
+    if (!email) {
+      res.status(400).json({ message: 'Please provide email' });
+      return;
+    }
+
+    const { user, verificationToken } = await AuthService.resendVerificationEmail(email);
+
+    sendEmailVerificationEmail(user.email, user.firstName, verificationToken).catch(err => {
+      console.error('Failed to send verification email:', err);
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Verification email sent'
+    });
+  } catch (error: any) {
+    if (error.message === 'No user found with this email') {
+      res.status(404).json({ message: error.message });
+      return;
+    }
+    if (error.message === 'Email address is already verified') {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ 
+      message: 'Error resending verification email', 
+      error: error.message 
+    });
+  }
+};
 
 export const getProfile = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
@@ -201,14 +396,7 @@ export const changePassword = async (req: AuthRequest, res: Response): Promise<v
       return;
     }
 
-    if (newPassword.length < 8) {
-      res.status(400).json({ 
-        message: 'New password must be at least 8 characters' 
-      });
-      return;
-    }
-
-    await AuthService.changePassword(req.user.id, currentPassword, newPassword);
+    await AuthService.changePassword(req.user.id, currentPassword, newPassword, req.user.sessionId);
 
     // Send password changed confirmation email
     const user = await AuthService.getUserProfile(req.user.id);
@@ -227,6 +415,14 @@ export const changePassword = async (req: AuthRequest, res: Response): Promise<v
       res.status(400).json({ message: error.message });
       return;
     }
+    if (error.name === 'PasswordPolicyError') {
+      res.status(400).json({ 
+        message: error.message, 
+        code: 'PASSWORD_POLICY_VIOLATION', 
+        violations: error.violations 
+      });
+      return;
+    }
     res.status(500).json({ 
       message: 'Error changing password', 
       error: error.message 
@@ -235,6 +431,23 @@ export const changePassword = async (req: AuthRequest, res: Response): Promise<v
 };
 
 
+// @desc    Get the password rules new passwords must follow
+// @route   GET /api/v1/auth/password-policy
+// @access  Public
+export const getPasswordPolicy = async (req: AuthRequest, res: Response): Promise<void> => {
+  const { historySize, ...rules } = PasswordPolicyService.getPasswordPolicy();
+
+  res.status(200).json({
+    success: true,
+    policy: {
+      ...rules,
+      disallowPersonalInfo: true,
+      disallowCommonPasswords: true,
+      historySize
+    }
+  });
+};
+
 export const forgotPassword = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     // Debug logging
@@ -298,13 +511,6 @@ export const resetPassword = async (req: AuthRequest, res: Response): Promise<vo
       return;
     }
 
-    if (newPassword.length < 8) {
-      res.status(400).json({ 
-        message: 'Password must be at least 8 characters' 
-      });
-      return;
-    }
-
     await AuthService.resetPassword(token, newPassword);
 
     res.status(200).json({
@@ -316,6 +522,14 @@ export const resetPassword = async (req: AuthRequest, res: Response): Promise<vo
       res.status(400).json({ message: error.message });
       return;
     }
+    if (error.name === 'PasswordPolicyError') {
+      res.status(400).json({ 
+        message: error.message, 
+        code: 'PASSWORD_POLICY_VIOLATION', 
+        violations: error.violations 
+      });
+      return;
+    }
     res.status(500).json({ 
       message: 'Error resetting password', 
       error: error.message 
@@ -324,12 +538,218 @@ export const resetPassword = async (req: AuthRequest, res: Response): Promise<vo
 };
 
 
+// @desc    Exchange refresh token for a new token pair
+// @route   POST /api/v1/auth/refresh
+// @access  Public
+export const refreshToken = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { refreshToken } = req.body || {};
+
+    if (!refreshToken) {
+      res.status(400).json({ message: 'Refresh token is required' });
+      return;
+    }
+
+    const tokens = await AuthService.refreshAccessToken(refreshToken);
+
+    res.status(200).json({
+      success: true,
+      message: 'Token refreshed successfully',
+      token: tokens.token,
+      refreshToken: tokens.refreshToken
+    });
+  } catch (error: any) {
+    if (error.message === 'Invalid or expired refresh token' ||
+        error.message.includes('Refresh token reuse detected')) {
+      res.status(401).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ 
+      message: 'Error refreshing token', 
+      error: error.message 
+    });
+  }
+};
+
 export const logout = async (req: AuthRequest, res: Response): Promise<void> => {
- 
-  res.status(200).json({
-    success: true,
-    message: 'Logged out successfully. Please remove token from client.'
-  });
+  try {
+    if (req.user?.sessionId) {
+      await AuthService.logoutUser(req.user.sessionId);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Logged out successfully'
+    });
+  } catch (error: any) {
+    res.status(500).json({ 
+      message: 'Error logging out', 
+      error: error.message 
+    });
+  }
+};
+
+// @desc    List active sessions (devices) of the current user
+// @route   GET /api/v1/auth/sessions
+// @access  Private
+export const getSessions = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authorized' });
+      return;
+    }
+
+    const sessions = await AuthService.getUserSessions(req.user.id);
+
+    res.status(200).json({
+      success: true,
+      count: sessions.length,
+      sessions: sessions.map(session => ({
+        id: session._id,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastSeenAt: session.lastSeenAt,
+        current: session._id.toString() === req.user!.sessionId
+      }))
+    });
+  } catch (error: any) {
+    res.status(500).json({ 
+      message: 'Error fetching sessions', 
+      error: error.message 
+    });
+  }
+};
+
+// @desc    Sign out a single session (device)
+// @route   DELETE /api/v1/auth/sessions/:id
+// @access  Private
+export const revokeSession = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authorized' });
+      return;
+    }
+
+    await AuthService.revokeUserSession(req.user.id, req.params.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Session revoked successfully'
+    });
+  } catch (error: any) {
+    if (error.message === 'Session not found') {
+      res.status(404).json({ message: error.message });
+      return;
+    }
+    if (error.kind === 'ObjectId') {
+      res.status(400).json({ message: 'Invalid session ID format' });
+      return;
+    }
+    res.status(500).json({ 
+      message: 'Error revoking session', 
+      error: error.message 
+    });
+  }
+};
+
+// @desc    Sign out everywhere
+// @route   DELETE /api/v1/auth/sessions
+// @access  Private
+export const revokeAllSessions = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authorized' });
+      return;
+    }
+
+    const revokedCount = await AuthService.logoutAllDevices(req.user.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Signed out of all sessions',
+      revokedCount
+    });
+  } catch (error: any) {
+    res.status(500).json({ 
+      message: 'Error revoking sessions', 
+      error: error.message 
+    });
+  }
+};
+
+// @desc    Download a copy of my personal data
+// @route   GET /api/v1/auth/me/export
+// @access  Private
+export const exportMyData = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authorized' });
+      return;
+    }
+
+    const archive = await PrivacyService.exportUserData(req.user.id);
+
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="account-export-${req.user.id}.json"`
+    );
+    res.status(200).json(archive);
+  } catch (error: any) {
+    if (error.message === 'User not found') {
+      res.status(404).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ 
+      message: 'Error exporting account data', 
+      error: error.message 
+    });
+  }
+};
+
+// @desc    Erase my account and personal data
+// @route   DELETE /api/v1/auth/me
+// @access  Private
+export const eraseMyAccount = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authorized' });
+      return;
+    }
+
+    const { password, code, recoveryCode } = req.body || {};
+
+    if (!password) {
+      res.status(400).json({ message: 'Please provide your password' });
+      return;
+    }
+
+    const result = await PrivacyService.eraseOwnAccount(
+      req.user.id,
+      { password, code, recoveryCode },
+      getSessionMetadata(req)
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Your account and personal data have been erased',
+      erasure: result
+    });
+  } catch (error: any) {
+    if (error.message === 'User not found') {
+      res.status(404).json({ message: error.message });
+      return;
+    }
+    if (error.message === 'Current password is incorrect' ||
+        error.message === 'Invalid two-factor code') {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ 
+      message: 'Error erasing account', 
+      error: error.message 
+    });
+  }
 };
 
 export const getAllUsers = async (req: AuthRequest, res: Response): Promise<void> => {
@@ -350,6 +770,7 @@ export const getAllUsers = async (req: AuthRequest, res: Response): Promise<void
 };
 
 
+// Soft-deletes the account; its personal data is erased when the purge job runs
 export const deleteUser = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
@@ -359,27 +780,21 @@ export const deleteUser = async (req: AuthRequest, res: Response): Promise<void>
       return;
     }
 
-    const user = await User.findById(id);
-    if (!user) {
-      res.status(404).json({ message: 'User not found' });
-      return;
-    }
-
-    if (user.profilePicture) {
-      try {
-        await deleteFile(user.profilePicture);
-      } catch (err) {
-        console.error('Failed to delete profile picture:', err);
-      }
-    }
-
-    await user.deleteOne();
+    const user = await UserService.softDeleteUser(id, {
+      id: req.user!.id,
+      ...getSessionMetadata(req)
+    });
 
     res.status(200).json({
       success: true,
-      message: 'User deleted successfully'
+      message: 'User deleted successfully',
+      deletedAt: user.deletedAt
     });
   } catch (error: any) {
+    if (error.message === 'User not found') {
+      res.status(404).json({ message: error.message });
+      return;
+    }
     if (error.kind === 'ObjectId') {
       res.status(400).json({ message: 'Invalid user ID format' });
       return;
@@ -410,6 +825,12 @@ export const updateUser = async (req: AuthRequest, res: Response): Promise<void>
       return;
     }
 
+    // Deactivated accounts lose every already-issued token
+    if (status === 'inactive') {
+      await SessionService.revokeAllUserSessions(id, 'account_deactivated');
+      await ApiKeyService.revokeAllUserApiKeys(id);
+    }
+
     res.status(200).json({
       success: true,
       message: 'User updated successfully',
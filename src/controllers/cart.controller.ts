@@ -1,6 +1,7 @@
 import { Response } from 'express';
 import { AuthRequest } from '../middlewares/auth.middleware';
 import * as CartService from '../services/cart.service';
+import * as ReservationService from '../services/reservation.service';
 
 export const getCart = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
@@ -30,7 +31,7 @@ export const addItemToCart = async (req: AuthRequest, res: Response): Promise<vo
       return;
     }
 
-    const { productId, quantity } = req.body;
+    const { productId, quantity, variantId } = req.body;
 
     if (!productId || !quantity) {
       res.status(400).json({ message: 'Product ID and quantity are required' });
@@ -42,7 +43,7 @@ export const addItemToCart = async (req: AuthRequest, res: Response): Promise<vo
       return;
     }
 
-    const cart = await CartService.addItemToCart(req.user.id, productId, quantity);
+    const cart = await CartService.addItemToCart(req.user.id, productId, quantity, variantId);
 
     res.status(200).json({
       success: true,
@@ -50,10 +51,15 @@ export const addItemToCart = async (req: AuthRequest, res: Response): Promise<vo
       cart
     });
   } catch (error: any) {
-    if (error.message === 'Product not found') {
+    if (error.message === 'Product not found' || error.message === 'Variant not found') {
       res.status(404).json({ message: error.message });
       return;
     }
+    if (error.message.startsWith('Please choose a variant') ||
+        error.message.endsWith('is not available for purchase')) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
     if (error.message.includes('out of stock') || error.message.includes('Insufficient')) {
       res.status(400).json({ message: error.message });
       return;
@@ -74,7 +80,7 @@ export const updateCartItem = async (req: AuthRequest, res: Response): Promise<v
     }
 
     const { productId } = req.params;
-    const { quantity } = req.body;
+    const { quantity, variantId } = req.body;
 
     if (!quantity) {
       res.status(400).json({ message: 'Quantity is required' });
@@ -86,7 +92,7 @@ export const updateCartItem = async (req: AuthRequest, res: Response): Promise<v
       return;
     }
 
-    const cart = await CartService.updateCartItem(req.user.id, productId, quantity);
+    const cart = await CartService.updateCartItem(req.user.id, productId, quantity, variantId);
 
     res.status(200).json({
       success: true,
@@ -94,7 +100,8 @@ export const updateCartItem = async (req: AuthRequest, res: Response): Promise<v
       cart
     });
   } catch (error: any) {
-    if (error.message === 'Cart not found' || error.message === 'Product not found') {
+    if (error.message === 'Cart not found' || error.message === 'Product not found' ||
+        error.message === 'Variant not found') {
       res.status(404).json({ message: error.message });
       return;
     }
@@ -102,6 +109,11 @@ export const updateCartItem = async (req: AuthRequest, res: Response): Promise<v
       res.status(404).json({ message: error.message });
       return;
     }
+    if (error.message.startsWith('Please choose a variant') ||
+        error.message.endsWith('is not available for purchase')) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
     if (error.message.includes('Insufficient')) {
       res.status(400).json({ message: error.message });
       return;
@@ -122,7 +134,9 @@ export const removeCartItem = async (req: AuthRequest, res: Response): Promise<v
 
     const { productId } = req.params;
 
-    const cart = await CartService.removeCartItem(req.user.id, productId);
+    const variantId = req.query.variantId as string | undefined;
+
+    const cart = await CartService.removeCartItem(req.user.id, productId, variantId);
 
     res.status(200).json({
       success: true,
@@ -166,3 +180,60 @@ export const clearCart = async (req: AuthRequest, res: Response): Promise<void>
     });
   }
 };
+
+// Hold the stock of every cart line while the customer completes the order
+export const checkout = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authorized' });
+      return;
+    }
+
+    const { reservations, expiresAt } = await ReservationService.reserveCart(req.user.id);
+
+    res.status(200).json({
+      success: true,
+      message: `Stock reserved for ${ReservationService.getReservationTtlMinutes()} minutes`,
+      expiresAt,
+      reservations
+    });
+  } catch (error: any) {
+    if (error.message === 'Variant not found' || (error.message.startsWith('Product ') && error.message.endsWith('not found'))) {
+      res.status(404).json({ message: error.message });
+      return;
+    }
+    if (error.message === 'Cannot check out an empty cart' ||
+        error.message.startsWith('Please choose a variant') ||
+        error.message.endsWith('is not available for purchase') ||
+        error.message.startsWith('Insufficient stock')) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({
+      message: 'Error reserving stock',
+      error: error.message
+    });
+  }
+};
+
+export const cancelCheckout = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Not authorized' });
+      return;
+    }
+
+    const released = await ReservationService.cancelCheckout(req.user.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Reserved stock released',
+      released
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      message: 'Error releasing reserved stock',
+      error: error.message
+    });
+  }
+};
@@ -1,14 +1,28 @@
 import { Request, Response } from 'express';
-import { AuthRequest } from '../middlewares/auth.middleware';
+import mongoose from 'mongoose';
+import { AuthRequest, hasPermission } from '../middlewares/auth.middleware';
 import * as CategoryService from '../services/category.service';
 
+// Archived and deleted categories are only listed for category managers, who
+// may filter on isActive and ask for deleted ones
+const getVisibilityFilter = (req: AuthRequest): { isActive?: boolean; excludeArchived: boolean; includeDeleted: boolean } => {
+  if (!hasPermission(req.user, 'categories:write')) {
+    return { isActive: true, excludeArchived: true, includeDeleted: false };
+  }
+  return {
+    isActive: req.query.isActive === 'true' ? true : req.query.isActive === 'false' ? false : undefined,
+    excludeArchived: false,
+    includeDeleted: req.query.includeDeleted === 'true'
+  };
+};
+
 // @desc    Get all categories
 // @route   GET /api/categories
-// @access  Public
-export const getAllCategories = async (req: Request, res: Response): Promise<void> => {
+// @access  Public (archived categories: categories:write)
+export const getAllCategories = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const filters = {
-      isActive: req.query.isActive === 'true' ? true : req.query.isActive === 'false' ? false : undefined,
+      ...getVisibilityFilter(req),
       search: req.query.search as string
     };
 
@@ -27,6 +41,31 @@ export const getAllCategories = async (req: Request, res: Response): Promise<voi
   }
 };
 
+// @desc    Get categories as a nested tree
+// @route   GET /api/categories/tree
+// @access  Public (archived categories: categories:write)
+export const getCategoryTree = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const tree = await CategoryService.getCategoryTree({
+      isActive: getVisibilityFilter(req).isActive
+    });
+
+    res.status(200).json({
+      success: true,
+      tree
+    });
+  } catch (error: any) {
+    res.status(500).json({ 
+      message: 'Error fetching category tree', 
+      error: error.message 
+    });
+  }
+};
+
+const isTreeError = (message: string): boolean => {
+  return message === 'Parent category not found' || message.startsWith('A category cannot');
+};
+
 // @desc    Get single category
 // @route   GET /api/categories/:id
 // @access  Public
@@ -60,16 +99,28 @@ export const getCategoryById = async (req: Request, res: Response): Promise<void
 // @access  Private
 export const createCategory = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const { name, description } = req.body;
+    const { name, description, attributeSchema, parent } = req.body;
 
     if (!name) {
       res.status(400).json({ message: 'Category name is required' });
       return;
     }
 
+    if (attributeSchema !== undefined && !Array.isArray(attributeSchema)) {
+      res.status(400).json({ message: 'attributeSchema must be an array' });
+      return;
+    }
+
+    if (parent && !mongoose.isValidObjectId(parent)) {
+      res.status(400).json({ message: 'Invalid parent category ID format' });
+      return;
+    }
+
     const category = await CategoryService.createCategory({
       name,
-      description
+      description,
+      attributeSchema,
+      parent: parent || null
     });
 
     res.status(201).json({
@@ -82,6 +133,10 @@ export const createCategory = async (req: AuthRequest, res: Response): Promise<v
       res.status(400).json({ message: 'Category with this name already exists' });
       return;
     }
+    if (isTreeError(error.message)) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
     if (error.name === 'ValidationError') {
       res.status(400).json({ 
         message: 'Validation error', 
@@ -101,12 +156,25 @@ export const createCategory = async (req: AuthRequest, res: Response): Promise<v
 // @access  Private
 export const updateCategory = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const { name, description, isActive } = req.body;
+    const { name, description, isActive, attributeSchema, parent } = req.body;
+
+    if (attributeSchema !== undefined && !Array.isArray(attributeSchema)) {
+      res.status(400).json({ message: 'attributeSchema must be an array' });
+      return;
+    }
+
+    if (parent && !mongoose.isValidObjectId(parent)) {
+      res.status(400).json({ message: 'Invalid parent category ID format' });
+      return;
+    }
 
     const updateData: any = {};
     if (name !== undefined) updateData.name = name;
     if (description !== undefined) updateData.description = description;
     if (isActive !== undefined) updateData.isActive = isActive;
+    if (attributeSchema !== undefined) updateData.attributeSchema = attributeSchema;
+    // null or an empty string moves the category to the top level
+    if (parent !== undefined) updateData.parent = parent || null;
 
     const category = await CategoryService.updateCategory(req.params.id, updateData);
 
@@ -125,6 +193,10 @@ export const updateCategory = async (req: AuthRequest, res: Response): Promise<v
       res.status(400).json({ message: 'Category with this name already exists' });
       return;
     }
+    if (isTreeError(error.message)) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
     if (error.kind === 'ObjectId') {
       res.status(400).json({ message: 'Invalid category ID format' });
       return;
@@ -143,23 +215,45 @@ export const updateCategory = async (req: AuthRequest, res: Response): Promise<v
   }
 };
 
-// @desc    Delete category
-// @route   DELETE /api/categories/:id
+// @desc    Delete category, moving its products to another category
+// @route   DELETE /api/categories/:id?reassignTo=:categoryId
 // @access  Private
 export const deleteCategory = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const deleted = await CategoryService.deleteCategory(req.params.id);
+    const reassignTo = req.query.reassignTo as string | undefined;
+
+    if (reassignTo && !mongoose.isValidObjectId(reassignTo)) {
+      res.status(400).json({ message: 'Invalid target category ID format' });
+      return;
+    }
 
-    if (!deleted) {
+    const result = await CategoryService.deleteCategory(req.params.id, { reassignTo, deletedBy: req.user!.id });
+
+    if (!result) {
       res.status(404).json({ message: 'Category not found' });
       return;
     }
 
     res.status(200).json({
       success: true,
-      message: 'Category deleted successfully'
+      message: 'Category deleted successfully',
+      ...result
     });
   } catch (error: any) {
+    if (error.message === 'Category has subcategories') {
+      res.status(400).json({ message: 'Move or delete the subcategories first' });
+      return;
+    }
+    if (/^Category has \d+ products$/.test(error.message)) {
+      res.status(400).json({
+        message: `${error.message}. Pass reassignTo to move them to another category, or archive the category instead.`
+      });
+      return;
+    }
+    if (error.message === 'Target category not found' || error.message.startsWith('Products cannot be reassigned')) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
     if (error.kind === 'ObjectId') {
       res.status(400).json({ message: 'Invalid category ID format' });
       return;
@@ -170,3 +264,98 @@ export const deleteCategory = async (req: AuthRequest, res: Response): Promise<v
     });
   }
 };
+
+// @desc    Restore a soft-deleted category
+// @route   PATCH /api/categories/:id/restore
+// @access  Private
+export const restoreCategory = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const category = await CategoryService.restoreCategory(req.params.id);
+
+    if (!category) {
+      res.status(404).json({ message: 'Deleted category not found' });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Category restored successfully',
+      category
+    });
+  } catch (error: any) {
+    if (error.message === 'Restore the parent category first') {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    if (error.code === 11000) {
+      res.status(400).json({ message: 'Category with this name already exists' });
+      return;
+    }
+    if (error.kind === 'ObjectId') {
+      res.status(400).json({ message: 'Invalid category ID format' });
+      return;
+    }
+    res.status(500).json({ 
+      message: 'Error restoring category', 
+      error: error.message 
+    });
+  }
+};
+
+// @desc    Archive category (hides it, its subcategories and their products from public listings)
+// @route   PATCH /api/categories/:id/archive
+// @access  Private
+export const archiveCategory = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const category = await CategoryService.setCategoryArchived(req.params.id, true);
+
+    if (!category) {
+      res.status(404).json({ message: 'Category not found' });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Category archived successfully',
+      category
+    });
+  } catch (error: any) {
+    if (error.kind === 'ObjectId') {
+      res.status(400).json({ message: 'Invalid category ID format' });
+      return;
+    }
+    res.status(500).json({ 
+      message: 'Error archiving category', 
+      error: error.message 
+    });
+  }
+};
+
+// @desc    Restore an archived category
+// @route   PATCH /api/categories/:id/unarchive
+// @access  Private
+export const unarchiveCategory = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const category = await CategoryService.setCategoryArchived(req.params.id, false);
+
+    if (!category) {
+      res.status(404).json({ message: 'Category not found' });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Category restored successfully',
+      category
+    });
+  } catch (error: any) {
+    if (error.kind === 'ObjectId') {
+      res.status(400).json({ message: 'Invalid category ID format' });
+      return;
+    }
+    res.status(500).json({ 
+      message: 'Error restoring category', 
+      error: error.message 
+    });
+  }
+};
@@ -1,5 +1,5 @@
 import { Response } from 'express';
-import { AuthRequest } from '../middlewares/auth.middleware';
+import { AuthRequest, hasPermission } from '../middlewares/auth.middleware';
 import * as OrderService from '../services/order.service';
 import * as AuthService from '../services/auth.service';
 import { sendOrderConfirmationEmail, sendOrderStatusUpdateEmail } from '../services/email.service';
@@ -12,7 +12,14 @@ export const createOrder = async (req: AuthRequest, res: Response): Promise<void
       return;
     }
 
-    const order = await OrderService.createOrderFromCart(req.user.id);
+    // Optional; without it the order ships from the default warehouse first
+    const { shippingAddress } = req.body || {};
+    if (shippingAddress !== undefined && (typeof shippingAddress !== 'object' || Array.isArray(shippingAddress))) {
+      res.status(400).json({ message: 'shippingAddress must be an object' });
+      return;
+    }
+
+    const order = await OrderService.createOrderFromCart(req.user.id, shippingAddress || undefined);
 
     // Send order placed email
     const user = await AuthService.getUserProfile(req.user.id);
@@ -33,10 +40,21 @@ export const createOrder = async (req: AuthRequest, res: Response): Promise<void
       order
     });
   } catch (error: any) {
-    if (error.message === 'Cannot create order from empty cart') {
+    if (error.message === 'Cannot create order from empty cart' ||
+        error.message.startsWith('Insufficient stock') ||
+        error.message.startsWith('Please choose a variant') ||
+        error.message.endsWith('is not available for purchase') ||
+        error.message === 'Variant not found') {
       res.status(400).json({ message: error.message });
       return;
     }
+    if (error.name === 'ValidationError') {
+      res.status(400).json({
+        message: 'Validation error',
+        errors: error.errors
+      });
+      return;
+    }
     res.status(500).json({
       message: 'Error creating order',
       error: error.message
@@ -83,8 +101,8 @@ export const getOrderById = async (req: AuthRequest, res: Response): Promise<voi
       return;
     }
 
-    // Check ownership (customers can only view their own orders)
-    if (req.user.role !== 'admin' && order.userId.toString() !== req.user.id) {
+    // Check ownership (only users who can read all orders may view others')
+    if (!hasPermission(req.user, 'orders:read-all') && order.userId.toString() !== req.user.id) {
       res.status(403).json({
         message: 'Access denied. You can only view your own orders.'
       });
@@ -171,6 +189,29 @@ export const getAllOrders = async (req: AuthRequest, res: Response): Promise<voi
   }
 };
 
+// Vendor: Get orders containing own products
+export const getVendorOrders = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const filters = {
+      status: req.query.status as string,
+      page: req.query.page ? Number(req.query.page) : 1,
+      limit: req.query.limit ? Number(req.query.limit) : 10
+    };
+
+    const result = await OrderService.getVendorOrders(req.user!.id, filters);
+
+    res.status(200).json({
+      success: true,
+      ...result
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      message: 'Error fetching orders',
+      error: error.message
+    });
+  }
+};
+
 // Admin: Update order status
 export const updateOrderStatus = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
@@ -190,7 +231,7 @@ export const updateOrderStatus = async (req: AuthRequest, res: Response): Promis
       return;
     }
 
-    const order = await OrderService.updateOrderStatus(id, status);
+    const order = await OrderService.updateOrderStatus(id, status, req.user!.id);
 
     if (!order) {
       res.status(404).json({ message: 'Order not found' });
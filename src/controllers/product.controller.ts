@@ -1,58 +1,141 @@
 import { Request, Response } from 'express';
-import { AuthRequest } from '../middlewares/auth.middleware';
+import { hasPermission, AuthRequest } from '../middlewares/auth.middleware';
 import * as ProductService from '../services/product.service';
+import * as SearchService from '../services/search.service';
+import * as SuggestService from '../services/suggest.service';
+import * as CategoryService from '../services/category.service';
+import * as ProductImportService from '../services/productImport.service';
+import * as InventoryService from '../services/inventory.service';
+import * as StockAlertService from '../services/stockAlert.service';
+import * as BackInStockService from '../services/backInStock.service';
 import { deleteFile, getFileUrl } from '../middlewares/upload.middleware';
-import { Product } from '../models/product.model';
+import { Product, IProduct, PRODUCT_STATUSES, ProductStatus } from '../models/product.model';
+import { STOCK_MOVEMENT_REASONS, StockMovementReason } from '../models/stockMovement.model';
 import { Category } from '../models/category.model';
 import { getPaginationParams, getPaginationMeta } from '../utils/pagination.helper';
 import { successResponse, errorResponse, paginatedResponse } from '../utils/response.helper';
 import mongoose from 'mongoose';
 
+const canSeeAllStatuses = (user: AuthRequest['user']): boolean =>
+  hasPermission(user, 'products:manage-all') || hasPermission(user, 'products:publish');
+
+// Published products are public. Vendors also see their own products in any
+// status; reviewers and admins see every product.
+const getStatusVisibilityFilter = (user: AuthRequest['user']): Record<string, unknown> | null => {
+  if (canSeeAllStatuses(user)) {
+    return null;
+  }
+  if (user && hasPermission(user, 'products:write')) {
+    return { $or: [{ status: 'published' }, { createdBy: new mongoose.Types.ObjectId(user.id) }] };
+  }
+  return { status: 'published' };
+};
+
+export const canViewProduct = (user: AuthRequest['user'], product: IProduct): boolean => {
+  if (product.status === 'published' || canSeeAllStatuses(user)) {
+    return true;
+  }
+  return !!user && !!product.createdBy && product.createdBy.toString() === user.id;
+};
+
+interface ProductListQuery {
+  filter: any;
+  withDeleted: boolean;
+  // The category filter names no category, so nothing can match
+  matchesNothing: boolean;
+}
+
+// Filters shared by the product listing and the export. Sends a 400 and
+// returns null when a query value is invalid.
+const buildProductListQuery = async (req: AuthRequest, res: Response): Promise<ProductListQuery | null> => {
+  // Soft-deleted products are only listed for admins who ask for them
+  const withDeleted = req.query.includeDeleted === 'true' && hasPermission(req.user, 'products:manage-all');
+
+  const status = req.query.status as ProductStatus | undefined;
+  if (status !== undefined && !PRODUCT_STATUSES.includes(status)) {
+    res.status(400).json(errorResponse(`status must be one of ${PRODUCT_STATUSES.join(', ')}`, 'Invalid status filter'));
+    return null;
+  }
+
+  // Build filter object
+  const filter: any = {};
+  if (status) {
+    filter.status = status;
+  }
+
+  // Category filter (ID, path or slug), including all descendant categories
+  let categoryDoc = null;
+  if (req.query.category) {
+    categoryDoc = await CategoryService.resolveCategory(req.query.category as string);
+    if (!categoryDoc) {
+      return { filter, withDeleted, matchesNothing: true };
+    }
+    filter.category = { $in: await CategoryService.getSubtreeIds(categoryDoc._id as mongoose.Types.ObjectId) };
+  }
+
+  // Products in archived categories are hidden from listings
+  const archivedCategoryIds = await CategoryService.getArchivedCategoryIds();
+  if (archivedCategoryIds.length > 0) {
+    filter.category = { ...filter.category, $nin: archivedCategoryIds };
+  }
+
+  // Attribute filters (attr.brand=Acme, attr.wattage[gte]=500), typed by the category's schema when known
+  let attributeFilters;
+  try {
+    attributeFilters = ProductService.buildAttributeFilters(
+      req.query as Record<string, unknown>,
+      categoryDoc ? categoryDoc.attributeSchema : undefined
+    );
+  } catch (error: any) {
+    res.status(400).json(errorResponse(error.message, 'Invalid attribute filter'));
+    return null;
+  }
+
+  const visibilityFilter = getStatusVisibilityFilter(req.user);
+  if (attributeFilters.length > 0 || visibilityFilter) {
+    filter.$and = visibilityFilter ? [visibilityFilter, ...attributeFilters] : attributeFilters;
+  }
+
+  // Stock filter
+  if (req.query.inStock !== undefined) {
+    filter.inStock = req.query.inStock === 'true';
+  }
+
+  // Price range filter
+  if (req.query.minPrice || req.query.maxPrice) {
+    filter.price = {};
+    if (req.query.minPrice) {
+      filter.price.$gte = parseFloat(req.query.minPrice as string);
+    }
+    if (req.query.maxPrice) {
+      filter.price.$lte = parseFloat(req.query.maxPrice as string);
+    }
+  }
+
+  return { filter, withDeleted, matchesNothing: false };
+};
+
 // @desc    Get all products with pagination, filtering, sorting, and search
 // @route   GET /api/v1/products
-// @access  Public
-export const getAllProducts = async (req: Request, res: Response): Promise<void> => {
+// @access  Public (unpublished products: owner, products:manage-all or products:publish; includeDeleted: products:manage-all)
+export const getAllProducts = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const { page, limit, skip } = getPaginationParams(
       req.query.page as string,
       req.query.limit as string
     );
 
-    // Build filter object
-    const filter: any = {};
-
-    // Category filter
-    if (req.query.category) {
-      const categoryValue = req.query.category as string;
-      if (mongoose.isValidObjectId(categoryValue)) {
-        filter.category = new mongoose.Types.ObjectId(categoryValue);
-      } else {
-        const categoryDoc = await Category.findOne({ slug: categoryValue });
-        if (!categoryDoc) {
-          res.status(200).json(
-            paginatedResponse([], getPaginationMeta(0, page, limit))
-          );
-          return;
-        }
-        filter.category = categoryDoc._id;
-      }
-    }
-
-    // Stock filter
-    if (req.query.inStock !== undefined) {
-      filter.inStock = req.query.inStock === 'true';
+    const listQuery = await buildProductListQuery(req, res);
+    if (!listQuery) {
+      return;
     }
-
-    // Price range filter
-    if (req.query.minPrice || req.query.maxPrice) {
-      filter.price = {};
-      if (req.query.minPrice) {
-        filter.price.$gte = parseFloat(req.query.minPrice as string);
-      }
-      if (req.query.maxPrice) {
-        filter.price.$lte = parseFloat(req.query.maxPrice as string);
-      }
+    if (listQuery.matchesNothing) {
+      res.status(200).json(
+        paginatedResponse([], getPaginationMeta(0, page, limit))
+      );
+      return;
     }
+    const { filter, withDeleted } = listQuery;
 
     // Search filter (text search if search query exists)
     let query;
@@ -81,32 +164,186 @@ export const getAllProducts = async (req: Request, res: Response): Promise<void>
 
     // Execute query with pagination
     const products = await query
+      .setOptions({ withDeleted })
       .skip(skip)
       .limit(limit)
-      .populate('createdBy', 'firstName lastName')
+      .populate({ path: 'createdBy', select: 'firstName lastName', options: { withDeleted: true } })
       .populate('category', 'name slug');
 
     const totalItems = await Product.countDocuments(
       req.query.search 
         ? { ...filter, $text: { $search: req.query.search as string } }
         : filter
-    );
+    ).setOptions({ withDeleted });
     
     const pagination = getPaginationMeta(totalItems, page, limit);
+    const search = req.query.search as string | undefined;
+
+    // Offer spelling corrections when a search finds nothing
+    let didYouMean: string[] | undefined;
+    if (search) {
+      if (page === 1) {
+        SuggestService.recordSearchQuery(search, totalItems)
+          .catch(err => console.error('Failed to record search query:', err));
+      }
+      if (totalItems === 0) {
+        didYouMean = await SuggestService.getDidYouMean(search);
+      }
+    }
 
-    res.status(200).json(
-      paginatedResponse(
+    res.status(200).json({
+      ...paginatedResponse(
         products, 
         pagination, 
         Object.keys(filter).length > 0 ? filter : undefined,
-        req.query.search as string
-      )
-    );
+        search
+      ),
+      ...(didYouMean ? { didYouMean } : {})
+    });
   } catch (error: any) {
     res.status(500).json(errorResponse(error.message, 'Failed to fetch products'));
   }
 };
 
+const SEARCH_SORTS: SearchService.ProductSearchSort[] = ['relevance', 'price_asc', 'price_desc', 'newest', 'rating'];
+
+// @desc    Search products with relevance ranking and facet counts
+// @route   GET /api/v1/products/search
+// @access  Public
+export const searchProducts = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { page, limit } = getPaginationParams(
+      req.query.page as string,
+      req.query.limit as string
+    );
+
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : undefined;
+    const sort = req.query.sort as SearchService.ProductSearchSort | undefined;
+
+    if (sort && !SEARCH_SORTS.includes(sort)) {
+      res.status(400).json(errorResponse(`sort must be one of ${SEARCH_SORTS.join(', ')}`, 'Invalid search parameters'));
+      return;
+    }
+
+    const parseNumber = (value: unknown): number | undefined => {
+      if (value === undefined || value === '') return undefined;
+      const number = Number(value);
+      return Number.isFinite(number) ? number : NaN;
+    };
+
+    const minPrice = parseNumber(req.query.minPrice);
+    const maxPrice = parseNumber(req.query.maxPrice);
+    const minRating = parseNumber(req.query.minRating);
+
+    if ([minPrice, maxPrice, minRating].some(value => Number.isNaN(value))) {
+      res.status(400).json(errorResponse('minPrice, maxPrice and minRating must be numbers', 'Invalid search parameters'));
+      return;
+    }
+
+    // category and vendor accept comma-separated lists (category by ID, slug or path).
+    // A category matches its whole subtree.
+    const splitList = (value: unknown): string[] =>
+      typeof value === 'string' ? value.split(',').map(item => item.trim()).filter(Boolean) : [];
+
+    const categoryValues = splitList(req.query.category);
+    const categories = categoryValues.length > 0
+      ? await Category.find({
+          $or: [
+            { _id: { $in: categoryValues.filter(value => mongoose.isValidObjectId(value)) } },
+            { slug: { $in: categoryValues } },
+            { path: { $in: categoryValues } }
+          ]
+        })
+      : [];
+
+    if (categoryValues.length > 0 && categories.length === 0) {
+      res.status(200).json({
+        ...paginatedResponse([], getPaginationMeta(0, page, limit), undefined, q),
+        facets: { categories: [], price: [], inStock: [], rating: [], vendors: [] }
+      });
+      return;
+    }
+
+    const vendorValues = splitList(req.query.vendor);
+    if (vendorValues.some(value => !mongoose.isValidObjectId(value))) {
+      res.status(400).json(errorResponse('vendor must be a comma-separated list of user IDs', 'Invalid search parameters'));
+      return;
+    }
+
+    // Attribute values are typed by the category schema when a single category is selected
+    let attributeFilters;
+    try {
+      attributeFilters = ProductService.buildAttributeFilters(
+        req.query as Record<string, unknown>,
+        categories.length === 1 ? categories[0].attributeSchema : undefined
+      );
+    } catch (error: any) {
+      res.status(400).json(errorResponse(error.message, 'Invalid attribute filter'));
+      return;
+    }
+
+    const categoryIds = (await Promise.all(
+      categories.map(category => CategoryService.getSubtreeIds(category._id as mongoose.Types.ObjectId))
+    )).flat();
+
+    const { products, total, facets } = await SearchService.searchProducts({
+      q: q || undefined,
+      categoryIds,
+      excludedCategoryIds: await CategoryService.getArchivedCategoryIds(),
+      vendorIds: vendorValues.map(value => new mongoose.Types.ObjectId(value)),
+      minPrice,
+      maxPrice,
+      inStock: req.query.inStock === undefined ? undefined : req.query.inStock === 'true',
+      minRating,
+      attributeFilters,
+      sort,
+      page,
+      limit
+    });
+
+    let didYouMean: string[] | undefined;
+    if (q) {
+      if (page === 1) {
+        SuggestService.recordSearchQuery(q, total)
+          .catch(err => console.error('Failed to record search query:', err));
+      }
+      if (total === 0) {
+        didYouMean = await SuggestService.getDidYouMean(q);
+      }
+    }
+
+    res.status(200).json({
+      ...paginatedResponse(products, getPaginationMeta(total, page, limit), undefined, q),
+      facets,
+      ...(didYouMean ? { didYouMean } : {})
+    });
+  } catch (error: any) {
+    res.status(500).json(errorResponse(error.message, 'Failed to search products'));
+  }
+};
+
+// @desc    Search-as-you-type suggestions: product names, categories and popular queries
+// @route   GET /api/v1/products/suggest
+// @access  Public
+export const suggestProducts = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+
+    if (q.length < 2) {
+      res.status(400).json(errorResponse('q must be at least 2 characters', 'Invalid suggestion query'));
+      return;
+    }
+
+    const suggestions = await SuggestService.getSuggestions(q);
+
+    // Suggestions change slowly; let browsers and CDNs absorb keystroke traffic
+    res.set('Cache-Control', 'public, max-age=60');
+    res.status(200).json(successResponse(suggestions, 'Suggestions retrieved successfully'));
+  } catch (error: any) {
+    res.status(500).json(errorResponse(error.message, 'Failed to fetch suggestions'));
+  }
+};
+
 // @desc    Get product statistics by category
 // @route   GET /api/v1/products/stats
 // @access  Public
@@ -115,7 +352,7 @@ export const getProductStats = async (req: Request, res: Response): Promise<void
     const stats = await Product.aggregate([
       // Stage 1: Filter - Only in-stock products
       {
-        $match: { inStock: true }
+        $match: { inStock: true, status: 'published' }
       },
       
       // Stage 2: Group - By category and calculate
@@ -179,10 +416,12 @@ export const getTopProducts = async (req: Request, res: Response): Promise<void>
   try {
     const limit = parseInt(req.query.limit as string) || 10;
 
+    const archivedCategoryIds = await CategoryService.getArchivedCategoryIds();
+
     const topProducts = await Product.aggregate([
-      // Stage 1: Filter - Only in-stock
+      // Stage 1: Filter - Only published and in-stock, outside archived categories
       {
-        $match: { inStock: true }
+        $match: { inStock: true, status: 'published', category: { $nin: archivedCategoryIds } }
       },
       
       // Stage 2: Sort - By price (highest first)
@@ -222,13 +461,18 @@ export const getTopProducts = async (req: Request, res: Response): Promise<void>
 // @access  Private (Admin/Vendor)
 export const getLowStockProducts = async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const threshold = parseInt(req.query.threshold as string) || 10;
+    // An explicit threshold applies to every product; otherwise each
+    // product's own reorder threshold does
+    const threshold = parseInt(req.query.threshold as string) || null;
+    const quantityFilter = threshold
+      ? { quantity: { $lt: threshold } }
+      : { $expr: { $lte: ['$quantity', { $ifNull: ['$reorderThreshold', StockAlertService.getDefaultReorderThreshold()] }] } };
 
     const lowStock = await Product.aggregate([
       // Stage 1: Filter - Low quantity
       {
         $match: {
-          quantity: { $lt: threshold },
+          ...quantityFilter,
           inStock: true
         }
       },
@@ -245,6 +489,8 @@ export const getLowStockProducts = async (req: AuthRequest, res: Response): Prom
           category: 1,
           quantity: 1,
           price: 1,
+          reorderThreshold: 1,
+          stockAlert: 1,
           alert: {
             $concat: ['Only ', { $toString: '$quantity' }, ' left in stock!']
           }
@@ -269,6 +515,9 @@ export const getLowStockProducts = async (req: AuthRequest, res: Response): Prom
 export const getPriceDistribution = async (req: Request, res: Response): Promise<void> => {
   try {
     const distribution = await Product.aggregate([
+      {
+        $match: { status: 'published' }
+      },
       {
         $bucket: {
           groupBy: '$price',
@@ -331,8 +580,8 @@ export const uploadProductImages = async (req: AuthRequest, res: Response): Prom
       return;
     }
 
-    // Check ownership for vendors
-    if (req.user!.role === 'vendor') {
+    // Check ownership unless allowed to manage every product
+    if (!hasPermission(req.user, 'products:manage-all')) {
       if (!product.createdBy || product.createdBy.toString() !== req.user!.id) {
         res.status(403).json({ 
           message: 'Access denied. You can only upload images for your own products.' 
@@ -377,8 +626,8 @@ export const deleteProductImage = async (req: AuthRequest, res: Response): Promi
       return;
     }
 
-    // Check ownership for vendors
-    if (req.user!.role === 'vendor') {
+    // Check ownership unless allowed to manage every product
+    if (!hasPermission(req.user, 'products:manage-all')) {
       if (!product.createdBy || product.createdBy.toString() !== req.user!.id) {
         res.status(403).json({ 
           message: 'Access denied. You can only delete images from your own products.' 
@@ -415,3 +664,669 @@ export const deleteProductImage = async (req: AuthRequest, res: Response): Promi
     });
   }
 };
+
+// Reasons a stock update can give; the others are recorded by orders and imports
+const MANUAL_STOCK_REASONS: StockMovementReason[] = ['adjustment', 'return', 'damage'];
+
+// Ledger entry for a manual stock update, or an error message for a bad
+// reason/note/warehouse
+const getManualStockMovement = (
+  req: AuthRequest
+): InventoryService.StockMovementContext | string => {
+  const { reason = 'adjustment', note, warehouseId } = req.body || {};
+
+  if (!MANUAL_STOCK_REASONS.includes(reason)) {
+    return `reason must be one of ${MANUAL_STOCK_REASONS.join(', ')}`;
+  }
+  if (note !== undefined && (typeof note !== 'string' || note.length > 500)) {
+    return 'note must be a string of at most 500 characters';
+  }
+  if (warehouseId !== undefined && !mongoose.isValidObjectId(warehouseId)) {
+    return 'warehouseId must be a valid ID';
+  }
+
+  return { reason, note, warehouseId, actorId: req.user!.id };
+};
+
+// @desc    Set product stock quantity
+// @route   PATCH /api/v1/products/:id/stock
+// @access  Private (Vendor/Admin, or API key with inventory:write)
+export const updateProductStock = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { quantity } = req.body || {};
+
+    if (!Number.isInteger(quantity) || quantity < 0) {
+      res.status(400).json({ message: 'quantity must be a non-negative integer' });
+      return;
+    }
+
+    const movement = getManualStockMovement(req);
+    if (typeof movement === 'string') {
+      res.status(400).json({ message: movement });
+      return;
+    }
+
+    const product = await ProductService.getProductById(req.params.id);
+
+    if (!product) {
+      res.status(404).json({ message: 'Product not found' });
+      return;
+    }
+
+    // Check ownership unless allowed to manage every product
+    if (!hasPermission(req.user, 'products:manage-all')) {
+      if (!product.createdBy || product.createdBy.toString() !== req.user!.id) {
+        res.status(403).json({ 
+          message: 'Access denied. You can only update stock for your own products.' 
+        });
+        return;
+      }
+    }
+
+    const updatedProduct = await ProductService.updateStock(req.params.id, quantity, movement);
+
+    res.json({
+      success: true,
+      message: 'Stock updated successfully',
+      product: updatedProduct
+    });
+  } catch (error: any) {
+    if (error.message === 'Stock of a product with variants is set per variant') {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    if (error.message.startsWith('Stock changed during the update')) {
+      res.status(409).json({ message: error.message });
+      return;
+    }
+    if (error.message === 'Warehouse not found') {
+      res.status(404).json({ message: error.message });
+      return;
+    }
+    if (error.kind === 'ObjectId') {
+      res.status(400).json({ message: 'Invalid product ID format' });
+      return;
+    }
+    res.status(500).json({ 
+      message: 'Error updating product stock', 
+      error: error.message 
+    });
+  }
+};
+
+// @desc    Restore a soft-deleted product
+// @route   PATCH /api/v1/products/:id/restore
+// @access  Private (Vendor/Admin, or API key with products:write)
+export const restoreProduct = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const product = await ProductService.getDeletedProductById(req.params.id);
+
+    if (!product) {
+      res.status(404).json({ message: 'Deleted product not found' });
+      return;
+    }
+
+    // Check ownership unless allowed to manage every product
+    if (!hasPermission(req.user, 'products:manage-all')) {
+      if (!product.createdBy || product.createdBy.toString() !== req.user!.id) {
+        res.status(403).json({ 
+          message: 'Access denied. You can only restore your own products.' 
+        });
+        return;
+      }
+    }
+
+    const restoredProduct = await ProductService.restoreProduct(req.params.id);
+
+    res.json({
+      success: true,
+      message: 'Product restored successfully',
+      product: restoredProduct
+    });
+  } catch (error: any) {
+    if (error.message === 'Restore the product category first') {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    if (error.code === 11000) {
+      res.status(400).json({ message: 'A product with this SKU already exists' });
+      return;
+    }
+    if (error.kind === 'ObjectId') {
+      res.status(400).json({ message: 'Invalid product ID format' });
+      return;
+    }
+    res.status(500).json({ 
+      message: 'Error restoring product', 
+      error: error.message 
+    });
+  }
+};
+
+// @desc    Set stock quantity of a single variant
+// @route   PATCH /api/v1/products/:id/variants/:variantId/stock
+// @access  Private (Vendor/Admin, or API key with inventory:write)
+export const updateVariantStock = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { quantity } = req.body || {};
+
+    if (!Number.isInteger(quantity) || quantity < 0) {
+      res.status(400).json({ message: 'quantity must be a non-negative integer' });
+      return;
+    }
+
+    const movement = getManualStockMovement(req);
+    if (typeof movement === 'string') {
+      res.status(400).json({ message: movement });
+      return;
+    }
+
+    const product = await ProductService.getProductById(req.params.id);
+
+    if (!product) {
+      res.status(404).json({ message: 'Product not found' });
+      return;
+    }
+
+    // Check ownership unless allowed to manage every product
+    if (!hasPermission(req.user, 'products:manage-all')) {
+      if (!product.createdBy || product.createdBy.toString() !== req.user!.id) {
+        res.status(403).json({ 
+          message: 'Access denied. You can only update stock for your own products.' 
+        });
+        return;
+      }
+    }
+
+    const updatedProduct = await ProductService.updateVariantStock(
+      req.params.id,
+      req.params.variantId,
+      quantity,
+      movement
+    );
+
+    res.json({
+      success: true,
+      message: 'Variant stock updated successfully',
+      product: updatedProduct
+    });
+  } catch (error: any) {
+    if (error.message === 'Variant not found' || error.message === 'Warehouse not found') {
+      res.status(404).json({ message: error.message });
+      return;
+    }
+    if (error.message.startsWith('Stock changed during the update')) {
+      res.status(409).json({ message: error.message });
+      return;
+    }
+    if (error.kind === 'ObjectId') {
+      res.status(400).json({ message: 'Invalid product ID format' });
+      return;
+    }
+    res.status(500).json({ 
+      message: 'Error updating variant stock', 
+      error: error.message 
+    });
+  }
+};
+
+type ProductWorkflowStep = (product: IProduct, req: AuthRequest) => Promise<IProduct>;
+
+// Shared handling for the publishing workflow actions. Vendors may only
+// submit and archive their own products; approval is gated by the route.
+const runWorkflowStep = async (
+  req: AuthRequest,
+  res: Response,
+  action: string,
+  step: ProductWorkflowStep,
+  ownerOnly: boolean
+): Promise<IProduct | null> => {
+  try {
+    const product = await ProductService.getProductById(req.params.id);
+
+    if (!product) {
+      res.status(404).json({ message: 'Product not found' });
+      return null;
+    }
+
+    if (ownerOnly && !hasPermission(req.user, 'products:manage-all')) {
+      if (!product.createdBy || product.createdBy.toString() !== req.user!.id) {
+        res.status(403).json({ 
+          message: `Access denied. You can only ${action} your own products.` 
+        });
+        return null;
+      }
+    }
+
+    return await step(product, req);
+  } catch (error: any) {
+    if (error.message.startsWith('Cannot ')) {
+      res.status(400).json({ message: error.message });
+      return null;
+    }
+    if (error.name === 'ValidationError') {
+      res.status(400).json({ message: 'Validation error', errors: error.errors });
+      return null;
+    }
+    if (error.kind === 'ObjectId') {
+      res.status(400).json({ message: 'Invalid product ID format' });
+      return null;
+    }
+    res.status(500).json({ 
+      message: `Error trying to ${action} product`, 
+      error: error.message 
+    });
+    return null;
+  }
+};
+
+// @desc    Submit a draft (or archived) product for review
+// @route   PATCH /api/v1/products/:id/submit
+// @access  Private (owner or products:manage-all)
+export const submitProduct = async (req: AuthRequest, res: Response): Promise<void> => {
+  const product = await runWorkflowStep(req, res, 'submit', product => ProductService.submitForReview(product), true);
+
+  if (product) {
+    res.json({
+      success: true,
+      message: 'Product submitted for review',
+      product
+    });
+  }
+};
+
+// @desc    Approve a product in review; it is published now or at publishAt
+// @route   PATCH /api/v1/products/:id/approve
+// @access  Private (products:publish)
+export const approveProduct = async (req: AuthRequest, res: Response): Promise<void> => {
+  const product = await runWorkflowStep(
+    req, res, 'approve', (product, req) => ProductService.approveProduct(product, req.user!.id), false
+  );
+
+  if (product) {
+    res.json({
+      success: true,
+      message: product.status === 'published'
+        ? 'Product approved and published'
+        : `Product approved and scheduled for ${product.publishAt!.toISOString()}`,
+      product
+    });
+  }
+};
+
+// @desc    Send a product in review back to draft with a note for the vendor
+// @route   PATCH /api/v1/products/:id/reject
+// @access  Private (products:publish)
+export const rejectProduct = async (req: AuthRequest, res: Response): Promise<void> => {
+  const { note } = req.body;
+
+  if (typeof note !== 'string' || !note.trim()) {
+    res.status(400).json({ message: 'note is required and must explain what to change' });
+    return;
+  }
+
+  const product = await runWorkflowStep(
+    req, res, 'reject', product => ProductService.rejectProduct(product, note.trim()), false
+  );
+
+  if (product) {
+    res.json({
+      success: true,
+      message: 'Product rejected',
+      product
+    });
+  }
+};
+
+// @desc    Take a product off the storefront
+// @route   PATCH /api/v1/products/:id/archive
+// @access  Private (owner or products:manage-all)
+export const archiveProduct = async (req: AuthRequest, res: Response): Promise<void> => {
+  const product = await runWorkflowStep(req, res, 'archive', product => ProductService.archiveProduct(product), true);
+
+  if (product) {
+    res.json({
+      success: true,
+      message: 'Product archived',
+      product
+    });
+  }
+};
+
+const getImportActor = (user: AuthRequest['user']): ProductImportService.ImportActor => ({
+  id: user!.id,
+  canManageAll: hasPermission(user, 'products:manage-all'),
+  canPublish: hasPermission(user, 'products:publish')
+});
+
+// @desc    Import products from a CSV or JSON Lines file, upserting by SKU
+// @route   POST /api/v1/products/import
+// @access  Private (products:write; vendors only update their own products)
+export const importProducts = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.file) {
+      res.status(400).json({ message: 'No file uploaded' });
+      return;
+    }
+
+    const format = ProductImportService.detectImportFormat(
+      req.file.originalname,
+      (req.query.format || req.body.format) as string | undefined
+    );
+    if (!format) {
+      res.status(400).json({ message: 'format must be csv or jsonl' });
+      return;
+    }
+
+    const dryRun = (req.query.dryRun ?? req.body.dryRun) === 'true';
+    const runAsync = (req.query.async ?? req.body.async) === 'true';
+    const rows = ProductImportService.parseImportFile(req.file.buffer, format);
+    const actor = getImportActor(req.user);
+
+    // Large files are imported in the background; poll the job for progress
+    if (runAsync || rows.length > ProductImportService.getSyncImportRowLimit()) {
+      const job = await ProductImportService.startImportJob(rows, actor, {
+        fileName: req.file.originalname,
+        format,
+        dryRun
+      });
+
+      res.status(202).json({
+        success: true,
+        message: 'Import started',
+        job
+      });
+      return;
+    }
+
+    const { summary, results } = await ProductImportService.importProducts(rows, actor, { dryRun });
+
+    res.status(200).json({
+      success: true,
+      message: dryRun ? 'Dry run completed, nothing was saved' : 'Import completed',
+      dryRun,
+      summary,
+      results
+    });
+  } catch (error: any) {
+    if (error.message.startsWith('Invalid import file') || error.message.startsWith('Invalid CSV')) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({ 
+      message: 'Error importing products', 
+      error: error.message 
+    });
+  }
+};
+
+// @desc    Get the progress and row errors of a background import
+// @route   GET /api/v1/products/import/:jobId
+// @access  Private (job owner or products:manage-all)
+export const getImportJob = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const job = await ProductImportService.getImportJob(req.params.jobId);
+
+    if (!job || (!hasPermission(req.user, 'products:manage-all') && job.createdBy.toString() !== req.user!.id)) {
+      res.status(404).json({ message: 'Import job not found' });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      job
+    });
+  } catch (error: any) {
+    if (error.kind === 'ObjectId') {
+      res.status(400).json({ message: 'Invalid import job ID format' });
+      return;
+    }
+    res.status(500).json({ 
+      message: 'Error fetching import job', 
+      error: error.message 
+    });
+  }
+};
+
+// @desc    Export products as CSV or JSON Lines, with the listing filters
+// @route   GET /api/v1/products/export
+// @access  Private (products:write; vendors export their own products)
+export const exportProducts = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const format = (req.query.format as string | undefined) || 'csv';
+    if (format !== 'csv' && format !== 'jsonl') {
+      res.status(400).json({ message: 'format must be csv or jsonl' });
+      return;
+    }
+
+    const listQuery = await buildProductListQuery(req, res);
+    if (!listQuery) {
+      return;
+    }
+
+    const filter = listQuery.matchesNothing ? { _id: null } : { ...listQuery.filter };
+    if (req.query.search) {
+      filter.$text = { $search: req.query.search as string };
+    }
+    if (!hasPermission(req.user, 'products:manage-all')) {
+      filter.createdBy = new mongoose.Types.ObjectId(req.user!.id);
+    }
+
+    const date = new Date().toISOString().slice(0, 10);
+    res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson');
+    res.setHeader('Content-Disposition', `attachment; filename="products-${date}.${format}"`);
+
+    await ProductImportService.exportProducts(filter, format, chunk => res.write(chunk), {
+      withDeleted: listQuery.withDeleted
+    });
+    res.end();
+  } catch (error: any) {
+    // Once rows are streaming the status can no longer change
+    if (res.headersSent) {
+      console.error('Product export failed:', error);
+      res.end();
+      return;
+    }
+    res.status(500).json(errorResponse(error.message, 'Failed to export products'));
+  }
+};
+
+// @desc    Stock movements of a product, newest first
+// @route   GET /api/v1/products/:id/stock/history
+// @access  Private (inventory:read; vendors see their own products)
+export const getStockHistory = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { page, limit, skip } = getPaginationParams(
+      req.query.page as string,
+      req.query.limit as string
+    );
+
+    const reason = req.query.reason as StockMovementReason | undefined;
+    if (reason !== undefined && !STOCK_MOVEMENT_REASONS.includes(reason)) {
+      res.status(400).json(errorResponse(`reason must be one of ${STOCK_MOVEMENT_REASONS.join(', ')}`, 'Invalid stock history filter'));
+      return;
+    }
+
+    const variantId = req.query.variantId as string | undefined;
+    if (variantId !== undefined && !mongoose.isValidObjectId(variantId)) {
+      res.status(400).json(errorResponse('variantId must be a valid ID', 'Invalid stock history filter'));
+      return;
+    }
+
+    const warehouseId = req.query.warehouseId as string | undefined;
+    if (warehouseId !== undefined && !mongoose.isValidObjectId(warehouseId)) {
+      res.status(400).json(errorResponse('warehouseId must be a valid ID', 'Invalid stock history filter'));
+      return;
+    }
+
+    // Deleted products keep their history
+    const product = await Product.findById(req.params.id).setOptions({ withDeleted: true });
+
+    if (!product) {
+      res.status(404).json(errorResponse('Product not found'));
+      return;
+    }
+
+    if (!hasPermission(req.user, 'products:manage-all')) {
+      if (!product.createdBy || product.createdBy.toString() !== req.user!.id) {
+        res.status(403).json(errorResponse('Access denied. You can only view stock history of your own products.'));
+        return;
+      }
+    }
+
+    const { movements, total } = await InventoryService.getStockHistory(req.params.id, {
+      variantId,
+      warehouseId,
+      reason,
+      skip,
+      limit
+    });
+
+    res.status(200).json(paginatedResponse(movements, getPaginationMeta(total, page, limit)));
+  } catch (error: any) {
+    if (error.kind === 'ObjectId') {
+      res.status(400).json(errorResponse('Invalid product ID format'));
+      return;
+    }
+    res.status(500).json(errorResponse(error.message, 'Failed to fetch stock history'));
+  }
+};
+
+// @desc    Stock of a product at each warehouse
+// @route   GET /api/v1/products/:id/stock/locations
+// @access  Private (inventory:read; own products unless allowed to manage all)
+export const getStockByLocation = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const product = await Product.findById(req.params.id);
+
+    if (!product) {
+      res.status(404).json(errorResponse('Product not found'));
+      return;
+    }
+
+    if (!hasPermission(req.user, 'products:manage-all')) {
+      if (!product.createdBy || product.createdBy.toString() !== req.user!.id) {
+        res.status(403).json(errorResponse('Access denied. You can only view stock of your own products.'));
+        return;
+      }
+    }
+
+    const levels = await InventoryService.getStockByLocation(req.params.id);
+
+    res.status(200).json(successResponse(levels, 'Stock by warehouse retrieved successfully'));
+  } catch (error: any) {
+    if (error.kind === 'ObjectId') {
+      res.status(400).json(errorResponse('Invalid product ID format'));
+      return;
+    }
+    res.status(500).json(errorResponse(error.message, 'Failed to fetch stock by warehouse'));
+  }
+};
+
+// @desc    Products whose quantity disagrees with the sum of their stock movements
+// @route   GET /api/v1/products/stock/reconciliation
+// @access  Private (inventory:read; vendors see their own products)
+export const getStockReconciliation = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const report = await InventoryService.getReconciliationReport({
+      vendorId: hasPermission(req.user, 'products:manage-all') ? undefined : req.user!.id
+    });
+
+    res.status(200).json(successResponse(
+      report,
+      report.issues.length > 0
+        ? `${report.issues.length} stock discrepancies found`
+        : 'Stock matches the ledger'
+    ));
+  } catch (error: any) {
+    res.status(500).json(errorResponse(error.message, 'Failed to reconcile stock'));
+  }
+};
+
+// @desc    Get an email when an out-of-stock product is available again
+// @route   POST /api/v1/products/:id/notify-me
+// @access  Public (signed-in customers use their account email)
+export const subscribeBackInStock = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      res.status(400).json(errorResponse('Invalid product ID format'));
+      return;
+    }
+
+    const email = req.user ? req.user.email : req.body?.email;
+    if (typeof email !== 'string' || !/^\S+@\S+\.\S+$/.test(email.trim())) {
+      res.status(400).json(errorResponse('Please provide a valid email address'));
+      return;
+    }
+
+    const { subscription, created } = await BackInStockService.subscribe(req.params.id, {
+      email,
+      userId: req.user?.id
+    });
+
+    res.status(created ? 201 : 200).json(successResponse(
+      subscription,
+      created
+        ? 'You will be emailed when this product is back in stock'
+        : 'You are already subscribed to this product'
+    ));
+  } catch (error: any) {
+    if (error.message === 'Product not found') {
+      res.status(404).json(errorResponse(error.message));
+      return;
+    }
+    if (error.message === 'Product is in stock') {
+      res.status(400).json(errorResponse(error.message, 'Product is available to order now'));
+      return;
+    }
+    res.status(500).json(errorResponse(error.message, 'Failed to subscribe to back-in-stock emails'));
+  }
+};
+
+// @desc    Stop waiting for a product to come back in stock
+// @route   DELETE /api/v1/products/:id/notify-me
+// @access  Private
+export const unsubscribeBackInStock = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      res.status(400).json(errorResponse('Invalid product ID format'));
+      return;
+    }
+
+    const cancelled = await BackInStockService.unsubscribe(req.params.id, req.user!);
+
+    if (!cancelled) {
+      res.status(404).json(errorResponse('No pending back-in-stock subscription for this product'));
+      return;
+    }
+
+    res.status(200).json(successResponse(null, 'Unsubscribed from back-in-stock emails'));
+  } catch (error: any) {
+    res.status(500).json(errorResponse(error.message, 'Failed to unsubscribe from back-in-stock emails'));
+  }
+};
+
+// @desc    Unsubscribe with the link from the confirmation email
+// @route   GET /api/v1/products/notify-me/unsubscribe
+// @access  Public
+export const unsubscribeBackInStockByToken = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token } = req.query;
+
+    if (typeof token !== 'string' || !token) {
+      res.status(400).json(errorResponse('Unsubscribe token is required'));
+      return;
+    }
+
+    const cancelled = await BackInStockService.unsubscribeByToken(token);
+
+    if (!cancelled) {
+      res.status(404).json(errorResponse('Subscription not found or already notified'));
+      return;
+    }
+
+    res.status(200).json(successResponse(null, 'Unsubscribed from back-in-stock emails'));
+  } catch (error: any) {
+    res.status(500).json(errorResponse(error.message, 'Failed to unsubscribe from back-in-stock emails'));
+  }
+};
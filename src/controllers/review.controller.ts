@@ -1,5 +1,5 @@
 import { Request, Response } from 'express';
-import { AuthRequest } from '../middlewares/auth.middleware';
+import { AuthRequest, hasPermission } from '../middlewares/auth.middleware';
 import { Review } from '../models/review.model';
 import { Product } from '../models/product.model';
 import { successResponse, errorResponse, paginatedResponse } from '../utils/response.helper';
@@ -82,7 +82,7 @@ export const getProductReviews = async (req: Request, res: Response): Promise<vo
 
     // Get reviews with pagination
     const reviews = await Review.find({ product: productId })
-      .populate('user', 'firstName lastName email profilePicture')
+      .populate({ path: 'user', select: 'firstName lastName email profilePicture', options: { withDeleted: true } })
       .sort({ createdAt: -1 })
       .skip(skip)
       .limit(limit);
@@ -132,7 +132,7 @@ export const getUserReviews = async (req: AuthRequest, res: Response): Promise<v
     );
 
     const reviews = await Review.find({ user: req.user.id })
-      .populate('product', 'name price images category')
+      .populate({ path: 'product', select: 'name price images category', options: { withDeleted: true } })
       .sort({ createdAt: -1 })
       .skip(skip)
       .limit(limit);
@@ -208,8 +208,8 @@ export const deleteReview = async (req: AuthRequest, res: Response): Promise<voi
       return;
     }
 
-    // Check ownership or admin
-    if (review.user.toString() !== req.user.id && req.user.role !== 'admin') {
+    // Check ownership or moderation rights
+    if (review.user.toString() !== req.user.id && !hasPermission(req.user, 'reviews:moderate')) {
       res.status(403).json(errorResponse('You can only delete your own reviews'));
       return;
     }
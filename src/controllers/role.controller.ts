@@ -0,0 +1,166 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middlewares/auth.middleware';
+import * as RoleService from '../services/role.service';
+import { PERMISSIONS } from '../config/permissions.config';
+
+// Admin: List every permission that can be granted
+export const getPermissions = async (req: AuthRequest, res: Response): Promise<void> => {
+  res.status(200).json({
+    success: true,
+    permissions: Object.entries(PERMISSIONS).map(([name, description]) => ({ name, description }))
+  });
+};
+
+// Admin: List roles with the number of users holding each
+export const getAllRoles = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const roles = await RoleService.getAllRoles();
+
+    res.status(200).json({
+      success: true,
+      count: roles.length,
+      roles
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      message: 'Error fetching roles',
+      error: error.message
+    });
+  }
+};
+
+// Admin: Get a single role
+export const getRole = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const role = await RoleService.getRoleByName(req.params.name);
+
+    if (!role) {
+      res.status(404).json({ message: 'Role not found' });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      role
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      message: 'Error fetching role',
+      error: error.message
+    });
+  }
+};
+
+// Admin: Define a custom role
+export const createRole = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { name, description, permissions } = req.body || {};
+
+    if (!name || !Array.isArray(permissions)) {
+      res.status(400).json({ message: 'Please provide name and a permissions array' });
+      return;
+    }
+
+    const role = await RoleService.createRole({ name, description, permissions }, req.user!.id);
+
+    res.status(201).json({
+      success: true,
+      message: 'Role created successfully',
+      role
+    });
+  } catch (error: any) {
+    if (error.message === 'Role with this name already exists' ||
+        error.message.startsWith('Unknown permissions')) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    if (error.name === 'ValidationError') {
+      res.status(400).json({
+        message: 'Validation error',
+        errors: error.errors
+      });
+      return;
+    }
+    res.status(500).json({
+      message: 'Error creating role',
+      error: error.message
+    });
+  }
+};
+
+// Admin: Change a role's description or permissions
+export const updateRole = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { description, permissions } = req.body || {};
+
+    if (permissions !== undefined && !Array.isArray(permissions)) {
+      res.status(400).json({ message: 'permissions must be an array' });
+      return;
+    }
+
+    const role = await RoleService.updateRole(
+      req.params.name,
+      { description, permissions },
+      req.user!.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Role updated successfully',
+      role
+    });
+  } catch (error: any) {
+    if (error.message === 'Role not found') {
+      res.status(404).json({ message: error.message });
+      return;
+    }
+    if (error.message === 'The admin role cannot be modified') {
+      res.status(403).json({ message: error.message });
+      return;
+    }
+    if (error.message.startsWith('Unknown permissions')) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    if (error.name === 'ValidationError') {
+      res.status(400).json({
+        message: 'Validation error',
+        errors: error.errors
+      });
+      return;
+    }
+    res.status(500).json({
+      message: 'Error updating role',
+      error: error.message
+    });
+  }
+};
+
+// Admin: Delete an unused custom role
+export const deleteRole = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    await RoleService.deleteRole(req.params.name);
+
+    res.status(200).json({
+      success: true,
+      message: 'Role deleted successfully'
+    });
+  } catch (error: any) {
+    if (error.message === 'Role not found') {
+      res.status(404).json({ message: error.message });
+      return;
+    }
+    if (error.message === 'Built-in roles cannot be deleted') {
+      res.status(403).json({ message: error.message });
+      return;
+    }
+    if (error.message.startsWith('Role is still assigned')) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({
+      message: 'Error deleting role',
+      error: error.message
+    });
+  }
+};
@@ -0,0 +1,215 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middlewares/auth.middleware';
+import * as TwoFactorService from '../services/twoFactor.service';
+import * as RoleService from '../services/role.service';
+
+// User: Start 2FA enrollment
+export const setupTwoFactor = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const { secret, otpauthUri } = await TwoFactorService.beginEnrollment(req.user.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Scan the QR code with your authenticator app, then confirm with a code',
+      secret,
+      otpauthUri
+    });
+  } catch (error: any) {
+    if (error.message === 'User not found') {
+      res.status(404).json({ message: error.message });
+      return;
+    }
+    if (error.message === 'Two-factor authentication is already enabled') {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({
+      message: 'Error starting two-factor enrollment',
+      error: error.message
+    });
+  }
+};
+
+// User: Confirm 2FA enrollment and receive recovery codes
+export const confirmTwoFactor = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const { code } = req.body || {};
+
+    if (!code) {
+      res.status(400).json({ message: 'Please provide code' });
+      return;
+    }
+
+    const recoveryCodes = await TwoFactorService.confirmEnrollment(req.user.id, code);
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication enabled. Store these recovery codes somewhere safe; they will not be shown again.',
+      recoveryCodes
+    });
+  } catch (error: any) {
+    if (error.message === 'User not found') {
+      res.status(404).json({ message: error.message });
+      return;
+    }
+    if (error.message === 'Two-factor authentication is already enabled' ||
+        error.message === 'Two-factor enrollment has not been started' ||
+        error.message === 'Invalid two-factor code') {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({
+      message: 'Error confirming two-factor enrollment',
+      error: error.message
+    });
+  }
+};
+
+// User: Turn off 2FA
+export const disableTwoFactor = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const { password, code } = req.body || {};
+
+    if (!password || !code) {
+      res.status(400).json({ message: 'Please provide password and code' });
+      return;
+    }
+
+    await TwoFactorService.disableTwoFactor(req.user.id, password, code);
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication disabled'
+    });
+  } catch (error: any) {
+    if (error.message === 'User not found') {
+      res.status(404).json({ message: error.message });
+      return;
+    }
+    if (error.message.includes('cannot be disabled')) {
+      res.status(403).json({ message: error.message });
+      return;
+    }
+    if (error.message === 'Two-factor authentication is not enabled' ||
+        error.message === 'Current password is incorrect' ||
+        error.message === 'Invalid two-factor code') {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({
+      message: 'Error disabling two-factor authentication',
+      error: error.message
+    });
+  }
+};
+
+// User: Replace all recovery codes
+export const regenerateRecoveryCodes = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const { code } = req.body || {};
+
+    if (!code) {
+      res.status(400).json({ message: 'Please provide code' });
+      return;
+    }
+
+    const recoveryCodes = await TwoFactorService.regenerateRecoveryCodes(req.user.id, code);
+
+    res.status(200).json({
+      success: true,
+      message: 'Recovery codes regenerated. Previous codes no longer work.',
+      recoveryCodes
+    });
+  } catch (error: any) {
+    if (error.message === 'Invalid two-factor code') {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({
+      message: 'Error regenerating recovery codes',
+      error: error.message
+    });
+  }
+};
+
+// Admin: Get 2FA policy
+export const getTwoFactorPolicy = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const policy = await TwoFactorService.getSecurityPolicy();
+
+    res.status(200).json({
+      success: true,
+      twoFactorRequiredRoles: policy.twoFactorRequiredRoles,
+      updatedBy: policy.updatedBy,
+      updatedAt: policy.updatedAt
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      message: 'Error fetching two-factor policy',
+      error: error.message
+    });
+  }
+};
+
+// Admin: Set which roles must use 2FA
+export const updateTwoFactorPolicy = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const { requiredRoles } = req.body || {};
+
+    if (!Array.isArray(requiredRoles) ||
+        requiredRoles.some((role: unknown) => typeof role !== 'string')) {
+      res.status(400).json({ message: 'requiredRoles must be an array of role names' });
+      return;
+    }
+
+    for (const role of requiredRoles) {
+      if (!(await RoleService.roleExists(role))) {
+        res.status(400).json({ message: `Role ${role} does not exist` });
+        return;
+      }
+    }
+
+    const policy = await TwoFactorService.updateTwoFactorPolicy(
+      [...new Set<string>(requiredRoles)],
+      req.user.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor policy updated',
+      twoFactorRequiredRoles: policy.twoFactorRequiredRoles,
+      updatedBy: policy.updatedBy,
+      updatedAt: policy.updatedAt
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      message: 'Error updating two-factor policy',
+      error: error.message
+    });
+  }
+};
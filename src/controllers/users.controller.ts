@@ -1,6 +1,14 @@
 import type { Response, Request } from "express";
 import { User, IUser } from "../models/user.model";
-import { deleteFile } from '../middlewares/upload.middleware';
+import * as SessionService from '../services/session.service';
+import * as ApiKeyService from '../services/apiKey.service';
+import * as LoginAttemptService from '../services/loginAttempt.service';
+import * as ImpersonationService from '../services/impersonation.service';
+import * as PasswordPolicyService from '../services/passwordPolicy.service';
+import * as UserService from '../services/user.service';
+import * as RoleService from '../services/role.service';
+import { sendEmailVerificationEmail } from '../services/email.service';
+import { AuthRequest, hasPermission } from '../middlewares/auth.middleware';
 import { getPaginationParams, getPaginationMeta } from '../utils/pagination.helper';
 import { successResponse, errorResponse, paginatedResponse } from '../utils/response.helper';
 
@@ -12,7 +20,7 @@ async function getAllUsers(req: Request, res: Response) {
     );
 
     // Build filter
-    const filter: any = {};
+    const filter: any = { erasedAt: null };
     if (req.query.role) {
       filter.role = req.query.role;
     }
@@ -28,13 +36,17 @@ async function getAllUsers(req: Request, res: Response) {
       sort = { [sortField]: sortOrder };
     }
 
+    // Soft-deleted accounts are listed only on request
+    const withDeleted = req.query.includeDeleted === 'true';
+
     const users = await User.find(filter)
+      .setOptions({ withDeleted })
       .select('-password')
       .sort(sort)
       .skip(skip)
       .limit(limit);
 
-    const totalItems = await User.countDocuments(filter);
+    const totalItems = await User.countDocuments(filter).setOptions({ withDeleted });
     const pagination = getPaginationMeta(totalItems, page, limit);
 
     return res.status(200).json(paginatedResponse(users, pagination, filter));
@@ -52,7 +64,9 @@ async function getUserById(req: Request, res: Response) {
       return res.status(404).json({ error: "User not found" });
     }
 
-    return res.status(200).json({ user: user });
+    const loginLock = await LoginAttemptService.getAccountLockStatus(user.email);
+
+    return res.status(200).json({ user: user, loginLock });
   } catch (error: any) {
     if (error.kind === 'ObjectId') {
       return res.status(400).json({ error: "Invalid user ID format" });
@@ -64,29 +78,48 @@ async function getUserById(req: Request, res: Response) {
   }
 }
 
-async function createUser(req: Request, res: Response) {
+async function createUser(req: AuthRequest, res: Response) {
   try {
     const { firstName, lastName, email, password, age, status, role } = req.body;
 
-    // Check if user already exists
-    const existingUser = await User.findOne({ email });
+    const assignedRole = role || 'vendor'; // Default to vendor if not specified
+
+    // Granting anything beyond customer is reserved for role managers
+    if (assignedRole !== 'customer' && !hasPermission(req.user, 'roles:manage')) {
+      return res.status(403).json({ error: "Access denied. Missing permission: roles:manage" });
+    }
+
+    PasswordPolicyService.assertPasswordAllowed(password, { email, firstName, lastName });
+
+    // Check if user already exists (a deleted account keeps its email until it is purged)
+    const existingUser = await User.findOne({ email }).setOptions({ withDeleted: true });
     if (existingUser) {
       return res.status(400).json({ error: "User with this email already exists" });
     }
 
-    // Create new user
+    // Accounts created by an admin are active unless created as pending, in
+    // which case the owner verifies the email address like after registering
     const user = new User({
       firstName,
       lastName,
       email,
       password,
       age,
-      status,
-      role: role || 'vendor' // Default to vendor if not specified
+      status: status ?? 'active',
+      role: assignedRole,
+      roleAssignedBy: req.user?.id,
+      roleAssignedAt: new Date()
     });
 
+    const verificationToken = user.status === 'pending' ? user.generateEmailVerificationToken() : null;
     await user.save();
 
+    if (verificationToken) {
+      sendEmailVerificationEmail(user.email, user.firstName, verificationToken).catch(err => {
+        console.error('Failed to send verification email:', err);
+      });
+    }
+
     const { password: _, ...userResponse } = user.toObject();
 
     return res.status(201).json({
@@ -94,6 +127,13 @@ async function createUser(req: Request, res: Response) {
       user: userResponse
     });
   } catch (error: any) {
+    if (error.name === 'PasswordPolicyError') {
+      return res.status(400).json({ 
+        error: error.message, 
+        code: 'PASSWORD_POLICY_VIOLATION', 
+        violations: error.violations 
+      });
+    }
     if (error.name === 'ValidationError') {
       return res.status(400).json({ 
         error: 'Validation error', 
@@ -107,36 +147,92 @@ async function createUser(req: Request, res: Response) {
   }
 }
 
-async function updateUserById(req: Request, res: Response) {
+async function updateUserById(req: AuthRequest, res: Response) {
   try {
     const id = req.params.id;
     const { firstName, lastName, email, password, age, status, role } = req.body;
 
+    // Setting the password or email of an account with more permissions would
+    // be a way into them, so only callers holding all of them may edit it
+    const target = await User.findById(id).select('role');
+    if (!target) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    const targetPermissions = await RoleService.getRolePermissions(target.role);
+    if (!targetPermissions.every(permission => RoleService.hasPermission(req.user!.permissions, permission))) {
+      return res.status(403).json({ error: "Access denied. The user has permissions you do not have" });
+    }
+
     // Build update object
     const updateData: any = {};
     if (firstName !== undefined) updateData.firstName = firstName;
     if (lastName !== undefined) updateData.lastName = lastName;
     if (email !== undefined) updateData.email = email;
-    if (password !== undefined) updateData.password = password;
     if (age !== undefined) updateData.age = age;
     if (status !== undefined) updateData.status = status;
-    if (role !== undefined) updateData.role = role;
+    if (role !== undefined) {
+      if (!hasPermission(req.user, 'roles:manage')) {
+        return res.status(403).json({ error: "Access denied. Missing permission: roles:manage" });
+      }
+      updateData.role = role;
+      updateData.roleAssignedBy = req.user?.id;
+      updateData.roleAssignedAt = new Date();
+    }
+
+    let user;
+    if (password !== undefined) {
+      // Set through save() so the password is validated, hashed and kept in
+      // history, together with the other changes so none is saved alone
+      const existing = await User.findById(id).select('+password +passwordHistory');
+      if (!existing) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      PasswordPolicyService.assertPasswordAllowed(password, {
+        email: email ?? existing.email,
+        firstName: firstName ?? existing.firstName,
+        lastName: lastName ?? existing.lastName
+      });
+
+      PasswordPolicyService.rememberCurrentPassword(existing);
+      existing.set(updateData);
+      existing.password = password;
+      await existing.save();
 
-    const user = await User.findByIdAndUpdate(
-      id,
-      updateData,
-      { new: true, runValidators: true }
-    ).select('-password');
+      // Sign out every device that may have been using the old password
+      await SessionService.revokeAllUserSessions(id, 'password_reset');
+
+      user = await User.findById(id).select('-password');
+    } else {
+      user = await User.findByIdAndUpdate(
+        id,
+        updateData,
+        { new: true, runValidators: true }
+      ).select('-password');
+    }
 
     if (!user) {
       return res.status(404).json({ error: "User not found" });
     }
 
+    // Deactivated accounts lose every already-issued token
+    if (status === 'inactive') {
+      await SessionService.revokeAllUserSessions(id, 'account_deactivated');
+      await ApiKeyService.revokeAllUserApiKeys(id);
+    }
+
     return res.status(200).json({
       message: "User updated successfully",
       user: user
     });
   } catch (error: any) {
+    if (error.name === 'PasswordPolicyError') {
+      return res.status(400).json({ 
+        error: error.message, 
+        code: 'PASSWORD_POLICY_VIOLATION', 
+        violations: error.violations 
+      });
+    }
     if (error.name === 'ValidationError') {
       return res.status(400).json({ 
         error: 'Validation error', 
@@ -156,7 +252,67 @@ async function updateUserById(req: Request, res: Response) {
   }
 }
 
-async function deleteUserById(req: Request, res: Response) {
+// Soft-deletes the account; its personal data is erased when the purge job runs
+async function deleteUserById(req: AuthRequest, res: Response) {
+  try {
+    const id = req.params.id;
+
+    if (req.user!.id === id) {
+      return res.status(400).json({ error: "Cannot delete your own account" });
+    }
+
+    const user = await UserService.softDeleteUser(id, {
+      id: req.user!.id,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    });
+
+    return res.status(200).json({
+      message: "User deleted successfully",
+      deletedAt: user.deletedAt
+    });
+  } catch (error: any) {
+    if (error.message === 'User not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.kind === 'ObjectId') {
+      return res.status(400).json({ error: "Invalid user ID format" });
+    }
+    return res.status(500).json({ 
+      error: "Error deleting user", 
+      message: error.message 
+    });
+  }
+}
+
+async function restoreUserById(req: AuthRequest, res: Response) {
+  try {
+    const user = await UserService.restoreUser(req.params.id, {
+      id: req.user!.id,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: "Deleted user not found" });
+    }
+
+    return res.status(200).json({
+      message: "User restored successfully",
+      user: await User.findById(user._id).select('-password')
+    });
+  } catch (error: any) {
+    if (error.kind === 'ObjectId') {
+      return res.status(400).json({ error: "Invalid user ID format" });
+    }
+    return res.status(500).json({ 
+      error: "Error restoring user", 
+      message: error.message 
+    });
+  }
+}
+
+async function revokeUserSessions(req: Request, res: Response) {
   try {
     const id = req.params.id;
     const user = await User.findById(id);
@@ -165,28 +321,107 @@ async function deleteUserById(req: Request, res: Response) {
       return res.status(404).json({ error: "User not found" });
     }
 
-    if (user.profilePicture) {
-      try {
-        await deleteFile(user.profilePicture);
-      } catch (err) {
-        console.error('Failed to delete profile picture:', err);
-      }
+    const revokedCount = await SessionService.revokeAllUserSessions(id, 'admin_revoked');
+
+    return res.status(200).json({
+      message: "User sessions revoked successfully",
+      revokedCount
+    });
+  } catch (error: any) {
+    if (error.kind === 'ObjectId') {
+      return res.status(400).json({ error: "Invalid user ID format" });
+    }
+    return res.status(500).json({ 
+      error: "Error revoking user sessions", 
+      message: error.message 
+    });
+  }
+}
+
+async function unlockUser(req: Request, res: Response) {
+  try {
+    const id = req.params.id;
+    const user = await User.findById(id);
+
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
     }
 
-    await user.deleteOne();
+    const wasLocked = await LoginAttemptService.unlockAccount(user.email);
 
     return res.status(200).json({
-      message: "User deleted successfully"
+      message: wasLocked ? "User account unlocked successfully" : "User account was not locked"
     });
   } catch (error: any) {
     if (error.kind === 'ObjectId') {
       return res.status(400).json({ error: "Invalid user ID format" });
     }
     return res.status(500).json({ 
-      error: "Error deleting user", 
+      error: "Error unlocking user", 
+      message: error.message 
+    });
+  }
+}
+
+async function impersonateUser(req: AuthRequest, res: Response) {
+  try {
+    const { token, expiresAt, user } = await ImpersonationService.startImpersonation(
+      {
+        id: req.user!.id,
+        email: req.user!.email,
+        sessionId: req.user!.sessionId
+      },
+      req.params.id,
+      { userAgent: req.get('user-agent'), ipAddress: req.ip }
+    );
+
+    return res.status(200).json({
+      message: "Impersonation token issued",
+      token,
+      tokenType: "impersonation",
+      expiresAt,
+      user: {
+        id: user._id,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        email: user.email,
+        role: user.role
+      },
+      impersonator: {
+        id: req.user!.id,
+        email: req.user!.email
+      }
+    });
+  } catch (error: any) {
+    if (error.message === 'User not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.message === 'You cannot impersonate yourself' ||
+        error.message === 'Only active accounts can be impersonated' ||
+        error.message === 'Impersonation requires a logged-in session') {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error.message.includes('cannot be impersonated')) {
+      return res.status(403).json({ error: error.message });
+    }
+    if (error.kind === 'ObjectId') {
+      return res.status(400).json({ error: "Invalid user ID format" });
+    }
+    return res.status(500).json({ 
+      error: "Error starting impersonation", 
       message: error.message 
     });
   }
 }
 
-export { getAllUsers, getUserById, createUser, updateUserById, deleteUserById };
+export {
+  getAllUsers,
+  getUserById,
+  createUser,
+  updateUserById,
+  deleteUserById,
+  restoreUserById,
+  revokeUserSessions,
+  unlockUser,
+  impersonateUser
+};
@@ -0,0 +1,247 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middlewares/auth.middleware';
+import * as VendorService from '../services/vendor.service';
+import * as AuthService from '../services/auth.service';
+import * as StockAlertService from '../services/stockAlert.service';
+import { sendVendorApplicationDecisionEmail } from '../services/email.service';
+
+// Customer: Submit vendor application
+export const submitApplication = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const { businessName, contactName, contactEmail, contactPhone, taxId } = req.body;
+
+    if (!businessName || !contactName || !contactEmail || !taxId) {
+      res.status(400).json({
+        message: 'Please provide businessName, contactName, contactEmail, and taxId'
+      });
+      return;
+    }
+
+    const application = await VendorService.submitApplication(req.user.id, {
+      businessName,
+      contactName,
+      contactEmail,
+      contactPhone,
+      taxId
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Vendor application submitted successfully',
+      application
+    });
+  } catch (error: any) {
+    if (error.message === 'User not found') {
+      res.status(404).json({ message: error.message });
+      return;
+    }
+    if (error.message.includes('Only customer accounts') ||
+        error.message.includes('already have a pending')) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    if (error.name === 'ValidationError') {
+      res.status(400).json({
+        message: 'Validation error',
+        errors: error.errors
+      });
+      return;
+    }
+    res.status(500).json({
+      message: 'Error submitting vendor application',
+      error: error.message
+    });
+  }
+};
+
+// Customer: Get own applications
+export const getMyApplications = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const applications = await VendorService.getUserApplications(req.user.id);
+
+    res.status(200).json({
+      success: true,
+      count: applications.length,
+      applications
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      message: 'Error fetching vendor applications',
+      error: error.message
+    });
+  }
+};
+
+// Admin: Get all applications with filters
+export const getAllApplications = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const filters = {
+      status: req.query.status as string,
+      page: req.query.page ? Number(req.query.page) : 1,
+      limit: req.query.limit ? Number(req.query.limit) : 10
+    };
+
+    const result = await VendorService.getAllApplications(filters);
+
+    res.status(200).json({
+      success: true,
+      ...result
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      message: 'Error fetching vendor applications',
+      error: error.message
+    });
+  }
+};
+
+// Admin: Approve application
+export const approveApplication = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const application = await VendorService.approveApplication(req.params.id, req.user!.id);
+
+    const user = await AuthService.getUserProfile(application.userId.toString());
+    if (user) {
+      sendVendorApplicationDecisionEmail(
+        user.email,
+        user.firstName,
+        application.businessName,
+        true
+      ).catch(err => {
+        console.error('Failed to send vendor application email:', err);
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Vendor application approved',
+      application
+    });
+  } catch (error: any) {
+    if (error.message === 'Vendor application not found') {
+      res.status(404).json({ message: error.message });
+      return;
+    }
+    if (error.message.includes('has already been') ||
+        error.message === 'Applicant account no longer exists') {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    if (error.kind === 'ObjectId') {
+      res.status(400).json({ message: 'Invalid application ID format' });
+      return;
+    }
+    res.status(500).json({
+      message: 'Error approving vendor application',
+      error: error.message
+    });
+  }
+};
+
+// Admin: Reject application
+export const rejectApplication = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { reason } = req.body || {};
+
+    const application = await VendorService.rejectApplication(req.params.id, req.user!.id, reason);
+
+    const user = await AuthService.getUserProfile(application.userId.toString());
+    if (user) {
+      sendVendorApplicationDecisionEmail(
+        user.email,
+        user.firstName,
+        application.businessName,
+        false,
+        reason
+      ).catch(err => {
+        console.error('Failed to send vendor application email:', err);
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Vendor application rejected',
+      application
+    });
+  } catch (error: any) {
+    if (error.message === 'Vendor application not found') {
+      res.status(404).json({ message: error.message });
+      return;
+    }
+    if (error.message.includes('has already been')) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    if (error.kind === 'ObjectId') {
+      res.status(400).json({ message: 'Invalid application ID format' });
+      return;
+    }
+    res.status(500).json({
+      message: 'Error rejecting vendor application',
+      error: error.message
+    });
+  }
+};
+
+// Vendor: Low-stock alert settings and products currently in alert
+export const getStockAlerts = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const stockAlerts = await StockAlertService.getVendorStockAlerts(req.user.id);
+
+    res.status(200).json({
+      success: true,
+      ...stockAlerts
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      message: 'Error fetching stock alerts',
+      error: error.message
+    });
+  }
+};
+
+// Vendor: Choose immediate alerts, a daily digest, or no stock alert emails
+export const updateStockAlertSettings = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ message: 'Authentication required' });
+      return;
+    }
+
+    const { frequency } = req.body || {};
+    if (!StockAlertService.STOCK_ALERT_FREQUENCIES.includes(frequency)) {
+      res.status(400).json({
+        message: `frequency must be one of ${StockAlertService.STOCK_ALERT_FREQUENCIES.join(', ')}`
+      });
+      return;
+    }
+
+    await StockAlertService.setStockAlertFrequency(req.user.id, frequency);
+
+    res.status(200).json({
+      success: true,
+      message: 'Stock alert settings updated successfully',
+      frequency
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      message: 'Error updating stock alert settings',
+      error: error.message
+    });
+  }
+};
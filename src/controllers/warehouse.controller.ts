@@ -0,0 +1,190 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import { AuthRequest } from '../middlewares/auth.middleware';
+import * as WarehouseService from '../services/warehouse.service';
+import * as InventoryService from '../services/inventory.service';
+
+const WAREHOUSE_CONFLICTS = [
+  'Warehouse with this code already exists',
+  'The default warehouse cannot be inactive',
+  'Make another warehouse the default instead'
+];
+
+// Admin: List warehouses with the units each holds
+export const getAllWarehouses = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const warehouses = await WarehouseService.getAllWarehouses(req.query.includeInactive === 'true');
+
+    res.status(200).json({
+      success: true,
+      count: warehouses.length,
+      warehouses
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      message: 'Error fetching warehouses',
+      error: error.message
+    });
+  }
+};
+
+// Admin: Get a single warehouse
+export const getWarehouse = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      res.status(400).json({ message: 'Invalid warehouse ID format' });
+      return;
+    }
+
+    const warehouse = await WarehouseService.getWarehouseById(req.params.id);
+
+    if (!warehouse) {
+      res.status(404).json({ message: 'Warehouse not found' });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      warehouse
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      message: 'Error fetching warehouse',
+      error: error.message
+    });
+  }
+};
+
+// Admin: Add a warehouse
+export const createWarehouse = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { name, code, address, isDefault, isActive } = req.body || {};
+
+    if (!name || !code) {
+      res.status(400).json({ message: 'Please provide name and code' });
+      return;
+    }
+
+    const warehouse = await WarehouseService.createWarehouse(
+      { name, code, address, isDefault, isActive },
+      req.user!.id
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Warehouse created successfully',
+      warehouse
+    });
+  } catch (error: any) {
+    if (WAREHOUSE_CONFLICTS.includes(error.message)) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    if (error.name === 'ValidationError') {
+      res.status(400).json({
+        message: 'Validation error',
+        errors: error.errors
+      });
+      return;
+    }
+    res.status(500).json({
+      message: 'Error creating warehouse',
+      error: error.message
+    });
+  }
+};
+
+// Admin: Change a warehouse, make it the default or (once empty) deactivate it
+export const updateWarehouse = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      res.status(400).json({ message: 'Invalid warehouse ID format' });
+      return;
+    }
+
+    const { name, code, address, isDefault, isActive } = req.body || {};
+    const warehouse = await WarehouseService.updateWarehouse(
+      req.params.id,
+      { name, code, address, isDefault, isActive }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Warehouse updated successfully',
+      warehouse
+    });
+  } catch (error: any) {
+    if (error.message === 'Warehouse not found') {
+      res.status(404).json({ message: error.message });
+      return;
+    }
+    if (WAREHOUSE_CONFLICTS.includes(error.message) || error.message.startsWith('Transfer the stock at')) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    if (error.name === 'ValidationError') {
+      res.status(400).json({
+        message: 'Validation error',
+        errors: error.errors
+      });
+      return;
+    }
+    res.status(500).json({
+      message: 'Error updating warehouse',
+      error: error.message
+    });
+  }
+};
+
+// Admin: Move stock of a product (or variant) from one warehouse to another
+export const transferStock = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { productId, variantId, fromWarehouseId, toWarehouseId, quantity, note } = req.body || {};
+
+    if (![productId, fromWarehouseId, toWarehouseId].every(id => mongoose.isValidObjectId(id)) ||
+        (variantId && !mongoose.isValidObjectId(variantId))) {
+      res.status(400).json({ message: 'Please provide valid productId, fromWarehouseId and toWarehouseId' });
+      return;
+    }
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      res.status(400).json({ message: 'quantity must be a positive integer' });
+      return;
+    }
+    if (note !== undefined && (typeof note !== 'string' || note.length > 500)) {
+      res.status(400).json({ message: 'note must be a string of at most 500 characters' });
+      return;
+    }
+
+    const movements = await InventoryService.transferStock({
+      productId,
+      variantId,
+      fromWarehouseId,
+      toWarehouseId,
+      quantity,
+      note,
+      actorId: req.user!.id
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Stock transferred successfully',
+      movements
+    });
+  } catch (error: any) {
+    if (['Warehouse not found', 'Product not found', 'Variant not found'].includes(error.message)) {
+      res.status(404).json({ message: error.message });
+      return;
+    }
+    if (error.message === 'Source and destination warehouses must differ' ||
+        error.message.startsWith('Cannot transfer stock to inactive') ||
+        error.message.startsWith('Please choose a variant') ||
+        error.message.startsWith('Insufficient stock')) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    res.status(500).json({
+      message: 'Error transferring stock',
+      error: error.message
+    });
+  }
+};
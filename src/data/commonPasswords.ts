@@ -0,0 +1,44 @@
+// Frequently used and breached passwords, compared case-insensitively.
+// Drawn from publicly available breach-frequency lists; extend as needed.
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  '123456', 'password', '12345678', 'qwerty', '123456789', '12345', '1234', '111111', '1234567',
+  'dragon', '123123', 'baseball', 'abc123', 'football', 'monkey', 'letmein', '696969', 'shadow',
+  'master', '666666', 'qwertyuiop', '123321', 'mustang', '1234567890', 'michael', '654321',
+  'superman', '1qaz2wsx', '7777777', '121212', '000000', 'qazwsx', '123qwe', 'killer', 'trustno1',
+  'jordan', 'jennifer', 'zxcvbnm', 'asdfgh', 'hunter', 'buster', 'soccer', 'harley', 'batman',
+  'andrew', 'tigger', 'sunshine', 'iloveyou', '2000', 'charlie', 'robert', 'thomas', 'hockey',
+  'ranger', 'daniel', 'starwars', 'klaster', '112233', 'george', 'computer', 'michelle', 'jessica',
+  'pepper', '1111', 'zxcvbn', '555555', '11111111', '131313', 'freedom', '777777', 'pass',
+  'maggie', '159753', 'aaaaaa', 'ginger', 'princess', 'joshua', 'cheese', 'amanda', 'summer',
+  'love', 'ashley', 'nicole', 'chelsea', 'biteme', 'matthew', 'access', 'yankees', '987654321',
+  'dallas', 'austin', 'thunder', 'taylor', 'matrix', 'password1', 'password12', 'password123',
+  'password1234', 'passw0rd', 'p@ssw0rd', 'p@ssword', 'pa$$word', 'passwort', 'motdepasse',
+  'contraseña', 'iloveyou1', 'iloveyou2', 'princess1', 'sunshine1', 'football1', 'baseball1',
+  'superman1', 'welcome', 'welcome1', 'welcome123', 'welcome2023', 'welcome2024', 'qwerty123',
+  'qwerty1234', 'qwertyui', 'qwerty12', '1q2w3e4r', '1q2w3e4r5t', '1q2w3e4r5t6y', 'q1w2e3r4',
+  'q1w2e3r4t5', 'zaq12wsx', 'zaq1xsw2', '1qazxsw2', '!qaz2wsx', 'asdfghjkl', 'asdfasdf',
+  'asdf1234', 'zxcvbnm1', 'abc12345', 'abcd1234', 'abcdefg', 'abcdefgh', 'abcdef123', 'aa123456',
+  'a1b2c3d4', 'aaaaaaaa', '11223344', '12341234', '12344321', '1234qwer', '12qwaszx', '123abc',
+  '123456a', '123456aa', '1234abcd', '87654321', '88888888', '99999999', '00000000', '12121212',
+  '123654789', '147258369', '159357', '0987654321', '123123123', '456789', '7654321', 'admin',
+  'admin123', 'admin1234', 'administrator', 'root', 'toor', 'changeme', 'changeme123', 'default',
+  'guest', 'letmein1', 'letmein123', 'secret', 'secret123', 'test', 'test123', 'test1234',
+  'testing', 'testing123', 'user', 'user123', 'login', 'login123', 'master123', 'access14',
+  'temp1234', 'temporary', 'dragon123', 'monkey123', 'shadow123', 'michael1', 'jordan23',
+  'charlie1', 'liverpool', 'arsenal', 'chelsea1', 'manchester', 'barcelona', 'realmadrid',
+  'juventus', 'football12', 'soccer12', 'baseball12', 'basketball', 'hockey12', 'starwars1',
+  'pokemon', 'pikachu', 'naruto', 'minecraft', 'fortnite', 'batman123', 'spiderman', 'ironman',
+  'superman12', 'whatever', 'hello123', 'hellohello', 'lovely', 'loveme', 'loveyou', 'iloveu',
+  'ilovegod', 'jesus', 'jesus123', 'blessed', 'godbless', 'summer2023', 'summer2024', 'summer2025',
+  'winter2023', 'winter2024', 'spring2024', 'autumn2024', 'january', 'february', 'december',
+  '2023', '2024', '2025', 'computer1', 'internet', 'samsung', 'iphone', 'apple123', 'google',
+  'microsoft', 'facebook', 'linkedin', 'twitter', 'instagram', 'youtube', 'netflix', 'amazon',
+  'sunflower', 'butterfly', 'chocolate', 'cookie1', 'cupcake', 'princess12', 'angel123',
+  'babygirl', 'babygirl1', 'flower', 'flower123', 'rainbow', 'unicorn', 'purple', 'orange',
+  'banana', 'cherry', 'mypassword', 'mypass123', 'newpassword', 'newpass', 'password01',
+  'password2', 'password3', 'password!', 'password@123', 'password#1', 'pass1234', 'pass@123',
+  'passpass', 'qwe123', 'qwe12345', 'qweasd', 'qweasdzxc', 'qweqwe', 'asd123', 'zxc123',
+  'zxcasdqwe', '1qaz!qaz', 'ncc1701', 'thx1138', 'matrix123', 'trinity', 'football123',
+  'baseball123', 'mustang1', 'corvette', 'ferrari', 'porsche', 'mercedes', 'yamaha', 'harley1',
+  'chevy123'
+]);
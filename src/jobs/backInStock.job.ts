@@ -0,0 +1,27 @@
+import * as BackInStockService from '../services/backInStock.service';
+
+let backInStockTimer: NodeJS.Timeout | null = null;
+
+// Send due back-in-stock batches every BACK_IN_STOCK_INTERVAL_SECONDS
+// (default 60); the first batch after a restock goes out right away
+export const startBackInStockJob = (): void => {
+  if (backInStockTimer) {
+    return;
+  }
+
+  const intervalMs = parseFloat(process.env.BACK_IN_STOCK_INTERVAL_SECONDS || '60') * 1000;
+
+  const run = () => {
+    BackInStockService.sendDueBackInStockBatches()
+      .then(sent => {
+        if (sent > 0) {
+          console.log(`🔔 Sent ${sent} back-in-stock email(s)`);
+        }
+      })
+      .catch(err => console.error('Failed to send back-in-stock emails:', err));
+  };
+
+  run();
+  backInStockTimer = setInterval(run, intervalMs);
+  backInStockTimer.unref();
+};
@@ -0,0 +1,26 @@
+import * as ProductService from '../services/product.service';
+
+let scheduleTimer: NodeJS.Timeout | null = null;
+
+// Apply publishAt/unpublishAt every PRODUCT_SCHEDULE_INTERVAL_SECONDS (default 60)
+export const startProductScheduleJob = (): void => {
+  if (scheduleTimer) {
+    return;
+  }
+
+  const intervalMs = parseFloat(process.env.PRODUCT_SCHEDULE_INTERVAL_SECONDS || '60') * 1000;
+
+  const run = () => {
+    ProductService.applyProductSchedule()
+      .then(result => {
+        if (result.published || result.unpublished) {
+          console.log(`🗓️  Product schedule: ${result.published} published, ${result.unpublished} archived`);
+        }
+      })
+      .catch(err => console.error('Failed to apply product schedule:', err));
+  };
+
+  run();
+  scheduleTimer = setInterval(run, intervalMs);
+  scheduleTimer.unref();
+};
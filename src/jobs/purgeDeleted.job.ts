@@ -0,0 +1,119 @@
+import { Product } from '../models/product.model';
+import { Category } from '../models/category.model';
+import { User } from '../models/user.model';
+import { Review } from '../models/review.model';
+import { InventoryLevel } from '../models/inventoryLevel.model';
+import { StockSubscription } from '../models/stockSubscription.model';
+import { deleteFile } from '../middlewares/upload.middleware';
+import * as PrivacyService from '../services/privacy.service';
+
+export interface PurgeResult {
+  products: number;
+  categories: number;
+  users: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long soft-deleted records can be restored before they are purged
+export const getRetentionDays = (): number => {
+  return parseInt(process.env.SOFT_DELETE_RETENTION_DAYS || '30');
+};
+
+const purgeProducts = async (deletedBefore: Record<string, any>): Promise<number> => {
+  const products = await Product.find(deletedBefore).select('images');
+  if (products.length === 0) {
+    return 0;
+  }
+
+  for (const product of products) {
+    await Promise.all((product.images || []).map(imageUrl =>
+      deleteFile(imageUrl).catch(err => console.error('Failed to delete product image:', err))
+    ));
+  }
+
+  const productIds = products.map(product => product._id);
+  await Review.deleteMany({ product: { $in: productIds } });
+  await InventoryLevel.deleteMany({ product: { $in: productIds } });
+  await StockSubscription.deleteMany({ product: { $in: productIds } });
+  const result = await Product.deleteMany({ _id: { $in: productIds }, ...deletedBefore });
+  return result.deletedCount;
+};
+
+// A category is only removed once no product or subcategory (deleted or not)
+// references it; deepest first, so a purged child frees its parent in the same run
+const purgeCategories = async (deletedBefore: Record<string, any>): Promise<number> => {
+  const categories = await Category.find(deletedBefore).select('_id').sort({ depth: -1 });
+  let purged = 0;
+
+  for (const category of categories) {
+    const [hasProducts, hasChildren] = await Promise.all([
+      Product.exists({ category: category._id }).setOptions({ withDeleted: true }),
+      Category.exists({ parent: category._id }).setOptions({ withDeleted: true })
+    ]);
+
+    if (!hasProducts && !hasChildren) {
+      const result = await Category.deleteOne({ _id: category._id, ...deletedBefore });
+      purged += result.deletedCount;
+    }
+  }
+
+  return purged;
+};
+
+// Users are erased rather than removed, so their orders keep a valid owner
+const purgeUsers = async (deletedBefore: Record<string, any>): Promise<number> => {
+  const users = await User.find({ ...deletedBefore, erasedAt: null }).select('_id deletedBy');
+  let purged = 0;
+
+  for (const user of users) {
+    try {
+      await PrivacyService.eraseUser(user._id.toString(), {
+        id: (user.deletedBy || user._id).toString()
+      });
+      purged++;
+    } catch (err) {
+      console.error(`Failed to erase deleted user ${user._id}:`, err);
+    }
+  }
+
+  return purged;
+};
+
+// Permanently remove soft-deleted records older than the retention window
+export const purgeDeletedRecords = async (now: Date = new Date()): Promise<PurgeResult> => {
+  const cutoff = new Date(now.getTime() - getRetentionDays() * DAY_MS);
+  const deletedBefore = { deletedAt: { $ne: null, $lte: cutoff } };
+
+  // Products first, so categories they referenced can go in the same run
+  const products = await purgeProducts(deletedBefore);
+  const categories = await purgeCategories(deletedBefore);
+  const users = await purgeUsers(deletedBefore);
+
+  return { products, categories, users };
+};
+
+let purgeTimer: NodeJS.Timeout | null = null;
+
+// Run the purge shortly after startup and then every PURGE_INTERVAL_HOURS (default 24)
+export const startPurgeJob = (): void => {
+  if (purgeTimer) {
+    return;
+  }
+
+  const intervalMs = parseFloat(process.env.PURGE_INTERVAL_HOURS || '24') * 60 * 60 * 1000;
+
+  const run = () => {
+    purgeDeletedRecords()
+      .then(result => {
+        if (result.products || result.categories || result.users) {
+          console.log(`🧹 Purged deleted records: ${result.products} products, ${result.categories} categories, ${result.users} users`);
+        }
+      })
+      .catch(err => console.error('Failed to purge deleted records:', err));
+  };
+
+  setTimeout(run, 60 * 1000).unref();
+  purgeTimer = setInterval(run, intervalMs);
+  purgeTimer.unref();
+};
@@ -0,0 +1,27 @@
+import * as ReservationService from '../services/reservation.service';
+
+let sweepTimer: NodeJS.Timeout | null = null;
+
+// Give back stock held by lapsed checkouts every
+// RESERVATION_SWEEP_INTERVAL_SECONDS (default 60)
+export const startReservationSweeper = (): void => {
+  if (sweepTimer) {
+    return;
+  }
+
+  const intervalMs = parseFloat(process.env.RESERVATION_SWEEP_INTERVAL_SECONDS || '60') * 1000;
+
+  const run = () => {
+    ReservationService.releaseExpiredReservations()
+      .then(released => {
+        if (released > 0) {
+          console.log(`🛒 Released ${released} expired stock reservation(s)`);
+        }
+      })
+      .catch(err => console.error('Failed to release expired reservations:', err));
+  };
+
+  run();
+  sweepTimer = setInterval(run, intervalMs);
+  sweepTimer.unref();
+};
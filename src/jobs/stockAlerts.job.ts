@@ -0,0 +1,27 @@
+import * as StockAlertService from '../services/stockAlert.service';
+
+let alertTimer: NodeJS.Timeout | null = null;
+
+// Check stock against reorder thresholds and email vendors every
+// STOCK_ALERT_INTERVAL_SECONDS (default 300)
+export const startStockAlertJob = (): void => {
+  if (alertTimer) {
+    return;
+  }
+
+  const intervalMs = parseFloat(process.env.STOCK_ALERT_INTERVAL_SECONDS || '300') * 1000;
+
+  const run = () => {
+    StockAlertService.runStockAlerts()
+      .then(result => {
+        if (result.alerted || result.cleared || result.emailsSent) {
+          console.log(`📦 Stock alerts: ${result.alerted} new, ${result.cleared} restocked, ${result.emailsSent} email(s) sent`);
+        }
+      })
+      .catch(err => console.error('Failed to run stock alerts:', err));
+  };
+
+  run();
+  alertTimer = setInterval(run, intervalMs);
+  alertTimer.unref();
+};
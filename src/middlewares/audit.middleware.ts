@@ -0,0 +1,41 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from './auth.middleware';
+import * as AuditService from '../services/audit.service';
+
+const READ_ONLY_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// Record every write made with an impersonation token. req.user is only set
+// once the route's authenticate middleware has run, so the check happens
+// when the response finishes.
+export const auditImpersonatedWrites = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (READ_ONLY_METHODS.includes(req.method)) {
+    next();
+    return;
+  }
+
+  res.on('finish', () => {
+    const impersonator = req.user?.impersonator;
+    if (!impersonator) {
+      return;
+    }
+
+    AuditService.recordAuditLog({
+      action: 'impersonation.request',
+      actorId: impersonator.id,
+      subjectId: req.user!.id,
+      method: req.method,
+      path: req.originalUrl,
+      statusCode: res.statusCode,
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent')
+    }).catch(err => {
+      console.error('Failed to record audit log:', err);
+    });
+  });
+
+  next();
+};
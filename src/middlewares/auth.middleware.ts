@@ -1,6 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { User } from '../models/user.model';
+import * as SessionService from '../services/session.service';
+import * as TwoFactorService from '../services/twoFactor.service';
+import * as ApiKeyService from '../services/apiKey.service';
+import { ApiKeyScope } from '../models/apiKey.model';
+import * as RoleService from '../services/role.service';
+import * as ImpersonationService from '../services/impersonation.service';
+import { Permission } from '../config/permissions.config';
 
 export interface AuthRequest extends Request {
   user?: {
@@ -8,16 +15,100 @@ export interface AuthRequest extends Request {
     email: string;
     firstName: string;
     lastName: string;
-    role: 'admin' | 'vendor' | 'customer';
+    role: string;
+    // Resolved from the user's role; '*' means every permission
+    permissions: string[];
+    sessionId?: string;
+    // Role requires 2FA by policy but the user has not enrolled yet
+    twoFactorSetupRequired?: boolean;
+    // Set when the request was authenticated with an X-API-Key header
+    apiKeyId?: string;
+    scopes?: ApiKeyScope[];
+    // Set when an admin is acting as this user
+    impersonator?: {
+      id: string;
+      email: string;
+    };
   };
 }
 
-export const authenticate = async (
+interface AccessTokenPayload {
+  id: string;
+  email: string;
+  role?: string;
+  sid?: string;
+  // Acting admin on impersonation tokens
+  act?: {
+    sub: string;
+    email: string;
+  };
+}
+
+// Authenticate with an X-API-Key header. Keys only work on routes that
+// declare a scope via authenticateWithScope, and only if the key has it.
+const authenticateApiKey = async (
   req: AuthRequest,
   res: Response,
-  next: NextFunction
+  next: NextFunction,
+  key: string,
+  requiredScope?: ApiKeyScope
+): Promise<void> => {
+  if (!requiredScope) {
+    res.status(403).json({
+      message: 'API keys are not accepted for this endpoint',
+      code: 'API_KEY_NOT_ALLOWED'
+    });
+    return;
+  }
+
+  const result = await ApiKeyService.authenticateApiKey(key, req.ip);
+
+  if (!result) {
+    res.status(401).json({ message: 'Invalid, expired or revoked API key' });
+    return;
+  }
+
+  const { apiKey, user } = result;
+
+  if (!apiKey.scopes.includes(requiredScope)) {
+    res.status(403).json({
+      message: `API key is missing the required scope: ${requiredScope}`,
+      code: 'INSUFFICIENT_SCOPE'
+    });
+    return;
+  }
+
+  req.user = {
+    id: user._id.toString(),
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    role: user.role,
+    permissions: await RoleService.getRolePermissions(user.role),
+    twoFactorSetupRequired: await TwoFactorService.isTwoFactorSetupRequired(
+      user.role,
+      user.twoFactorEnabled
+    ),
+    apiKeyId: apiKey._id.toString(),
+    scopes: apiKey.scopes
+  };
+
+  next();
+};
+
+const authenticateRequest = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction,
+  apiKeyScope?: ApiKeyScope
 ): Promise<void> => {
   try {
+    const apiKey = req.get('x-api-key');
+    if (apiKey) {
+      await authenticateApiKey(req, res, next, apiKey, apiKeyScope);
+      return;
+    }
+
     const authHeader = req.headers.authorization;
     
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -34,11 +125,21 @@ export const authenticate = async (
       throw new Error('JWT_SECRET is not defined');
     }
 
-    const decoded = jwt.verify(token, jwtSecret) as {
-      id: string;
-      email: string;
-      role?: string;
-    };
+    const decoded = jwt.verify(token, jwtSecret) as AccessTokenPayload;
+
+    // Impersonation tokens live on the acting admin's session
+    const sessionOwnerId = decoded.act ? decoded.act.sub : decoded.id;
+
+    // Tokens issued before sessions existed carry no session ID
+    if (!decoded.sid || !(await SessionService.isSessionActive(decoded.sid, sessionOwnerId))) {
+      res.status(401).json({ message: 'Session expired or revoked. Please log in again.' });
+      return;
+    }
+
+    if (decoded.act && !(await ImpersonationService.isImpersonationAllowed(decoded.act.sub))) {
+      res.status(401).json({ message: 'Impersonation is no longer permitted' });
+      return;
+    }
 
     const user = await User.findById(decoded.id).select('-password');
     
@@ -52,7 +153,14 @@ export const authenticate = async (
       email: user.email,
       firstName: user.firstName,
       lastName: user.lastName,
-      role: user.role
+      role: user.role,
+      permissions: await RoleService.getRolePermissions(user.role),
+      sessionId: decoded.sid,
+      twoFactorSetupRequired: await TwoFactorService.isTwoFactorSetupRequired(
+        user.role,
+        user.twoFactorEnabled
+      ),
+      impersonator: decoded.act ? { id: decoded.act.sub, email: decoded.act.email } : undefined
     };
 
     next();
@@ -72,6 +180,19 @@ export const authenticate = async (
   }
 };
 
+// Session (Bearer token) authentication only
+export const authenticate = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => authenticateRequest(req, res, next);
+
+// Session authentication, or an API key that carries the given scope
+export const authenticateWithScope = (scope: ApiKeyScope) => {
+  return (req: AuthRequest, res: Response, next: NextFunction): Promise<void> =>
+    authenticateRequest(req, res, next, scope);
+};
+
 export const optionalAuth = async (
   req: AuthRequest,
   res: Response,
@@ -85,20 +206,25 @@ export const optionalAuth = async (
       const jwtSecret = process.env.JWT_SECRET;
       
       if (jwtSecret) {
-        const decoded = jwt.verify(token, jwtSecret) as {
-          id: string;
-          email: string;
-          role?: string;
-        };
+        const decoded = jwt.verify(token, jwtSecret) as AccessTokenPayload;
         
-        const user = await User.findById(decoded.id).select('-password');
+        const sessionOwnerId = decoded.act ? decoded.act.sub : decoded.id;
+        const sessionActive = !!decoded.sid &&
+          await SessionService.isSessionActive(decoded.sid, sessionOwnerId) &&
+          (!decoded.act || await ImpersonationService.isImpersonationAllowed(decoded.act.sub));
+        const user = sessionActive
+          ? await User.findById(decoded.id).select('-password')
+          : null;
         if (user) {
           req.user = {
             id: user._id.toString(),
             email: user.email,
             firstName: user.firstName,
             lastName: user.lastName,
-            role: user.role
+            role: user.role,
+            permissions: await RoleService.getRolePermissions(user.role),
+            sessionId: decoded.sid,
+            impersonator: decoded.act ? { id: decoded.act.sub, email: decoded.act.email } : undefined
           };
         }
       }
@@ -110,78 +236,60 @@ export const optionalAuth = async (
   }
 };
 
-// Role-based authorization middleware
-export const requireAdmin = (
-  req: AuthRequest,
-  res: Response,
-  next: NextFunction
-): void => {
-  if (!req.user) {
-    res.status(401).json({ message: 'Authentication required' });
-    return;
-  }
-
-  if (req.user.role !== 'admin') {
-    res.status(403).json({ 
-      message: 'Access denied. Admin privileges required.' 
+// Users whose role requires 2FA keep basic access (profile, enrollment)
+// but are refused permission-restricted endpoints until they enroll
+const rejectIfTwoFactorSetupRequired = (req: AuthRequest, res: Response): boolean => {
+  if (req.user?.twoFactorSetupRequired) {
+    res.status(403).json({
+      message: 'Two-factor authentication is required for your role. Please enable it to continue.',
+      code: 'TWO_FACTOR_SETUP_REQUIRED'
     });
-    return;
+    return true;
   }
-
-  next();
+  return false;
 };
 
-export const requireVendorOrAdmin = (
-  req: AuthRequest,
-  res: Response,
-  next: NextFunction
-): void => {
-  if (!req.user) {
-    res.status(401).json({ message: 'Authentication required' });
-    return;
-  }
-
-  if (req.user.role !== 'admin' && req.user.role !== 'vendor') {
-    res.status(403).json({ 
-      message: 'Access denied. Vendor or Admin privileges required.' 
-    });
-    return;
-  }
-
-  next();
+export const hasPermission = (
+  user: AuthRequest['user'],
+  permission: Permission
+): boolean => {
+  return !!user && RoleService.hasPermission(user.permissions, permission);
 };
 
-export const requireRole = (...roles: Array<'admin' | 'vendor' | 'customer'>) => {
+// Permission-based authorization middleware; the user needs every listed permission
+export const requirePermission = (...permissions: Permission[]) => {
   return (req: AuthRequest, res: Response, next: NextFunction): void => {
     if (!req.user) {
       res.status(401).json({ message: 'Authentication required' });
       return;
     }
 
-    if (!roles.includes(req.user.role)) {
+    const missing = permissions.filter(permission => !hasPermission(req.user, permission));
+    if (missing.length > 0) {
       res.status(403).json({ 
-        message: `Access denied. Required role: ${roles.join(' or ')}` 
+        message: `Access denied. Missing permission: ${missing.join(', ')}` 
       });
       return;
     }
 
+    if (rejectIfTwoFactorSetupRequired(req, res)) {
+      return;
+    }
+
     next();
   };
 };
 
-export const requireCustomer = (
+// Block sensitive account actions (password, 2FA, deletion...) under impersonation
+export const forbidImpersonation = (
   req: AuthRequest,
   res: Response,
   next: NextFunction
 ): void => {
-  if (!req.user) {
-    res.status(401).json({ message: 'Authentication required' });
-    return;
-  }
-
-  if (req.user.role !== 'customer') {
-    res.status(403).json({ 
-      message: 'Access denied. Customer privileges required.' 
+  if (req.user?.impersonator) {
+    res.status(403).json({
+      message: 'This action is not allowed while impersonating a user',
+      code: 'IMPERSONATION_FORBIDDEN'
     });
     return;
   }
@@ -201,7 +309,7 @@ export const requireSelfOrAdmin = (
 
   const resourceUserId = req.params.userId || req.params.id;
   
-  if (req.user.role !== 'admin' && req.user.id !== resourceUserId) {
+  if (!hasPermission(req.user, 'users:read') && req.user.id !== resourceUserId) {
     res.status(403).json({ 
       message: 'Access denied. You can only access your own resources.' 
     });
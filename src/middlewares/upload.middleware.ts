@@ -55,6 +55,23 @@ export const upload = multer({
   }
 });
 
+// Product import files are parsed from memory and never stored
+const IMPORT_EXTENSIONS = ['.csv', '.jsonl', '.ndjson'];
+
+export const importUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (req, file, cb) => {
+    if (IMPORT_EXTENSIONS.includes(path.extname(file.originalname).toLowerCase())) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Only .csv, .jsonl and .ndjson files can be imported.'));
+    }
+  },
+  limits: {
+    fileSize: parseFloat(process.env.IMPORT_MAX_FILE_MB || '10') * 1024 * 1024
+  }
+});
+
 // Delete file from Cloudinary or local storage
 export const deleteFile = async (fileUrl: string): Promise<void> => {
   if (useCloudinary && fileUrl.includes('cloudinary.com')) {
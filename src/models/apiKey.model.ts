@@ -0,0 +1,78 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export const API_KEY_SCOPES = ['products:write', 'inventory:write', 'orders:read'] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export interface IApiKey extends Document {
+  userId: Types.ObjectId;
+  name: string;
+  keyHash: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: Date | null;
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  revokedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const ApiKeySchema = new Schema<IApiKey>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required'],
+    index: true
+  },
+  name: {
+    type: String,
+    required: [true, 'API key name is required'],
+    trim: true,
+    maxlength: [100, 'API key name cannot exceed 100 characters']
+  },
+  // SHA-256 of the full key; the key itself is only shown once at creation
+  keyHash: {
+    type: String,
+    required: true,
+    unique: true, // Creates unique index
+    select: false
+  },
+  // Leading characters of the key so owners can tell keys apart
+  prefix: {
+    type: String,
+    required: true
+  },
+  scopes: {
+    type: [String],
+    enum: {
+      values: API_KEY_SCOPES as unknown as string[],
+      message: 'Invalid API key scope: {VALUE}'
+    },
+    validate: {
+      validator: function(scopes: string[]) {
+        return scopes && scopes.length > 0;
+      },
+      message: 'API key must have at least one scope'
+    }
+  },
+  // null means the key never expires
+  expiresAt: {
+    type: Date,
+    default: null
+  },
+  lastUsedAt: {
+    type: Date
+  },
+  lastUsedIp: {
+    type: String
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+export const ApiKey = mongoose.model<IApiKey>('ApiKey', ApiKeySchema);
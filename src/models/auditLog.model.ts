@@ -0,0 +1,61 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export interface IAuditLog extends Document {
+  action: string;
+  actorId: Types.ObjectId;
+  subjectId?: Types.ObjectId;
+  method?: string;
+  path?: string;
+  statusCode?: number;
+  ipAddress?: string;
+  userAgent?: string;
+  details?: Record<string, any>;
+  createdAt?: Date;
+}
+
+const AuditLogSchema = new Schema<IAuditLog>({
+  // e.g. "impersonation.start", "impersonation.request"
+  action: {
+    type: String,
+    required: true,
+    index: true
+  },
+  // User who actually performed the action (the admin when impersonating)
+  actorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // User the action was performed as or on
+  subjectId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  method: {
+    type: String
+  },
+  path: {
+    type: String
+  },
+  statusCode: {
+    type: Number
+  },
+  ipAddress: {
+    type: String
+  },
+  userAgent: {
+    type: String,
+    maxlength: 500
+  },
+  details: {
+    type: Schema.Types.Mixed
+  }
+}, {
+  // Audit entries are append-only
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+AuditLogSchema.index({ actorId: 1, createdAt: -1 });
+AuditLogSchema.index({ subjectId: 1, createdAt: -1 });
+
+export const AuditLog = mongoose.model<IAuditLog>('AuditLog', AuditLogSchema);
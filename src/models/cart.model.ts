@@ -2,6 +2,8 @@ import mongoose, { Schema, Document } from 'mongoose';
 
 interface ICartItem {
   productId: mongoose.Types.ObjectId;
+  variantId?: mongoose.Types.ObjectId | null;
+  sku?: string;
   quantity: number;
   price: number;
 }
@@ -20,6 +22,14 @@ const CartItemSchema = new Schema<ICartItem>({
     ref: 'Product',
     required: true
   },
+  // Set when the product has variants
+  variantId: {
+    type: Schema.Types.ObjectId,
+    default: null
+  },
+  sku: {
+    type: String
+  },
   quantity: {
     type: Number,
     required: true,
@@ -1,19 +1,78 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { softDeletePlugin, ISoftDeletable } from './plugins/softDelete.plugin';
 
-export interface ICategory extends Document {
+export const ATTRIBUTE_TYPES = ['string', 'number', 'boolean', 'enum'] as const;
+
+export type AttributeType = typeof ATTRIBUTE_TYPES[number];
+
+// An attribute products in the category carry, e.g. brand (enum) or wattage (number)
+export interface ICategoryAttribute {
+  key: string;
+  label: string;
+  type: AttributeType;
+  options?: string[];
+  unit?: string;
+  required: boolean;
+}
+
+export interface ICategory extends Document, ISoftDeletable {
   name: string;
   description?: string;
   slug: string;
+  // Tree position: parent (null for top-level), ancestor IDs from the root down,
+  // and the slug path ("electronics/audio/headphones"). Kept in sync by CategoryService.
+  parent: mongoose.Types.ObjectId | null;
+  ancestors: mongoose.Types.ObjectId[];
+  path: string;
+  depth: number;
   isActive: boolean;
+  attributeSchema: ICategoryAttribute[];
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+const CategoryAttributeSchema = new Schema<ICategoryAttribute>({
+  key: {
+    type: String,
+    required: [true, 'Attribute key is required'],
+    match: [/^[a-z][a-zA-Z0-9_]{0,39}$/, 'Attribute key must start with a lowercase letter and contain only letters, digits and underscores'],
+    trim: true
+  },
+  label: {
+    type: String,
+    required: [true, 'Attribute label is required'],
+    maxlength: [50, 'Attribute label cannot exceed 50 characters'],
+    trim: true
+  },
+  type: {
+    type: String,
+    enum: {
+      values: ATTRIBUTE_TYPES,
+      message: 'Attribute type must be string, number, boolean, or enum'
+    },
+    required: [true, 'Attribute type is required']
+  },
+  // Allowed values for enum attributes
+  options: {
+    type: [String],
+    default: undefined
+  },
+  unit: {
+    type: String,
+    maxlength: [20, 'Unit cannot exceed 20 characters'],
+    trim: true
+  },
+  required: {
+    type: Boolean,
+    default: false
+  }
+}, { _id: false });
+
 const CategorySchema = new Schema<ICategory>({
+  // Unique among siblings (see compound index below)
   name: {
     type: String,
     required: [true, 'Category name is required'],
-    unique: true, // Creates unique index
     trim: true,
     maxlength: [50, 'Name cannot exceed 50 characters'],
     index: true
@@ -22,16 +81,49 @@ const CategorySchema = new Schema<ICategory>({
     type: String,
     maxlength: [200, 'Description cannot exceed 200 characters']
   },
+  // Unique among siblings; path is unique across the tree
   slug: {
     type: String,
-    unique: true, // Creates unique index
     lowercase: true,
     index: true
   },
+  parent: {
+    type: Schema.Types.ObjectId,
+    ref: 'Category',
+    default: null,
+    index: true
+  },
+  ancestors: {
+    type: [{ type: Schema.Types.ObjectId, ref: 'Category' }],
+    default: [],
+    index: true // Subtree lookups: { ancestors: id }
+  },
+  path: {
+    type: String,
+    unique: true, // Creates unique index
+    lowercase: true
+  },
+  depth: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
   isActive: {
     type: Boolean,
     default: true,
     index: true // Index for filtering active categories
+  },
+  attributeSchema: {
+    type: [CategoryAttributeSchema],
+    default: [],
+    validate: {
+      validator: function(attributes: ICategoryAttribute[]) {
+        const keys = attributes.map(attribute => attribute.key);
+        return new Set(keys).size === keys.length &&
+          attributes.every(attribute => attribute.type !== 'enum' || (attribute.options && attribute.options.length > 0));
+      },
+      message: 'Attribute keys must be unique and enum attributes need at least one option'
+    }
   }
 }, {
   timestamps: true
@@ -40,11 +132,51 @@ const CategorySchema = new Schema<ICategory>({
 // Text index for search
 CategorySchema.index({ name: 'text', description: 'text' });
 
-// Generate slug from name before saving
-CategorySchema.pre('save', function() {
-  if (this.isModified('name')) {
-    this.slug = this.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '');
+// Names and slugs only need to be unique among siblings
+CategorySchema.index({ parent: 1, name: 1 }, { unique: true });
+CategorySchema.index({ parent: 1, slug: 1 }, { unique: true });
+
+export const slugify = (name: string): string => {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '');
+};
+
+// Generate a slug from the name that is unique within the parent, and derive
+// ancestors, path and depth from the parent. Descendants of a renamed or moved
+// category are updated by CategoryService.updateCategory.
+CategorySchema.pre('save', async function() {
+  const CategoryModel = this.constructor as mongoose.Model<ICategory>;
+
+  if (this.isModified('name') || this.isModified('parent') || !this.slug) {
+    const base = slugify(this.name) || 'category';
+    const siblingSlugs = await CategoryModel.find({
+      parent: this.parent,
+      _id: { $ne: this._id },
+      slug: { $regex: `^${base}(-\\d+)?$` }
+    }).setOptions({ withDeleted: true }).distinct('slug'); // Deleted siblings still hold their slug
+
+    let slug = base;
+    for (let suffix = 2; siblingSlugs.includes(slug); suffix++) {
+      slug = `${base}-${suffix}`;
+    }
+    this.slug = slug;
+  }
+
+  if (this.isNew || this.isModified('parent') || this.isModified('slug')) {
+    if (this.parent) {
+      const parent = await CategoryModel.findById(this.parent).select('ancestors path');
+      if (!parent) {
+        throw new Error('Parent category not found');
+      }
+      this.ancestors = [...parent.ancestors, parent._id as mongoose.Types.ObjectId];
+      this.path = `${parent.path}/${this.slug}`;
+    } else {
+      this.ancestors = [];
+      this.path = this.slug;
+    }
+    this.depth = this.ancestors.length;
   }
 });
 
+CategorySchema.plugin(softDeletePlugin);
+
 export const Category = mongoose.model<ICategory>('Category', CategorySchema);
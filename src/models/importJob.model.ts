@@ -0,0 +1,102 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export type ImportFormat = 'csv' | 'jsonl';
+
+export type ImportJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+// Problems found in one row of an import file (row 1 is the first data row)
+export interface IImportRowError {
+  row: number;
+  sku?: string;
+  messages: string[];
+}
+
+// A product import running in the background, polled for progress
+export interface IImportJob extends Document {
+  fileName?: string;
+  format: ImportFormat;
+  dryRun: boolean;
+  status: ImportJobStatus;
+  totalRows: number;
+  processedRows: number;
+  created: number;
+  updated: number;
+  failed: number;
+  rowErrors: IImportRowError[];
+  // Why the whole job failed, as opposed to individual rows
+  error?: string;
+  createdBy: Types.ObjectId;
+  startedAt?: Date;
+  completedAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const ImportRowErrorSchema = new Schema<IImportRowError>({
+  row: {
+    type: Number,
+    required: true
+  },
+  sku: String,
+  messages: [String]
+}, { _id: false });
+
+const ImportJobSchema = new Schema<IImportJob>({
+  fileName: {
+    type: String,
+    maxlength: 255
+  },
+  format: {
+    type: String,
+    enum: ['csv', 'jsonl'],
+    required: true
+  },
+  dryRun: {
+    type: Boolean,
+    default: false
+  },
+  status: {
+    type: String,
+    enum: ['queued', 'running', 'completed', 'failed'],
+    default: 'queued',
+    index: true
+  },
+  totalRows: {
+    type: Number,
+    default: 0
+  },
+  processedRows: {
+    type: Number,
+    default: 0
+  },
+  created: {
+    type: Number,
+    default: 0
+  },
+  updated: {
+    type: Number,
+    default: 0
+  },
+  failed: {
+    type: Number,
+    default: 0
+  },
+  // Capped by the import service so a bad file cannot grow the document unbounded
+  rowErrors: [ImportRowErrorSchema],
+  error: String,
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  startedAt: Date,
+  completedAt: Date
+}, {
+  timestamps: true
+});
+
+// Jobs and their results are kept for a week
+ImportJobSchema.index({ createdAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+export const ImportJob = mongoose.model<IImportJob>('ImportJob', ImportJobSchema);
@@ -0,0 +1,41 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+// Quantity of one stock unit (a product without variants, or a variant) at
+// one warehouse. A unit's levels add up to its quantity on the product.
+export interface IInventoryLevel extends Document {
+  product: Types.ObjectId;
+  variant: Types.ObjectId | null;
+  warehouse: Types.ObjectId;
+  quantity: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const InventoryLevelSchema = new Schema<IInventoryLevel>({
+  product: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product',
+    required: true
+  },
+  variant: {
+    type: Schema.Types.ObjectId,
+    default: null
+  },
+  warehouse: {
+    type: Schema.Types.ObjectId,
+    ref: 'Warehouse',
+    required: true,
+    index: true
+  },
+  quantity: {
+    type: Number,
+    default: 0,
+    min: [0, 'Quantity cannot be negative']
+  }
+}, {
+  timestamps: true
+});
+
+InventoryLevelSchema.index({ product: 1, variant: 1, warehouse: 1 }, { unique: true });
+
+export const InventoryLevel = mongoose.model<IInventoryLevel>('InventoryLevel', InventoryLevelSchema);
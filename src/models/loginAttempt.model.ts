@@ -0,0 +1,49 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ILoginAttempt extends Document {
+  key: string;
+  type: 'account' | 'ip';
+  failedCount: number;
+  lastFailedAt?: Date;
+  lockedUntil?: Date | null;
+  expiresAt: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const LoginAttemptSchema = new Schema<ILoginAttempt>({
+  // "account:<email>" or "ip:<address>"
+  key: {
+    type: String,
+    required: true,
+    unique: true // Creates unique index
+  },
+  type: {
+    type: String,
+    enum: ['account', 'ip'],
+    required: true
+  },
+  failedCount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  lastFailedAt: {
+    type: Date
+  },
+  lockedUntil: {
+    type: Date,
+    default: null
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// TTL index - counters are forgotten after a quiet period
+LoginAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const LoginAttempt = mongoose.model<ILoginAttempt>('LoginAttempt', LoginAttemptSchema);
@@ -1,16 +1,30 @@
 import mongoose, { Schema, Document, Types } from 'mongoose';
+import { AddressSchema, IAddress } from './warehouse.model';
+
+// Part of an order line shipped from one warehouse
+export interface IOrderShipment {
+  warehouse: Types.ObjectId;
+  // Warehouse code at the time of the order
+  code: string;
+  quantity: number;
+}
 
 export interface IOrderItem {
   productId: Types.ObjectId;
+  variantId?: Types.ObjectId | null;
+  sku?: string;
+  variantOptions?: { name: string; value: string }[];
   name: string;
   price: number;
   quantity: number;
   subtotal: number;
+  shipsFrom: IOrderShipment[];
 }
 
 export interface IOrder extends Document {
   userId: Types.ObjectId;
   items: IOrderItem[];
+  shippingAddress?: IAddress;
   totalAmount: number;
   status: 'pending' | 'confirmed' | 'shipped' | 'delivered' | 'cancelled';
   createdAt?: Date;
@@ -23,6 +37,19 @@ const OrderItemSchema = new Schema<IOrderItem>({
     ref: 'Product',
     required: true
   },
+  // Variant snapshot, set when the product has variants
+  variantId: {
+    type: Schema.Types.ObjectId,
+    default: null
+  },
+  sku: {
+    type: String
+  },
+  variantOptions: [{
+    _id: false,
+    name: String,
+    value: String
+  }],
   name: {
     type: String,
     required: true
@@ -41,7 +68,17 @@ const OrderItemSchema = new Schema<IOrderItem>({
     type: Number,
     required: true,
     min: 0
-  }
+  },
+  // Chosen by the fulfillment strategy when the order is placed
+  shipsFrom: [{
+    _id: false,
+    warehouse: {
+      type: Schema.Types.ObjectId,
+      ref: 'Warehouse'
+    },
+    code: String,
+    quantity: Number
+  }]
 }, { _id: false });
 
 const OrderSchema = new Schema<IOrder>({
@@ -65,6 +102,7 @@ const OrderSchema = new Schema<IOrder>({
     required: true,
     min: 0
   },
+  shippingAddress: AddressSchema,
   status: {
     type: String,
     enum: {
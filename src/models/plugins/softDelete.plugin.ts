@@ -0,0 +1,66 @@
+import { Schema, Query, Aggregate, Types, PipelineStage, MongooseQueryMiddleware } from 'mongoose';
+
+export interface ISoftDeletable {
+  deletedAt: Date | null;
+  deletedBy: Types.ObjectId | null;
+}
+
+// Query operations that only see documents that are not soft-deleted
+const SCOPED_OPERATIONS: MongooseQueryMiddleware[] = [
+  'find',
+  'findOne',
+  'findOneAndUpdate',
+  'findOneAndDelete',
+  'findOneAndReplace',
+  'countDocuments',
+  'distinct',
+  'updateOne',
+  'updateMany',
+  'replaceOne',
+  'deleteOne',
+  'deleteMany'
+];
+
+// Adds deletedAt/deletedBy and hides soft-deleted documents from queries and
+// aggregations. To see them, pass the withDeleted option
+// (query.setOptions({ withDeleted: true }), aggregate.option({ withDeleted: true }))
+// or filter on deletedAt explicitly.
+export const softDeletePlugin = (schema: Schema): void => {
+  schema.add({
+    deletedAt: {
+      type: Date,
+      default: null,
+      index: true
+    },
+    deletedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null
+    }
+  });
+
+  schema.pre(SCOPED_OPERATIONS, function(this: Query<unknown, unknown>) {
+    if (this.getOptions().withDeleted || this.getFilter().deletedAt !== undefined) {
+      return;
+    }
+    this.where({ deletedAt: null });
+  });
+
+  schema.pre('aggregate', function(this: Aggregate<unknown>) {
+    if ((this.options as Record<string, unknown>).withDeleted) {
+      return;
+    }
+
+    // $text (and $geoNear) must stay in the first stage, so merge into an
+    // existing leading $match instead of adding one in front of it
+    const pipeline = this.pipeline();
+    const first = pipeline[0] as PipelineStage.Match | undefined;
+    if (first && '$match' in first) {
+      if (first.$match.deletedAt === undefined) {
+        first.$match = { ...first.$match, deletedAt: null };
+      }
+    } else {
+      pipeline.unshift({ $match: { deletedAt: null } });
+    }
+  });
+};
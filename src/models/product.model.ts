@@ -1,18 +1,163 @@
 import mongoose, { Schema, Document, Types } from 'mongoose';
+import { softDeletePlugin, ISoftDeletable } from './plugins/softDelete.plugin';
 
-export interface IProduct extends Document {
+// An option axis such as size or color, with the values variants may use
+export interface IProductOption {
   name: string;
+  values: string[];
+}
+
+export interface IVariantOption {
+  name: string;
+  value: string;
+}
+
+export interface IProductVariant {
+  _id: Types.ObjectId;
+  sku: string;
+  options: IVariantOption[];
+  price: number;
+  quantity: number;
+  // Held by checkout reservations (see stockReservation.model)
+  reserved: number;
+  images?: string[];
+}
+
+// Value of a category-defined attribute, stored as key/value pairs so any
+// attribute can be filtered through the same index
+export interface IProductAttribute {
+  key: string;
+  value: string | number | boolean;
+}
+
+// Lifecycle: vendors create drafts and submit them for review; an approved
+// product is published right away or at publishAt, and archived at unpublishAt.
+// Only published products are public.
+export const PRODUCT_STATUSES = ['draft', 'in_review', 'published', 'archived'] as const;
+
+export type ProductStatus = typeof PRODUCT_STATUSES[number];
+
+// low: at or below the reorder threshold; out: nothing left
+export type StockAlertLevel = 'low' | 'out';
+
+// Last low-stock state the vendor was (or is about to be) told about. Cleared
+// once the product is restocked above its threshold.
+export interface IStockAlert {
+  level: StockAlertLevel | null;
+  since: Date | null;
+  // null while the alert waits for the vendor's next email
+  notifiedAt: Date | null;
+}
+
+export interface IProduct extends Document, ISoftDeletable {
+  name: string;
+  sku?: string;
   price: number;
   description?: string;
   category: Types.ObjectId;
   inStock: boolean;
   quantity: number;
+  reserved: number;
+  // Stock level that triggers a low-stock alert; LOW_STOCK_THRESHOLD when null
+  reorderThreshold: number | null;
+  stockAlert: IStockAlert;
+  // When the last back-in-stock email batch went out
+  backInStockBatchAt: Date | null;
   images?: string[];
+  options: IProductOption[];
+  variants: Types.DocumentArray<IProductVariant & Types.Subdocument>;
+  attributes: IProductAttribute[];
+  ratingAverage: number;
+  ratingCount: number;
+  status: ProductStatus;
+  publishAt: Date | null;
+  unpublishAt: Date | null;
+  publishedAt: Date | null;
+  submittedAt: Date | null;
+  approvedAt: Date | null;
+  approvedBy: Types.ObjectId | null;
+  reviewNote?: string;
   createdBy?: Types.ObjectId;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+const ProductOptionSchema = new Schema<IProductOption>({
+  name: {
+    type: String,
+    required: [true, 'Option name is required'],
+    maxlength: [30, 'Option name cannot exceed 30 characters'],
+    trim: true
+  },
+  values: {
+    type: [String],
+    validate: {
+      validator: (values: string[]) => values.length > 0,
+      message: 'Option must have at least one value'
+    }
+  }
+}, { _id: false });
+
+const VariantOptionSchema = new Schema<IVariantOption>({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  value: {
+    type: String,
+    required: true,
+    trim: true
+  }
+}, { _id: false });
+
+const ProductVariantSchema = new Schema<IProductVariant>({
+  sku: {
+    type: String,
+    required: [true, 'SKU is required'],
+    uppercase: true,
+    trim: true,
+    maxlength: [64, 'SKU cannot exceed 64 characters']
+  },
+  options: [VariantOptionSchema],
+  price: {
+    type: Number,
+    required: [true, 'Variant price is required'],
+    min: [0, 'Price cannot be negative']
+  },
+  quantity: {
+    type: Number,
+    default: 0,
+    min: [0, 'Quantity cannot be negative']
+  },
+  reserved: {
+    type: Number,
+    default: 0
+  },
+  images: [{
+    type: String
+  }]
+}, {
+  toJSON: { virtuals: ['available'] },
+  toObject: { virtuals: ['available'] }
+});
+
+// On hand minus what checkouts hold
+ProductVariantSchema.virtual('available').get(function() {
+  return Math.max((this.quantity || 0) - (this.reserved || 0), 0);
+});
+
+const ProductAttributeSchema = new Schema<IProductAttribute>({
+  key: {
+    type: String,
+    required: true
+  },
+  value: {
+    type: Schema.Types.Mixed,
+    required: true
+  }
+}, { _id: false });
+
 const ProductSchema = new Schema<IProduct>({
   name: { 
     type: String, 
@@ -21,6 +166,13 @@ const ProductSchema = new Schema<IProduct>({
     trim: true,
     index: true // Simple index for name queries
   },
+  // SKU of a product without variants; variants carry their own
+  sku: {
+    type: String,
+    uppercase: true,
+    trim: true,
+    maxlength: [64, 'SKU cannot exceed 64 characters']
+  },
   price: { 
     type: Number, 
     required: [true, 'Price is required'],
@@ -47,23 +199,223 @@ const ProductSchema = new Schema<IProduct>({
     default: 0,
     min: [0, 'Quantity cannot be negative']
   },
+  // Held by checkout reservations; only used on products without variants.
+  // Changed with atomic $inc by the reservation service, never set directly.
+  reserved: {
+    type: Number,
+    default: 0
+  },
+  reorderThreshold: {
+    type: Number,
+    default: null,
+    min: [0, 'Reorder threshold cannot be negative']
+  },
+  // Maintained by the stock alert job
+  stockAlert: {
+    level: {
+      type: String,
+      enum: ['low', 'out', null],
+      default: null
+    },
+    since: {
+      type: Date,
+      default: null
+    },
+    notifiedAt: {
+      type: Date,
+      default: null
+    }
+  },
+  // Claimed atomically by the back-in-stock service to space batches apart
+  backInStockBatchAt: {
+    type: Date,
+    default: null
+  },
   images: [{
     type: String
   }],
+  options: [ProductOptionSchema],
+  variants: [ProductVariantSchema],
+  // Validated against the category's attribute schema
+  attributes: [ProductAttributeSchema],
+  // Denormalized from reviews (see review.model) for search facets and sorting
+  ratingAverage: {
+    type: Number,
+    default: 0,
+    min: 0,
+    max: 5,
+    index: true
+  },
+  ratingCount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  status: {
+    type: String,
+    enum: {
+      values: PRODUCT_STATUSES,
+      message: 'Status must be draft, in_review, published, or archived'
+    },
+    default: 'draft',
+    index: true
+  },
+  // Scheduled go-live and take-down, applied by the product schedule job
+  publishAt: {
+    type: Date,
+    default: null
+  },
+  unpublishAt: {
+    type: Date,
+    default: null
+  },
+  publishedAt: {
+    type: Date,
+    default: null
+  },
+  submittedAt: {
+    type: Date,
+    default: null
+  },
+  // Set when an admin approves the product; it stays in review until publishAt
+  approvedAt: {
+    type: Date,
+    default: null
+  },
+  approvedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  // Reason given when a submission is rejected
+  reviewNote: {
+    type: String,
+    maxlength: [500, 'Review note cannot exceed 500 characters']
+  },
   createdBy: {
     type: Schema.Types.ObjectId,
     ref: 'User'
   }
 }, {
-  timestamps: true  
+  timestamps: true,
+  toJSON: { virtuals: ['available'] },
+  toObject: { virtuals: ['available'] }
+});
+
+// Sellable quantity: on hand minus what checkouts hold, summed over variants
+ProductSchema.virtual('available').get(function() {
+  if (this.variants && this.variants.length > 0) {
+    return this.variants.reduce((total, variant) =>
+      total + Math.max((variant.quantity || 0) - (variant.reserved || 0), 0), 0);
+  }
+  return Math.max((this.quantity || 0) - (this.reserved || 0), 0);
 });
 
+// The same as the available virtual, for aggregation results
+export const AVAILABLE_EXPRESSION = {
+  $cond: [
+    { $gt: [{ $size: { $ifNull: ['$variants', []] } }, 0] },
+    {
+      $sum: {
+        $map: {
+          input: '$variants',
+          in: { $max: [{ $subtract: ['$$this.quantity', { $ifNull: ['$$this.reserved', 0] }] }, 0] }
+        }
+      }
+    },
+    { $max: [{ $subtract: ['$quantity', { $ifNull: ['$reserved', 0] }] }, 0] }
+  ]
+};
+
 // Compound indexes for common query combinations
 ProductSchema.index({ category: 1, price: 1 }); // Category + price sorting
 ProductSchema.index({ inStock: 1, category: 1 }); // Stock status + category
 ProductSchema.index({ createdBy: 1, createdAt: -1 }); // Vendor products
+ProductSchema.index({ status: 1, publishAt: 1 }); // Scheduled publishing
+ProductSchema.index({ status: 1, unpublishAt: 1 }); // Scheduled unpublishing
+ProductSchema.index({ 'stockAlert.level': 1, 'stockAlert.notifiedAt': 1 }); // Pending stock alerts
 
 // Text index for search functionality
 ProductSchema.index({ name: 'text', description: 'text' });
 
+// Case-insensitive name index for search-as-you-type prefix lookups
+ProductSchema.index({ name: 1 }, { name: 'name_ci', collation: { locale: 'en', strength: 2 } });
+
+// Attribute filters (attr.brand=Acme, attr.wattage[gte]=500) within a category
+ProductSchema.index({ category: 1, 'attributes.key': 1, 'attributes.value': 1 });
+ProductSchema.index({ 'attributes.key': 1, 'attributes.value': 1 });
+
+// SKUs are unique across the catalog
+ProductSchema.index(
+  { 'variants.sku': 1 },
+  { unique: true, partialFilterExpression: { 'variants.sku': { $exists: true } } }
+);
+ProductSchema.index(
+  { sku: 1 },
+  { unique: true, partialFilterExpression: { sku: { $type: 'string' } } }
+);
+
+ProductSchema.pre('validate', function() {
+  if (this.publishAt && this.unpublishAt && this.unpublishAt <= this.publishAt) {
+    this.invalidate('unpublishAt', 'unpublishAt must be after publishAt');
+  }
+});
+
+// Check variants against the option axes, then derive the product-level
+// price (lowest variant price), quantity (total) and inStock from them
+ProductSchema.pre('validate', function() {
+  if (!this.variants || this.variants.length === 0) {
+    return;
+  }
+
+  if (this.sku) {
+    this.invalidate('sku', 'A product with variants has an SKU per variant');
+  }
+
+  const axes = new Map((this.options || []).map(option => [option.name, option.values]));
+  const seenSkus = new Set<string>();
+  const seenCombinations = new Set<string>();
+
+  this.variants.forEach((variant, index) => {
+    const path = `variants.${index}`;
+    const sku = (variant.sku || '').trim().toUpperCase();
+
+    if (seenSkus.has(sku)) {
+      this.invalidate(`${path}.sku`, `Duplicate SKU ${sku}`);
+    }
+    seenSkus.add(sku);
+
+    const variantOptions = variant.options || [];
+    const names = variantOptions.map(option => option.name);
+
+    if (names.length !== axes.size || new Set(names).size !== names.length ||
+        names.some(name => !axes.has(name))) {
+      this.invalidate(`${path}.options`, `Variant ${sku} must set exactly one value for each option (${[...axes.keys()].join(', ')})`);
+      return;
+    }
+
+    for (const option of variantOptions) {
+      if (!axes.get(option.name)!.includes(option.value)) {
+        this.invalidate(`${path}.options`, `${option.value} is not a valid ${option.name}`);
+      }
+    }
+
+    const combination = [...variantOptions]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(option => `${option.name}=${option.value}`)
+      .join('|');
+
+    if (seenCombinations.has(combination)) {
+      this.invalidate(`${path}.options`, `Another variant already has options ${combination}`);
+    }
+    seenCombinations.add(combination);
+  });
+
+  this.price = Math.min(...this.variants.map(variant => variant.price));
+  this.quantity = this.variants.reduce((total, variant) => total + (variant.quantity || 0), 0);
+  this.inStock = this.quantity > 0;
+});
+
+ProductSchema.plugin(softDeletePlugin);
+
 export const Product = mongoose.model<IProduct>('Product', ProductSchema);
@@ -1,4 +1,5 @@
-import mongoose, { Schema, Document } from 'mongoose';
+import mongoose, { Schema, Document, Types } from 'mongoose';
+import { Product } from './product.model';
 
 export interface IReview extends Document {
   product: mongoose.Types.ObjectId;
@@ -47,4 +48,32 @@ ReviewSchema.index({ product: 1, user: 1 }, { unique: true }); // One review per
 // Text index for searching reviews
 ReviewSchema.index({ comment: 'text' });
 
+// Keep the product's denormalized rating in step with its reviews
+ReviewSchema.post('save', async function(doc) {
+  await syncProductRating(doc.product);
+});
+
+ReviewSchema.post('findOneAndDelete', async function(doc: IReview | null) {
+  if (doc) {
+    await syncProductRating(doc.product);
+  }
+});
+
 export const Review = mongoose.model<IReview>('Review', ReviewSchema);
+
+// Recompute ratingAverage/ratingCount of a product. Bulk writes (insertMany,
+// deleteMany) skip the hooks above and must call this for each product.
+export const syncProductRating = async (productId: Types.ObjectId | string): Promise<void> => {
+  const [stats] = await Review.aggregate([
+    { $match: { product: new Types.ObjectId(productId.toString()) } },
+    { $group: { _id: null, average: { $avg: '$rating' }, count: { $sum: 1 } } }
+  ]);
+
+  await Product.updateOne(
+    { _id: productId },
+    {
+      ratingAverage: stats ? Math.round(stats.average * 10) / 10 : 0,
+      ratingCount: stats ? stats.count : 0
+    }
+  ).setOptions({ withDeleted: true });
+};
@@ -0,0 +1,50 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export interface IRole extends Document {
+  name: string;
+  description?: string;
+  permissions: string[];
+  isSystem: boolean;
+  createdBy?: Types.ObjectId;
+  updatedBy?: Types.ObjectId;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const RoleSchema = new Schema<IRole>({
+  // Stored on users as their role, e.g. "support-agent"
+  name: {
+    type: String,
+    required: [true, 'Role name is required'],
+    unique: true, // Creates unique index
+    lowercase: true,
+    trim: true,
+    match: [/^[a-z][a-z0-9-]{1,49}$/, 'Role name must be 2-50 lowercase letters, digits or hyphens, starting with a letter']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [300, 'Description cannot exceed 300 characters']
+  },
+  permissions: {
+    type: [String],
+    default: []
+  },
+  // Built-in roles (admin, vendor, customer) cannot be deleted
+  isSystem: {
+    type: Boolean,
+    default: false
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+export const Role = mongoose.model<IRole>('Role', RoleSchema);
@@ -0,0 +1,44 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// A search term typed by shoppers, aggregated so popular queries can be
+// suggested and used as a spelling reference
+export interface ISearchQuery extends Document {
+  term: string;
+  count: number;
+  lastResultCount: number;
+  lastSearchedAt: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const SearchQuerySchema = new Schema<ISearchQuery>({
+  // Normalized: trimmed, lowercased, single spaces
+  term: {
+    type: String,
+    required: true,
+    unique: true, // Creates unique index, also used for prefix lookups
+    maxlength: 100
+  },
+  count: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  // Queries that found nothing are never suggested
+  lastResultCount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  lastSearchedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true
+});
+
+// Most popular successful queries first
+SearchQuerySchema.index({ lastResultCount: 1, count: -1 });
+
+export const SearchQuery = mongoose.model<ISearchQuery>('SearchQuery', SearchQuerySchema);
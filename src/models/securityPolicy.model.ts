@@ -0,0 +1,32 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export interface ISecurityPolicy extends Document {
+  key: string;
+  twoFactorRequiredRoles: string[];
+  updatedBy?: Types.ObjectId;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const SecurityPolicySchema = new Schema<ISecurityPolicy>({
+  // Single platform-wide policy document
+  key: {
+    type: String,
+    required: true,
+    unique: true, // Creates unique index
+    default: 'default'
+  },
+  // Role names whose users must enroll in two-factor authentication
+  twoFactorRequiredRoles: {
+    type: [String],
+    default: []
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+export const SecurityPolicy = mongoose.model<ISecurityPolicy>('SecurityPolicy', SecurityPolicySchema);
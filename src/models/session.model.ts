@@ -0,0 +1,71 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export interface ISession extends Document {
+  userId: Types.ObjectId;
+  refreshTokenHash: string;
+  previousTokenHashes: string[];
+  userAgent?: string;
+  ipAddress?: string;
+  lastSeenAt?: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const SessionSchema = new Schema<ISession>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required'],
+    index: true
+  },
+  refreshTokenHash: {
+    type: String,
+    required: true,
+    unique: true // Creates unique index
+  },
+  // Hashes of refresh tokens already rotated out of this session (token family).
+  // Presenting one of them again means the token was stolen and replayed.
+  previousTokenHashes: {
+    type: [String],
+    default: [],
+    select: false
+  },
+  userAgent: {
+    type: String,
+    maxlength: 500
+  },
+  ipAddress: {
+    type: String
+  },
+  lastSeenAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  },
+  revokedReason: {
+    type: String
+  }
+}, {
+  timestamps: true
+});
+
+// Index for refresh token reuse detection
+SessionSchema.index({ previousTokenHashes: 1 });
+
+// Index for active session lookups per user
+SessionSchema.index({ userId: 1, revokedAt: 1 });
+
+// TTL index - MongoDB removes sessions once they expire
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const Session = mongoose.model<ISession>('Session', SessionSchema);
@@ -0,0 +1,107 @@
+import mongoose, { Schema, Document, Types, MongooseQueryMiddleware } from 'mongoose';
+
+// initial: opening balance of a new (or pre-ledger) product
+// sale / cancellation: order placed / cancelled
+// adjustment: stock set by hand or through the product API
+// import: product import file
+// return / damage: manual adjustments with a specific cause
+// transfer: moved between warehouses; a pair of movements that cancel out
+export const STOCK_MOVEMENT_REASONS = ['initial', 'sale', 'cancellation', 'adjustment', 'import', 'return', 'damage', 'transfer'] as const;
+
+export type StockMovementReason = typeof STOCK_MOVEMENT_REASONS[number];
+
+// One change to the stock of a product (or one of its variants). The ledger is
+// append-only: the sum of a product's movements is its quantity.
+export interface IStockMovement extends Document {
+  product: Types.ObjectId;
+  variant: Types.ObjectId | null;
+  sku?: string;
+  // Signed change; negative when stock leaves
+  quantity: number;
+  // Quantity of the product or variant after this movement
+  balance: number;
+  reason: StockMovementReason;
+  actor: Types.ObjectId | null;
+  order: Types.ObjectId | null;
+  // Warehouse the stock was added at or taken from; null for stock no
+  // warehouse held (and for movements from before warehouses)
+  warehouse: Types.ObjectId | null;
+  note?: string;
+  createdAt?: Date;
+}
+
+const StockMovementSchema = new Schema<IStockMovement>({
+  product: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product',
+    required: true
+  },
+  variant: {
+    type: Schema.Types.ObjectId,
+    default: null
+  },
+  sku: String,
+  quantity: {
+    type: Number,
+    required: true
+  },
+  balance: {
+    type: Number,
+    required: true
+  },
+  reason: {
+    type: String,
+    enum: STOCK_MOVEMENT_REASONS,
+    required: true
+  },
+  // null for changes made by the system rather than a user
+  actor: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  order: {
+    type: Schema.Types.ObjectId,
+    ref: 'Order',
+    default: null,
+    index: true
+  },
+  warehouse: {
+    type: Schema.Types.ObjectId,
+    ref: 'Warehouse',
+    default: null
+  },
+  note: {
+    type: String,
+    maxlength: [500, 'Note cannot exceed 500 characters']
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+StockMovementSchema.index({ product: 1, createdAt: -1 }); // Stock history of a product
+StockMovementSchema.index({ product: 1, variant: 1 }); // Ledger sums for reconciliation
+StockMovementSchema.index({ product: 1, warehouse: 1, createdAt: -1 }); // Stock history at one warehouse
+
+const IMMUTABLE_OPERATIONS: MongooseQueryMiddleware[] = [
+  'updateOne',
+  'updateMany',
+  'findOneAndUpdate',
+  'replaceOne',
+  'findOneAndReplace',
+  'deleteOne',
+  'deleteMany',
+  'findOneAndDelete'
+];
+
+StockMovementSchema.pre(IMMUTABLE_OPERATIONS, function() {
+  throw new Error('Stock movements are append-only');
+});
+
+StockMovementSchema.pre('save', function() {
+  if (!this.isNew) {
+    throw new Error('Stock movements are append-only');
+  }
+});
+
+export const StockMovement = mongoose.model<IStockMovement>('StockMovement', StockMovementSchema);
@@ -0,0 +1,68 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+// active: holding stock until expiresAt
+// converted: became part of an order
+// released: given up by the customer or replaced by a new checkout
+// expired: released by the sweeper (or at order time) after expiresAt
+export const RESERVATION_STATUSES = ['active', 'converted', 'released', 'expired'] as const;
+
+export type ReservationStatus = typeof RESERVATION_STATUSES[number];
+
+// Stock held for one cart line while the customer checks out. While active,
+// its quantity is counted in the product's (or variant's) reserved field.
+export interface IStockReservation extends Document {
+  user: Types.ObjectId;
+  product: Types.ObjectId;
+  variant: Types.ObjectId | null;
+  sku?: string;
+  quantity: number;
+  status: ReservationStatus;
+  expiresAt: Date;
+  order: Types.ObjectId | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const StockReservationSchema = new Schema<IStockReservation>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  product: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product',
+    required: true
+  },
+  variant: {
+    type: Schema.Types.ObjectId,
+    default: null
+  },
+  sku: String,
+  quantity: {
+    type: Number,
+    required: true,
+    min: [1, 'Quantity must be at least 1']
+  },
+  status: {
+    type: String,
+    enum: RESERVATION_STATUSES,
+    default: 'active'
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  order: {
+    type: Schema.Types.ObjectId,
+    ref: 'Order',
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+StockReservationSchema.index({ user: 1, status: 1 }); // A customer's checkout
+StockReservationSchema.index({ status: 1, expiresAt: 1 }); // Sweeper
+
+export const StockReservation = mongoose.model<IStockReservation>('StockReservation', StockReservationSchema);
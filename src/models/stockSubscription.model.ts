@@ -0,0 +1,69 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+// pending: waiting for the product to come back in stock
+// notified: emailed in a back-in-stock batch
+// cancelled: unsubscribed before being notified
+export const STOCK_SUBSCRIPTION_STATUSES = ['pending', 'notified', 'cancelled'] as const;
+
+export type StockSubscriptionStatus = typeof STOCK_SUBSCRIPTION_STATUSES[number];
+
+// A request to be emailed once an out-of-stock product is available again.
+// Customers subscribe with their account, guests with just an email address.
+export interface IStockSubscription extends Document {
+  product: Types.ObjectId;
+  user: Types.ObjectId | null;
+  email: string;
+  status: StockSubscriptionStatus;
+  // In the confirmation email, so the address's owner can unsubscribe
+  unsubscribeToken: string;
+  notifiedAt: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const StockSubscriptionSchema = new Schema<IStockSubscription>({
+  product: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product',
+    required: true
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  email: {
+    type: String,
+    required: [true, 'Email is required'],
+    lowercase: true,
+    trim: true,
+    match: [/^\S+@\S+\.\S+$/, 'Please enter a valid email address']
+  },
+  status: {
+    type: String,
+    enum: STOCK_SUBSCRIPTION_STATUSES,
+    default: 'pending'
+  },
+  unsubscribeToken: {
+    type: String,
+    required: true,
+    select: false
+  },
+  notifiedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// One pending subscription per address and product
+StockSubscriptionSchema.index(
+  { product: 1, email: 1 },
+  { unique: true, partialFilterExpression: { status: 'pending' } }
+);
+StockSubscriptionSchema.index({ product: 1, status: 1, createdAt: 1 }); // Batches, oldest first
+StockSubscriptionSchema.index({ unsubscribeToken: 1 });
+StockSubscriptionSchema.index({ user: 1 });
+
+export const StockSubscription = mongoose.model<IStockSubscription>('StockSubscription', StockSubscriptionSchema);
@@ -1,26 +1,44 @@
-import mongoose, { Schema, Document } from 'mongoose';
+import mongoose, { Schema, Document, Types } from 'mongoose';
 import bcrypt from 'bcryptjs';
 import jwt, { SignOptions } from 'jsonwebtoken';
+import { Role } from './role.model';
 import crypto from 'crypto';
+import { softDeletePlugin, ISoftDeletable } from './plugins/softDelete.plugin';
 
-export interface IUser extends Document {
+export interface IUser extends Document, ISoftDeletable {
   firstName: string;
   lastName: string;
   email: string;
   password: string;
+  passwordHistory?: string[];
   age?: number;
   status: 'active' | 'inactive' | 'pending';
-  role: 'admin' | 'vendor' | 'customer';
+  role: string;
+  roleAssignedBy?: Types.ObjectId;
+  roleAssignedAt?: Date;
   profilePicture?: string;
   resetPasswordToken?: string;
   resetPasswordExpire?: Date;
+  emailVerificationToken?: string;
+  emailVerificationExpire?: Date;
+  emailVerifiedAt?: Date;
+  twoFactorEnabled: boolean;
+  twoFactorSecret?: string;
+  twoFactorPendingSecret?: string;
+  twoFactorRecoveryCodes?: string[];
+  twoFactorLastUsedStep?: number;
+  erasedAt?: Date;
+  // How vendors hear about low stock: an email per check, a daily digest, or not at all
+  stockAlertFrequency: 'immediate' | 'daily' | 'off';
+  stockAlertDigestSentAt?: Date | null;
   createdAt?: Date;
   updatedAt?: Date;
   
   // Methods
   comparePassword(candidatePassword: string): Promise<boolean>;
-  generateAuthToken(): string;
+  generateAuthToken(sessionId: string): string;
   generateResetToken(): string;
+  generateEmailVerificationToken(): string;
 }
 
 const UserSchema = new Schema<IUser>({
@@ -68,25 +86,91 @@ const UserSchema = new Schema<IUser>({
     },
     default: 'pending'
   },
+  // Name of a Role document (admin, vendor, customer or a custom role)
   role: {
     type: String,
-    enum: {
-      values: ['admin', 'vendor', 'customer'],
-      message: 'Role must be admin, vendor, or customer'
+    validate: {
+      validator: async function(value: string) {
+        return !!(await Role.exists({ name: value }));
+      },
+      message: 'Role {VALUE} does not exist'
     },
     required: [true, 'Role is required'],
     default: 'customer',
     index: true // Index for role-based queries
   },
+  roleAssignedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  roleAssignedAt: {
+    type: Date
+  },
   profilePicture: {
     type: String,
     default: null
   },
+  // Hashes of previous passwords, newest first, to prevent reuse
+  passwordHistory: {
+    type: [String],
+    select: false
+  },
   resetPasswordToken: {
     type: String
   },
   resetPasswordExpire: {
     type: Date
+  },
+  emailVerificationToken: {
+    type: String,
+    select: false
+  },
+  emailVerificationExpire: {
+    type: Date,
+    select: false
+  },
+  emailVerifiedAt: {
+    type: Date
+  },
+  twoFactorEnabled: {
+    type: Boolean,
+    default: false
+  },
+  twoFactorSecret: {
+    type: String,
+    select: false
+  },
+  // Secret generated during enrollment, promoted once a code is confirmed
+  twoFactorPendingSecret: {
+    type: String,
+    select: false
+  },
+  // SHA-256 hashes of unused one-time recovery codes
+  twoFactorRecoveryCodes: {
+    type: [String],
+    select: false
+  },
+  // Last accepted TOTP time step, so a code cannot be replayed
+  twoFactorLastUsedStep: {
+    type: Number,
+    select: false
+  },
+  // Set when personal data was erased; the document remains as an anonymized tombstone
+  erasedAt: {
+    type: Date,
+    default: null
+  },
+  stockAlertFrequency: {
+    type: String,
+    enum: {
+      values: ['immediate', 'daily', 'off'],
+      message: 'Stock alert frequency must be immediate, daily or off'
+    },
+    default: 'immediate'
+  },
+  stockAlertDigestSentAt: {
+    type: Date,
+    default: null
   }
 }, {
   timestamps: true
@@ -101,7 +185,9 @@ UserSchema.index({ firstName: 'text', lastName: 'text', email: 'text' });
 // Index for status queries
 UserSchema.index({ status: 1 });
 
-// Hash password before saving
+// Index for email verification lookups
+UserSchema.index({ emailVerificationToken: 1 }, { sparse: true });
+
 // Hash password before saving
 UserSchema.pre('save', async function() {
   if (!this.isModified('password')) {
@@ -117,8 +203,8 @@ UserSchema.methods.comparePassword = async function(candidatePassword: string):
   return await bcrypt.compare(candidatePassword, this.password);
 };
 
-// Generate JWT token
-UserSchema.methods.generateAuthToken = function(): string {
+// Generate short-lived JWT access token bound to a server-side session
+UserSchema.methods.generateAuthToken = function(sessionId: string): string {
   const jwtSecret = process.env.JWT_SECRET;
   
   if (!jwtSecret) {
@@ -128,10 +214,13 @@ UserSchema.methods.generateAuthToken = function(): string {
   const payload = { 
     id: this._id.toString(), 
     email: this.email,
-    role: this.role 
+    role: this.role,
+    sid: sessionId
   };
   
-  return jwt.sign(payload, jwtSecret, { expiresIn: '7d' });
+  const expiresIn = (process.env.JWT_ACCESS_EXPIRES_IN || '15m') as SignOptions['expiresIn'];
+  
+  return jwt.sign(payload, jwtSecret, { expiresIn });
 };
 
 // Generate password reset token
@@ -148,4 +237,20 @@ UserSchema.methods.generateResetToken = function(): string {
   return resetToken;
 };
 
+// Generate email verification token
+UserSchema.methods.generateEmailVerificationToken = function(): string {
+  const verificationToken = crypto.randomBytes(32).toString('hex');
+  
+  this.emailVerificationToken = crypto
+    .createHash('sha256')
+    .update(verificationToken)
+    .digest('hex');
+  
+  this.emailVerificationExpire = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
+  
+  return verificationToken;
+};
+
+UserSchema.plugin(softDeletePlugin);
+
 export const User = mongoose.model<IUser>('User', UserSchema);
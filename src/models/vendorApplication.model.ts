@@ -0,0 +1,87 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export interface IVendorApplication extends Document {
+  userId: Types.ObjectId;
+  businessName: string;
+  contactName: string;
+  contactEmail: string;
+  contactPhone?: string;
+  taxId: string;
+  status: 'pending' | 'approved' | 'rejected';
+  reviewedBy?: Types.ObjectId;
+  reviewedAt?: Date;
+  rejectionReason?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const VendorApplicationSchema = new Schema<IVendorApplication>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required'],
+    index: true
+  },
+  businessName: {
+    type: String,
+    required: [true, 'Business name is required'],
+    maxlength: [100, 'Business name cannot exceed 100 characters'],
+    trim: true
+  },
+  contactName: {
+    type: String,
+    required: [true, 'Contact name is required'],
+    maxlength: [100, 'Contact name cannot exceed 100 characters'],
+    trim: true
+  },
+  contactEmail: {
+    type: String,
+    required: [true, 'Contact email is required'],
+    lowercase: true,
+    trim: true,
+    match: [/^\S+@\S+\.\S+$/, 'Please enter a valid email address']
+  },
+  contactPhone: {
+    type: String,
+    maxlength: [30, 'Contact phone cannot exceed 30 characters'],
+    trim: true
+  },
+  taxId: {
+    type: String,
+    required: [true, 'Tax ID is required'],
+    maxlength: [50, 'Tax ID cannot exceed 50 characters'],
+    trim: true
+  },
+  status: {
+    type: String,
+    enum: {
+      values: ['pending', 'approved', 'rejected'],
+      message: 'Status must be pending, approved, or rejected'
+    },
+    default: 'pending'
+  },
+  reviewedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  reviewedAt: {
+    type: Date
+  },
+  rejectionReason: {
+    type: String,
+    maxlength: [500, 'Rejection reason cannot exceed 500 characters']
+  }
+}, {
+  timestamps: true
+});
+
+// Index for the admin review queue
+VendorApplicationSchema.index({ status: 1, createdAt: 1 });
+
+// Only one open application per user
+VendorApplicationSchema.index(
+  { userId: 1 },
+  { unique: true, partialFilterExpression: { status: 'pending' } }
+);
+
+export const VendorApplication = mongoose.model<IVendorApplication>('VendorApplication', VendorApplicationSchema);
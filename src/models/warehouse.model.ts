@@ -0,0 +1,114 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+// Postal address, with coordinates when known. Used for warehouses and for
+// where an order ships to.
+export interface IAddress {
+  line1: string;
+  line2?: string;
+  city: string;
+  region?: string;
+  postalCode?: string;
+  // ISO 3166-1 alpha-2, e.g. "DE"
+  country: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+// A location stock is kept at and orders ship from
+export interface IWarehouse extends Document {
+  name: string;
+  code: string;
+  // Without an address a warehouse is ranked last when choosing where an order ships from
+  address?: IAddress;
+  // Receives stock changes that do not name a location
+  isDefault: boolean;
+  isActive: boolean;
+  createdBy?: Types.ObjectId;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export const AddressSchema = new Schema<IAddress>({
+  line1: {
+    type: String,
+    required: [true, 'Address line 1 is required'],
+    trim: true,
+    maxlength: 200
+  },
+  line2: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  },
+  city: {
+    type: String,
+    required: [true, 'City is required'],
+    trim: true,
+    maxlength: 100
+  },
+  region: {
+    type: String,
+    trim: true,
+    maxlength: 100
+  },
+  postalCode: {
+    type: String,
+    trim: true,
+    maxlength: 20
+  },
+  country: {
+    type: String,
+    required: [true, 'Country is required'],
+    uppercase: true,
+    trim: true,
+    match: [/^[A-Z]{2}$/, 'Country must be a two-letter ISO code']
+  },
+  latitude: {
+    type: Number,
+    min: -90,
+    max: 90
+  },
+  longitude: {
+    type: Number,
+    min: -180,
+    max: 180
+  }
+}, { _id: false });
+
+const WarehouseSchema = new Schema<IWarehouse>({
+  name: {
+    type: String,
+    required: [true, 'Warehouse name is required'],
+    trim: true,
+    maxlength: [100, 'Warehouse name cannot exceed 100 characters']
+  },
+  // Short identifier shown on orders, e.g. "BER-1"
+  code: {
+    type: String,
+    required: [true, 'Warehouse code is required'],
+    unique: true, // Creates unique index
+    uppercase: true,
+    trim: true,
+    match: [/^[A-Z0-9][A-Z0-9-]{0,19}$/, 'Warehouse code must be up to 20 letters, digits or hyphens']
+  },
+  address: AddressSchema,
+  isDefault: {
+    type: Boolean,
+    default: false
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+// At most one default warehouse
+WarehouseSchema.index({ isDefault: 1 }, { unique: true, partialFilterExpression: { isDefault: true } });
+
+export const Warehouse = mongoose.model<IWarehouse>('Warehouse', WarehouseSchema);
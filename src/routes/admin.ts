@@ -1,6 +1,12 @@
 import { Router } from 'express';
 import * as OrderController from '../controllers/order.controller';
-import { authenticate, requireAdmin } from '../middlewares/auth.middleware';
+import * as VendorController from '../controllers/vendor.controller';
+import * as TwoFactorController from '../controllers/twoFactor.controller';
+import * as RoleController from '../controllers/role.controller';
+import * as UsersController from '../controllers/users.controller';
+import * as AuditController from '../controllers/audit.controller';
+import * as WarehouseController from '../controllers/warehouse.controller';
+import { authenticate, authenticateWithScope, requirePermission, forbidImpersonation } from '../middlewares/auth.middleware';
 
 const router = Router();
 
@@ -10,9 +16,10 @@ const router = Router();
  *   get:
  *     summary: Get all orders (Admin)
  *     tags: [Admin]
- *     description: Retrieve all orders in the system (Admin only)
+ *     description: Retrieve all orders in the system (Admin only). Accepts an API key with the orders:read scope.
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     responses:
  *       200:
  *         description: List of all orders
@@ -38,7 +45,7 @@ const router = Router();
  *       500:
  *         description: Server error
  */
-router.get('/orders', authenticate, requireAdmin, OrderController.getAllOrders);
+router.get('/orders', authenticateWithScope('orders:read'), requirePermission('orders:read-all'), OrderController.getAllOrders);
 
 /**
  * @swagger
@@ -94,7 +101,7 @@ router.get('/orders', authenticate, requireAdmin, OrderController.getAllOrders);
  *       500:
  *         description: Server error
  */
-router.get('/orders/statistics', authenticate, requireAdmin, OrderController.getOrderStatistics);
+router.get('/orders/statistics', authenticate, requirePermission('orders:read-all'), OrderController.getOrderStatistics);
 
 /**
  * @swagger
@@ -102,7 +109,7 @@ router.get('/orders/statistics', authenticate, requireAdmin, OrderController.get
  *   patch:
  *     summary: Update order status (Admin)
  *     tags: [Admin]
- *     description: Update the status of an order (Admin only)
+ *     description: Update the status of an order (Admin only). Cancelling a pending or confirmed order returns its stock to the warehouses it shipped from, as a customer cancellation does.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -153,6 +160,681 @@ router.get('/orders/statistics', authenticate, requireAdmin, OrderController.get
  *       500:
  *         description: Server error
  */
-router.patch('/orders/:id/status', authenticate, requireAdmin, OrderController.updateOrderStatus);
+router.patch('/orders/:id/status', authenticate, requirePermission('orders:update-status'), OrderController.updateOrderStatus);
+
+/**
+ * @swagger
+ * /api/v1/admin/vendor-applications:
+ *   get:
+ *     summary: Get vendor applications (Admin)
+ *     tags: [Admin]
+ *     description: Retrieve vendor applications, oldest first (Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, approved, rejected]
+ *         description: Filter by application status
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: number
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: number
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: List of vendor applications
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ */
+router.get('/vendor-applications', authenticate, requirePermission('vendors:review'), VendorController.getAllApplications);
+
+/**
+ * @swagger
+ * /api/v1/admin/vendor-applications/{id}/approve:
+ *   patch:
+ *     summary: Approve vendor application (Admin)
+ *     tags: [Admin]
+ *     description: Approve a pending application and grant the applicant the vendor role. The approving admin and time are recorded on both the application and the user.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Vendor application ID
+ *     responses:
+ *       200:
+ *         description: Application approved
+ *       400:
+ *         description: Application already reviewed
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       404:
+ *         description: Application not found
+ */
+router.patch('/vendor-applications/:id/approve', authenticate, requirePermission('vendors:review'), VendorController.approveApplication);
+
+/**
+ * @swagger
+ * /api/v1/admin/vendor-applications/{id}/reject:
+ *   patch:
+ *     summary: Reject vendor application (Admin)
+ *     tags: [Admin]
+ *     description: Reject a pending vendor application (Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Vendor application ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: Tax ID could not be verified
+ *     responses:
+ *       200:
+ *         description: Application rejected
+ *       400:
+ *         description: Application already reviewed
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       404:
+ *         description: Application not found
+ */
+router.patch('/vendor-applications/:id/reject', authenticate, requirePermission('vendors:review'), VendorController.rejectApplication);
+
+/**
+ * @swagger
+ * /api/v1/admin/security/two-factor-policy:
+ *   get:
+ *     summary: Get two-factor policy (Admin)
+ *     tags: [Admin]
+ *     description: Retrieve which roles are required to use two-factor authentication
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Policy retrieved successfully
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               twoFactorRequiredRoles: [admin, vendor]
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ */
+router.get('/security/two-factor-policy', authenticate, requirePermission('security:manage'), TwoFactorController.getTwoFactorPolicy);
+
+/**
+ * @swagger
+ * /api/v1/admin/security/two-factor-policy:
+ *   put:
+ *     summary: Update two-factor policy (Admin)
+ *     tags: [Admin]
+ *     description: Set the roles that must use two-factor authentication. Users in these roles who have not enrolled can still log in and enroll, but role-restricted endpoints respond 403 with code TWO_FACTOR_SETUP_REQUIRED until they do.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - requiredRoles
+ *             properties:
+ *               requiredRoles:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   description: Role name
+ *                 example: [admin, vendor]
+ *     responses:
+ *       200:
+ *         description: Policy updated
+ *       400:
+ *         description: Invalid roles
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ */
+router.put('/security/two-factor-policy', authenticate, requirePermission('security:manage'), TwoFactorController.updateTwoFactorPolicy);
+
+/**
+ * @swagger
+ * /api/v1/admin/permissions:
+ *   get:
+ *     summary: List permissions (Admin)
+ *     tags: [Admin]
+ *     description: List every permission that can be granted to a role
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Permissions retrieved successfully
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               permissions:
+ *                 - name: orders:update-status
+ *                   description: Change order statuses
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - roles:manage permission required
+ */
+router.get('/permissions', authenticate, requirePermission('roles:manage'), RoleController.getPermissions);
+
+/**
+ * @swagger
+ * /api/v1/admin/roles:
+ *   get:
+ *     summary: List roles (Admin)
+ *     tags: [Admin]
+ *     description: List built-in and custom roles with their permissions and how many users hold each
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Roles retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - roles:manage permission required
+ */
+router.get('/roles', authenticate, requirePermission('roles:manage'), RoleController.getAllRoles);
+
+/**
+ * @swagger
+ * /api/v1/admin/roles:
+ *   post:
+ *     summary: Create a custom role (Admin)
+ *     tags: [Admin]
+ *     description: Define a role such as "support-agent" or "catalog-manager" from a set of permissions. Assign it to users through the role field of PUT /api/v1/users/{id}.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - permissions
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 description: Lowercase letters, digits and hyphens
+ *                 example: support-agent
+ *               description:
+ *                 type: string
+ *                 example: Handles customer tickets and order issues
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: [users:read, orders:read-all, orders:update-status, reviews:moderate]
+ *     responses:
+ *       201:
+ *         description: Role created successfully
+ *       400:
+ *         description: Invalid name, duplicate role or unknown permission
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - roles:manage permission required
+ */
+router.post('/roles', authenticate, requirePermission('roles:manage'), RoleController.createRole);
+
+/**
+ * @swagger
+ * /api/v1/admin/roles/{name}:
+ *   get:
+ *     summary: Get a role (Admin)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: support-agent
+ *     responses:
+ *       200:
+ *         description: Role retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - roles:manage permission required
+ *       404:
+ *         description: Role not found
+ */
+router.get('/roles/:name', authenticate, requirePermission('roles:manage'), RoleController.getRole);
+
+/**
+ * @swagger
+ * /api/v1/admin/roles/{name}:
+ *   put:
+ *     summary: Update a role (Admin)
+ *     tags: [Admin]
+ *     description: Change a role's description or replace its permissions. Built-in vendor and customer roles can be edited; the admin role cannot. Changes apply to users already holding the role.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: support-agent
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               description:
+ *                 type: string
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: [users:read, orders:read-all]
+ *     responses:
+ *       200:
+ *         description: Role updated successfully
+ *       400:
+ *         description: Unknown permission
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - roles:manage permission required, or the admin role
+ *       404:
+ *         description: Role not found
+ */
+router.put('/roles/:name', authenticate, requirePermission('roles:manage'), RoleController.updateRole);
+
+/**
+ * @swagger
+ * /api/v1/admin/roles/{name}:
+ *   delete:
+ *     summary: Delete a custom role (Admin)
+ *     tags: [Admin]
+ *     description: Delete a custom role. Built-in roles and roles still assigned to users cannot be deleted.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: support-agent
+ *     responses:
+ *       200:
+ *         description: Role deleted successfully
+ *       400:
+ *         description: Role is still assigned to users
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - roles:manage permission required, or a built-in role
+ *       404:
+ *         description: Role not found
+ */
+router.delete('/roles/:name', authenticate, requirePermission('roles:manage'), RoleController.deleteRole);
+
+/**
+ * @swagger
+ * /api/v1/admin/users/{id}/impersonate:
+ *   post:
+ *     summary: Impersonate a user (Admin)
+ *     tags: [Admin]
+ *     description: Issue a short-lived access token (15 minutes by default, IMPERSONATION_TOKEN_MINUTES) that acts as the given user, so support staff see exactly what the user sees, e.g. in /api/v1/cart and /api/v1/orders. The token names both the user and the acting admin, is tied to the admin's session and cannot be refreshed. Every write made with it is recorded in the audit trail, and password changes, 2FA changes, session revocation, API key management and deletion are refused. Users whose role can impersonate others cannot be impersonated.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID of the user to impersonate
+ *     responses:
+ *       200:
+ *         description: Impersonation token issued
+ *         content:
+ *           application/json:
+ *             example:
+ *               message: Impersonation token issued
+ *               token: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *               tokenType: impersonation
+ *               expiresAt: 2024-01-12T10:15:00.000Z
+ *               user:
+ *                 id: 507f1f77bcf86cd799439011
+ *                 email: john.customer@example.com
+ *                 role: customer
+ *               impersonator:
+ *                 id: 507f1f77bcf86cd799439012
+ *                 email: admin@example.com
+ *       400:
+ *         description: Invalid target (self, inactive account)
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - users:impersonate permission required, or target cannot be impersonated
+ *       404:
+ *         description: User not found
+ */
+router.post('/users/:id/impersonate', authenticate, forbidImpersonation, requirePermission('users:impersonate'), UsersController.impersonateUser);
+
+/**
+ * @swagger
+ * /api/v1/admin/audit-logs:
+ *   get:
+ *     summary: Get audit trail (Admin)
+ *     tags: [Admin]
+ *     description: Browse audit entries, newest first. Includes impersonation sessions (impersonation.start) and every write made while impersonating (impersonation.request).
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *           example: impersonation.request
+ *       - in: query
+ *         name: actorId
+ *         schema:
+ *           type: string
+ *         description: User who performed the action (the admin)
+ *       - in: query
+ *         name: subjectId
+ *         schema:
+ *           type: string
+ *         description: User the action was performed as
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: number
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: number
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Audit entries retrieved successfully
+ *       400:
+ *         description: Invalid user ID format
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - audit-logs:read permission required
+ */
+router.get('/audit-logs', authenticate, requirePermission('audit-logs:read'), AuditController.getAuditLogs);
+
+/**
+ * @swagger
+ * /api/v1/admin/warehouses:
+ *   get:
+ *     summary: List warehouses (Admin)
+ *     tags: [Admin]
+ *     description: Warehouses stock is kept at and orders ship from, default first, with the units each holds
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: includeInactive
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       200:
+ *         description: Warehouses retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     count:
+ *                       type: number
+ *                     warehouses:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Warehouse'
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - warehouses:manage permission required
+ */
+router.get('/warehouses', authenticate, requirePermission('warehouses:manage'), WarehouseController.getAllWarehouses);
+
+/**
+ * @swagger
+ * /api/v1/admin/warehouses:
+ *   post:
+ *     summary: Create a warehouse (Admin)
+ *     tags: [Admin]
+ *     description: |
+ *       Add a warehouse. Give it an address (with coordinates where possible) so the closest
+ *       warehouse to an order's shipping address can be found. The default warehouse receives
+ *       stock changes that do not name one.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - code
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Berlin fulfillment center
+ *               code:
+ *                 type: string
+ *                 description: Up to 20 letters, digits or hyphens; stored uppercase
+ *                 example: BER-1
+ *               address:
+ *                 $ref: '#/components/schemas/Address'
+ *               isDefault:
+ *                 type: boolean
+ *                 default: false
+ *               isActive:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       201:
+ *         description: Warehouse created successfully
+ *       400:
+ *         description: Missing or invalid fields, or duplicate code
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - warehouses:manage permission required
+ */
+router.post('/warehouses', authenticate, requirePermission('warehouses:manage'), WarehouseController.createWarehouse);
+
+/**
+ * @swagger
+ * /api/v1/admin/warehouses/{id}:
+ *   get:
+ *     summary: Get a warehouse (Admin)
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Warehouse retrieved successfully
+ *       400:
+ *         description: Invalid warehouse ID format
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - warehouses:manage permission required
+ *       404:
+ *         description: Warehouse not found
+ */
+router.get('/warehouses/:id', authenticate, requirePermission('warehouses:manage'), WarehouseController.getWarehouse);
+
+/**
+ * @swagger
+ * /api/v1/admin/warehouses/{id}:
+ *   put:
+ *     summary: Update a warehouse (Admin)
+ *     tags: [Admin]
+ *     description: |
+ *       Change a warehouse or make it the default (the previous default stops being one).
+ *       A warehouse can only be deactivated once its stock has been transferred elsewhere,
+ *       and the default warehouse cannot be deactivated. Send address null to remove it.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *               address:
+ *                 $ref: '#/components/schemas/Address'
+ *               isDefault:
+ *                 type: boolean
+ *                 enum: [true]
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Warehouse updated successfully
+ *       400:
+ *         description: Invalid fields, duplicate code, or the warehouse still holds stock
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - warehouses:manage permission required
+ *       404:
+ *         description: Warehouse not found
+ */
+router.put('/warehouses/:id', authenticate, requirePermission('warehouses:manage'), WarehouseController.updateWarehouse);
+
+/**
+ * @swagger
+ * /api/v1/admin/stock-transfers:
+ *   post:
+ *     summary: Transfer stock between warehouses (Admin)
+ *     tags: [Admin]
+ *     description: |
+ *       Move units of a product (or one of its variants) from one warehouse to another. The
+ *       product's total stock does not change; the stock ledger records a pair of transfer
+ *       movements.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - productId
+ *               - fromWarehouseId
+ *               - toWarehouseId
+ *               - quantity
+ *             properties:
+ *               productId:
+ *                 type: string
+ *               variantId:
+ *                 type: string
+ *                 description: Required for products with variants
+ *               fromWarehouseId:
+ *                 type: string
+ *               toWarehouseId:
+ *                 type: string
+ *               quantity:
+ *                 type: integer
+ *                 minimum: 1
+ *                 example: 10
+ *               note:
+ *                 type: string
+ *                 maxLength: 500
+ *     responses:
+ *       201:
+ *         description: Stock transferred successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     movements:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/StockMovement'
+ *       400:
+ *         description: Invalid input, inactive destination or not enough stock at the source
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - warehouses:manage permission required
+ *       404:
+ *         description: Product, variant or warehouse not found
+ */
+router.post('/stock-transfers', authenticate, requirePermission('warehouses:manage'), WarehouseController.transferStock);
 
 export default router;
@@ -0,0 +1,112 @@
+import { Router } from 'express';
+import * as ApiKeyController from '../controllers/apiKey.controller';
+import { authenticate, requirePermission, forbidImpersonation } from '../middlewares/auth.middleware';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/api-keys:
+ *   post:
+ *     summary: Create an API key
+ *     tags: [API Keys]
+ *     description: Create a named, scoped API key for integrations such as ERP inventory sync (Vendor or Admin). Send it in the X-API-Key header. The key is returned only once; only a hash is stored. Keys can only be managed from a logged-in session, not with another API key.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - scopes
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: ERP inventory sync
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [products:write, inventory:write, orders:read]
+ *                 example: [inventory:write]
+ *               expiresInDays:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 365
+ *                 description: Omit for a key that does not expire
+ *                 example: 90
+ *     responses:
+ *       201:
+ *         description: API key created
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               message: API key created. Copy it now; it will not be shown again.
+ *               key: ek_Q2hhbmdlTWVQbGVhc2VUaGlzSXNOb3RBUmVhbEtleQ
+ *               apiKey:
+ *                 id: 65a1f0c2e4b0a1b2c3d4e5f6
+ *                 name: ERP inventory sync
+ *                 prefix: ek_Q2hhbmdl
+ *                 scopes: [inventory:write]
+ *                 expiresAt: 2024-04-11T09:15:00.000Z
+ *       400:
+ *         description: Invalid name, scopes or expiry
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Forbidden - Vendor or Admin access required
+ */
+router.post('/', authenticate, forbidImpersonation, requirePermission('api-keys:manage'), ApiKeyController.createApiKey);
+
+/**
+ * @swagger
+ * /api/v1/api-keys:
+ *   get:
+ *     summary: List my API keys
+ *     tags: [API Keys]
+ *     description: List the authenticated user's API keys, including revoked and expired ones, with last-used details
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: API keys retrieved successfully
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Forbidden - Vendor or Admin access required
+ */
+router.get('/', authenticate, forbidImpersonation, requirePermission('api-keys:manage'), ApiKeyController.getMyApiKeys);
+
+/**
+ * @swagger
+ * /api/v1/api-keys/{id}:
+ *   delete:
+ *     summary: Revoke an API key
+ *     tags: [API Keys]
+ *     description: Revoke one of the authenticated user's API keys. It stops working immediately.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: API key ID
+ *     responses:
+ *       200:
+ *         description: API key revoked
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Forbidden - Vendor or Admin access required
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.delete('/:id', authenticate, forbidImpersonation, requirePermission('api-keys:manage'), ApiKeyController.revokeApiKey);
+
+export default router;
@@ -4,6 +4,7 @@ import path from "path";
 import swaggerUi from "swagger-ui-express";
 import { swaggerSpec } from "../config/swagger";
 import logger from "../middlewares/loggers";
+import { auditImpersonatedWrites } from "../middlewares/audit.middleware";
 import authRouter from "./auth";
 import categoriesRouter from "./categories";
 import productRouter from "./product";
@@ -12,9 +13,16 @@ import usersRouter from "./users";
 import ordersRouter from "./orders";
 import adminRouter from "./admin";
 import reviewsRouter from "./reviews";
+import vendorsRouter from "./vendors";
+import apiKeysRouter from "./apiKeys";
 
 const app = express();
 
+// Number of reverse proxies in front of the API, so req.ip is the real client address
+if (process.env.TRUST_PROXY_HOPS) {
+  app.set("trust proxy", parseInt(process.env.TRUST_PROXY_HOPS));
+}
+
 app.use(morgan("dev"));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
@@ -51,6 +59,9 @@ app.use("/api-docs", swaggerUi.serve, swaggerUi.setup(swaggerSpec, {
   customSiteTitle: 'E-Commerce API Documentation'
 }));
 
+// Audit trail for writes made under admin impersonation
+app.use("/api/v1", auditImpersonatedWrites);
+
 app.use("/api/v1/auth", authRouter);
 app.use("/api/v1/categories", categoriesRouter);
 app.use("/api/v1/products", productRouter);
@@ -59,5 +70,7 @@ app.use("/api/v1/users", usersRouter);
 app.use("/api/v1/orders", ordersRouter);
 app.use("/api/v1/admin", adminRouter);
 app.use("/api/v1/reviews", reviewsRouter);
+app.use("/api/v1/vendors", vendorsRouter);
+app.use("/api/v1/api-keys", apiKeysRouter);
 
 export default app;
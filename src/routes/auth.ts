@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import * as AuthController from '../controllers/auth.controller';
-import { authenticate, requireAdmin } from '../middlewares/auth.middleware';
+import * as TwoFactorController from '../controllers/twoFactor.controller';
+import { authenticate, requirePermission, forbidImpersonation } from '../middlewares/auth.middleware';
 import { upload } from '../middlewares/upload.middleware';
 
 const router = Router();
@@ -11,7 +12,7 @@ const router = Router();
  *   post:
  *     summary: Register a new user
  *     tags: [Authentication]
- *     description: Create a new user account with specified role (admin, vendor, or customer). Role defaults to 'customer' if not specified.
+ *     description: Create a new customer account. Vendor access is requested separately via POST /api/v1/vendors/applications. The account is created with status 'pending' and a verification link is emailed; login is refused until the email address is verified.
  *     requestBody:
  *       required: true
  *       content:
@@ -32,27 +33,63 @@ const router = Router();
  *                       $ref: '#/components/schemas/User'
  *             example:
  *               success: true
- *               message: User registered successfully
+ *               message: User registered successfully. Please check your email to verify your account.
  *               user:
  *                 _id: 507f1f77bcf86cd799439011
  *                 firstName: John
  *                 lastName: Doe
  *                 email: john.doe@example.com
+ *                 status: pending
  *                 role: customer
  *       400:
- *         $ref: '#/components/responses/BadRequestError'
+ *         description: Invalid request data, or the password breaks the password policy (code PASSWORD_POLICY_VIOLATION with a violations list)
+ *         content:
+ *           application/json:
+ *             example:
+ *               message: Password does not meet the password policy
+ *               code: PASSWORD_POLICY_VIOLATION
+ *               violations:
+ *                 - rule: personalInfo
+ *                   message: Password must not contain your name or email address
  *       500:
  *         description: Server error
  */
 router.post('/register', AuthController.register);
 
+/**
+ * @swagger
+ * /api/v1/auth/password-policy:
+ *   get:
+ *     summary: Get the password policy
+ *     tags: [Authentication]
+ *     description: Rules applied to new passwords on registration, password change and reset. Passwords may also not contain the user's name or email, may not appear in the bundled list of common/breached passwords, and may not repeat any of the last historySize passwords.
+ *     responses:
+ *       200:
+ *         description: Current password policy
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               policy:
+ *                 minLength: 8
+ *                 maxLength: 128
+ *                 requireUppercase: true
+ *                 requireLowercase: true
+ *                 requireDigit: true
+ *                 requireSymbol: false
+ *                 disallowPersonalInfo: true
+ *                 disallowCommonPasswords: true
+ *                 historySize: 5
+ */
+router.get('/password-policy', AuthController.getPasswordPolicy);
+
 /**
  * @swagger
  * /api/v1/auth/login:
  *   post:
  *     summary: Login user
  *     tags: [Authentication]
- *     description: Authenticate user and receive JWT token. Use this token for subsequent requests.
+ *     description: Authenticate user and receive JWT token. Use this token for subsequent requests. If the account has two-factor authentication enabled, no token is issued; the response carries twoFactorRequired and a challengeToken to complete at POST /api/v1/auth/login/2fa. twoFactorSetupRequired is true when the user's role must use 2FA but has not enrolled yet; role-restricted endpoints refuse access until enrollment is done.
  *     requestBody:
  *       required: true
  *       content:
@@ -66,15 +103,25 @@ router.post('/register', AuthController.register);
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/AuthResponse'
- *             example:
- *               message: Login successful
- *               token: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
- *               user:
- *                 _id: 507f1f77bcf86cd799439011
- *                 firstName: John
- *                 lastName: Customer
- *                 email: john.customer@example.com
- *                 role: customer
+ *             examples:
+ *               session:
+ *                 summary: Login complete
+ *                 value:
+ *                   message: Login successful
+ *                   token: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *                   twoFactorSetupRequired: false
+ *                   user:
+ *                     _id: 507f1f77bcf86cd799439011
+ *                     firstName: John
+ *                     lastName: Customer
+ *                     email: john.customer@example.com
+ *                     role: customer
+ *               challenge:
+ *                 summary: Two-factor code required
+ *                 value:
+ *                   message: Two-factor authentication required
+ *                   twoFactorRequired: true
+ *                   challengeToken: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
  *       400:
  *         $ref: '#/components/responses/BadRequestError'
  *       401:
@@ -83,9 +130,182 @@ router.post('/register', AuthController.register);
  *           application/json:
  *             example:
  *               message: Invalid credentials
+ *       403:
+ *         description: Email address not verified yet
+ *         content:
+ *           application/json:
+ *             example:
+ *               message: Email address has not been verified
+ *               code: EMAIL_NOT_VERIFIED
+ *       423:
+ *         description: Account temporarily locked after too many failed attempts
+ *         content:
+ *           application/json:
+ *             example:
+ *               message: Account is temporarily locked due to too many failed login attempts. Try again in 15 minutes.
+ *               code: ACCOUNT_LOCKED
+ *       429:
+ *         description: Too many failed attempts - retry after the indicated delay
+ *         content:
+ *           application/json:
+ *             example:
+ *               message: Too many failed login attempts. Try again in 4 seconds.
+ *               code: TOO_MANY_ATTEMPTS
  */
 router.post('/login', AuthController.login);
 
+/**
+ * @swagger
+ * /api/v1/auth/login/2fa:
+ *   post:
+ *     summary: Complete two-factor login
+ *     tags: [Authentication]
+ *     description: Second step of login for accounts with two-factor authentication. Exchange the challengeToken from POST /api/v1/auth/login (valid for 5 minutes) and a code from the authenticator app, or a one-time recovery code, for access and refresh tokens. Wrong codes count toward the account lockout.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *                 example: eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...
+ *               code:
+ *                 type: string
+ *                 description: 6-digit code from the authenticator app
+ *                 example: '123456'
+ *               recoveryCode:
+ *                 type: string
+ *                 description: One-time recovery code, used instead of code
+ *                 example: a1b2c-3d4e5
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequestError'
+ *       401:
+ *         description: Invalid code or expired challenge
+ *       423:
+ *         description: Account temporarily locked after too many failed attempts
+ *       429:
+ *         description: Too many failed attempts - retry after the indicated delay
+ */
+router.post('/login/2fa', AuthController.loginTwoFactor);
+
+/**
+ * @swagger
+ * /api/v1/auth/verify-email:
+ *   post:
+ *     summary: Verify email address
+ *     tags: [Authentication]
+ *     description: Activate a pending account using the token from the verification email. Returns tokens so the user is signed in right away.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 example: a1b2c3d4e5f6...
+ *     responses:
+ *       200:
+ *         description: Email verified successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthResponse'
+ *       400:
+ *         description: Invalid or expired token
+ *         content:
+ *           application/json:
+ *             example:
+ *               message: Invalid or expired verification token
+ */
+router.post('/verify-email', AuthController.verifyEmail);
+
+/**
+ * @swagger
+ * /api/v1/auth/resend-verification:
+ *   post:
+ *     summary: Resend verification email
+ *     tags: [Authentication]
+ *     description: Send a new verification link to a pending account. Previously issued links stop working.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: john.doe@example.com
+ *     responses:
+ *       200:
+ *         description: Verification email sent
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               message: Verification email sent
+ *       400:
+ *         description: Email address is already verified
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.post('/resend-verification', AuthController.resendVerification);
+
+/**
+ * @swagger
+ * /api/v1/auth/refresh:
+ *   post:
+ *     summary: Refresh access token
+ *     tags: [Authentication]
+ *     description: Exchange a refresh token for a new access token and refresh token. Each refresh token can only be used once; replaying a used token revokes the whole session.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *                 example: 9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08...
+ *     responses:
+ *       200:
+ *         description: Token refreshed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthResponse'
+ *       400:
+ *         $ref: '#/components/responses/BadRequestError'
+ *       401:
+ *         description: Invalid, expired or reused refresh token
+ *         content:
+ *           application/json:
+ *             example:
+ *               message: Invalid or expired refresh token
+ */
+router.post('/refresh', AuthController.refreshToken);
+
 /**
  * @swagger
  * /api/v1/auth/forgot-password:
@@ -143,6 +363,7 @@ router.post('/forgot-password', AuthController.forgotPassword);
  *                 type: string
  *                 format: password
  *                 minLength: 8
+ *                 description: Must satisfy the password policy and differ from recently used passwords
  *                 example: NewPassword123!
  *     responses:
  *       200:
@@ -153,7 +374,7 @@ router.post('/forgot-password', AuthController.forgotPassword);
  *               success: true
  *               message: Password reset successful
  *       400:
- *         description: Invalid or expired token
+ *         description: Invalid or expired token, or the new password breaks the password policy (code PASSWORD_POLICY_VIOLATION)
  *         content:
  *           application/json:
  *             example:
@@ -188,6 +409,94 @@ router.post('/reset-password', AuthController.resetPassword);
  */
 router.get('/profile', authenticate, AuthController.getProfile);
 
+/**
+ * @swagger
+ * /api/v1/auth/me/export:
+ *   get:
+ *     summary: Export my personal data
+ *     tags: [Authentication]
+ *     description: Download a JSON archive of everything stored about the authenticated user - profile, orders, reviews, cart, vendor applications, active sessions and API key metadata. Not available while impersonating.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: JSON archive (sent as an attachment)
+ *         content:
+ *           application/json:
+ *             example:
+ *               exportedAt: 2026-01-15T10:30:00.000Z
+ *               profile:
+ *                 id: 507f1f77bcf86cd799439011
+ *                 firstName: John
+ *                 lastName: Doe
+ *                 email: john.doe@example.com
+ *               orders: []
+ *               reviews: []
+ *               cart: null
+ *               vendorApplications: []
+ *               sessions: []
+ *               apiKeys: []
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Not allowed while impersonating
+ */
+router.get('/me/export', authenticate, forbidImpersonation, AuthController.exportMyData);
+
+/**
+ * @swagger
+ * /api/v1/auth/me:
+ *   delete:
+ *     summary: Erase my account
+ *     tags: [Authentication]
+ *     description: |
+ *       Permanently erase the authenticated user's personal data. Orders are kept for accounting but no longer identify the user;
+ *       the cart, profile picture, vendor applications, sessions and API keys are removed. Reviews are anonymized or deleted
+ *       depending on the ERASURE_REVIEW_POLICY setting (anonymize by default). Requires the password, and a two-factor or
+ *       recovery code when two-factor authentication is enabled. Not available while impersonating.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *             properties:
+ *               password:
+ *                 type: string
+ *                 format: password
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *               recoveryCode:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Account erased
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               message: Your account and personal data have been erased
+ *               erasure:
+ *                 userId: 507f1f77bcf86cd799439011
+ *                 erasedAt: 2026-01-15T10:30:00.000Z
+ *                 ordersAnonymized: 3
+ *                 reviewPolicy: anonymize
+ *                 reviewsAffected: 2
+ *                 cartDeleted: true
+ *       400:
+ *         description: Missing or incorrect password or two-factor code
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Not allowed while impersonating
+ */
+router.delete('/me', authenticate, forbidImpersonation, AuthController.eraseMyAccount);
+
 /**
  * @swagger
  * /api/v1/auth/profile:
@@ -287,7 +596,7 @@ router.put('/profile/picture', authenticate, upload.single('profilePicture'), Au
  *   put:
  *     summary: Change password
  *     tags: [Authentication]
- *     description: Change password for authenticated user
+ *     description: Change password for authenticated user. Every other session is signed out; the current one stays. Not allowed with an impersonation token.
  *     security:
  *       - bearerAuth: []
  *     requestBody:
@@ -308,6 +617,7 @@ router.put('/profile/picture', authenticate, upload.single('profilePicture'), Au
  *                 type: string
  *                 format: password
  *                 minLength: 8
+ *                 description: Must satisfy the password policy and differ from recently used passwords
  *                 example: NewPassword123!
  *     responses:
  *       200:
@@ -318,11 +628,11 @@ router.put('/profile/picture', authenticate, upload.single('profilePicture'), Au
  *               success: true
  *               message: Password changed successfully
  *       400:
- *         description: Current password is incorrect
+ *         description: Current password is incorrect, or the new password breaks the password policy (code PASSWORD_POLICY_VIOLATION)
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  */
-router.put('/change-password', authenticate, AuthController.changePassword);
+router.put('/change-password', authenticate, forbidImpersonation, AuthController.changePassword);
 
 /**
  * @swagger
@@ -330,7 +640,7 @@ router.put('/change-password', authenticate, AuthController.changePassword);
  *   post:
  *     summary: Logout user
  *     tags: [Authentication]
- *     description: Logout the authenticated user (client should discard the token)
+ *     description: Logout the authenticated user by revoking the current session. The access and refresh tokens stop working immediately.
  *     security:
  *       - bearerAuth: []
  *     responses:
@@ -346,9 +656,217 @@ router.put('/change-password', authenticate, AuthController.changePassword);
  */
 router.post('/logout', authenticate, AuthController.logout);
 
+/**
+ * @swagger
+ * /api/v1/auth/sessions:
+ *   get:
+ *     summary: List active sessions
+ *     tags: [Authentication]
+ *     description: List every device/session currently signed in to the authenticated user's account
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessions retrieved successfully
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               count: 2
+ *               sessions:
+ *                 - id: 65a1f0c2e4b0a1b2c3d4e5f6
+ *                   userAgent: Mozilla/5.0 (Macintosh; Intel Mac OS X 14_2) AppleWebKit/537.36
+ *                   ipAddress: 203.0.113.10
+ *                   createdAt: 2024-01-12T09:15:00.000Z
+ *                   lastSeenAt: 2024-01-12T10:42:00.000Z
+ *                   current: true
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.get('/sessions', authenticate, AuthController.getSessions);
+
+/**
+ * @swagger
+ * /api/v1/auth/sessions:
+ *   delete:
+ *     summary: Sign out everywhere
+ *     tags: [Authentication]
+ *     description: Revoke every session of the authenticated user, including the current one
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: All sessions revoked
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               message: Signed out of all sessions
+ *               revokedCount: 3
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.delete('/sessions', authenticate, forbidImpersonation, AuthController.revokeAllSessions);
+
+/**
+ * @swagger
+ * /api/v1/auth/sessions/{id}:
+ *   delete:
+ *     summary: Sign out a device
+ *     tags: [Authentication]
+ *     description: Revoke a single session of the authenticated user
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Session ID
+ *         example: 65a1f0c2e4b0a1b2c3d4e5f6
+ *     responses:
+ *       200:
+ *         description: Session revoked successfully
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.delete('/sessions/:id', authenticate, forbidImpersonation, AuthController.revokeSession);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/setup:
+ *   post:
+ *     summary: Start two-factor enrollment
+ *     tags: [Authentication]
+ *     description: Generate a new TOTP secret for the authenticated user. Add it to an authenticator app (render otpauthUri as a QR code) and then confirm with POST /api/v1/auth/2fa/confirm. Calling this again replaces an unconfirmed secret.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Enrollment started
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               secret: JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP
+ *               otpauthUri: otpauth://totp/E-Commerce%20API%3Ajohn%40example.com?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=E-Commerce+API&algorithm=SHA1&digits=6&period=30
+ *       400:
+ *         description: Two-factor authentication is already enabled
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post('/2fa/setup', authenticate, forbidImpersonation, TwoFactorController.setupTwoFactor);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/confirm:
+ *   post:
+ *     summary: Confirm two-factor enrollment
+ *     tags: [Authentication]
+ *     description: Enable two-factor authentication by submitting a current code from the authenticator app. Returns 10 one-time recovery codes, which are shown only once.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: '123456'
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               recoveryCodes: [a1b2c-3d4e5, f6a7b-8c9d0]
+ *       400:
+ *         description: Invalid code or enrollment not started
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post('/2fa/confirm', authenticate, forbidImpersonation, TwoFactorController.confirmTwoFactor);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/disable:
+ *   post:
+ *     summary: Disable two-factor authentication
+ *     tags: [Authentication]
+ *     description: Turn off two-factor authentication. Requires the current password and a current code. Refused when the admin policy requires 2FA for the user's role.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *               - code
+ *             properties:
+ *               password:
+ *                 type: string
+ *                 format: password
+ *               code:
+ *                 type: string
+ *                 example: '123456'
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication disabled
+ *       400:
+ *         description: Invalid password or code
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         description: Two-factor authentication is required for the user's role
+ */
+router.post('/2fa/disable', authenticate, forbidImpersonation, TwoFactorController.disableTwoFactor);
+
+/**
+ * @swagger
+ * /api/v1/auth/2fa/recovery-codes:
+ *   post:
+ *     summary: Regenerate recovery codes
+ *     tags: [Authentication]
+ *     description: Replace all recovery codes with a new set of 10. Previous codes stop working immediately.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: '123456'
+ *     responses:
+ *       200:
+ *         description: Recovery codes regenerated
+ *       400:
+ *         description: Invalid code
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.post('/2fa/recovery-codes', authenticate, forbidImpersonation, TwoFactorController.regenerateRecoveryCodes);
+
 // User management routes (protected - admin functions)
-router.get('/users', authenticate, requireAdmin, AuthController.getAllUsers);
-router.put('/users/:id', authenticate, requireAdmin, AuthController.updateUser);
-router.delete('/users/:id', authenticate, requireAdmin, AuthController.deleteUser);
+router.get('/users', authenticate, requirePermission('users:read'), AuthController.getAllUsers);
+router.put('/users/:id', authenticate, requirePermission('users:write'), AuthController.updateUser);
+router.delete('/users/:id', authenticate, forbidImpersonation, requirePermission('users:delete'), AuthController.deleteUser);
 
 export default router;
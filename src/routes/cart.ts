@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import * as CartController from '../controllers/cart.controller';
-import { authenticate, requireCustomer } from '../middlewares/auth.middleware';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
 
 const router = Router();
 
@@ -29,7 +29,7 @@ const router = Router();
  *         $ref: '#/components/responses/UnauthorizedError'
  */
 // All cart routes require authentication
-router.get('/', authenticate, requireCustomer, CartController.getCart);
+router.get('/', authenticate, requirePermission('cart:manage'), CartController.getCart);
 
 /**
  * @swagger
@@ -37,7 +37,7 @@ router.get('/', authenticate, requireCustomer, CartController.getCart);
  *   post:
  *     summary: Add item to cart
  *     tags: [Cart]
- *     description: Add a product to the shopping cart or update quantity if already exists
+ *     description: Add a product to the shopping cart or update quantity if already exists. Products with variants need a variantId; each variant is a separate cart line.
  *     security:
  *       - bearerAuth: []
  *     requestBody:
@@ -63,9 +63,75 @@ router.get('/', authenticate, requireCustomer, CartController.getCart);
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  *       404:
- *         description: Product not found
+ *         description: Product or variant not found
  */
-router.post('/', authenticate, requireCustomer, CartController.addItemToCart);
+router.post('/', authenticate, requirePermission('cart:manage'), CartController.addItemToCart);
+
+/**
+ * @swagger
+ * /api/v1/cart/checkout:
+ *   post:
+ *     summary: Start checkout
+ *     tags: [Cart]
+ *     description: |
+ *       Reserve the stock of every cart line for RESERVATION_TTL_MINUTES (default 15).
+ *       Reserved stock is left out of the available quantity other customers see and is
+ *       converted into the sale when the order is placed. Checking out again replaces
+ *       the previous reservations; if any line cannot be reserved, none is.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Stock reserved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/SuccessResponse'
+ *                 - type: object
+ *                   properties:
+ *                     expiresAt:
+ *                       type: string
+ *                       format: date-time
+ *                     reservations:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/StockReservation'
+ *       400:
+ *         description: Empty cart, or a line is no longer available in the requested quantity
+ *         content:
+ *           application/json:
+ *             example:
+ *               message: "Insufficient stock for Laptop Pro 15. Available: 1, Requested: 2"
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         description: A product or variant in the cart no longer exists
+ */
+router.post('/checkout', authenticate, requirePermission('orders:place'), CartController.checkout);
+
+/**
+ * @swagger
+ * /api/v1/cart/checkout:
+ *   delete:
+ *     summary: Cancel checkout
+ *     tags: [Cart]
+ *     description: Release the stock reserved by the current checkout. The cart is kept.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Reserved stock released
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               message: Reserved stock released
+ *               released: 2
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ */
+router.delete('/checkout', authenticate, requirePermission('orders:place'), CartController.cancelCheckout);
 
 /**
  * @swagger
@@ -108,7 +174,7 @@ router.post('/', authenticate, requireCustomer, CartController.addItemToCart);
  *       404:
  *         description: Product not found in cart
  */
-router.put('/:productId', authenticate, requireCustomer, CartController.updateCartItem);
+router.put('/:productId', authenticate, requirePermission('cart:manage'), CartController.updateCartItem);
 
 /**
  * @swagger
@@ -126,6 +192,11 @@ router.put('/:productId', authenticate, requireCustomer, CartController.updateCa
  *         schema:
  *           type: string
  *         description: Product ID to remove
+ *       - in: query
+ *         name: variantId
+ *         schema:
+ *           type: string
+ *         description: Remove only this variant's line (default removes every line of the product)
  *     responses:
  *       200:
  *         description: Item removed from cart successfully
@@ -143,7 +214,7 @@ router.put('/:productId', authenticate, requireCustomer, CartController.updateCa
  *       404:
  *         description: Product not found in cart
  */
-router.delete('/:productId', authenticate, requireCustomer, CartController.removeCartItem);
+router.delete('/:productId', authenticate, requirePermission('cart:manage'), CartController.removeCartItem);
 
 /**
  * @swagger
@@ -165,6 +236,6 @@ router.delete('/:productId', authenticate, requireCustomer, CartController.remov
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  */
-router.delete('/', authenticate, requireCustomer, CartController.clearCart);
+router.delete('/', authenticate, requirePermission('cart:manage'), CartController.clearCart);
 
 export default router;
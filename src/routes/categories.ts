@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import * as CategoryController from '../controllers/category.controller';
-import { authenticate, requireAdmin } from '../middlewares/auth.middleware';
+import { authenticate, optionalAuth, requirePermission } from '../middlewares/auth.middleware';
 
 const router = Router();
 
@@ -10,7 +10,25 @@ const router = Router();
  *   get:
  *     summary: Get all categories
  *     tags: [Categories]
- *     description: Retrieve a list of all product categories
+ *     description: |
+ *       Retrieve a list of product categories. Archived categories and their subcategories are only
+ *       listed for users with the categories:write permission, who can also filter on isActive.
+ *     parameters:
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *         description: Filter by active/archived (category managers only)
+ *       - in: query
+ *         name: includeDeleted
+ *         schema:
+ *           type: boolean
+ *         description: Also list soft-deleted categories (category managers only)
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Filter by name
  *     responses:
  *       200:
  *         description: List of categories retrieved successfully
@@ -32,7 +50,42 @@ const router = Router();
  *       500:
  *         description: Server error
  */
-router.get('/', CategoryController.getAllCategories);
+router.get('/', optionalAuth, CategoryController.getAllCategories);
+
+/**
+ * @swagger
+ * /api/v1/categories/tree:
+ *   get:
+ *     summary: Get the category tree
+ *     tags: [Categories]
+ *     description: All categories nested under their parents, top-level categories first
+ *     parameters:
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *         description: |
+ *           Only include active (or inactive) categories; children of excluded categories are left out.
+ *           Category managers only; everyone else sees active categories.
+ *     responses:
+ *       200:
+ *         description: Category tree retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 tree:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/CategoryTreeNode'
+ *       500:
+ *         description: Server error
+ */
+router.get('/tree', optionalAuth, CategoryController.getCategoryTree);
 
 /**
  * @swagger
@@ -87,6 +140,15 @@ router.get('/:id', CategoryController.getCategoryById);
  *               description:
  *                 type: string
  *                 example: Electronic devices and accessories
+ *               parent:
+ *                 type: string
+ *                 description: Parent category ID; omit for a top-level category
+ *                 example: 507f1f77bcf86cd799439011
+ *               attributeSchema:
+ *                 type: array
+ *                 description: Attributes products in this category carry
+ *                 items:
+ *                   $ref: '#/components/schemas/CategoryAttribute'
  *     responses:
  *       201:
  *         description: Category created successfully
@@ -112,7 +174,7 @@ router.get('/:id', CategoryController.getCategoryById);
  *       500:
  *         description: Server error
  */
-router.post('/', authenticate, requireAdmin, CategoryController.createCategory);
+router.post('/', authenticate, requirePermission('categories:write'), CategoryController.createCategory);
 
 /**
  * @swagger
@@ -144,6 +206,16 @@ router.post('/', authenticate, requireAdmin, CategoryController.createCategory);
  *               description:
  *                 type: string
  *                 example: Updated description for electronics
+ *               parent:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Move the category under another parent, or null to make it top-level. Paths of all descendants are updated.
+ *                 example: 507f1f77bcf86cd799439011
+ *               attributeSchema:
+ *                 type: array
+ *                 description: Replaces the attribute schema. Existing products are re-checked only when they are next updated.
+ *                 items:
+ *                   $ref: '#/components/schemas/CategoryAttribute'
  *     responses:
  *       200:
  *         description: Category updated successfully
@@ -171,7 +243,7 @@ router.post('/', authenticate, requireAdmin, CategoryController.createCategory);
  *       500:
  *         description: Server error
  */
-router.put('/:id', authenticate, requireAdmin, CategoryController.updateCategory);
+router.put('/:id', authenticate, requirePermission('categories:write'), CategoryController.updateCategory);
 
 /**
  * @swagger
@@ -179,7 +251,11 @@ router.put('/:id', authenticate, requireAdmin, CategoryController.updateCategory
  *   delete:
  *     summary: Delete a category
  *     tags: [Categories]
- *     description: Delete a category by ID (Admin only)
+ *     description: |
+ *       Soft-delete a category by ID (Admin only). Categories with subcategories cannot be deleted. A category
+ *       that still has products is only deleted when reassignTo names a category to move them to; the move
+ *       and the deletion happen in one transaction. To hide a category without moving products, archive it.
+ *       Deleted categories can be restored until the purge job removes them.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -190,6 +266,12 @@ router.put('/:id', authenticate, requireAdmin, CategoryController.updateCategory
  *           type: string
  *         description: Category ID
  *         example: 507f1f77bcf86cd799439011
+ *       - in: query
+ *         name: reassignTo
+ *         schema:
+ *           type: string
+ *         description: Category ID to move the deleted category's products to
+ *         example: 507f1f77bcf86cd799439012
  *     responses:
  *       200:
  *         description: Category deleted successfully
@@ -204,6 +286,111 @@ router.put('/:id', authenticate, requireAdmin, CategoryController.updateCategory
  *                 message:
  *                   type: string
  *                   example: Category deleted successfully
+ *                 productsMoved:
+ *                   type: number
+ *                   example: 12
+ *                 reassignedTo:
+ *                   type: string
+ *                   example: 507f1f77bcf86cd799439012
+ *       400:
+ *         description: Category has subcategories, has products and no reassignTo, or the target category is invalid
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       404:
+ *         description: Category not found
+ *       500:
+ *         description: Server error
+ */
+router.delete('/:id', authenticate, requirePermission('categories:write'), CategoryController.deleteCategory);
+
+/**
+ * @swagger
+ * /api/v1/categories/{id}/restore:
+ *   patch:
+ *     summary: Restore a deleted category
+ *     tags: [Categories]
+ *     description: Undo a soft delete before the category is purged (Admin only). The parent category must not be deleted.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Category ID
+ *         example: 507f1f77bcf86cd799439011
+ *     responses:
+ *       200:
+ *         description: Category restored successfully
+ *       400:
+ *         description: Parent category is deleted, or a sibling now uses the same name
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       404:
+ *         description: Deleted category not found
+ *       500:
+ *         description: Server error
+ */
+router.patch('/:id/restore', authenticate, requirePermission('categories:write'), CategoryController.restoreCategory);
+
+/**
+ * @swagger
+ * /api/v1/categories/{id}/archive:
+ *   patch:
+ *     summary: Archive a category
+ *     tags: [Categories]
+ *     description: |
+ *       Mark a category inactive (Admin only). The category, its subcategories and their products are hidden
+ *       from public category and product listings; products stay reachable by ID so existing orders and links work.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Category ID
+ *         example: 507f1f77bcf86cd799439011
+ *     responses:
+ *       200:
+ *         description: Category archived successfully
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       404:
+ *         description: Category not found
+ *       500:
+ *         description: Server error
+ */
+router.patch('/:id/archive', authenticate, requirePermission('categories:write'), CategoryController.archiveCategory);
+
+/**
+ * @swagger
+ * /api/v1/categories/{id}/unarchive:
+ *   patch:
+ *     summary: Restore an archived category
+ *     tags: [Categories]
+ *     description: Mark a category active again (Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Category ID
+ *         example: 507f1f77bcf86cd799439011
+ *     responses:
+ *       200:
+ *         description: Category restored successfully
  *       401:
  *         description: Unauthorized
  *       403:
@@ -213,6 +400,6 @@ router.put('/:id', authenticate, requireAdmin, CategoryController.updateCategory
  *       500:
  *         description: Server error
  */
-router.delete('/:id', authenticate, requireAdmin, CategoryController.deleteCategory);
+router.patch('/:id/unarchive', authenticate, requirePermission('categories:write'), CategoryController.unarchiveCategory);
 
 export default router;
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import * as OrderController from '../controllers/order.controller';
-import { authenticate, requireCustomer } from '../middlewares/auth.middleware';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
 
 const router = Router();
 
@@ -10,9 +10,21 @@ const router = Router();
  *   post:
  *     summary: Create a new order
  *     tags: [Orders]
- *     description: Place a new order from the authenticated user's cart (no request body required)
+ *     description: |
+ *       Place a new order from the authenticated user's cart. Each line ships from warehouses chosen
+ *       by the configured fulfillment strategy (FULFILLMENT_STRATEGY: closest, the default, or
+ *       single-location), recorded on the line as shipsFrom.
  *     security:
  *       - bearerAuth: []
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               shippingAddress:
+ *                 $ref: '#/components/schemas/Address'
  *     responses:
  *       201:
  *         description: Order created successfully
@@ -36,7 +48,7 @@ const router = Router();
  *       500:
  *         description: Server error
  */
-router.post('/', authenticate, requireCustomer, OrderController.createOrder);
+router.post('/', authenticate, requirePermission('orders:place'), OrderController.createOrder);
 
 /**
  * @swagger
@@ -70,7 +82,7 @@ router.post('/', authenticate, requireCustomer, OrderController.createOrder);
  *       500:
  *         description: Server error
  */
-router.get('/', authenticate, requireCustomer, OrderController.getMyOrders);
+router.get('/', authenticate, requirePermission('orders:read-own'), OrderController.getMyOrders);
 
 /**
  * @swagger
@@ -105,7 +117,7 @@ router.get('/', authenticate, requireCustomer, OrderController.getMyOrders);
  *       500:
  *         description: Server error
  */
-router.get('/:id', authenticate, requireCustomer, OrderController.getOrderById);
+router.get('/:id', authenticate, requirePermission('orders:read-own'), OrderController.getOrderById);
 
 /**
  * @swagger
@@ -151,6 +163,6 @@ router.get('/:id', authenticate, requireCustomer, OrderController.getOrderById);
  *       500:
  *         description: Server error
  */
-router.patch('/:id/cancel', authenticate, requireCustomer, OrderController.cancelOrder);
+router.patch('/:id/cancel', authenticate, requirePermission('orders:place'), OrderController.cancelOrder);
 
 export default router;
@@ -1,10 +1,11 @@
 import { Router, Request, Response } from "express";
 import * as ProductService from '../services/product.service';
 import * as ProductController from '../controllers/product.controller';
-import { authenticate, requireVendorOrAdmin, requireCustomer, AuthRequest } from '../middlewares/auth.middleware';
-import { upload, deleteFile } from '../middlewares/upload.middleware';
+import * as CategoryService from '../services/category.service';
+import * as InventoryService from '../services/inventory.service';
+import { authenticate, authenticateWithScope, optionalAuth, requirePermission, hasPermission, AuthRequest } from '../middlewares/auth.middleware';
+import { upload, importUpload } from '../middlewares/upload.middleware';
 import mongoose from 'mongoose';
-import { Category } from '../models/category.model';
 import { 
   getAllProducts,
   getProductStats,
@@ -16,6 +17,148 @@ import { createReview, getProductReviews } from '../controllers/review.controlle
 
 const router = Router();
 
+/**
+ * @swagger
+ * /api/v1/products/search:
+ *   get:
+ *     summary: Search products with facets
+ *     tags: [Products]
+ *     description: |
+ *       Full-text search over product name and description, ranked by relevance, returning facet counts for
+ *       category, price bucket, stock status, average rating and vendor in the same response. Each facet is
+ *       counted with every filter except its own, so a sidebar can show alternatives to the current selection.
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *         description: Search terms (omit to browse with filters only)
+ *         example: wireless headphones
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *         description: Comma-separated category IDs, slugs or paths; each includes its subcategories
+ *       - in: query
+ *         name: vendor
+ *         schema:
+ *           type: string
+ *         description: Comma-separated vendor (user) IDs
+ *       - in: query
+ *         name: minPrice
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: maxPrice
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: inStock
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: minRating
+ *         schema:
+ *           type: number
+ *         description: Minimum average rating (1-5)
+ *       - in: query
+ *         name: attr.{key}
+ *         schema:
+ *           type: string
+ *         description: Attribute filter, same syntax as GET /api/v1/products (e.g. attr.wattage[gte]=500)
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [relevance, price_asc, price_desc, newest, rating]
+ *         description: Defaults to relevance when q is given, otherwise newest
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: number
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: number
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Search results with facets
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               data: []
+ *               pagination:
+ *                 currentPage: 1
+ *                 totalPages: 3
+ *                 totalItems: 27
+ *                 itemsPerPage: 10
+ *                 hasNextPage: true
+ *                 hasPrevPage: false
+ *               searchQuery: wireless headphones
+ *               facets:
+ *                 categories:
+ *                   - { id: 507f1f77bcf86cd799439011, name: Electronics, slug: electronics, count: 21 }
+ *                 price:
+ *                   - { min: 50, max: 100, count: 9 }
+ *                   - { min: 1000, max: null, count: 1 }
+ *                 inStock:
+ *                   - { value: true, count: 24 }
+ *                   - { value: false, count: 3 }
+ *                 rating:
+ *                   - { minRating: 4, count: 12 }
+ *                   - { minRating: 3, count: 18 }
+ *                 vendors:
+ *                   - { id: 507f1f77bcf86cd799439012, name: Jane Smith, count: 15 }
+ *               didYouMean: Only present when q matched nothing, e.g. [wireless headphones]
+ *       400:
+ *         description: Invalid search parameters
+ *       500:
+ *         description: Server error
+ */
+router.get('/search', ProductController.searchProducts);
+
+/**
+ * @swagger
+ * /api/v1/products/suggest:
+ *   get:
+ *     summary: Search-as-you-type suggestions
+ *     tags: [Products]
+ *     description: |
+ *       Case-insensitive prefix matches on product names and active category names, plus popular past
+ *       searches that returned results. Each source has a short time budget (SUGGEST_MAX_TIME_MS) and is
+ *       left empty rather than slowing the response. Responses are cacheable for 60 seconds.
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *           minLength: 2
+ *         description: What the user has typed so far
+ *     responses:
+ *       200:
+ *         description: Suggestions
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               message: Suggestions retrieved successfully
+ *               data:
+ *                 products:
+ *                   - { id: 507f1f77bcf86cd799439011, name: Wireless Headphones }
+ *                 categories:
+ *                   - { id: 507f1f77bcf86cd799439012, name: Wearables, slug: wearables }
+ *                 queries: [wireless headphones, wireless charger]
+ *       400:
+ *         description: q is shorter than 2 characters
+ *       500:
+ *         description: Server error
+ */
+router.get('/suggest', ProductController.suggestProducts);
+
 // Aggregation and statistics endpoints (must be before /:id routes)
 /**
  * @swagger
@@ -66,8 +209,7 @@ router.get('/top', getTopProducts);
  *         name: threshold
  *         schema:
  *           type: number
- *           default: 10
- *         description: Stock threshold
+ *         description: Stock threshold for every product; when omitted each product's reorderThreshold (or LOW_STOCK_THRESHOLD) applies
  *     responses:
  *       200:
  *         description: Low stock products retrieved successfully
@@ -76,7 +218,65 @@ router.get('/top', getTopProducts);
  *       403:
  *         description: Forbidden - Vendor or Admin access required
  */
-router.get('/low-stock', authenticate, requireVendorOrAdmin, getLowStockProducts);
+router.get('/low-stock', authenticate, requirePermission('inventory:read'), getLowStockProducts);
+
+/**
+ * @swagger
+ * /api/v1/products/stock/reconciliation:
+ *   get:
+ *     summary: Reconcile stock with the ledger
+ *     tags: [Products]
+ *     description: |
+ *       Lists products (and variants) whose quantity differs from the sum of their stock movements, for example
+ *       after a direct database edit. Vendors only get their own products.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Reconciliation report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                   example: 2 stock discrepancies found
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     checkedProducts:
+ *                       type: number
+ *                     issues:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           productId:
+ *                             type: string
+ *                           name:
+ *                             type: string
+ *                           variantId:
+ *                             type: string
+ *                             nullable: true
+ *                           sku:
+ *                             type: string
+ *                           quantity:
+ *                             type: number
+ *                           ledgerQuantity:
+ *                             type: number
+ *                           difference:
+ *                             type: number
+ *                           movementCount:
+ *                             type: number
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - inventory:read required
+ */
+router.get('/stock/reconciliation', authenticate, requirePermission('inventory:read'), ProductController.getStockReconciliation);
 /**
  * @swagger
  * /api/v1/products/price-distribution:
@@ -92,19 +292,185 @@ router.get('/low-stock', authenticate, requireVendorOrAdmin, getLowStockProducts
  */
 router.get('/price-distribution', getPriceDistribution);
 
+/**
+ * @swagger
+ * /api/v1/products/export:
+ *   get:
+ *     summary: Export products
+ *     tags: [Products]
+ *     description: |
+ *       Download products as CSV or JSON Lines, in the format accepted by the import. Takes the same filters as
+ *       GET /api/v1/products (category, status, inStock, minPrice, maxPrice, search, attr.*, includeDeleted).
+ *       Products with variants get one row per variant. Vendors export their own products. Accepts an API key
+ *       with the products:write scope.
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, jsonl]
+ *           default: csv
+ *     responses:
+ *       200:
+ *         description: Export file
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/x-ndjson:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid format or filter
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - products:write required
+ */
+router.get('/export', authenticateWithScope('products:write'), requirePermission('products:write'), ProductController.exportProducts);
+
+/**
+ * @swagger
+ * /api/v1/products/import:
+ *   post:
+ *     summary: Import products
+ *     tags: [Products]
+ *     description: |
+ *       Create or update products from a CSV or JSON Lines file, matched by SKU (a product SKU or a variant SKU).
+ *       CSV columns are sku, name, description, category (ID, slug or path), price, quantity, status, images
+ *       (separated by |) and one attr.<key> column per attribute; empty cells leave a field unchanged. A row
+ *       matching a variant SKU sets that variant's price and quantity. New products need name, category and
+ *       price and start as drafts; status in_review submits them, and published requires products:publish.
+ *       Vendors can only update their own products; without products:publish, content changes to a published
+ *       product send it back to in_review. With dryRun=true every row is validated and nothing is
+ *       saved. Files over IMPORT_SYNC_MAX_ROWS rows (default 500), or with async=true, are imported by a
+ *       background job; poll GET /api/v1/products/import/{jobId}. Accepts an API key with the products:write scope.
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *         description: Validate only and report what each row would do
+ *       - in: query
+ *         name: async
+ *         schema:
+ *           type: boolean
+ *         description: Always import in the background
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, jsonl]
+ *         description: Defaults to the file extension (.csv, .jsonl or .ndjson)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       200:
+ *         description: Import (or dry run) finished; results lists the action or errors of each row
+ *       202:
+ *         description: Import job started
+ *       400:
+ *         description: Missing file, unknown format or unreadable file
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - products:write required
+ */
+router.post('/import', authenticateWithScope('products:write'), requirePermission('products:write'), importUpload.single('file'), ProductController.importProducts);
+
+/**
+ * @swagger
+ * /api/v1/products/import/{jobId}:
+ *   get:
+ *     summary: Get import job progress
+ *     tags: [Products]
+ *     description: Progress, counts and row errors (up to 1000) of a background import. Jobs are kept for a week.
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Import job
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Import job not found
+ */
+router.get('/import/:jobId', authenticateWithScope('products:write'), requirePermission('products:write'), ProductController.getImportJob);
+
+/**
+ * @swagger
+ * /api/v1/products/notify-me/unsubscribe:
+ *   get:
+ *     summary: Unsubscribe from a back-in-stock email
+ *     tags: [Products]
+ *     description: The link in the confirmation email sent on subscribing; works for guests too.
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Unsubscribed
+ *       400:
+ *         description: Token missing
+ *       404:
+ *         description: Subscription not found, already cancelled or already notified
+ */
+router.get('/notify-me/unsubscribe', ProductController.unsubscribeBackInStockByToken);
+
 /**
  * @swagger
  * /api/v1/products:
  *   get:
  *     summary: Get all products
  *     tags: [Products]
- *     description: Retrieve a list of all products with optional filtering and pagination
+ *     description: |
+ *       Retrieve a list of all products with optional filtering and pagination. Products in archived
+ *       categories and deleted products are not listed. When a search matches nothing, the response
+ *       includes didYouMean with up to three spelling corrections. Only published products are public;
+ *       signed-in vendors also see their own drafts, products in review and archived products.
  *     parameters:
  *       - in: query
+ *         name: includeDeleted
+ *         schema:
+ *           type: boolean
+ *         description: Also list soft-deleted products (requires products:manage-all)
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [draft, in_review, published, archived]
+ *         description: Only products in this status (vendors only get their own unpublished products)
+ *       - in: query
  *         name: category
  *         schema:
  *           type: string
- *         description: Filter by category ID or slug
+ *         description: Filter by category ID, slug or path (e.g. electronics/audio), including all subcategories
  *       - in: query
  *         name: minPrice
  *         schema:
@@ -126,6 +492,14 @@ router.get('/price-distribution', getPriceDistribution);
  *           type: string
  *         description: Search by product name or description
  *       - in: query
+ *         name: attr.{key}
+ *         schema:
+ *           type: string
+ *         description: |
+ *           Filter on a category attribute, e.g. attr.brand=Acme. Add an operator in brackets for comparisons:
+ *           attr.wattage[gte]=500, attr.wattage[lt]=1000, attr.brand[in]=Acme,Globex (operators eq, ne, gt, gte, lt, lte, in).
+ *           With a category filter, keys are checked against the category's attribute schema and values converted to its types.
+ *       - in: query
  *         name: page
  *         schema:
  *           type: number
@@ -173,10 +547,12 @@ router.get('/price-distribution', getPriceDistribution);
  *                     pages:
  *                       type: number
  *                       example: 3
+ *       400:
+ *         description: Invalid attribute filter
  *       500:
  *         description: Server error
  */
-router.get("/", getAllProducts);
+router.get("/", optionalAuth, getAllProducts);
 
 /**
  * @swagger
@@ -184,7 +560,7 @@ router.get("/", getAllProducts);
  *   get:
  *     summary: Get product by ID
  *     tags: [Products]
- *     description: Retrieve a single product by its ID
+ *     description: Retrieve a single product by its ID, with breadcrumbs from the top-level category down to the product's category. Products that are not published are only returned to their vendor and to users with products:manage-all or products:publish.
  *     parameters:
  *       - in: path
  *         name: id
@@ -199,21 +575,33 @@ router.get("/", getAllProducts);
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/Product'
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Product'
+ *                 - type: object
+ *                   properties:
+ *                     breadcrumbs:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Breadcrumb'
  *       404:
  *         description: Product not found
  *       500:
  *         description: Server error
  */
-router.get("/:id", async (req: Request, res: Response) => {
+router.get("/:id", optionalAuth, async (req: AuthRequest, res: Response) => {
   try {
     const product = await ProductService.getProductById(req.params.id);
     
-    if (!product) {
+    // Unpublished products only exist for their vendor, reviewers and admins
+    if (!product || !ProductController.canViewProduct(req.user, product)) {
       return res.status(404).json({ message: "Product not found" });
     }
+
+    const breadcrumbs = product.category
+      ? await CategoryService.getBreadcrumbs(product.category._id as mongoose.Types.ObjectId)
+      : [];
     
-    res.json(product);
+    res.json({ ...product.toJSON(), breadcrumbs });
   } catch (error: any) {
     res.status(500).json({ message: 'Error fetching product', error: error.message });
   }
@@ -298,7 +686,7 @@ router.get("/:productId/reviews", getProductReviews);
  *       404:
  *         description: Product not found
  */
-router.post("/:productId/reviews", authenticate, requireCustomer, (req: AuthRequest, res: Response) => {
+router.post("/:productId/reviews", authenticate, requirePermission('reviews:write'), (req: AuthRequest, res: Response) => {
   req.body.productId = req.body.productId || req.params.productId;
   return createReview(req, res);
 });
@@ -309,9 +697,10 @@ router.post("/:productId/reviews", authenticate, requireCustomer, (req: AuthRequ
  *   post:
  *     summary: Create a new product
  *     tags: [Products]
- *     description: Create a new product (Vendor or Admin only). Vendors can only manage their own products.
+ *     description: Create a new product (Vendor or Admin only). Products start as drafts and are only public once approved and published. Vendors can only manage their own products. Accepts an API key with the products:write scope.
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -320,21 +709,25 @@ router.post("/:productId/reviews", authenticate, requireCustomer, (req: AuthRequ
  *             type: object
  *             required:
  *               - name
- *               - price
  *               - category
  *             properties:
  *               name:
  *                 type: string
  *                 example: Wireless Headphones
+ *               sku:
+ *                 type: string
+ *                 description: SKU of a product without variants, unique across the catalog; used to match rows on import
+ *                 example: WH-1000
  *               price:
  *                 type: number
+ *                 description: Required unless variants are given
  *                 example: 99.99
  *               description:
  *                 type: string
  *                 example: High-quality wireless headphones with noise cancellation
  *               category:
  *                 type: string
- *                 description: Category ID or slug
+ *                 description: Category ID, path (e.g. electronics/audio) or slug
  *                 example: 507f1f77bcf86cd799439011
  *               inStock:
  *                 type: boolean
@@ -342,6 +735,38 @@ router.post("/:productId/reviews", authenticate, requireCustomer, (req: AuthRequ
  *               quantity:
  *                 type: number
  *                 example: 50
+ *               options:
+ *                 type: array
+ *                 description: Option axes such as size and color
+ *                 items:
+ *                   $ref: '#/components/schemas/ProductOption'
+ *               attributes:
+ *                 type: object
+ *                 description: Values for the category's attribute schema, validated and converted to the declared types
+ *                 example: { brand: Acme, wattage: 650, warrantyMonths: 24 }
+ *               variants:
+ *                 type: array
+ *                 description: One entry per option combination, each with its own SKU, price, quantity and images. When given, price is optional and the product price, quantity and inStock are derived from the variants.
+ *                 items:
+ *                   $ref: '#/components/schemas/ProductVariant'
+ *               status:
+ *                 type: string
+ *                 enum: [draft, in_review, published]
+ *                 default: draft
+ *                 description: Start as a draft or submit for review right away. published (approve on creation) requires products:publish.
+ *               publishAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Go-live time once approved; approved products stay in review until then
+ *               unpublishAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: When a published product is archived automatically; must be after publishAt
+ *               reorderThreshold:
+ *                 type: integer
+ *                 minimum: 0
+ *                 description: The vendor is alerted when stock falls to this level; LOW_STOCK_THRESHOLD (default 10) when not set
+ *                 example: 5
  *     responses:
  *       201:
  *         description: Product created successfully
@@ -350,7 +775,7 @@ router.post("/:productId/reviews", authenticate, requireCustomer, (req: AuthRequ
  *             schema:
  *               $ref: '#/components/schemas/Product'
  *       400:
- *         description: Bad request - Validation error
+ *         description: Bad request - Validation error, invalid variants, duplicate SKU or status not allowed
  *       401:
  *         description: Unauthorized
  *       403:
@@ -358,49 +783,75 @@ router.post("/:productId/reviews", authenticate, requireCustomer, (req: AuthRequ
  *       500:
  *         description: Server error
  */
-router.post("/", authenticate, requireVendorOrAdmin, async (req: AuthRequest, res: Response) => {
+router.post("/", authenticateWithScope('products:write'), requirePermission('products:write'), async (req: AuthRequest, res: Response) => {
   try {
-    const { name, price, description, category, inStock, quantity } = req.body;
+    const { name, sku, price, description, category, inStock, quantity, options, variants, attributes, status, publishAt, unpublishAt, reorderThreshold } = req.body;
+    const hasVariants = Array.isArray(variants) && variants.length > 0;
 
-    if (!name || typeof price !== "number" || !category) {
+    if (!name || (!hasVariants && typeof price !== "number") || !category) {
       return res.status(400).json({
-        message: "name (string), price (number), and category (string) are required",
+        message: "name (string), price (number, unless variants are given), and category (string) are required",
       });
     }
 
-    if (price <= 0) {
+    if (!hasVariants && price <= 0) {
       return res.status(400).json({ message: "price must be greater than 0" });
     }
 
-    let categoryId: mongoose.Types.ObjectId | null = null;
-    if (mongoose.isValidObjectId(category)) {
-      const categoryDoc = await Category.findById(category);
-      categoryId = categoryDoc ? categoryDoc._id : null;
-    } else {
-      const categoryDoc = await Category.findOne({ slug: category });
-      categoryId = categoryDoc ? categoryDoc._id : null;
+    if ((options !== undefined && !Array.isArray(options)) || (variants !== undefined && !Array.isArray(variants))) {
+      return res.status(400).json({ message: "options and variants must be arrays" });
     }
 
-    if (!categoryId) {
-      return res.status(400).json({ message: "Invalid category. Provide a valid category ID or slug." });
+    const categoryDoc = await CategoryService.resolveCategory(String(category));
+    if (!categoryDoc) {
+      return res.status(400).json({ message: "Invalid category. Provide a valid category ID, path or slug." });
+    }
+    const categoryId = categoryDoc._id;
+
+    // New products start as drafts; reviewers may publish their own directly
+    const allowedStatuses = hasPermission(req.user, 'products:publish')
+      ? ['draft', 'in_review', 'published']
+      : ['draft', 'in_review'];
+    const initialStatus = status ?? 'draft';
+    if (!allowedStatuses.includes(initialStatus)) {
+      return res.status(400).json({ message: `status must be one of ${allowedStatuses.join(', ')}` });
     }
 
     const productData = {
       name,
+      sku,
       price,
       description,
       category: categoryId,
+      attributes: await ProductService.normalizeAttributes(categoryId, attributes),
       inStock: inStock ?? true,
       quantity: quantity ?? 0,
+      options: options ?? [],
+      variants: variants ?? [],
+      status: initialStatus === 'draft' ? 'draft' as const : 'in_review' as const,
+      submittedAt: initialStatus === 'draft' ? null : new Date(),
+      publishAt: publishAt ?? null,
+      unpublishAt: unpublishAt ?? null,
+      reorderThreshold: reorderThreshold ?? null,
       createdBy: new mongoose.Types.ObjectId(req.user!.id) // Track who created the product
     };
 
-    const product = await ProductService.createProduct(productData);
+    let product = await ProductService.createProduct(productData);
+    await InventoryService.recordStockChanges(product, new Map(), { reason: 'initial', actorId: req.user!.id });
+    if (initialStatus === 'published') {
+      product = await ProductService.approveProduct(product, req.user!.id);
+    }
     res.status(201).json(product);
   } catch (error: any) {
     if (error.name === 'ValidationError') {
       return res.status(400).json({ message: 'Validation error', errors: error.errors });
     }
+    if (error.code === 11000) {
+      return res.status(400).json({ message: 'A product with this SKU already exists' });
+    }
+    if (error.message.startsWith('Invalid attributes')) {
+      return res.status(400).json({ message: error.message });
+    }
     res.status(500).json({ message: 'Error creating product', error: error.message });
   }
 });
@@ -411,9 +862,13 @@ router.post("/", authenticate, requireVendorOrAdmin, async (req: AuthRequest, re
  *   delete:
  *     summary: Delete a product
  *     tags: [Products]
- *     description: Delete a product by ID. Vendors can only delete their own products, admins can delete any product.
+ *     description: |
+ *       Soft-delete a product by ID. It is hidden from listings and can be restored until the purge job removes it
+ *       (SOFT_DELETE_RETENTION_DAYS, default 30). Vendors can only delete their own products, admins can delete any
+ *       product. Accepts an API key with the products:write scope.
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -445,14 +900,14 @@ router.post("/", authenticate, requireVendorOrAdmin, async (req: AuthRequest, re
  *       500:
  *         description: Server error
  */
-router.delete("/:id", authenticate, requireVendorOrAdmin, async (req: AuthRequest, res: Response) => {
+router.delete("/:id", authenticateWithScope('products:write'), requirePermission('products:write'), async (req: AuthRequest, res: Response) => {
   try {
     const product = await ProductService.getProductById(req.params.id);
     if (!product) {
       return res.status(404).json({ message: "Product not found" });
     }
 
-    if (req.user!.role === 'vendor') {
+    if (!hasPermission(req.user, 'products:manage-all')) {
       if (!product.createdBy || product.createdBy.toString() !== req.user!.id) {
         return res.status(403).json({ 
           message: "Access denied. You can only delete your own products." 
@@ -460,19 +915,8 @@ router.delete("/:id", authenticate, requireVendorOrAdmin, async (req: AuthReques
       }
     }
 
-    if (product.images && product.images.length > 0) {
-      await Promise.all(
-        product.images.map(async (imageUrl) => {
-          try {
-            await deleteFile(imageUrl);
-          } catch (err) {
-            console.error('Failed to delete product image:', err);
-          }
-        })
-      );
-    }
-
-    const deleted = await ProductService.deleteProduct(req.params.id);
+    // Images are kept so the product can be restored; the purge job removes them
+    await ProductService.deleteProduct(req.params.id, req.user!.id);
     
     res.status(200).json({ 
       success: true, 
@@ -488,13 +932,14 @@ router.delete("/:id", authenticate, requireVendorOrAdmin, async (req: AuthReques
 
 /**
  * @swagger
- * /api/v1/products/{id}:
- *   put:
- *     summary: Update a product
+ * /api/v1/products/{id}/restore:
+ *   patch:
+ *     summary: Restore a deleted product
  *     tags: [Products]
- *     description: Update an existing product. Vendors can only update their own products, admins can update any product.
+ *     description: Undo a soft delete before the product is purged. Vendors can only restore their own products. Accepts an API key with the products:write scope.
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -503,42 +948,258 @@ router.delete("/:id", authenticate, requireVendorOrAdmin, async (req: AuthReques
  *           type: string
  *         description: Product ID
  *         example: 507f1f77bcf86cd799439011
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               name:
- *                 type: string
- *                 example: Updated Wireless Headphones
- *               price:
- *                 type: number
- *                 example: 89.99
- *               description:
- *                 type: string
- *                 example: Updated description for wireless headphones
- *               category:
- *                 type: string
- *                 description: Category ID or slug
- *                 example: 507f1f77bcf86cd799439011
- *               inStock:
- *                 type: boolean
- *                 example: true
- *               quantity:
- *                 type: number
- *                 example: 75
  *     responses:
  *       200:
- *         description: Product updated successfully
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
+ *         description: Product restored successfully
+ *       400:
+ *         description: The product's category is deleted, or its SKU is now used by another product
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - can only restore own products
+ *       404:
+ *         description: Deleted product not found
+ *       500:
+ *         description: Server error
+ */
+router.patch("/:id/restore", authenticateWithScope('products:write'), requirePermission('products:write'), ProductController.restoreProduct);
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/submit:
+ *   patch:
+ *     summary: Submit a product for review
+ *     tags: [Products]
+ *     description: Move a draft or archived product to in_review so an admin can approve it. Vendors can only submit their own products. Accepts an API key with the products:write scope.
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *         example: 507f1f77bcf86cd799439011
+ *     responses:
+ *       200:
+ *         description: Product submitted for review
+ *       400:
+ *         description: The product is already in review or published
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - can only submit own products
+ *       404:
+ *         description: Product not found
+ *       500:
+ *         description: Server error
+ */
+router.patch("/:id/submit", authenticateWithScope('products:write'), requirePermission('products:write'), ProductController.submitProduct);
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/approve:
+ *   patch:
+ *     summary: Approve a product in review
+ *     tags: [Products]
+ *     description: |
+ *       Approve a submitted product. It is published immediately, or stays in review until its publishAt
+ *       when that is in the future; the product schedule job then publishes it. Requires products:publish.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *         example: 507f1f77bcf86cd799439011
+ *     responses:
+ *       200:
+ *         description: Product approved and published, or scheduled
+ *       400:
+ *         description: The product is not in review
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - products:publish required
+ *       404:
+ *         description: Product not found
+ *       500:
+ *         description: Server error
+ */
+router.patch("/:id/approve", authenticate, requirePermission('products:publish'), ProductController.approveProduct);
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/reject:
+ *   patch:
+ *     summary: Reject a product in review
+ *     tags: [Products]
+ *     description: Send a submitted product back to draft with a note for the vendor, returned as reviewNote. Requires products:publish.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *         example: 507f1f77bcf86cd799439011
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - note
+ *             properties:
+ *               note:
+ *                 type: string
+ *                 maxLength: 500
+ *                 example: Please add photos of the product from several angles
+ *     responses:
+ *       200:
+ *         description: Product rejected
+ *       400:
+ *         description: Missing note, or the product is not in review
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - products:publish required
+ *       404:
+ *         description: Product not found
+ *       500:
+ *         description: Server error
+ */
+router.patch("/:id/reject", authenticate, requirePermission('products:publish'), ProductController.rejectProduct);
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/archive:
+ *   patch:
+ *     summary: Archive a product
+ *     tags: [Products]
+ *     description: Take a product off the storefront. It can be submitted for review again later. Vendors can only archive their own products. Accepts an API key with the products:write scope.
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *         example: 507f1f77bcf86cd799439011
+ *     responses:
+ *       200:
+ *         description: Product archived
+ *       400:
+ *         description: The product is already archived
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - can only archive own products
+ *       404:
+ *         description: Product not found
+ *       500:
+ *         description: Server error
+ */
+router.patch("/:id/archive", authenticateWithScope('products:write'), requirePermission('products:write'), ProductController.archiveProduct);
+
+/**
+ * @swagger
+ * /api/v1/products/{id}:
+ *   put:
+ *     summary: Update a product
+ *     tags: [Products]
+ *     description: Update an existing product. The status is changed through the workflow endpoints (submit, approve, reject, archive), not here, except that changing the name, description, price, category, attributes or variants of a published or approved product without products:publish sends it back to in_review. Vendors can only update their own products, admins can update any product. Accepts an API key with the products:write scope.
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *         example: 507f1f77bcf86cd799439011
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Updated Wireless Headphones
+ *               sku:
+ *                 type: string
+ *                 nullable: true
+ *                 description: SKU of a product without variants; null clears it
+ *                 example: WH-1000
+ *               price:
+ *                 type: number
+ *                 example: 89.99
+ *               description:
+ *                 type: string
+ *                 example: Updated description for wireless headphones
+ *               category:
+ *                 type: string
+ *                 description: Category ID, path (e.g. electronics/audio) or slug
+ *                 example: 507f1f77bcf86cd799439011
+ *               inStock:
+ *                 type: boolean
+ *                 example: true
+ *               quantity:
+ *                 type: number
+ *                 example: 75
+ *               options:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/ProductOption'
+ *               attributes:
+ *                 type: object
+ *                 description: Replaces all attribute values; checked against the (new) category's attribute schema. Existing values are re-checked when only the category changes.
+ *                 example: { brand: Acme, wattage: 750 }
+ *               variants:
+ *                 type: array
+ *                 description: Replaces all variants. Pass back an existing variant's _id to keep it (and cart lines referring to it). price, quantity and inStock cannot be set directly on a product with variants.
+ *                 items:
+ *                   $ref: '#/components/schemas/ProductVariant'
+ *               publishAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *                 description: Go-live time once approved; null clears it
+ *               unpublishAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *                 description: When the product is archived automatically; null clears it
+ *               reorderThreshold:
+ *                 type: integer
+ *                 minimum: 0
+ *                 nullable: true
+ *                 description: Stock level that triggers a low-stock alert; null falls back to LOW_STOCK_THRESHOLD
+ *     responses:
+ *       200:
+ *         description: Product updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
  *                   example: true
  *                 message:
  *                   type: string
@@ -556,15 +1217,15 @@ router.delete("/:id", authenticate, requireVendorOrAdmin, async (req: AuthReques
  *       500:
  *         description: Server error
  */
-router.put("/:id", authenticate, requireVendorOrAdmin, async (req: AuthRequest, res: Response) => {
+router.put("/:id", authenticateWithScope('products:write'), requirePermission('products:write'), async (req: AuthRequest, res: Response) => {
   try {
     const product = await ProductService.getProductById(req.params.id);
     if (!product) {
       return res.status(404).json({ message: "Product not found" });
     }
 
-    // Check ownership for vendors
-    if (req.user!.role === 'vendor') {
+    // Check ownership unless allowed to manage every product
+    if (!hasPermission(req.user, 'products:manage-all')) {
       if (!product.createdBy || product.createdBy.toString() !== req.user!.id) {
         return res.status(403).json({ 
           message: "Access denied. You can only update your own products." 
@@ -572,46 +1233,107 @@ router.put("/:id", authenticate, requireVendorOrAdmin, async (req: AuthRequest,
       }
     }
 
-    const { name, price, description, category, inStock, quantity } = req.body;
+    const { name, sku, price, description, category, inStock, quantity, options, variants, attributes, status, publishAt, unpublishAt, reorderThreshold } = req.body;
 
     // Validation
     if (price !== undefined && (typeof price !== "number" || price <= 0)) {
       return res.status(400).json({ message: "price must be a number greater than 0" });
     }
 
+    if (status !== undefined) {
+      return res.status(400).json({ 
+        message: "status changes through the submit, approve, reject and archive endpoints" 
+      });
+    }
+
+    // findByIdAndUpdate skips the model's document hooks, so check the schedule here
+    const nextPublishAt = publishAt !== undefined ? publishAt && new Date(publishAt) : product.publishAt;
+    const nextUnpublishAt = unpublishAt !== undefined ? unpublishAt && new Date(unpublishAt) : product.unpublishAt;
+    if (nextPublishAt && nextUnpublishAt && nextUnpublishAt <= nextPublishAt) {
+      return res.status(400).json({ message: "unpublishAt must be after publishAt" });
+    }
+
+    if ((options !== undefined && !Array.isArray(options)) || (variants !== undefined && !Array.isArray(variants))) {
+      return res.status(400).json({ message: "options and variants must be arrays" });
+    }
+
+    const variantsChanging = options !== undefined || variants !== undefined;
+    const willHaveVariants = variants !== undefined ? variants.length > 0 : product.variants.length > 0;
+
+    if (willHaveVariants && (price !== undefined || quantity !== undefined || inStock !== undefined)) {
+      return res.status(400).json({ 
+        message: "Price and stock of a product with variants are set per variant" 
+      });
+    }
+
+    if (willHaveVariants && sku) {
+      return res.status(400).json({ message: "A product with variants has an SKU per variant" });
+    }
+
     const updateData: any = {};
     if (name !== undefined) updateData.name = name;
+    if (sku !== undefined) updateData.sku = sku || null;
     if (price !== undefined) updateData.price = price;
     if (description !== undefined) updateData.description = description;
     if (category !== undefined) {
-      let categoryId: mongoose.Types.ObjectId | null = null;
-      if (mongoose.isValidObjectId(category)) {
-        const categoryDoc = await Category.findById(category);
-        categoryId = categoryDoc ? categoryDoc._id : null;
-      } else {
-        const categoryDoc = await Category.findOne({ slug: category });
-        categoryId = categoryDoc ? categoryDoc._id : null;
-      }
-
-      if (!categoryId) {
-        return res.status(400).json({ message: "Invalid category. Provide a valid category ID or slug." });
+      const categoryDoc = await CategoryService.resolveCategory(String(category));
+      if (!categoryDoc) {
+        return res.status(400).json({ message: "Invalid category. Provide a valid category ID, path or slug." });
       }
-      updateData.category = categoryId;
+      updateData.category = categoryDoc._id;
     }
     if (inStock !== undefined) updateData.inStock = inStock;
     if (quantity !== undefined) updateData.quantity = quantity;
+    if (publishAt !== undefined) updateData.publishAt = publishAt || null;
+    if (unpublishAt !== undefined) updateData.unpublishAt = unpublishAt || null;
+    if (reorderThreshold !== undefined) updateData.reorderThreshold = reorderThreshold;
+
+    // Attributes are re-checked when they or the category change
+    if (attributes !== undefined || updateData.category !== undefined) {
+      const currentCategoryId = product.populated('category') ?? product.category;
+      updateData.attributes = await ProductService.normalizeAttributes(
+        updateData.category ?? currentCategoryId,
+        attributes ?? ProductService.attributesToObject(product.attributes)
+      );
+    }
+
+    const backToReview = ProductService.editRequiresReview(
+      product,
+      [...Object.keys(updateData), ...(variantsChanging ? ['variants'] : [])],
+      hasPermission(req.user, 'products:publish')
+    );
+    if (backToReview) {
+      Object.assign(updateData, ProductService.getReviewResetFields());
+    }
 
-    const updatedProduct = await ProductService.updateProduct(req.params.id, updateData);
+    // Stock changes made through the update are recorded in the ledger
+    const updatedProduct = await ProductService.updateProductDetails(
+      req.params.id,
+      updateData,
+      variantsChanging ? { options: options ?? product.options, variants: variants ?? product.variants } : null,
+      { reason: 'adjustment', actorId: req.user!.id }
+    );
     
     res.json({
       success: true,
-      message: "Product updated successfully",
+      message: backToReview
+        ? "Product updated and sent back for review"
+        : "Product updated successfully",
       product: updatedProduct
     });
   } catch (error: any) {
     if (error.name === 'ValidationError') {
       return res.status(400).json({ message: 'Validation error', errors: error.errors });
     }
+    if (error.code === 11000) {
+      return res.status(400).json({ message: 'A product with this SKU already exists' });
+    }
+    if (error.message.startsWith('Invalid attributes')) {
+      return res.status(400).json({ message: error.message });
+    }
+    if (error.message.startsWith('Stock changed during the update')) {
+      return res.status(409).json({ message: error.message });
+    }
     if (error.kind === 'ObjectId') {
       return res.status(400).json({ message: 'Invalid product ID format' });
     }
@@ -625,14 +1347,14 @@ router.put("/:id", authenticate, requireVendorOrAdmin, async (req: AuthRequest,
  *   get:
  *     summary: Get products by category
  *     tags: [Products]
- *     description: Retrieve all products in a specific category (ID or slug)
+ *     description: Retrieve all products in a specific category (ID or slug), including its subcategories
  *     parameters:
  *       - in: path
  *         name: category
  *         required: true
  *         schema:
  *           type: string
- *         description: Category ID or slug
+ *         description: Category ID, path (e.g. electronics/audio) or slug
  *         example: 507f1f77bcf86cd799439011
  *     responses:
  *       200:
@@ -690,15 +1412,318 @@ router.get("/stats/categories", async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/v1/products/{id}/stock:
+ *   patch:
+ *     summary: Update product stock
+ *     tags: [Products]
+ *     description: Set the stock quantity of a product; inStock follows the quantity and the change is recorded in the stock history. Vendors can only update their own products. Accepts an API key with the inventory:write scope, for ERP inventory sync.
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *         example: 507f1f77bcf86cd799439011
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - quantity
+ *             properties:
+ *               quantity:
+ *                 type: integer
+ *                 minimum: 0
+ *                 example: 120
+ *               reason:
+ *                 type: string
+ *                 enum: [adjustment, return, damage]
+ *                 default: adjustment
+ *                 description: Recorded with the stock movement
+ *               note:
+ *                 type: string
+ *                 maxLength: 500
+ *                 example: Recount after stocktake
+ *               warehouseId:
+ *                 type: string
+ *                 description: Set the stock at this warehouse instead; the total changes by the difference. Without it, added stock goes to the default warehouse and removed stock is taken from it first.
+ *     responses:
+ *       200:
+ *         description: Stock updated successfully
+ *       400:
+ *         description: Invalid quantity or reason, or the product has variants
+ *       401:
+ *         description: Unauthorized or invalid API key
+ *       403:
+ *         description: Forbidden - Not the product owner or API key lacks the inventory:write scope
+ *       404:
+ *         description: Product or warehouse not found
+ */
+router.patch("/:id/stock", authenticateWithScope('inventory:write'), requirePermission('inventory:write'), ProductController.updateProductStock);
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/stock/history:
+ *   get:
+ *     summary: Get stock history
+ *     tags: [Products]
+ *     description: |
+ *       Stock movements of a product, newest first: sales, cancellations, manual adjustments, returns, damage,
+ *       imports and transfers between warehouses, each with the change, the resulting balance, who made it and the order it belongs to. Vendors can
+ *       only view their own products.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *       - in: query
+ *         name: variantId
+ *         schema:
+ *           type: string
+ *         description: Only movements of this variant
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *         description: Only movements at this warehouse; sales and cancellations have one movement per warehouse shipped from or returned to
+ *       - in: query
+ *         name: reason
+ *         schema:
+ *           type: string
+ *           enum: [initial, sale, cancellation, adjustment, import, return, damage]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: number
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: number
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Stock movements
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/StockMovement'
+ *       400:
+ *         description: Invalid filter
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - not the product owner
+ *       404:
+ *         description: Product not found
+ */
+router.get("/:id/stock/history", authenticate, requirePermission('inventory:read'), ProductController.getStockHistory);
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/stock/locations:
+ *   get:
+ *     summary: Get stock by warehouse
+ *     tags: [Products]
+ *     description: Units of the product (per variant when it has variants) held at each warehouse. Vendors can only view their own products.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *     responses:
+ *       200:
+ *         description: Stock by warehouse
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/InventoryLevel'
+ *       400:
+ *         description: Invalid product ID format
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - inventory:read permission required, or not the product owner
+ *       404:
+ *         description: Product not found
+ */
+router.get("/:id/stock/locations", authenticate, requirePermission('inventory:read'), ProductController.getStockByLocation);
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/notify-me:
+ *   post:
+ *     summary: Get notified when a product is back in stock
+ *     tags: [Products]
+ *     description: |
+ *       Subscribe to one email once an out-of-stock published product is available again. Signed-in customers
+ *       are subscribed with their account email; guests provide an email address, which receives a confirmation
+ *       with an unsubscribe link. When stock is added (a stock or product update, a cancelled order or an import), waiting
+ *       subscribers are emailed oldest first, in batches of BACK_IN_STOCK_PER_UNIT (default 2) per available unit,
+ *       at most BACK_IN_STOCK_MAX_BATCH (default 100), spaced BACK_IN_STOCK_BATCH_INTERVAL_MINUTES (default 15)
+ *       apart while stock is left.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 description: Required for guests; ignored when signed in
+ *                 example: jane@example.com
+ *     responses:
+ *       201:
+ *         description: Subscribed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/StockSubscription'
+ *       200:
+ *         description: Already subscribed
+ *       400:
+ *         description: Invalid product ID or email, or the product is in stock
+ *       404:
+ *         description: Product not found or not published
+ *   delete:
+ *     summary: Stop waiting for a product to be back in stock
+ *     tags: [Products]
+ *     description: Cancels the signed-in customer's pending subscription, including one made as a guest with the account email.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *     responses:
+ *       200:
+ *         description: Unsubscribed
+ *       400:
+ *         description: Invalid product ID format
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: No pending subscription for this product
+ */
+router.post("/:id/notify-me", optionalAuth, ProductController.subscribeBackInStock);
+router.delete("/:id/notify-me", authenticate, ProductController.unsubscribeBackInStock);
+
+/**
+ * @swagger
+ * /api/v1/products/{id}/variants/{variantId}/stock:
+ *   patch:
+ *     summary: Update variant stock
+ *     tags: [Products]
+ *     description: Set the stock quantity of one variant; the product's total quantity and inStock follow. Vendors can only update their own products. Accepts an API key with the inventory:write scope.
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Product ID
+ *       - in: path
+ *         name: variantId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Variant ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - quantity
+ *             properties:
+ *               quantity:
+ *                 type: integer
+ *                 minimum: 0
+ *                 example: 12
+ *               reason:
+ *                 type: string
+ *                 enum: [adjustment, return, damage]
+ *                 default: adjustment
+ *                 description: Recorded with the stock movement
+ *               note:
+ *                 type: string
+ *                 maxLength: 500
+ *                 example: Recount after stocktake
+ *               warehouseId:
+ *                 type: string
+ *                 description: Set the stock at this warehouse instead; the total changes by the difference. Without it, added stock goes to the default warehouse and removed stock is taken from it first.
+ *     responses:
+ *       200:
+ *         description: Variant stock updated successfully
+ *       400:
+ *         description: Invalid quantity or reason
+ *       401:
+ *         description: Unauthorized or invalid API key
+ *       403:
+ *         description: Forbidden - Not the product owner or API key lacks the inventory:write scope
+ *       404:
+ *         description: Product, variant or warehouse not found
+ */
+router.patch("/:id/variants/:variantId/stock", authenticateWithScope('inventory:write'), requirePermission('inventory:write'), ProductController.updateVariantStock);
+
 /**
  * @swagger
  * /api/v1/products/{id}/images:
  *   post:
  *     summary: Upload product images
  *     tags: [Products]
- *     description: Upload one or more images for a product (Vendor or Admin only). Vendors can only upload images for their own products. Max 5 images per request, 1MB each.
+ *     description: Upload one or more images for a product (Vendor or Admin only). Vendors can only upload images for their own products. Max 5 images per request, 1MB each. Accepts an API key with the products:write scope.
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -752,7 +1777,7 @@ router.get("/stats/categories", async (req: Request, res: Response) => {
  *       500:
  *         description: Server error
  */
-router.post("/:id/images", authenticate, requireVendorOrAdmin, upload.array('images', 5), ProductController.uploadProductImages);
+router.post("/:id/images", authenticateWithScope('products:write'), requirePermission('products:write'), upload.array('images', 5), ProductController.uploadProductImages);
 
 /**
  * @swagger
@@ -760,9 +1785,10 @@ router.post("/:id/images", authenticate, requireVendorOrAdmin, upload.array('ima
  *   delete:
  *     summary: Delete a product image
  *     tags: [Products]
- *     description: Delete a specific product image by index. Vendors can only delete images from their own products.
+ *     description: Delete a specific product image by index. Vendors can only delete images from their own products. Accepts an API key with the products:write scope.
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -807,7 +1833,7 @@ router.post("/:id/images", authenticate, requireVendorOrAdmin, upload.array('ima
  *       500:
  *         description: Server error
  */
-router.delete("/:id/images/:imageIndex", authenticate, requireVendorOrAdmin, ProductController.deleteProductImage);
+router.delete("/:id/images/:imageIndex", authenticateWithScope('products:write'), requirePermission('products:write'), ProductController.deleteProductImage);
 
 export default router;
 
@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { authenticate, requireCustomer } from '../middlewares/auth.middleware';
+import { authenticate, requirePermission } from '../middlewares/auth.middleware';
 import {
   createReview,
   getUserReviews,
@@ -48,7 +48,7 @@ const router = Router();
  *       404:
  *         description: Product not found
  */
-router.post('/', authenticate, requireCustomer, createReview);
+router.post('/', authenticate, requirePermission('reviews:write'), createReview);
 
 /**
  * @swagger
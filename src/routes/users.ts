@@ -1,6 +1,6 @@
 import { Router, Request, Response } from "express";
 import * as UsersController from '../controllers/users.controller';
-import { authenticate, requireAdmin } from '../middlewares/auth.middleware';
+import { authenticate, requirePermission, forbidImpersonation } from '../middlewares/auth.middleware';
 import { getUserReviews } from '../controllers/review.controller';
 
 const router = Router();
@@ -44,6 +44,12 @@ router.get("/me/reviews", authenticate, getUserReviews);
  *     description: Retrieve a list of all users (Admin only)
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: includeDeleted
+ *         schema:
+ *           type: boolean
+ *         description: Also list soft-deleted accounts that have not been purged yet
  *     responses:
  *       200:
  *         description: List of users retrieved successfully
@@ -69,7 +75,7 @@ router.get("/me/reviews", authenticate, getUserReviews);
  *       500:
  *         description: Server error
  */
-router.get("/", authenticate, requireAdmin, UsersController.getAllUsers);
+router.get("/", authenticate, requirePermission('users:read'), UsersController.getAllUsers);
 
 /**
  * @swagger
@@ -104,7 +110,7 @@ router.get("/", authenticate, requireAdmin, UsersController.getAllUsers);
  *       500:
  *         description: Server error
  */
-router.get("/:id", authenticate, requireAdmin, UsersController.getUserById);
+router.get("/:id", authenticate, requirePermission('users:read'), UsersController.getUserById);
 
 /**
  * @swagger
@@ -140,11 +146,17 @@ router.get("/:id", authenticate, requireAdmin, UsersController.getUserById);
  *               password:
  *                 type: string
  *                 format: password
+ *                 description: Must satisfy the password policy
  *                 example: SecurePass123!
  *               role:
  *                 type: string
- *                 enum: [admin, vendor, customer]
+ *                 description: Role name (admin, vendor, customer or a custom role). Roles other than customer require the roles:manage permission.
  *                 example: vendor
+ *               status:
+ *                 type: string
+ *                 enum: [active, inactive, pending]
+ *                 default: active
+ *                 description: A pending user is sent an email to verify their address before they can log in
  *               age:
  *                 type: number
  *                 example: 28
@@ -173,7 +185,7 @@ router.get("/:id", authenticate, requireAdmin, UsersController.getUserById);
  *       500:
  *         description: Server error
  */
-router.post("/", authenticate, requireAdmin, UsersController.createUser);
+router.post("/", authenticate, requirePermission('users:write'), UsersController.createUser);
 
 /**
  * @swagger
@@ -209,14 +221,19 @@ router.post("/", authenticate, requireAdmin, UsersController.createUser);
  *                 type: string
  *                 format: email
  *                 example: jane.smith@example.com
+ *               password:
+ *                 type: string
+ *                 format: password
+ *                 description: Must satisfy the password policy
  *               role:
  *                 type: string
- *                 enum: [admin, vendor, customer]
+ *                 description: Role name (admin, vendor, customer or a custom role). Roles other than customer require the roles:manage permission.
  *                 example: vendor
  *               status:
  *                 type: string
  *                 enum: [active, inactive, pending]
  *                 example: active
+ *                 description: Setting status to inactive revokes all of the user's sessions
  *               age:
  *                 type: number
  *                 example: 29
@@ -241,13 +258,13 @@ router.post("/", authenticate, requireAdmin, UsersController.createUser);
  *       401:
  *         description: Unauthorized
  *       403:
- *         description: Forbidden - Admin access required
+ *         description: Forbidden - Missing permission, or the user has permissions the caller does not have
  *       404:
  *         description: User not found
  *       500:
  *         description: Server error
  */
-router.put("/:id", authenticate, requireAdmin, UsersController.updateUserById);
+router.put("/:id", authenticate, requirePermission('users:write'), UsersController.updateUserById);
 
 /**
  * @swagger
@@ -255,7 +272,11 @@ router.put("/:id", authenticate, requireAdmin, UsersController.updateUserById);
  *   delete:
  *     summary: Delete a user
  *     tags: [Users]
- *     description: Delete a user by ID (Admin only)
+ *     description: |
+ *       Soft-delete a user (Admin only). The account can no longer sign in, its sessions and API keys are revoked
+ *       and it is hidden from listings. It can be restored until the purge job runs after SOFT_DELETE_RETENTION_DAYS
+ *       (default 30); the purge erases its personal data, keeping an anonymized tombstone so orders remain for
+ *       accounting, with reviews following ERASURE_REVIEW_POLICY.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -289,6 +310,108 @@ router.put("/:id", authenticate, requireAdmin, UsersController.updateUserById);
  *       500:
  *         description: Server error
  */
-router.delete("/:id", authenticate, requireAdmin, UsersController.deleteUserById);
+router.delete("/:id", authenticate, forbidImpersonation, requirePermission('users:delete'), UsersController.deleteUserById);
+
+/**
+ * @swagger
+ * /api/v1/users/{id}/restore:
+ *   patch:
+ *     summary: Restore a deleted user
+ *     tags: [Users]
+ *     description: Undo a soft delete before the account is purged (Admin only). Sessions and API keys revoked by the deletion stay revoked.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID
+ *         example: 507f1f77bcf86cd799439011
+ *     responses:
+ *       200:
+ *         description: User restored successfully
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       404:
+ *         description: Deleted user not found
+ *       500:
+ *         description: Server error
+ */
+router.patch("/:id/restore", authenticate, forbidImpersonation, requirePermission('users:delete'), UsersController.restoreUserById);
+
+/**
+ * @swagger
+ * /api/v1/users/{id}/sessions:
+ *   delete:
+ *     summary: Revoke all sessions of a user
+ *     tags: [Users]
+ *     description: Sign a user out of every device immediately (Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID
+ *         example: 507f1f77bcf86cd799439011
+ *     responses:
+ *       200:
+ *         description: Sessions revoked successfully
+ *         content:
+ *           application/json:
+ *             example:
+ *               message: User sessions revoked successfully
+ *               revokedCount: 2
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Server error
+ */
+router.delete("/:id/sessions", authenticate, requirePermission('users:write'), UsersController.revokeUserSessions);
+
+/**
+ * @swagger
+ * /api/v1/users/{id}/unlock:
+ *   post:
+ *     summary: Unlock a user account
+ *     tags: [Users]
+ *     description: Lift a temporary lockout caused by repeated failed login attempts and reset the failure counter (Admin only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID
+ *         example: 507f1f77bcf86cd799439011
+ *     responses:
+ *       200:
+ *         description: Account unlocked
+ *         content:
+ *           application/json:
+ *             example:
+ *               message: User account unlocked successfully
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Admin access required
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Server error
+ */
+router.post("/:id/unlock", authenticate, requirePermission('users:write'), UsersController.unlockUser);
 
 export default router;
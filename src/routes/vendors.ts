@@ -0,0 +1,183 @@
+import { Router } from 'express';
+import * as VendorController from '../controllers/vendor.controller';
+import * as OrderController from '../controllers/order.controller';
+import { authenticate, authenticateWithScope, requirePermission } from '../middlewares/auth.middleware';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/vendors/applications:
+ *   post:
+ *     summary: Apply to become a vendor
+ *     tags: [Vendors]
+ *     description: Submit a vendor application for admin review (Customer only). Only one application can be pending at a time.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - businessName
+ *               - contactName
+ *               - contactEmail
+ *               - taxId
+ *             properties:
+ *               businessName:
+ *                 type: string
+ *                 example: Acme Electronics Ltd
+ *               contactName:
+ *                 type: string
+ *                 example: Jane Smith
+ *               contactEmail:
+ *                 type: string
+ *                 format: email
+ *                 example: sales@acme-electronics.com
+ *               contactPhone:
+ *                 type: string
+ *                 example: +1 555 0100
+ *               taxId:
+ *                 type: string
+ *                 example: US-12-3456789
+ *     responses:
+ *       201:
+ *         description: Application submitted successfully
+ *       400:
+ *         description: Validation error or application already pending
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Customer access required
+ */
+router.post('/applications', authenticate, requirePermission('vendors:apply'), VendorController.submitApplication);
+
+/**
+ * @swagger
+ * /api/v1/vendors/applications/me:
+ *   get:
+ *     summary: Get my vendor applications
+ *     tags: [Vendors]
+ *     description: Retrieve the authenticated user's vendor applications and their review status
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Applications retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/applications/me', authenticate, VendorController.getMyApplications);
+
+/**
+ * @swagger
+ * /api/v1/vendors/orders:
+ *   get:
+ *     summary: Get orders for my products
+ *     tags: [Vendors]
+ *     description: Retrieve orders that contain the authenticated vendor's products. Each order only lists the vendor's own line items, with their total in vendorSubtotal. Accepts an API key with the orders:read scope.
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, confirmed, shipped, delivered, cancelled]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: number
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: number
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Orders retrieved successfully
+ *       401:
+ *         description: Unauthorized or invalid API key
+ *       403:
+ *         description: Forbidden - Vendor access required or API key lacks the orders:read scope
+ */
+router.get('/orders', authenticateWithScope('orders:read'), requirePermission('orders:read-vendor'), OrderController.getVendorOrders);
+
+/**
+ * @swagger
+ * /api/v1/vendors/stock-alerts:
+ *   get:
+ *     summary: Get my stock alerts
+ *     tags: [Vendors]
+ *     description: |
+ *       Products at or below their reorder threshold (or out of stock) and how alerts are emailed.
+ *       A product is alerted once when it crosses its threshold, again only if it then runs out,
+ *       and not again until restocked above the threshold.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Stock alerts retrieved successfully
+ *         content:
+ *           application/json:
+ *             example:
+ *               success: true
+ *               frequency: daily
+ *               lastDigestAt: "2026-10-18T08:00:00.000Z"
+ *               defaultReorderThreshold: 10
+ *               alerts:
+ *                 - productId: 507f1f77bcf86cd799439011
+ *                   name: Wireless Mouse
+ *                   sku: MOUSE-WL-01
+ *                   quantity: 3
+ *                   reorderThreshold: 5
+ *                   level: low
+ *                   since: "2026-10-18T13:20:00.000Z"
+ *                   notifiedAt: null
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - inventory:read permission required
+ */
+router.get('/stock-alerts', authenticate, requirePermission('inventory:read'), VendorController.getStockAlerts);
+
+/**
+ * @swagger
+ * /api/v1/vendors/stock-alerts:
+ *   put:
+ *     summary: Update my stock alert settings
+ *     tags: [Vendors]
+ *     description: |
+ *       immediate emails new alerts at the next check; daily collects them into one digest sent after
+ *       STOCK_ALERT_DIGEST_HOUR (UTC); off sends nothing.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - frequency
+ *             properties:
+ *               frequency:
+ *                 type: string
+ *                 enum: [immediate, daily, off]
+ *     responses:
+ *       200:
+ *         description: Settings updated successfully
+ *       400:
+ *         description: Invalid frequency
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - inventory:read permission required
+ */
+router.put('/stock-alerts', authenticate, requirePermission('inventory:read'), VendorController.updateStockAlertSettings);
+
+export default router;
@@ -0,0 +1,115 @@
+import { ApiKey, IApiKey, ApiKeyScope, API_KEY_SCOPES } from '../models/apiKey.model';
+import { User, IUser } from '../models/user.model';
+import crypto from 'crypto';
+
+const API_KEY_PREFIX = 'ek_';
+const MAX_ACTIVE_KEYS_PER_USER = 20;
+
+// Minimum interval between lastUsedAt writes for the same key
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+const hashKey = (key: string): string => {
+  return crypto
+    .createHash('sha256')
+    .update(key)
+    .digest('hex');
+};
+
+export const isValidScope = (scope: string): scope is ApiKeyScope => {
+  return (API_KEY_SCOPES as readonly string[]).includes(scope);
+};
+
+// Create a key; the plain key is returned once and never stored
+export const createApiKey = async (
+  userId: string,
+  data: { name: string; scopes: ApiKeyScope[]; expiresInDays?: number }
+): Promise<{ apiKey: IApiKey; key: string }> => {
+  const activeCount = await ApiKey.countDocuments({
+    userId,
+    revokedAt: null,
+    $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }]
+  });
+
+  if (activeCount >= MAX_ACTIVE_KEYS_PER_USER) {
+    throw new Error(`You can have at most ${MAX_ACTIVE_KEYS_PER_USER} active API keys`);
+  }
+
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+
+  const apiKey = await ApiKey.create({
+    userId,
+    name: data.name,
+    keyHash: hashKey(key),
+    prefix: key.slice(0, API_KEY_PREFIX.length + 8),
+    scopes: [...new Set(data.scopes)],
+    expiresAt: data.expiresInDays
+      ? new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000)
+      : null
+  });
+
+  return { apiKey, key };
+};
+
+export const getUserApiKeys = async (userId: string): Promise<IApiKey[]> => {
+  return await ApiKey.find({ userId })
+    .sort({ createdAt: -1 })
+    .exec();
+};
+
+export const revokeApiKey = async (userId: string, keyId: string): Promise<IApiKey> => {
+  const apiKey = await ApiKey.findOneAndUpdate(
+    { _id: keyId, userId, revokedAt: null },
+    { revokedAt: new Date() },
+    { new: true }
+  );
+
+  if (!apiKey) {
+    throw new Error('API key not found');
+  }
+
+  return apiKey;
+};
+
+// Revoke every key of a user (e.g. when the account is deactivated)
+export const revokeAllUserApiKeys = async (userId: string): Promise<number> => {
+  const result = await ApiKey.updateMany(
+    { userId, revokedAt: null },
+    { revokedAt: new Date() }
+  );
+  return result.modifiedCount;
+};
+
+// Resolve a presented key to its owner. Returns null for unknown, revoked
+// or expired keys and for keys whose owner is no longer active.
+export const authenticateApiKey = async (
+  key: string,
+  ipAddress?: string
+): Promise<{ apiKey: IApiKey; user: IUser } | null> => {
+  if (!key.startsWith(API_KEY_PREFIX)) {
+    return null;
+  }
+
+  const apiKey = await ApiKey.findOne({ keyHash: hashKey(key), revokedAt: null });
+
+  if (!apiKey || (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now())) {
+    return null;
+  }
+
+  const user = await User.findById(apiKey.userId).select('-password');
+
+  if (!user || user.status !== 'active') {
+    return null;
+  }
+
+  const lastUsed = apiKey.lastUsedAt ? apiKey.lastUsedAt.getTime() : 0;
+  if (Date.now() - lastUsed > LAST_USED_UPDATE_INTERVAL_MS) {
+    ApiKey.updateOne(
+      { _id: apiKey._id },
+      { lastUsedAt: new Date(), lastUsedIp: ipAddress }
+    ).catch(err => {
+      console.error('Failed to update API key last used time:', err);
+    });
+  }
+
+  return { apiKey, user };
+};
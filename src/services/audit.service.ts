@@ -0,0 +1,64 @@
+import { AuditLog, IAuditLog } from '../models/auditLog.model';
+import mongoose from 'mongoose';
+
+export interface AuditEntry {
+  action: string;
+  actorId: string;
+  subjectId?: string;
+  method?: string;
+  path?: string;
+  statusCode?: number;
+  ipAddress?: string;
+  userAgent?: string;
+  details?: Record<string, any>;
+}
+
+export const recordAuditLog = async (entry: AuditEntry): Promise<IAuditLog> => {
+  return await AuditLog.create(entry);
+};
+
+export const getAuditLogs = async (filters: {
+  action?: string;
+  actorId?: string;
+  subjectId?: string;
+  page?: number;
+  limit?: number;
+} = {}): Promise<{ logs: IAuditLog[]; pagination: any }> => {
+  const query: any = {};
+
+  if (filters.action) {
+    query.action = filters.action;
+  }
+
+  if (filters.actorId) {
+    query.actorId = new mongoose.Types.ObjectId(filters.actorId);
+  }
+
+  if (filters.subjectId) {
+    query.subjectId = new mongoose.Types.ObjectId(filters.subjectId);
+  }
+
+  const page = filters.page || 1;
+  const limit = filters.limit || 20;
+  const skip = (page - 1) * limit;
+
+  const logs = await AuditLog.find(query)
+    .sort({ createdAt: -1 })
+    .skip(skip)
+    .limit(limit)
+    .populate({ path: 'actorId', select: 'firstName lastName email', options: { withDeleted: true } })
+    .populate({ path: 'subjectId', select: 'firstName lastName email', options: { withDeleted: true } })
+    .exec();
+
+  const total = await AuditLog.countDocuments(query);
+
+  return {
+    logs,
+    pagination: {
+      page,
+      limit,
+      total,
+      pages: Math.ceil(total / limit)
+    }
+  };
+};
@@ -1,60 +1,241 @@
 import { User, IUser } from '../models/user.model';
+import * as SessionService from './session.service';
+import * as ApiKeyService from './apiKey.service';
+import { SessionMetadata } from './session.service';
+import * as LoginAttemptService from './loginAttempt.service';
+import * as TwoFactorService from './twoFactor.service';
+import * as PasswordPolicyService from './passwordPolicy.service';
+import { sendAccountLockedEmail } from './email.service';
 import crypto from 'crypto';
 
-// Register new user
+// Register new customer (account stays pending until the email is verified).
+// Vendor access is granted through an approved vendor application.
 export const registerUser = async (userData: {
   firstName: string;
   lastName: string;
   email: string;
   password: string;
   age?: number;
-  role?: 'customer' | 'vendor' | 'admin';
-}): Promise<{ user: IUser; token: string }> => {
-  // Check if user exists
-  const existingUser = await User.findOne({ email: userData.email });
+}): Promise<{ user: IUser; verificationToken: string }> => {
+  PasswordPolicyService.assertPasswordAllowed(userData.password, userData);
+
+  // Check if user exists (a deleted account keeps its email until it is purged)
+  const existingUser = await User.findOne({ email: userData.email }).setOptions({ withDeleted: true });
   if (existingUser) {
     throw new Error('User with this email already exists');
   }
 
   // Create user
-  const user = await User.create({
-    ...userData,
-    status: 'active'
+  const user = new User({
+    firstName: userData.firstName,
+    lastName: userData.lastName,
+    email: userData.email,
+    password: userData.password,
+    age: userData.age,
+    role: 'customer',
+    status: 'pending'
   });
 
-  // Generate token
-  const token = user.generateAuthToken();
+  const verificationToken = user.generateEmailVerificationToken();
+  await user.save();
+
+  return { user, verificationToken };
+};
+
+// Verify email address and activate the account
+export const verifyEmail = async (
+  verificationToken: string,
+  metadata: SessionMetadata = {}
+): Promise<{ user: IUser; token: string; refreshToken: string }> => {
+  const hashedToken = crypto
+    .createHash('sha256')
+    .update(verificationToken)
+    .digest('hex');
+
+  const user = await User.findOne({
+    emailVerificationToken: hashedToken,
+    emailVerificationExpire: { $gt: Date.now() },
+    status: 'pending'
+  });
+
+  if (!user) {
+    throw new Error('Invalid or expired verification token');
+  }
+
+  user.status = 'active';
+  user.emailVerifiedAt = new Date();
+  user.emailVerificationToken = undefined;
+  user.emailVerificationExpire = undefined;
+  await user.save();
+
+  // Start session and issue tokens
+  const { token, refreshToken } = await SessionService.createSession(user, metadata);
+
+  return { user, token, refreshToken };
+};
+
+// Issue a fresh verification token for a pending account
+export const resendVerificationEmail = async (
+  email: string
+): Promise<{ user: IUser; verificationToken: string }> => {
+  const user = await User.findOne({ email });
+
+  if (!user) {
+    throw new Error('No user found with this email');
+  }
+
+  if (user.status !== 'pending') {
+    throw new Error('Email address is already verified');
+  }
 
-  return { user, token };
+  const verificationToken = user.generateEmailVerificationToken();
+  await user.save();
+
+  return { user, verificationToken };
+};
+
+// Result of the password step. Accounts with 2FA enabled receive a short-lived
+// challenge token instead of a session and must finish at /auth/login/2fa.
+export interface LoginResult {
+  user: IUser;
+  token?: string;
+  refreshToken?: string;
+  twoFactorRequired: boolean;
+  challengeToken?: string;
+  twoFactorSetupRequired: boolean;
+}
+
+// Record a failed attempt and warn the owner if it triggered a lockout
+const handleFailedLogin = async (
+  email: string,
+  user: IUser | null,
+  metadata: SessionMetadata
+): Promise<void> => {
+  const { accountLocked, lockedUntil } = await LoginAttemptService.recordFailedLogin(
+    email,
+    metadata.ipAddress
+  );
+
+  if (user && accountLocked && lockedUntil) {
+    sendAccountLockedEmail(user.email, user.firstName, lockedUntil).catch(err => {
+      console.error('Failed to send account locked email:', err);
+    });
+  }
 };
 
 // Login user
-export const loginUser = async (email: string, password: string): Promise<{ user: IUser; token: string }> => {
+export const loginUser = async (
+  email: string,
+  password: string,
+  metadata: SessionMetadata = {}
+): Promise<LoginResult> => {
+  // Refuse early while the account or client IP is locked out
+  await LoginAttemptService.assertLoginAllowed(email, metadata.ipAddress);
+
   // Find user with password field
   const user = await User.findOne({ email }).select('+password');
-  
-  if (!user) {
-    throw new Error('Invalid email or password');
-  }
 
   // Check password
-  const isPasswordValid = await user.comparePassword(password);
-  if (!isPasswordValid) {
+  const isPasswordValid = user ? await user.comparePassword(password) : false;
+  if (!user || !isPasswordValid) {
+    await handleFailedLogin(email, user, metadata);
     throw new Error('Invalid email or password');
   }
 
+  // Check if email address is verified
+  if (user.status === 'pending') {
+    throw new Error('Email address has not been verified');
+  }
+
   // Check if user is active
   if (user.status !== 'active') {
     throw new Error('Account is not active. Please contact support.');
   }
 
-  // Generate token
-  const token = user.generateAuthToken();
-
   // Remove password from response
   user.password = undefined as any;
 
-  return { user, token };
+  // Second step required; failed counter is only cleared once it succeeds
+  if (user.twoFactorEnabled) {
+    return {
+      user,
+      twoFactorRequired: true,
+      challengeToken: TwoFactorService.createLoginChallenge(user),
+      twoFactorSetupRequired: false
+    };
+  }
+
+  await LoginAttemptService.clearFailedLogins(email);
+
+  // Start session and issue tokens
+  const { token, refreshToken } = await SessionService.createSession(user, metadata);
+
+  return {
+    user,
+    token,
+    refreshToken,
+    twoFactorRequired: false,
+    twoFactorSetupRequired: await TwoFactorService.isTwoFactorSetupRequired(user.role, false)
+  };
+};
+
+// Complete a two-step login with a TOTP code or a recovery code
+export const completeTwoFactorLogin = async (
+  challengeToken: string,
+  credentials: { code?: string; recoveryCode?: string },
+  metadata: SessionMetadata = {}
+): Promise<{ user: IUser; token: string; refreshToken: string; recoveryCodeUsed: boolean }> => {
+  const userId = TwoFactorService.verifyLoginChallenge(challengeToken);
+
+  const user = await User.findById(userId);
+  if (!user || !user.twoFactorEnabled) {
+    throw new Error('Invalid or expired login challenge');
+  }
+
+  // Wrong codes count toward the same lockout as wrong passwords
+  await LoginAttemptService.assertLoginAllowed(user.email, metadata.ipAddress);
+
+  if (user.status !== 'active') {
+    throw new Error('Account is not active. Please contact support.');
+  }
+
+  const isValid = await TwoFactorService.verifySecondFactor(userId, credentials);
+  if (!isValid) {
+    await handleFailedLogin(user.email, user, metadata);
+    throw new Error('Invalid two-factor code');
+  }
+
+  await LoginAttemptService.clearFailedLogins(user.email);
+
+  // Start session and issue tokens
+  const { token, refreshToken } = await SessionService.createSession(user, metadata);
+
+  return { user, token, refreshToken, recoveryCodeUsed: !!credentials.recoveryCode };
+};
+
+// Exchange a refresh token for a new access/refresh token pair
+export const refreshAccessToken = async (
+  refreshToken: string
+): Promise<{ token: string; refreshToken: string }> => {
+  return await SessionService.refreshSession(refreshToken);
+};
+
+// Logout user by revoking the current session
+export const logoutUser = async (sessionId: string): Promise<void> => {
+  await SessionService.revokeSession(sessionId, 'logout');
+};
+
+// Sign out of every device
+export const logoutAllDevices = async (userId: string): Promise<number> => {
+  return await SessionService.revokeAllUserSessions(userId, 'logout_all');
+};
+
+export const getUserSessions = async (userId: string) => {
+  return await SessionService.getActiveUserSessions(userId);
+};
+
+export const revokeUserSession = async (userId: string, sessionId: string): Promise<void> => {
+  await SessionService.revokeUserSession(userId, sessionId);
 };
 
 // Get user profile
@@ -78,12 +259,14 @@ export const updateUserProfile = async (
 };
 
 // Change password
+// Other devices are signed out; the session making the change stays
 export const changePassword = async (
   userId: string,
   currentPassword: string,
-  newPassword: string
+  newPassword: string,
+  currentSessionId?: string
 ): Promise<void> => {
-  const user = await User.findById(userId).select('+password');
+  const user = await User.findById(userId).select('+password +passwordHistory');
   
   if (!user) {
     throw new Error('User not found');
@@ -94,8 +277,14 @@ export const changePassword = async (
     throw new Error('Current password is incorrect');
   }
 
+  PasswordPolicyService.assertPasswordAllowed(newPassword, user);
+  await PasswordPolicyService.assertPasswordNotReused(user, newPassword);
+
+  PasswordPolicyService.rememberCurrentPassword(user);
   user.password = newPassword;
   await user.save();
+
+  await SessionService.revokeAllUserSessions(userId, 'password_changed', currentSessionId);
 };
 
 export const forgotPassword = async (email: string): Promise<{ user: IUser; resetToken: string }> => {
@@ -123,34 +312,43 @@ export const resetPassword = async (
   const user = await User.findOne({
     resetPasswordToken: hashedToken,
     resetPasswordExpire: { $gt: Date.now() }
-  });
+  }).select('+password +passwordHistory');
 
   if (!user) {
     throw new Error('Invalid or expired reset token');
   }
 
+  PasswordPolicyService.assertPasswordAllowed(newPassword, user);
+  await PasswordPolicyService.assertPasswordNotReused(user, newPassword);
+
+  PasswordPolicyService.rememberCurrentPassword(user);
   user.password = newPassword;
   user.resetPasswordToken = undefined;
   user.resetPasswordExpire = undefined;
   await user.save();
-};
 
-export const getAllUsers = async (): Promise<IUser[]> => {
-  return await User.find().select('-password');
+  // Sign out every device that may have been using the old password
+  await SessionService.revokeAllUserSessions(user._id.toString(), 'password_reset');
 };
 
-export const deleteUser = async (userId: string): Promise<boolean> => {
-  const result = await User.findByIdAndDelete(userId);
-  return !!result;
+export const getAllUsers = async (): Promise<IUser[]> => {
+  return await User.find({ erasedAt: null }).select('-password');
 };
 
 export const updateUserStatus = async (
   userId: string,
   status: 'active' | 'inactive' | 'pending'
 ): Promise<IUser | null> => {
-  return await User.findByIdAndUpdate(
+  const user = await User.findByIdAndUpdate(
     userId,
     { status },
     { new: true, runValidators: true }
   ).select('-password');
+
+  if (user && status === 'inactive') {
+    await SessionService.revokeAllUserSessions(userId, 'account_deactivated');
+    await ApiKeyService.revokeAllUserApiKeys(userId);
+  }
+
+  return user;
 };
@@ -0,0 +1,196 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { Product, IProduct } from '../models/product.model';
+import { StockSubscription, IStockSubscription } from '../models/stockSubscription.model';
+import { sendBackInStockEmail, sendBackInStockSubscribedEmail } from './email.service';
+
+// Subscribers emailed per available unit in one batch, BACK_IN_STOCK_PER_UNIT (default 2)
+const getSubscribersPerUnit = (): number => {
+  return parseInt(process.env.BACK_IN_STOCK_PER_UNIT || '2');
+};
+
+// Largest batch, BACK_IN_STOCK_MAX_BATCH (default 100)
+const getMaxBatchSize = (): number => {
+  return parseInt(process.env.BACK_IN_STOCK_MAX_BATCH || '100');
+};
+
+// Minutes between two batches of one product, BACK_IN_STOCK_BATCH_INTERVAL_MINUTES (default 15)
+const getBatchIntervalMs = (): number => {
+  return parseFloat(process.env.BACK_IN_STOCK_BATCH_INTERVAL_MINUTES || '15') * 60 * 1000;
+};
+
+// What customers can buy right now; products without variants are not
+// sold while inStock is false
+const getSellableQuantity = (product: IProduct): number => {
+  if (product.variants.length === 0 && !product.inStock) {
+    return 0;
+  }
+  return product.get('available') as number;
+};
+
+const toSummary = (subscription: IStockSubscription) => ({
+  id: subscription._id,
+  product: subscription.product,
+  email: subscription.email,
+  status: subscription.status,
+  createdAt: subscription.createdAt
+});
+
+// Subscribe to a published product that is out of stock. Customers subscribe
+// with their account email; subscribing again while pending changes nothing.
+// The confirmation email carries the unsubscribe link, so an address
+// subscribed by someone else can opt out.
+export const subscribe = async (
+  productId: string,
+  subscriber: { email: string; userId?: string }
+): Promise<{ subscription: ReturnType<typeof toSummary>; created: boolean }> => {
+  const product = await Product.findOne({ _id: productId, status: 'published' });
+  if (!product) {
+    throw new Error('Product not found');
+  }
+  if (getSellableQuantity(product) > 0) {
+    throw new Error('Product is in stock');
+  }
+
+  const email = subscriber.email.toLowerCase().trim();
+  const pending = { product: product._id, email, status: 'pending' };
+
+  const existing = await StockSubscription.findOne(pending);
+  if (existing) {
+    // A guest subscription is kept when the address's owner subscribes signed in
+    if (subscriber.userId && !existing.user) {
+      existing.user = new mongoose.Types.ObjectId(subscriber.userId);
+      await existing.save();
+    }
+    return { subscription: toSummary(existing), created: false };
+  }
+
+  try {
+    const subscription = await StockSubscription.create({
+      ...pending,
+      user: subscriber.userId || null,
+      unsubscribeToken: crypto.randomBytes(32).toString('hex')
+    });
+    sendBackInStockSubscribedEmail(email, product.name, subscription.unsubscribeToken)
+      .catch(err => console.error('Failed to send back-in-stock confirmation email:', err));
+    return { subscription: toSummary(subscription), created: true };
+  } catch (error: any) {
+    // Subscribed by a concurrent request
+    if (error.code === 11000) {
+      const subscription = await StockSubscription.findOne(pending);
+      if (subscription) {
+        return { subscription: toSummary(subscription), created: false };
+      }
+    }
+    throw error;
+  }
+};
+
+// Unsubscribe a signed-in customer, including a subscription they made as a guest
+export const unsubscribe = async (productId: string, user: { id: string; email: string }): Promise<boolean> => {
+  const result = await StockSubscription.updateMany(
+    {
+      product: productId,
+      status: 'pending',
+      $or: [{ user: user.id }, { email: user.email.toLowerCase() }]
+    },
+    { status: 'cancelled' }
+  );
+  return result.modifiedCount > 0;
+};
+
+// Unsubscribe with the token from the confirmation email
+export const unsubscribeByToken = async (token: string): Promise<boolean> => {
+  const result = await StockSubscription.updateOne(
+    { unsubscribeToken: token, status: 'pending' },
+    { status: 'cancelled' }
+  );
+  return result.modifiedCount > 0;
+};
+
+// Email the next batch of subscribers of a product that is available again,
+// oldest subscriptions first. A batch holds BACK_IN_STOCK_PER_UNIT
+// subscribers per available unit, and batches of a product go out at least
+// BACK_IN_STOCK_BATCH_INTERVAL_MINUTES apart, so early subscribers get a
+// head start and later ones are only told while stock is left.
+export const sendBackInStockBatch = async (
+  productId: string | mongoose.Types.ObjectId,
+  now: Date = new Date()
+): Promise<number> => {
+  const product = await Product.findOne({ _id: productId, status: 'published' });
+  if (!product) {
+    return 0;
+  }
+
+  const available = getSellableQuantity(product);
+  if (available <= 0 || !await StockSubscription.exists({ product: product._id, status: 'pending' })) {
+    return 0;
+  }
+
+  // Only one batch per interval, however many restocks or job runs race for it
+  const claim = await Product.updateOne(
+    {
+      _id: product._id,
+      $or: [
+        { backInStockBatchAt: null },
+        { backInStockBatchAt: { $lte: new Date(now.getTime() - getBatchIntervalMs()) } }
+      ]
+    },
+    { $set: { backInStockBatchAt: now } },
+    { timestamps: false }
+  );
+  if (claim.matchedCount === 0) {
+    return 0;
+  }
+
+  const batch = await StockSubscription.find({ product: product._id, status: 'pending' })
+    .sort({ createdAt: 1 })
+    .limit(Math.min(available * getSubscribersPerUnit(), getMaxBatchSize()));
+
+  let sent = 0;
+  for (const subscription of batch) {
+    // Skips subscribers who unsubscribed meanwhile
+    const result = await StockSubscription.updateOne(
+      { _id: subscription._id, status: 'pending' },
+      { status: 'notified', notifiedAt: now }
+    );
+    if (result.modifiedCount === 0) {
+      continue;
+    }
+
+    // A failed email leaves the subscriber waiting for the next batch and
+    // does not hold up the rest of this one
+    try {
+      await sendBackInStockEmail(
+        subscription.email,
+        { id: product._id.toString(), name: product.name, price: product.price }
+      );
+      sent++;
+    } catch (err) {
+      console.error('Failed to send back-in-stock email:', err);
+      await StockSubscription.updateOne(
+        { _id: subscription._id, status: 'notified' },
+        { status: 'pending', notifiedAt: null }
+      );
+    }
+  }
+  return sent;
+};
+
+// Start notifying subscribers after stock was added, without holding up or
+// failing the stock change; the job sends the batches that follow
+export const notifyRestock = (productId: string | mongoose.Types.ObjectId): void => {
+  sendBackInStockBatch(productId)
+    .catch(err => console.error('Failed to send back-in-stock emails:', err));
+};
+
+// Send the batches that are due for every product with subscribers waiting
+export const sendDueBackInStockBatches = async (now: Date = new Date()): Promise<number> => {
+  const productIds = await StockSubscription.distinct('product', { status: 'pending' });
+
+  let sent = 0;
+  for (const productId of productIds) {
+    sent += await sendBackInStockBatch(productId, now);
+  }
+  return sent;
+};
@@ -1,5 +1,7 @@
 import { Cart, ICart } from '../models/cart.model';
 import { Product } from '../models/product.model';
+import { StockReservation } from '../models/stockReservation.model';
+import * as ProductService from './product.service';
 import mongoose from 'mongoose';
 
 export const getOrCreateCart = async (userId: string): Promise<ICart> => {
@@ -23,17 +25,48 @@ export const getCart = async (
   return await query;
 };
 
+// A cart line is identified by product and, for products with variants, the variant
+const isSameLine = (
+  item: { productId: mongoose.Types.ObjectId; variantId?: mongoose.Types.ObjectId | null },
+  productId: string,
+  variantId?: string
+): boolean => {
+  return item.productId.toString() === productId &&
+    (item.variantId ? item.variantId.toString() : undefined) === (variantId || undefined);
+};
+
+// What the customer can put in their cart: the available stock plus what
+// their own checkout already holds for the line
+const getAvailableToCustomer = async (
+  userId: string,
+  productId: string,
+  purchasable: ReturnType<typeof ProductService.resolvePurchasableItem>
+): Promise<number> => {
+  const held = await StockReservation.find({
+    user: userId,
+    product: productId,
+    variant: purchasable.variant ? purchasable.variant._id : null,
+    status: 'active',
+    expiresAt: { $gt: new Date() }
+  }).select('quantity');
+  return purchasable.available + held.reduce((total, reservation) => total + reservation.quantity, 0);
+};
+
 export const addItemToCart = async (
   userId: string,
   productId: string,
-  quantity: number
+  quantity: number,
+  variantId?: string
 ): Promise<ICart> => {
   const product = await Product.findById(productId);
   if (!product) {
     throw new Error('Product not found');
   }
+
+  const purchasable = ProductService.resolvePurchasableItem(product, variantId);
+  const available = await getAvailableToCustomer(userId, productId, purchasable);
   
-  if (!product.inStock || product.quantity < quantity) {
+  if (available < quantity) {
     throw new Error('Product is out of stock or insufficient quantity available');
   }
 
@@ -44,23 +77,25 @@ export const addItemToCart = async (
   }
 
   const existingItemIndex = cart.items.findIndex(
-    item => item.productId.toString() === productId
+    item => isSameLine(item, productId, variantId)
   );
 
   if (existingItemIndex > -1) {
     const newQuantity = cart.items[existingItemIndex].quantity + quantity;
     
-    if (product.quantity < newQuantity) {
+    if (available < newQuantity) {
       throw new Error('Insufficient product quantity available');
     }
     
     cart.items[existingItemIndex].quantity = newQuantity;
-    cart.items[existingItemIndex].price = product.price;
+    cart.items[existingItemIndex].price = purchasable.price;
   } else {
     cart.items.push({
       productId: new mongoose.Types.ObjectId(productId),
+      variantId: purchasable.variant ? purchasable.variant._id : null,
+      sku: purchasable.sku,
       quantity,
-      price: product.price
+      price: purchasable.price
     });
   }
 
@@ -71,7 +106,8 @@ export const addItemToCart = async (
 export const updateCartItem = async (
   userId: string,
   productId: string,
-  quantity: number
+  quantity: number,
+  variantId?: string
 ): Promise<ICart | null> => {
   if (quantity < 1) {
     throw new Error('Quantity must be at least 1');
@@ -81,8 +117,10 @@ export const updateCartItem = async (
   if (!product) {
     throw new Error('Product not found');
   }
+
+  const purchasable = ProductService.resolvePurchasableItem(product, variantId);
   
-  if (product.quantity < quantity) {
+  if (await getAvailableToCustomer(userId, productId, purchasable) < quantity) {
     throw new Error('Insufficient product quantity available');
   }
 
@@ -93,7 +131,7 @@ export const updateCartItem = async (
   }
 
   const itemIndex = cart.items.findIndex(
-    item => item.productId.toString() === productId
+    item => isSameLine(item, productId, variantId)
   );
 
   if (itemIndex === -1) {
@@ -101,15 +139,17 @@ export const updateCartItem = async (
   }
 
   cart.items[itemIndex].quantity = quantity;
-  cart.items[itemIndex].price = product.price;
+  cart.items[itemIndex].price = purchasable.price;
 
   await cart.save();
   return await Cart.findOne({ userId }).populate('items.productId', 'name price description inStock quantity');
 };
 
+// Without a variantId, every line of the product is removed
 export const removeCartItem = async (
   userId: string,
-  productId: string
+  productId: string,
+  variantId?: string
 ): Promise<ICart | null> => {
   const cart = await Cart.findOne({ userId });
   
@@ -118,7 +158,7 @@ export const removeCartItem = async (
   }
 
   cart.items = cart.items.filter(
-    item => item.productId.toString() !== productId
+    item => variantId ? !isSameLine(item, productId, variantId) : item.productId.toString() !== productId
   );
 
   await cart.save();
@@ -1,4 +1,51 @@
-import { Category, ICategory } from '../models/category.model';
+import mongoose from 'mongoose';
+import { Category, ICategory, slugify } from '../models/category.model';
+import { Product } from '../models/product.model';
+
+export interface CategoryTreeNode {
+  id: string;
+  name: string;
+  slug: string;
+  path: string;
+  isActive: boolean;
+  children: CategoryTreeNode[];
+}
+
+export interface Breadcrumb {
+  id: string;
+  name: string;
+  slug: string;
+  path: string;
+}
+
+export interface CategoryDeletionResult {
+  productsMoved: number;
+  reassignedTo?: string;
+}
+
+// Archived (inactive) categories and everything below them are hidden from
+// public listings. Product listings read this on every request, so it is cached
+// briefly; changes made through this service clear the cache immediately.
+const ARCHIVED_CACHE_TTL_MS = 60 * 1000;
+let archivedCache: { ids: mongoose.Types.ObjectId[]; expiresAt: number } | null = null;
+
+const clearArchivedCache = (): void => {
+  archivedCache = null;
+};
+
+export const getArchivedCategoryIds = async (): Promise<mongoose.Types.ObjectId[]> => {
+  if (archivedCache && archivedCache.expiresAt > Date.now()) {
+    return archivedCache.ids;
+  }
+
+  const archivedIds = await Category.find({ isActive: false }).distinct('_id');
+  const ids = archivedIds.length > 0
+    ? await Category.find({ $or: [{ _id: { $in: archivedIds } }, { ancestors: { $in: archivedIds } }] }).distinct('_id')
+    : [];
+
+  archivedCache = { ids, expiresAt: Date.now() + ARCHIVED_CACHE_TTL_MS };
+  return ids;
+};
 
 export const createCategory = async (categoryData: Partial<ICategory>): Promise<ICategory> => {
   const category = new Category(categoryData);
@@ -16,7 +63,14 @@ export const getAllCategories = async (filters: any = {}) => {
     query.name = { $regex: filters.search, $options: 'i' };
   }
 
-  return await Category.find(query).sort({ name: 1 });
+  // Public listings also hide categories below an archived one
+  if (filters.excludeArchived) {
+    query._id = { $nin: await getArchivedCategoryIds() };
+  }
+
+  return await Category.find(query)
+    .setOptions({ withDeleted: !!filters.includeDeleted })
+    .sort({ name: 1 });
 };
 
 export const getCategoryById = async (id: string): Promise<ICategory | null> => {
@@ -24,23 +78,277 @@ export const getCategoryById = async (id: string): Promise<ICategory | null> =>
 };
 
 export const getCategoryBySlug = async (slug: string): Promise<ICategory | null> => {
-  return await Category.findOne({ slug });
+  return await Category.findOne({ slug }).sort({ depth: 1, path: 1 });
+};
+
+// Look a category up by ID, full path ("electronics/audio") or slug. A bare
+// slug can exist under several parents; the shallowest one wins.
+export const resolveCategory = async (value: string): Promise<ICategory | null> => {
+  if (mongoose.isValidObjectId(value)) {
+    return await Category.findById(value);
+  }
+
+  const normalized = value.toLowerCase().replace(/^\/+|\/+$/g, '');
+  const byPath = await Category.findOne({ path: normalized });
+  if (byPath || normalized.includes('/')) {
+    return byPath;
+  }
+
+  return await Category.findOne({ slug: normalized }).sort({ depth: 1, path: 1 });
+};
+
+// The category and all of its descendants, for filtering products by subtree
+export const getSubtreeIds = async (
+  categoryId: string | mongoose.Types.ObjectId
+): Promise<mongoose.Types.ObjectId[]> => {
+  const descendantIds = await Category.find({ ancestors: categoryId }).distinct('_id');
+  return [new mongoose.Types.ObjectId(categoryId.toString()), ...descendantIds];
+};
+
+export const getCategoryTree = async (filters: { isActive?: boolean } = {}): Promise<CategoryTreeNode[]> => {
+  const query: any = {};
+  if (filters.isActive !== undefined) {
+    query.isActive = filters.isActive;
+  }
+
+  const categories = await Category.find(query).sort({ depth: 1, name: 1 }).lean();
+
+  const nodes = new Map<string, CategoryTreeNode>();
+  const roots: CategoryTreeNode[] = [];
+
+  // Sorted by depth, so a parent is always seen before its children
+  for (const category of categories) {
+    const node: CategoryTreeNode = {
+      id: category._id.toString(),
+      name: category.name,
+      slug: category.slug,
+      path: category.path,
+      isActive: category.isActive,
+      children: []
+    };
+    nodes.set(node.id, node);
+
+    const parent = category.parent ? nodes.get(category.parent.toString()) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else if (!category.parent) {
+      roots.push(node);
+    }
+    // Children of filtered-out (e.g. inactive) categories are left out of the tree
+  }
+
+  return roots;
+};
+
+export const getBreadcrumbs = async (
+  categoryId: string | mongoose.Types.ObjectId
+): Promise<Breadcrumb[]> => {
+  const category = await Category.findById(categoryId).select('name slug path ancestors');
+  if (!category) {
+    return [];
+  }
+
+  const ancestors = await Category.find({ _id: { $in: category.ancestors } }).select('name slug path depth');
+  const ordered = [...ancestors.sort((a, b) => a.depth - b.depth), category];
+
+  return ordered.map(item => ({
+    id: item._id.toString(),
+    name: item.name,
+    slug: item.slug,
+    path: item.path
+  }));
+};
+
+// Rewrite ancestors and paths of every descendant after a category was moved or renamed
+const updateDescendants = async (
+  category: ICategory,
+  previousPath: string,
+  session: mongoose.ClientSession
+): Promise<void> => {
+  const descendants = await Category.find({ ancestors: category._id })
+    .setOptions({ withDeleted: true })
+    .select('ancestors path')
+    .session(session);
+  if (descendants.length === 0) {
+    return;
+  }
+
+  const categoryId = category._id.toString();
+  const operations = descendants.map(descendant => {
+    const position = descendant.ancestors.findIndex(ancestorId => ancestorId.toString() === categoryId);
+    const ancestors = [
+      ...category.ancestors,
+      category._id as mongoose.Types.ObjectId,
+      ...descendant.ancestors.slice(position + 1)
+    ];
+    return {
+      updateOne: {
+        filter: { _id: descendant._id },
+        update: {
+          $set: {
+            ancestors,
+            depth: ancestors.length,
+            path: category.path + descendant.path.slice(previousPath.length)
+          }
+        }
+      }
+    };
+  });
+
+  await Category.bulkWrite(operations, { session });
 };
 
 export const updateCategory = async (
   id: string,
   updateData: Partial<ICategory>
 ): Promise<ICategory | null> => {
-  return await Category.findByIdAndUpdate(
+  const category = await Category.findById(id);
+  if (!category) {
+    return null;
+  }
+
+  if (updateData.parent !== undefined) {
+    const parentId = updateData.parent ? updateData.parent.toString() : null;
+
+    if (parentId) {
+      if (parentId === category._id.toString()) {
+        throw new Error('A category cannot be its own parent');
+      }
+      const parent = await Category.findById(parentId).select('ancestors');
+      if (!parent) {
+        throw new Error('Parent category not found');
+      }
+      if (parent.ancestors.some(ancestorId => ancestorId.toString() === category._id.toString())) {
+        throw new Error('A category cannot be moved under one of its descendants');
+      }
+    }
+  }
+
+  // The category and its descendants move together, so no subcategory is
+  // left with the old path
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const previousPath = category.path;
+    category.set(updateData);
+    await category.save({ session });
+
+    if (category.path !== previousPath) {
+      await updateDescendants(category, previousPath, session);
+    }
+
+    await session.commitTransaction();
+  } catch (error) {
+    await session.abortTransaction();
+    throw error;
+  } finally {
+    session.endSession();
+  }
+
+  clearArchivedCache();
+  return category;
+};
+
+// Delete a category. Products still in it must be moved to another category
+// (reassignTo); the move and the deletion happen in one transaction so no
+// product is left pointing at a missing category.
+export const deleteCategory = async (
+  id: string,
+  options: { reassignTo?: string; deletedBy?: string } = {}
+): Promise<CategoryDeletionResult | null> => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const category = await Category.findById(id).session(session);
+
+    if (!category) {
+      await session.abortTransaction();
+      return null;
+    }
+
+    if (await Category.exists({ parent: category._id }).session(session)) {
+      throw new Error('Category has subcategories');
+    }
+
+    const productCount = await Product.countDocuments({ category: category._id }).session(session);
+    let productsMoved = 0;
+
+    if (productCount > 0) {
+      if (!options.reassignTo) {
+        throw new Error(`Category has ${productCount} products`);
+      }
+      if (options.reassignTo === category._id.toString()) {
+        throw new Error('Products cannot be reassigned to the category being deleted');
+      }
+
+      const target = await Category.findById(options.reassignTo).session(session);
+      if (!target) {
+        throw new Error('Target category not found');
+      }
+
+      // Attributes are re-checked against the new category's schema on the next product update.
+      // Deleted products move too, so they can still be restored.
+      const result = await Product.updateMany(
+        { category: category._id },
+        { $set: { category: target._id } },
+        { session }
+      ).setOptions({ withDeleted: true });
+      productsMoved = result.modifiedCount;
+    }
+
+    // Soft delete; the purge job removes the category once nothing references it
+    await Category.updateOne(
+      { _id: category._id },
+      { deletedAt: new Date(), deletedBy: options.deletedBy || null },
+      { session }
+    );
+
+    await session.commitTransaction();
+    clearArchivedCache();
+
+    return {
+      productsMoved,
+      reassignedTo: productsMoved > 0 ? options.reassignTo : undefined
+    };
+  } catch (error) {
+    if (session.inTransaction()) {
+      await session.abortTransaction();
+    }
+    throw error;
+  } finally {
+    session.endSession();
+  }
+};
+
+export const restoreCategory = async (id: string): Promise<ICategory | null> => {
+  const category = await Category.findOne({ _id: id, deletedAt: { $ne: null } });
+  if (!category) {
+    return null;
+  }
+
+  if (category.parent && !(await Category.exists({ _id: category.parent }))) {
+    throw new Error('Restore the parent category first');
+  }
+
+  category.deletedAt = null;
+  category.deletedBy = null;
+  await category.save();
+  clearArchivedCache();
+  return category;
+};
+
+// Archiving hides the category, its subcategories and their products from
+// public listings without touching the products themselves
+export const setCategoryArchived = async (id: string, archived: boolean): Promise<ICategory | null> => {
+  const category = await Category.findByIdAndUpdate(
     id,
-    updateData,
+    { isActive: !archived },
     { new: true, runValidators: true }
   );
-};
-
-export const deleteCategory = async (id: string): Promise<boolean> => {
-  const result = await Category.findByIdAndDelete(id);
-  return !!result;
+  clearArchivedCache();
+  return category;
 };
 
 export const countCategories = async (): Promise<number> => {
@@ -50,3 +358,74 @@ export const countCategories = async (): Promise<number> => {
 export const getActiveCategories = async (): Promise<ICategory[]> => {
   return await Category.find({ isActive: true }).sort({ name: 1 });
 };
+
+// Categories from before the tree have no path, ancestors or depth. Derive
+// them top-down from the parents, then replace the old store-wide unique
+// name and slug indexes with the per-parent ones.
+export const backfillCategoryTree = async (): Promise<number> => {
+  const categories = await Category.find()
+    .setOptions({ withDeleted: true })
+    .select('name slug parent ancestors path depth')
+    .lean();
+  const byId = new Map(categories.map(category => [category._id.toString(), category]));
+
+  const positions = new Map<string, { slug: string; ancestors: mongoose.Types.ObjectId[]; path: string }>();
+  const resolve = (id: string, visiting: Set<string>) => {
+    const known = positions.get(id);
+    if (known) {
+      return known;
+    }
+
+    const category = byId.get(id)!;
+    const slug = category.slug || slugify(category.name) || 'category';
+    const parentId = category.parent?.toString();
+    let position = { slug, ancestors: [] as mongoose.Types.ObjectId[], path: slug };
+
+    // A missing parent or a cycle leaves the category at the top level
+    visiting.add(id);
+    if (parentId && byId.has(parentId) && !visiting.has(parentId)) {
+      const parent = resolve(parentId, visiting);
+      position = {
+        slug,
+        ancestors: [...parent.ancestors, new mongoose.Types.ObjectId(parentId)],
+        path: `${parent.path}/${slug}`
+      };
+    }
+
+    positions.set(id, position);
+    return position;
+  };
+
+  const operations = [];
+  for (const category of categories) {
+    const id = category._id.toString();
+    const { slug, ancestors, path } = resolve(id, new Set());
+    const parent = ancestors.length > 0 ? ancestors[ancestors.length - 1] : null;
+    const unchanged = category.slug === slug &&
+      category.path === path &&
+      category.depth === ancestors.length &&
+      (category.parent?.toString() ?? null) === (parent?.toString() ?? null) &&
+      (category.ancestors || []).map(ancestorId => ancestorId.toString()).join() === ancestors.map(ancestorId => ancestorId.toString()).join();
+    if (unchanged) {
+      continue;
+    }
+
+    operations.push({
+      updateOne: {
+        filter: { _id: category._id },
+        update: { $set: { slug, parent, ancestors, path, depth: ancestors.length } },
+        timestamps: false
+      }
+    });
+  }
+
+  if (operations.length > 0) {
+    await Category.bulkWrite(operations);
+  }
+
+  // Drops name_1 and slug_1 and builds the path and per-parent indexes, which
+  // could not be built while paths were missing
+  await Category.syncIndexes();
+
+  return operations.length;
+};
@@ -2,9 +2,16 @@ import { transporter } from '../config/email.config';
 import { 
   welcomeEmailTemplate, 
   passwordResetTemplate,
+  emailVerificationTemplate,
   passwordChangedTemplate,
+  accountLockedTemplate,
   orderConfirmationTemplate,
-  orderStatusUpdateTemplate
+  orderStatusUpdateTemplate,
+  vendorApplicationDecisionTemplate,
+  stockAlertTemplate,
+  StockAlertEmailItem,
+  backInStockSubscribedTemplate,
+  backInStockTemplate
 } from '../templates/email.templates';
 
 interface EmailOptions {
@@ -52,6 +59,18 @@ export const sendPasswordResetEmail = async (
   });
 };
 
+export const sendEmailVerificationEmail = async (
+  email: string,
+  firstName: string,
+  verificationToken: string
+): Promise<void> => {
+  await sendEmail({
+    to: email,
+    subject: 'Verify Your Email Address',
+    html: emailVerificationTemplate(firstName, verificationToken),
+  });
+};
+
 export const sendPasswordChangedEmail = async (
   email: string,
   firstName: string
@@ -63,6 +82,18 @@ export const sendPasswordChangedEmail = async (
   });
 };
 
+export const sendAccountLockedEmail = async (
+  email: string,
+  firstName: string,
+  lockedUntil: Date
+): Promise<void> => {
+  await sendEmail({
+    to: email,
+    subject: 'Your Account Has Been Temporarily Locked',
+    html: accountLockedTemplate(firstName, lockedUntil),
+  });
+};
+
 export const sendOrderConfirmationEmail = async (
   email: string,
   firstName: string,
@@ -88,3 +119,58 @@ export const sendOrderStatusUpdateEmail = async (
     html: orderStatusUpdateTemplate(firstName, orderId, status),
   });
 };
+
+export const sendVendorApplicationDecisionEmail = async (
+  email: string,
+  firstName: string,
+  businessName: string,
+  approved: boolean,
+  reason?: string
+): Promise<void> => {
+  await sendEmail({
+    to: email,
+    subject: approved ? 'Your Vendor Application Was Approved' : 'Your Vendor Application Was Not Approved',
+    html: vendorApplicationDecisionTemplate(firstName, businessName, approved, reason),
+  });
+};
+
+export const sendStockAlertEmail = async (
+  email: string,
+  firstName: string,
+  items: StockAlertEmailItem[],
+  digest: boolean
+): Promise<void> => {
+  const outOfStock = items.filter(item => item.level === 'out').length;
+  await sendEmail({
+    to: email,
+    subject: digest
+      ? `Daily Stock Digest - ${items.length} product(s) need restocking`
+      : outOfStock > 0
+        ? `Out of Stock - ${outOfStock} product(s)`
+        : `Low Stock - ${items.length} product(s)`,
+    html: stockAlertTemplate(firstName, items, digest),
+  });
+};
+
+export const sendBackInStockSubscribedEmail = async (
+  email: string,
+  productName: string,
+  unsubscribeToken: string
+): Promise<void> => {
+  await sendEmail({
+    to: email,
+    subject: `We'll Let You Know - ${productName}`,
+    html: backInStockSubscribedTemplate(productName, unsubscribeToken),
+  });
+};
+
+export const sendBackInStockEmail = async (
+  email: string,
+  product: { id: string; name: string; price: number }
+): Promise<void> => {
+  await sendEmail({
+    to: email,
+    subject: `Back in Stock - ${product.name}`,
+    html: backInStockTemplate(product.id, product.name, product.price),
+  });
+};
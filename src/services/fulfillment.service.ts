@@ -0,0 +1,206 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { Warehouse, IWarehouse, IAddress } from '../models/warehouse.model';
+import { InventoryLevel } from '../models/inventoryLevel.model';
+import { StockAllocation } from './inventory.service';
+import * as WarehouseService from './warehouse.service';
+
+// One order line to ship, with the stock each active warehouse holds for it
+export interface FulfillmentLine {
+  product: mongoose.Types.ObjectId;
+  variant: mongoose.Types.ObjectId | null;
+  label: string;
+  quantity: number;
+  // Warehouse id → quantity on hand
+  stock: Map<string, number>;
+}
+
+export interface Shipment {
+  warehouse: IWarehouse;
+  quantity: number;
+}
+
+// Decides which warehouses ship each line of an order. Gets the active
+// warehouses ordered closest to the shipping address first, and returns the
+// shipments of every line in the order of the lines.
+export interface FulfillmentStrategy {
+  name: string;
+  allocate(lines: FulfillmentLine[], warehouses: IWarehouse[], address?: IAddress): Shipment[][];
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number): number => degrees * Math.PI / 180;
+
+// Great-circle distance in kilometres
+const distanceKm = (a: IAddress, b: IAddress): number => {
+  const dLat = toRadians(b.latitude! - a.latitude!);
+  const dLon = toRadians(b.longitude! - a.longitude!);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude!)) * Math.cos(toRadians(b.latitude!)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+};
+
+const hasCoordinates = (address?: IAddress): boolean => {
+  return !!address && typeof address.latitude === 'number' && typeof address.longitude === 'number';
+};
+
+// Lower is closer. With coordinates on both sides the distance decides;
+// otherwise the same region beats the same country beats anywhere else.
+// Without a shipping address the default warehouse comes first.
+const closeness = (warehouse: IWarehouse, address?: IAddress): [number, number] => {
+  if (!address) {
+    return [warehouse.isDefault ? 0 : 3, 0];
+  }
+  if (!warehouse.address) {
+    return [4, 0];
+  }
+  if (hasCoordinates(warehouse.address) && hasCoordinates(address)) {
+    return [0, distanceKm(warehouse.address, address)];
+  }
+  if (warehouse.address.country !== address.country) {
+    return [3, 0];
+  }
+  const sameRegion = !!address.region &&
+    warehouse.address.region?.toLowerCase() === address.region.toLowerCase();
+  return [sameRegion ? 1 : 2, 0];
+};
+
+export const rankWarehouses = (warehouses: IWarehouse[], address?: IAddress): IWarehouse[] => {
+  const ranked = warehouses.map(warehouse => ({ warehouse, rank: closeness(warehouse, address) }));
+  ranked.sort((a, b) =>
+    a.rank[0] - b.rank[0] ||
+    a.rank[1] - b.rank[1] ||
+    Number(b.warehouse.isDefault) - Number(a.warehouse.isDefault) ||
+    a.warehouse.code.localeCompare(b.warehouse.code)
+  );
+  return ranked.map(entry => entry.warehouse);
+};
+
+// Each line ships from the closest warehouses holding it, split across as
+// many as needed
+const allocateClosest = (line: FulfillmentLine, warehouses: IWarehouse[]): Shipment[] => {
+  const shipments: Shipment[] = [];
+  let remaining = line.quantity;
+
+  for (const warehouse of warehouses) {
+    if (remaining === 0) {
+      break;
+    }
+    const onHand = line.stock.get(warehouse._id.toString()) || 0;
+    if (onHand > 0) {
+      const quantity = Math.min(remaining, onHand);
+      shipments.push({ warehouse, quantity });
+      remaining -= quantity;
+    }
+  }
+
+  if (remaining > 0) {
+    throw new Error(`Insufficient stock for ${line.label} at active warehouses`);
+  }
+  return shipments;
+};
+
+export const closestStrategy: FulfillmentStrategy = {
+  name: 'closest',
+  allocate: (lines, warehouses) => lines.map(line => allocateClosest(line, warehouses))
+};
+
+// The whole order ships from one warehouse when one (the closest such) holds
+// every line; otherwise it is split like the closest strategy
+export const singleLocationStrategy: FulfillmentStrategy = {
+  name: 'single-location',
+  allocate: (lines, warehouses) => {
+    const single = warehouses.find(warehouse =>
+      lines.every(line => (line.stock.get(warehouse._id.toString()) || 0) >= line.quantity)
+    );
+    if (single) {
+      return lines.map(line => [{ warehouse: single, quantity: line.quantity }]);
+    }
+    return closestStrategy.allocate(lines, warehouses);
+  }
+};
+
+const strategies = new Map<string, FulfillmentStrategy>([
+  [closestStrategy.name, closestStrategy],
+  [singleLocationStrategy.name, singleLocationStrategy]
+]);
+
+export const registerFulfillmentStrategy = (strategy: FulfillmentStrategy): void => {
+  strategies.set(strategy.name, strategy);
+};
+
+// FULFILLMENT_STRATEGY (default closest)
+export const getFulfillmentStrategy = (name: string = process.env.FULFILLMENT_STRATEGY || 'closest'): FulfillmentStrategy => {
+  const strategy = strategies.get(name);
+  if (!strategy) {
+    throw new Error(`Unknown fulfillment strategy: ${name}`);
+  }
+  return strategy;
+};
+
+// Choose the warehouses an order ships from. Shipments are checked against
+// the stock so a faulty strategy cannot oversell a warehouse.
+export const allocateOrder = async (
+  lines: Omit<FulfillmentLine, 'stock'>[],
+  address: IAddress | undefined,
+  session?: ClientSession,
+  strategy: FulfillmentStrategy = getFulfillmentStrategy()
+): Promise<Shipment[][]> => {
+  const warehouses = rankWarehouses(await Warehouse.find({ isActive: true }).session(session ?? null), address);
+  const levels = await InventoryLevel.find({
+    $or: lines.map(line => ({ product: line.product, variant: line.variant })),
+    warehouse: { $in: warehouses.map(warehouse => warehouse._id) },
+    quantity: { $gt: 0 }
+  }).session(session ?? null);
+
+  const withStock: FulfillmentLine[] = lines.map(line => ({
+    ...line,
+    stock: new Map(levels
+      .filter(level => level.product.equals(line.product) && String(level.variant ?? '') === String(line.variant ?? ''))
+      .map(level => [level.warehouse.toString(), level.quantity]))
+  }));
+
+  const shipments = strategy.allocate(withStock, warehouses, address);
+
+  withStock.forEach((line, index) => {
+    const lineShipments = shipments[index] || [];
+    if (lineShipments.reduce((total, shipment) => total + shipment.quantity, 0) !== line.quantity) {
+      throw new Error(`Fulfillment strategy ${strategy.name} did not allocate ${line.label}`);
+    }
+    for (const shipment of lineShipments) {
+      if (shipment.quantity <= 0 || shipment.quantity > (line.stock.get(shipment.warehouse._id.toString()) || 0)) {
+        throw new Error(`Insufficient stock for ${line.label} at ${shipment.warehouse.code}`);
+      }
+    }
+  });
+
+  return shipments;
+};
+
+// Where stock of a cancelled line goes back to: the warehouses it shipped
+// from while they are active, the default warehouse otherwise
+export const getReturnAllocations = async (
+  shippedFrom: { warehouse: mongoose.Types.ObjectId; quantity: number }[],
+  variant: mongoose.Types.ObjectId | null,
+  quantity: number,
+  session?: ClientSession
+): Promise<StockAllocation[]> => {
+  const active = await Warehouse.find({
+    _id: { $in: shippedFrom.map(shipment => shipment.warehouse) },
+    isActive: true
+  }).select('_id').session(session ?? null);
+  const activeIds = new Set(active.map(warehouse => warehouse._id.toString()));
+
+  const allocations: StockAllocation[] = shippedFrom
+    .filter(shipment => activeIds.has(shipment.warehouse.toString()))
+    .map(shipment => ({ variant, warehouse: shipment.warehouse, quantity: shipment.quantity }));
+
+  const remaining = quantity - allocations.reduce((total, allocation) => total + allocation.quantity, 0);
+  if (remaining > 0) {
+    const defaultWarehouse = await WarehouseService.getDefaultWarehouse(session);
+    if (defaultWarehouse) {
+      allocations.push({ variant, warehouse: defaultWarehouse._id as mongoose.Types.ObjectId, quantity: remaining });
+    }
+  }
+  return allocations;
+};
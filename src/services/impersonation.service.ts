@@ -0,0 +1,90 @@
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { User, IUser } from '../models/user.model';
+import * as RoleService from './role.service';
+import * as AuditService from './audit.service';
+import { SessionMetadata } from './session.service';
+
+export interface ImpersonationActor {
+  id: string;
+  email: string;
+  sessionId?: string;
+}
+
+const getImpersonationTtlMinutes = (): number => {
+  return parseInt(process.env.IMPERSONATION_TOKEN_MINUTES || '15');
+};
+
+// Issue an access token for the target user that also names the acting admin
+// (the "act" claim). It is bound to the admin's session, so signing the admin
+// out ends the impersonation, and it cannot be refreshed.
+export const startImpersonation = async (
+  actor: ImpersonationActor,
+  targetUserId: string,
+  metadata: SessionMetadata = {}
+): Promise<{ token: string; expiresAt: Date; user: IUser }> => {
+  if (!actor.sessionId) {
+    throw new Error('Impersonation requires a logged-in session');
+  }
+
+  if (actor.id === targetUserId) {
+    throw new Error('You cannot impersonate yourself');
+  }
+
+  const user = await User.findById(targetUserId).select('-password');
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  if (user.status !== 'active') {
+    throw new Error('Only active accounts can be impersonated');
+  }
+
+  const targetPermissions = await RoleService.getRolePermissions(user.role);
+  if (RoleService.hasPermission(targetPermissions, 'users:impersonate')) {
+    throw new Error('Accounts that can impersonate others cannot be impersonated');
+  }
+
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!jwtSecret) {
+    throw new Error('JWT_SECRET is not defined');
+  }
+
+  const ttlMinutes = getImpersonationTtlMinutes();
+  const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+
+  const token = jwt.sign(
+    {
+      id: user._id.toString(),
+      email: user.email,
+      role: user.role,
+      sid: actor.sessionId,
+      act: { sub: actor.id, email: actor.email }
+    },
+    jwtSecret,
+    { expiresIn: `${ttlMinutes}m` as SignOptions['expiresIn'] }
+  );
+
+  await AuditService.recordAuditLog({
+    action: 'impersonation.start',
+    actorId: actor.id,
+    subjectId: user._id.toString(),
+    ipAddress: metadata.ipAddress,
+    userAgent: metadata.userAgent,
+    details: { expiresAt }
+  });
+
+  return { token, expiresAt, user };
+};
+
+// The acting admin must still be active and allowed to impersonate
+export const isImpersonationAllowed = async (actorId: string): Promise<boolean> => {
+  const actor = await User.findById(actorId).select('role status');
+
+  if (!actor || actor.status !== 'active') {
+    return false;
+  }
+
+  const permissions = await RoleService.getRolePermissions(actor.role);
+  return RoleService.hasPermission(permissions, 'users:impersonate');
+};
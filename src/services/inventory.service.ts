@@ -0,0 +1,444 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { Product, IProduct } from '../models/product.model';
+import { StockMovement, IStockMovement, StockMovementReason } from '../models/stockMovement.model';
+import { InventoryLevel, IInventoryLevel } from '../models/inventoryLevel.model';
+import { Warehouse } from '../models/warehouse.model';
+import * as WarehouseService from './warehouse.service';
+
+// Quantity of each stock unit of a product: one per variant, or the product
+// itself (key '') when it has no variants
+export type StockSnapshot = Map<string, { quantity: number; sku?: string }>;
+
+// Stock added to (positive) or taken from (negative) one warehouse
+export interface StockAllocation {
+  variant: mongoose.Types.ObjectId | null;
+  warehouse: mongoose.Types.ObjectId;
+  quantity: number;
+}
+
+// Why stock changed, who changed it and (for orders) which order
+export interface StockMovementContext {
+  reason: StockMovementReason;
+  actorId?: string | null;
+  orderId?: string | mongoose.Types.ObjectId | null;
+  note?: string;
+  session?: ClientSession;
+  // Warehouse the change applies to. Without one, stock is added to the
+  // default warehouse and taken from it first.
+  warehouseId?: string | mongoose.Types.ObjectId | null;
+  // The exact per-warehouse changes, when the caller chose the warehouses
+  allocations?: StockAllocation[];
+}
+
+export interface ReconciliationIssue {
+  productId: mongoose.Types.ObjectId;
+  name: string;
+  variantId: mongoose.Types.ObjectId | null;
+  sku?: string;
+  quantity: number;
+  ledgerQuantity: number;
+  difference: number;
+  movementCount: number;
+}
+
+export const snapshotStock = (product: IProduct | null): StockSnapshot => {
+  const snapshot: StockSnapshot = new Map();
+  if (!product) {
+    return snapshot;
+  }
+
+  if (product.variants.length > 0) {
+    for (const variant of product.variants) {
+      snapshot.set(String(variant._id), { quantity: variant.quantity || 0, sku: variant.sku });
+    }
+  } else {
+    snapshot.set('', { quantity: product.quantity || 0, sku: product.sku });
+  }
+  return snapshot;
+};
+
+// Whether any stock unit of the product holds more than in the snapshot
+export const hasStockAdded = (product: IProduct, before: StockSnapshot): boolean => {
+  for (const [key, unit] of snapshotStock(product)) {
+    if (unit.quantity > (before.get(key)?.quantity ?? 0)) {
+      return true;
+    }
+  }
+  return false;
+};
+
+// Record a movement for every stock unit whose quantity differs from the
+// snapshot taken before the product was changed. Call after the change is
+// saved, in the same session when there is one.
+export const recordStockChanges = async (
+  product: IProduct,
+  before: StockSnapshot,
+  context: StockMovementContext
+): Promise<IStockMovement[]> => {
+  const after = snapshotStock(product);
+  const keys = new Set([...before.keys(), ...after.keys()]);
+  const entries = [];
+
+  for (const key of keys) {
+    const balance = after.get(key)?.quantity ?? 0;
+    const quantity = balance - (before.get(key)?.quantity ?? 0);
+    if (quantity === 0) {
+      continue;
+    }
+
+    entries.push({
+      product: product._id,
+      variant: key ? new mongoose.Types.ObjectId(key) : null,
+      sku: (after.get(key) ?? before.get(key))!.sku,
+      quantity,
+      balance,
+      reason: context.reason,
+      actor: context.actorId || null,
+      order: context.orderId || null,
+      note: context.note
+    });
+  }
+
+  if (entries.length === 0) {
+    return [];
+  }
+
+  const allocations = await applyLocationChanges(product._id as mongoose.Types.ObjectId, entries, context);
+  return await StockMovement.insertMany(
+    entries.flatMap(entry => splitByWarehouse(entry, allocations)),
+    { session: context.session }
+  );
+};
+
+// One movement per warehouse the stock was added at or taken from, each
+// with the balance after it
+const splitByWarehouse = <T extends { variant: mongoose.Types.ObjectId | null; quantity: number; balance: number }>(
+  entry: T,
+  applied: StockAllocation[]
+): (T & { warehouse: mongoose.Types.ObjectId | null })[] => {
+  const allocations = applied.filter(allocation =>
+    allocation.quantity !== 0 && String(allocation.variant ?? '') === String(entry.variant ?? '')
+  );
+
+  let balance = entry.balance - entry.quantity;
+  const movements: (T & { warehouse: mongoose.Types.ObjectId | null })[] = allocations.map(allocation => {
+    balance += allocation.quantity;
+    return { ...entry, quantity: allocation.quantity, balance, warehouse: allocation.warehouse };
+  });
+
+  // Stock no warehouse holds, e.g. taken beyond the levels or added with no default warehouse
+  const unplaced = entry.quantity - allocations.reduce((total, allocation) => total + allocation.quantity, 0);
+  if (unplaced !== 0) {
+    movements.push({ ...entry, quantity: unplaced, balance: entry.balance, warehouse: null });
+  }
+  return movements;
+};
+
+const adjustLevel = async (
+  productId: mongoose.Types.ObjectId,
+  allocation: StockAllocation,
+  session?: ClientSession
+): Promise<void> => {
+  await InventoryLevel.updateOne(
+    { product: productId, variant: allocation.variant, warehouse: allocation.warehouse },
+    { $inc: { quantity: allocation.quantity } },
+    { upsert: true, session }
+  );
+};
+
+// Keep the per-warehouse levels in step with changes to a product's totals.
+// Returns the change made at each warehouse.
+const applyLocationChanges = async (
+  productId: mongoose.Types.ObjectId,
+  changes: { variant: mongoose.Types.ObjectId | null; quantity: number }[],
+  context: StockMovementContext
+): Promise<StockAllocation[]> => {
+  if (context.allocations) {
+    for (const allocation of context.allocations) {
+      await adjustLevel(productId, allocation, context.session);
+    }
+    return context.allocations;
+  }
+
+  const applied: StockAllocation[] = [];
+
+  const defaultWarehouse = await WarehouseService.getDefaultWarehouse(context.session);
+  const target = context.warehouseId
+    ? new mongoose.Types.ObjectId(String(context.warehouseId))
+    : defaultWarehouse?._id as mongoose.Types.ObjectId | undefined;
+
+  for (const change of changes) {
+    if (change.quantity > 0 || context.warehouseId) {
+      if (target) {
+        const allocation = { variant: change.variant, warehouse: target, quantity: change.quantity };
+        await adjustLevel(productId, allocation, context.session);
+        applied.push(allocation);
+      }
+      continue;
+    }
+
+    // Taken without naming a warehouse: from the default first, then from
+    // whichever holds the most
+    const levels = await InventoryLevel.find({ product: productId, variant: change.variant, quantity: { $gt: 0 } })
+      .sort({ quantity: -1 })
+      .session(context.session ?? null);
+    const isDefault = (level: IInventoryLevel) => !!defaultWarehouse && level.warehouse.equals(defaultWarehouse._id as mongoose.Types.ObjectId);
+    levels.sort((a, b) => Number(isDefault(b)) - Number(isDefault(a)));
+
+    let remaining = -change.quantity;
+    for (const level of levels) {
+      if (remaining === 0) {
+        break;
+      }
+      const taken = Math.min(remaining, level.quantity);
+      const allocation = { variant: change.variant, warehouse: level.warehouse, quantity: -taken };
+      await adjustLevel(productId, allocation, context.session);
+      applied.push(allocation);
+      remaining -= taken;
+    }
+  }
+  return applied;
+};
+
+export const getStockHistory = async (
+  productId: string,
+  options: { variantId?: string; warehouseId?: string; reason?: StockMovementReason; skip?: number; limit?: number } = {}
+): Promise<{ movements: IStockMovement[]; total: number }> => {
+  const query: Record<string, unknown> = { product: productId };
+  if (options.variantId) {
+    query.variant = options.variantId;
+  }
+  if (options.warehouseId) {
+    query.warehouse = options.warehouseId;
+  }
+  if (options.reason) {
+    query.reason = options.reason;
+  }
+
+  const [movements, total] = await Promise.all([
+    StockMovement.find(query)
+      .sort({ createdAt: -1, _id: -1 })
+      .skip(options.skip || 0)
+      .limit(options.limit || 20)
+      .populate({ path: 'actor', select: 'firstName lastName', options: { withDeleted: true } }),
+    StockMovement.countDocuments(query)
+  ]);
+
+  return { movements, total };
+};
+
+// Compare every product's (and variant's) quantity with the sum of its
+// ledger. Stock units no longer on the product must sum to zero.
+export const getReconciliationReport = async (
+  filters: { vendorId?: string } = {}
+): Promise<{ checkedProducts: number; issues: ReconciliationIssue[] }> => {
+  const productQuery: Record<string, unknown> = {};
+  if (filters.vendorId) {
+    productQuery.createdBy = new mongoose.Types.ObjectId(filters.vendorId);
+  }
+
+  const products = await Product.find(productQuery).select('name sku quantity variants').lean<IProduct[]>();
+  const productIds = products.map(product => product._id);
+
+  const sums = await StockMovement.aggregate([
+    { $match: { product: { $in: productIds } } },
+    {
+      $group: {
+        _id: { product: '$product', variant: '$variant' },
+        quantity: { $sum: '$quantity' },
+        movementCount: { $sum: 1 },
+        sku: { $last: '$sku' }
+      }
+    }
+  ]);
+
+  // Ledger sums per product, keyed like snapshotStock
+  const ledger = new Map<string, Map<string, { quantity: number; movementCount: number; sku?: string }>>();
+  for (const sum of sums) {
+    const productKey = sum._id.product.toString();
+    if (!ledger.has(productKey)) {
+      ledger.set(productKey, new Map());
+    }
+    ledger.get(productKey)!.set(sum._id.variant ? sum._id.variant.toString() : '', sum);
+  }
+
+  const issues: ReconciliationIssue[] = [];
+  for (const product of products) {
+    const units = snapshotStock(product as IProduct);
+    const productLedger = ledger.get(product._id.toString()) || new Map();
+
+    for (const key of new Set([...units.keys(), ...productLedger.keys()])) {
+      const entry = productLedger.get(key);
+      const quantity = units.get(key)?.quantity ?? 0;
+      const ledgerQuantity = entry ? entry.quantity : 0;
+
+      if (quantity !== ledgerQuantity) {
+        issues.push({
+          productId: product._id as mongoose.Types.ObjectId,
+          name: product.name,
+          variantId: key ? new mongoose.Types.ObjectId(key) : null,
+          sku: units.get(key)?.sku ?? entry?.sku,
+          quantity,
+          ledgerQuantity,
+          difference: quantity - ledgerQuantity,
+          movementCount: entry ? entry.movementCount : 0
+        });
+      }
+    }
+  }
+
+  return { checkedProducts: products.length, issues };
+};
+
+// Products from before the ledger get their current stock as an opening
+// balance, so only real discrepancies show up in reconciliation
+export const recordOpeningBalances = async (): Promise<number> => {
+  const trackedIds = await StockMovement.distinct('product');
+  const products = await Product.find({ _id: { $nin: trackedIds } })
+    .select('sku quantity variants')
+    .setOptions({ withDeleted: true });
+
+  let recorded = 0;
+  for (const product of products) {
+    const movements = await recordStockChanges(product, new Map(), {
+      reason: 'initial',
+      note: 'Opening balance'
+    });
+    recorded += movements.length > 0 ? 1 : 0;
+  }
+  return recorded;
+};
+
+export const getLevelQuantity = async (
+  productId: string | mongoose.Types.ObjectId,
+  variantId: string | mongoose.Types.ObjectId | null,
+  warehouseId: string | mongoose.Types.ObjectId,
+  session?: ClientSession
+): Promise<number> => {
+  const level = await InventoryLevel.findOne({ product: productId, variant: variantId, warehouse: warehouseId })
+    .session(session ?? null);
+  return level ? level.quantity : 0;
+};
+
+// Stock of a product per warehouse, for each variant when it has them
+export const getStockByLocation = async (productId: string): Promise<IInventoryLevel[]> => {
+  return await InventoryLevel.find({ product: productId, quantity: { $gt: 0 } })
+    .populate('warehouse', 'name code isDefault isActive')
+    .sort({ variant: 1, quantity: -1 });
+};
+
+// Move stock between warehouses. The product's totals do not change; the
+// ledger records a pair of transfer movements that cancel out.
+export const transferStock = async (input: {
+  productId: string;
+  variantId?: string | null;
+  fromWarehouseId: string;
+  toWarehouseId: string;
+  quantity: number;
+  actorId: string;
+  note?: string;
+}): Promise<IStockMovement[]> => {
+  if (input.fromWarehouseId === input.toWarehouseId) {
+    throw new Error('Source and destination warehouses must differ');
+  }
+
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const [from, to] = await Promise.all([
+      Warehouse.findById(input.fromWarehouseId).session(session),
+      Warehouse.findById(input.toWarehouseId).session(session)
+    ]);
+    if (!from || !to) {
+      throw new Error('Warehouse not found');
+    }
+    if (!to.isActive) {
+      throw new Error(`Cannot transfer stock to inactive warehouse ${to.code}`);
+    }
+
+    const product = await Product.findById(input.productId).session(session);
+    if (!product) {
+      throw new Error('Product not found');
+    }
+
+    let variant = null;
+    if (product.variants.length > 0) {
+      if (!input.variantId) {
+        throw new Error(`Please choose a variant of ${product.name}`);
+      }
+      variant = product.variants.id(input.variantId);
+      if (!variant) {
+        throw new Error('Variant not found');
+      }
+    } else if (input.variantId) {
+      throw new Error('Variant not found');
+    }
+
+    const variantId = variant ? variant._id as mongoose.Types.ObjectId : null;
+    const taken = await InventoryLevel.updateOne(
+      { product: product._id, variant: variantId, warehouse: from._id, quantity: { $gte: input.quantity } },
+      { $inc: { quantity: -input.quantity } },
+      { session }
+    );
+    if (taken.modifiedCount !== 1) {
+      const level = await InventoryLevel.findOne({ product: product._id, variant: variantId, warehouse: from._id })
+        .session(session);
+      throw new Error(`Insufficient stock at ${from.code}. Available: ${level ? level.quantity : 0}, Requested: ${input.quantity}`);
+    }
+    await adjustLevel(
+      product._id as mongoose.Types.ObjectId,
+      { variant: variantId, warehouse: to._id as mongoose.Types.ObjectId, quantity: input.quantity },
+      session
+    );
+
+    const movement = {
+      product: product._id,
+      variant: variantId,
+      sku: variant ? variant.sku : product.sku,
+      balance: variant ? variant.quantity : product.quantity,
+      reason: 'transfer',
+      actor: input.actorId,
+      note: input.note
+    };
+    const movements = await StockMovement.insertMany([
+      { ...movement, quantity: -input.quantity, warehouse: from._id },
+      { ...movement, quantity: input.quantity, warehouse: to._id }
+    ], { session });
+
+    await session.commitTransaction();
+    return movements;
+  } catch (error) {
+    await session.abortTransaction();
+    throw error;
+  } finally {
+    session.endSession();
+  }
+};
+
+// Stock from before warehouses is placed in the default warehouse
+export const assignUnlocatedStock = async (): Promise<number> => {
+  const defaultWarehouse = await WarehouseService.getDefaultWarehouse();
+  if (!defaultWarehouse) {
+    return 0;
+  }
+
+  const locatedIds = await InventoryLevel.distinct('product');
+  const products = await Product.find({ _id: { $nin: locatedIds } })
+    .select('sku quantity variants')
+    .setOptions({ withDeleted: true });
+
+  let assigned = 0;
+  for (const product of products) {
+    const units = [...snapshotStock(product).entries()].filter(([, unit]) => unit.quantity > 0);
+    for (const [key, unit] of units) {
+      await adjustLevel(product._id as mongoose.Types.ObjectId, {
+        variant: key ? new mongoose.Types.ObjectId(key) : null,
+        warehouse: defaultWarehouse._id as mongoose.Types.ObjectId,
+        quantity: unit.quantity
+      });
+    }
+    assigned += units.length > 0 ? 1 : 0;
+  }
+  return assigned;
+};
@@ -0,0 +1,164 @@
+import { LoginAttempt, ILoginAttempt } from '../models/loginAttempt.model';
+
+interface LoginProtectionConfig {
+  maxAccountFailures: number;
+  maxIpFailures: number;
+  lockoutMs: number;
+  delayAfterFailures: number;
+  maxDelayMs: number;
+  counterTtlMs: number;
+}
+
+const getConfig = (): LoginProtectionConfig => ({
+  maxAccountFailures: parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS || '5'),
+  maxIpFailures: parseInt(process.env.LOGIN_IP_MAX_FAILED_ATTEMPTS || '20'),
+  lockoutMs: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15') * 60 * 1000,
+  delayAfterFailures: parseInt(process.env.LOGIN_DELAY_AFTER_ATTEMPTS || '3'),
+  maxDelayMs: 30 * 1000,
+  counterTtlMs: 24 * 60 * 60 * 1000
+});
+
+const accountKey = (email: string) => `account:${email.trim().toLowerCase()}`;
+const ipKey = (ipAddress: string) => `ip:${ipAddress}`;
+
+const formatWait = (ms: number): string => {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
+
+// Delay doubles with every failure past the threshold: 1s, 2s, 4s ... capped
+const getRequiredDelayMs = (attempt: ILoginAttempt, config: LoginProtectionConfig): number => {
+  if (attempt.failedCount < config.delayAfterFailures) {
+    return 0;
+  }
+  const exponent = attempt.failedCount - config.delayAfterFailures;
+  return Math.min(1000 * Math.pow(2, exponent), config.maxDelayMs);
+};
+
+// Throw if the account or client IP is locked out or must wait before retrying
+export const assertLoginAllowed = async (email: string, ipAddress?: string): Promise<void> => {
+  const config = getConfig();
+  const now = Date.now();
+  const keys = [accountKey(email)];
+  if (ipAddress) {
+    keys.push(ipKey(ipAddress));
+  }
+
+  const attempts = await LoginAttempt.find({ key: { $in: keys } });
+
+  for (const attempt of attempts) {
+    if (attempt.lockedUntil && attempt.lockedUntil.getTime() > now) {
+      const wait = formatWait(attempt.lockedUntil.getTime() - now);
+      if (attempt.type === 'account') {
+        throw new Error(`Account is temporarily locked due to too many failed login attempts. Try again in ${wait}.`);
+      }
+      throw new Error(`Too many failed login attempts from this IP address. Try again in ${wait}.`);
+    }
+  }
+
+  for (const attempt of attempts) {
+    const delay = getRequiredDelayMs(attempt, config);
+    const lastFailedAt = attempt.lastFailedAt ? attempt.lastFailedAt.getTime() : 0;
+    if (delay > 0 && now < lastFailedAt + delay) {
+      throw new Error(`Too many failed login attempts. Try again in ${formatWait(lastFailedAt + delay - now)}.`);
+    }
+  }
+};
+
+// Count a failure and lock the key once its threshold is reached.
+// Returns true only for the attempt that triggered the lock.
+const incrementFailures = async (
+  key: string,
+  type: 'account' | 'ip',
+  threshold: number,
+  config: LoginProtectionConfig
+): Promise<{ locked: boolean; lockedUntil?: Date }> => {
+  const now = new Date();
+
+  const attempt = await LoginAttempt.findOneAndUpdate(
+    { key },
+    {
+      $inc: { failedCount: 1 },
+      $set: { lastFailedAt: now, expiresAt: new Date(now.getTime() + config.counterTtlMs) },
+      $setOnInsert: { type }
+    },
+    { upsert: true, new: true }
+  );
+
+  if (!attempt || attempt.failedCount < threshold) {
+    return { locked: false };
+  }
+
+  const lockedUntil = new Date(now.getTime() + config.lockoutMs);
+
+  // Conditional update so concurrent failures on other instances lock only once
+  const lockedAttempt = await LoginAttempt.findOneAndUpdate(
+    {
+      key,
+      failedCount: { $gte: threshold },
+      $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }]
+    },
+    {
+      $set: {
+        lockedUntil,
+        failedCount: 0,
+        expiresAt: new Date(lockedUntil.getTime() + config.counterTtlMs)
+      }
+    },
+    { new: true }
+  );
+
+  return lockedAttempt ? { locked: true, lockedUntil } : { locked: false };
+};
+
+export const recordFailedLogin = async (
+  email: string,
+  ipAddress?: string
+): Promise<{ accountLocked: boolean; lockedUntil?: Date }> => {
+  const config = getConfig();
+
+  const [accountResult] = await Promise.all([
+    incrementFailures(accountKey(email), 'account', config.maxAccountFailures, config),
+    ipAddress
+      ? incrementFailures(ipKey(ipAddress), 'ip', config.maxIpFailures, config)
+      : Promise.resolve({ locked: false })
+  ]);
+
+  return {
+    accountLocked: accountResult.locked,
+    lockedUntil: accountResult.lockedUntil
+  };
+};
+
+// Reset the account counter after a successful login
+export const clearFailedLogins = async (email: string): Promise<void> => {
+  await LoginAttempt.deleteOne({ key: accountKey(email) });
+};
+
+// Admin: lift an account lockout
+export const unlockAccount = async (email: string): Promise<boolean> => {
+  const result = await LoginAttempt.deleteOne({ key: accountKey(email) });
+  return result.deletedCount > 0;
+};
+
+export const getAccountLockStatus = async (
+  email: string
+): Promise<{ locked: boolean; lockedUntil?: Date; failedCount: number }> => {
+  const attempt = await LoginAttempt.findOne({ key: accountKey(email) });
+
+  if (!attempt) {
+    return { locked: false, failedCount: 0 };
+  }
+
+  const locked = !!attempt.lockedUntil && attempt.lockedUntil.getTime() > Date.now();
+
+  return {
+    locked,
+    lockedUntil: locked ? attempt.lockedUntil! : undefined,
+    failedCount: attempt.failedCount
+  };
+};
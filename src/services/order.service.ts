@@ -1,10 +1,17 @@
 import { Order, IOrder } from '../models/order.model';
-import { Product } from '../models/product.model';
+import { Product, IProduct } from '../models/product.model';
+import { IAddress } from '../models/warehouse.model';
 import * as CartService from './cart.service';
+import * as ProductService from './product.service';
+import * as InventoryService from './inventory.service';
+import * as ReservationService from './reservation.service';
+import * as FulfillmentService from './fulfillment.service';
+import * as BackInStockService from './backInStock.service';
+import { StockReservation } from '../models/stockReservation.model';
 import mongoose from 'mongoose';
 
 // Create order from cart with transaction support
-export const createOrderFromCart = async (userId: string): Promise<IOrder> => {
+export const createOrderFromCart = async (userId: string, shippingAddress?: IAddress): Promise<IOrder> => {
   const session = await mongoose.startSession();
   session.startTransaction();
 
@@ -16,32 +23,106 @@ export const createOrderFromCart = async (userId: string): Promise<IOrder> => {
     }
 
     const orderItems = [];
+    // Known up front so the stock movements can refer to the order
+    const orderId = new mongoose.Types.ObjectId();
+
+    // Stock held at checkout is the customer's own. Lapsed holds are given
+    // back first so they do not count against anyone.
+    await ReservationService.releaseReservations(
+      { user: userId, expiresAt: { $lte: new Date() } },
+      'expired',
+      session
+    );
+    const reservations = await StockReservation.find({ user: userId, status: 'active' }).session(session);
+    const convertedIds: mongoose.Types.ObjectId[] = [];
 
-    // Check stock and update inventory
+    // Check the stock of every line first: where the order ships from is
+    // decided for all lines together
+    const products = new Map<string, IProduct>();
+    const lines = [];
     for (const item of cart.items) {
-      const product = await Product.findById(item.productId).session(session);
+      const productKey = String(item.productId?._id ?? item.productId);
+      const product = products.get(productKey) ?? await Product.findById(item.productId).session(session);
 
       if (!product) {
         throw new Error(`Product ${item.productId} not found`);
       }
+      products.set(productKey, product);
+
+      const { variant, price, available, sku } = ProductService.resolvePurchasableItem(product, item.variantId);
+      const label = sku ? `${product.name} (${sku})` : product.name;
+
+      const reservation = reservations.find(held =>
+        held.product.equals(product._id as mongoose.Types.ObjectId) &&
+        String(held.variant ?? '') === String(variant ? variant._id : '')
+      );
+      const held = reservation ? reservation.quantity : 0;
 
-      if (!product.inStock || product.quantity < item.quantity) {
-        throw new Error(`Insufficient stock for ${product.name}. Available: ${product.quantity}, Requested: ${item.quantity}`);
+      if (available + held < item.quantity) {
+        throw new Error(`Insufficient stock for ${label}. Available: ${available + held}, Requested: ${item.quantity}`);
       }
 
-      // Reduce product quantity
-      product.quantity -= item.quantity;
-      if (product.quantity === 0) {
-        product.inStock = false;
+      lines.push({ product, variant, price, sku, label, quantity: item.quantity, reservation, held });
+    }
+
+    const shipments = await FulfillmentService.allocateOrder(
+      lines.map(line => ({
+        product: line.product._id as mongoose.Types.ObjectId,
+        variant: line.variant ? line.variant._id as mongoose.Types.ObjectId : null,
+        label: line.label,
+        quantity: line.quantity
+      })),
+      shippingAddress,
+      session
+    );
+
+    // Update inventory
+    for (const [index, line] of lines.entries()) {
+      const { product, variant, held } = line;
+
+      // Reduce variant or product quantity, and what the reservation held;
+      // for variants the product totals are re-derived on save
+      const stockBefore = InventoryService.snapshotStock(product);
+      if (variant) {
+        variant.quantity -= line.quantity;
+        variant.reserved = Math.max((variant.reserved || 0) - held, 0);
+      } else {
+        product.quantity -= line.quantity;
+        product.reserved = Math.max((product.reserved || 0) - held, 0);
+        if (product.quantity === 0) {
+          product.inStock = false;
+        }
       }
       await product.save({ session });
+      await InventoryService.recordStockChanges(product, stockBefore, {
+        reason: 'sale',
+        actorId: userId,
+        orderId,
+        session,
+        allocations: shipments[index].map(shipment => ({
+          variant: variant ? variant._id as mongoose.Types.ObjectId : null,
+          warehouse: shipment.warehouse._id as mongoose.Types.ObjectId,
+          quantity: -shipment.quantity
+        }))
+      });
+      if (line.reservation) {
+        convertedIds.push(line.reservation._id as mongoose.Types.ObjectId);
+      }
 
       orderItems.push({
         productId: product._id,
+        variantId: variant ? variant._id : null,
+        sku: line.sku,
+        variantOptions: variant ? variant.options.map(option => ({ name: option.name, value: option.value })) : undefined,
         name: product.name,
-        price: product.price,
-        quantity: item.quantity,
-        subtotal: product.price * item.quantity
+        price: line.price,
+        quantity: line.quantity,
+        subtotal: line.price * line.quantity,
+        shipsFrom: shipments[index].map(shipment => ({
+          warehouse: shipment.warehouse._id,
+          code: shipment.warehouse.code,
+          quantity: shipment.quantity
+        }))
       });
     }
 
@@ -49,12 +130,25 @@ export const createOrderFromCart = async (userId: string): Promise<IOrder> => {
 
     // Create order
     const order = await Order.create([{
+      _id: orderId,
       userId: new mongoose.Types.ObjectId(userId),
       items: orderItems,
       totalAmount: totalAmount,
+      shippingAddress,
       status: 'pending'
     }], { session });
 
+    // Reservations become part of the order; holds for lines no longer in
+    // the cart are given back
+    if (convertedIds.length > 0) {
+      await StockReservation.updateMany(
+        { _id: { $in: convertedIds } },
+        { status: 'converted', order: orderId },
+        { session }
+      );
+    }
+    await ReservationService.releaseReservations({ user: userId }, 'released', session);
+
     // Clear cart
     await CartService.clearCart(userId, session);
 
@@ -71,8 +165,13 @@ export const createOrderFromCart = async (userId: string): Promise<IOrder> => {
   }
 };
 
-// Cancel order and restore inventory
-export const cancelOrder = async (orderId: string, userId: string): Promise<IOrder | null> => {
+// Cancel an order and put its stock back where it shipped from, in one
+// transaction. check throws when the order may not be cancelled.
+const cancelWithRestock = async (
+  orderId: string,
+  actorId: string | null,
+  check: (order: IOrder) => void
+): Promise<IOrder> => {
   const session = await mongoose.startSession();
   session.startTransaction();
 
@@ -83,23 +182,44 @@ export const cancelOrder = async (orderId: string, userId: string): Promise<IOrd
       throw new Error('Order not found');
     }
 
-    if (order.userId.toString() !== userId) {
-      throw new Error('Unauthorized to cancel this order');
-    }
-
-    if (order.status !== 'pending') {
-      throw new Error(`Cannot cancel order with status: ${order.status}. Only pending orders can be cancelled.`);
-    }
+    check(order);
 
-    // Restore product inventory
+    // Restore product inventory, including products deleted since (they may be restored)
+    const restocked: mongoose.Types.ObjectId[] = [];
     for (const item of order.items) {
-      const product = await Product.findById(item.productId).session(session);
+      const product = await Product.findById(item.productId).setOptions({ withDeleted: true }).session(session);
       
-      if (product) {
+      if (!product) {
+        continue;
+      }
+
+      const stockBefore = InventoryService.snapshotStock(product);
+      if (item.variantId) {
+        // Variant may have been removed since the order was placed
+        const variant = product.variants.id(item.variantId);
+        if (!variant) {
+          continue;
+        }
+        variant.quantity += item.quantity;
+      } else {
         product.quantity += item.quantity;
         product.inStock = true;
-        await product.save({ session });
       }
+      await product.save({ session });
+      await InventoryService.recordStockChanges(product, stockBefore, {
+        reason: 'cancellation',
+        actorId,
+        orderId: order._id as mongoose.Types.ObjectId,
+        session,
+        // Back to where it shipped from
+        allocations: await FulfillmentService.getReturnAllocations(
+          item.shipsFrom || [],
+          item.variantId || null,
+          item.quantity,
+          session
+        )
+      });
+      restocked.push(product._id as mongoose.Types.ObjectId);
     }
 
     // Update order status
@@ -109,6 +229,9 @@ export const cancelOrder = async (orderId: string, userId: string): Promise<IOrd
     // Commit transaction
     await session.commitTransaction();
 
+    // Subscribers only hear about stock once it is committed
+    restocked.forEach(productId => BackInStockService.notifyRestock(productId));
+
     return order;
   } catch (error) {
     // Rollback transaction on error
@@ -119,6 +242,19 @@ export const cancelOrder = async (orderId: string, userId: string): Promise<IOrd
   }
 };
 
+// Cancel order and restore inventory
+export const cancelOrder = async (orderId: string, userId: string): Promise<IOrder | null> => {
+  return await cancelWithRestock(orderId, userId, order => {
+    if (order.userId.toString() !== userId) {
+      throw new Error('Unauthorized to cancel this order');
+    }
+
+    if (order.status !== 'pending') {
+      throw new Error(`Cannot cancel order with status: ${order.status}. Only pending orders can be cancelled.`);
+    }
+  });
+};
+
 // Get user orders
 export const getUserOrders = async (userId: string): Promise<IOrder[]> => {
   return await Order.find({ userId: new mongoose.Types.ObjectId(userId) })
@@ -155,7 +291,7 @@ export const getAllOrders = async (filters: {
     .sort({ createdAt: -1 })
     .skip(skip)
     .limit(limit)
-    .populate('userId', 'firstName lastName email')
+    .populate({ path: 'userId', select: 'firstName lastName email', options: { withDeleted: true } })
     .exec();
 
   const total = await Order.countDocuments(query);
@@ -171,31 +307,89 @@ export const getAllOrders = async (filters: {
   };
 };
 
-// Admin: Update order status
-export const updateOrderStatus = async (
-  orderId: string,
-  newStatus: 'pending' | 'confirmed' | 'shipped' | 'delivered' | 'cancelled'
-): Promise<IOrder | null> => {
-  const order = await Order.findById(orderId);
+// Vendor: Orders containing the vendor's products, limited to the vendor's own line items
+export const getVendorOrders = async (
+  vendorId: string,
+  filters: { status?: string; page?: number; limit?: number } = {}
+): Promise<{ orders: any[]; pagination: any }> => {
+  // Deleted products still count: their orders remain the vendor's
+  const productIds: mongoose.Types.ObjectId[] = await Product.find({
+    createdBy: new mongoose.Types.ObjectId(vendorId)
+  }).setOptions({ withDeleted: true }).distinct('_id');
 
-  if (!order) {
-    throw new Error('Order not found');
+  const query: any = { 'items.productId': { $in: productIds } };
+
+  if (filters.status) {
+    query.status = filters.status;
   }
 
-  // Validate status transition
-  const validTransitions: Record<string, string[]> = {
-    pending: ['confirmed', 'cancelled'],
-    confirmed: ['shipped', 'cancelled'],
-    shipped: ['delivered'],
-    delivered: [],
-    cancelled: []
+  const page = filters.page || 1;
+  const limit = filters.limit || 10;
+  const skip = (page - 1) * limit;
+
+  const orders = await Order.find(query)
+    .sort({ createdAt: -1 })
+    .skip(skip)
+    .limit(limit)
+    .populate({ path: 'userId', select: 'firstName lastName email', options: { withDeleted: true } })
+    .lean()
+    .exec();
+
+  const total = await Order.countDocuments(query);
+
+  const vendorProductIds = new Set(productIds.map(id => id.toString()));
+
+  return {
+    orders: orders.map(order => {
+      const items = order.items.filter(item => vendorProductIds.has(item.productId.toString()));
+      return {
+        ...order,
+        items,
+        vendorSubtotal: items.reduce((sum, item) => sum + item.subtotal, 0)
+      };
+    }),
+    pagination: {
+      page,
+      limit,
+      total,
+      pages: Math.ceil(total / limit)
+    }
   };
+};
 
-  if (!validTransitions[order.status].includes(newStatus)) {
+const VALID_TRANSITIONS: Record<string, string[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: []
+};
+
+const checkStatusTransition = (order: IOrder, newStatus: string): void => {
+  if (!VALID_TRANSITIONS[order.status].includes(newStatus)) {
     throw new Error(
       `Invalid status transition from ${order.status} to ${newStatus}`
     );
   }
+};
+
+// Admin: Update order status. Cancelling restores stock like a customer cancellation.
+export const updateOrderStatus = async (
+  orderId: string,
+  newStatus: 'pending' | 'confirmed' | 'shipped' | 'delivered' | 'cancelled',
+  actorId: string | null = null
+): Promise<IOrder | null> => {
+  if (newStatus === 'cancelled') {
+    return await cancelWithRestock(orderId, actorId, order => checkStatusTransition(order, newStatus));
+  }
+
+  const order = await Order.findById(orderId);
+
+  if (!order) {
+    throw new Error('Order not found');
+  }
+
+  checkStatusTransition(order, newStatus);
 
   order.status = newStatus;
   return await order.save();
@@ -0,0 +1,161 @@
+import bcrypt from 'bcryptjs';
+import { IUser } from '../models/user.model';
+import { COMMON_PASSWORDS } from '../data/commonPasswords';
+
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  historySize: number;
+}
+
+export interface PasswordViolation {
+  rule: string;
+  message: string;
+}
+
+// Thrown when a password breaks one or more policy rules
+export class PasswordPolicyError extends Error {
+  violations: PasswordViolation[];
+
+  constructor(violations: PasswordViolation[]) {
+    super('Password does not meet the password policy');
+    this.name = 'PasswordPolicyError';
+    this.violations = violations;
+  }
+}
+
+const envFlag = (value: string | undefined, defaultValue: boolean): boolean => {
+  return value === undefined ? defaultValue : value === 'true';
+};
+
+export const getPasswordPolicy = (): PasswordPolicy => ({
+  minLength: parseInt(process.env.PASSWORD_MIN_LENGTH || '8'),
+  maxLength: parseInt(process.env.PASSWORD_MAX_LENGTH || '128'),
+  requireUppercase: envFlag(process.env.PASSWORD_REQUIRE_UPPERCASE, true),
+  requireLowercase: envFlag(process.env.PASSWORD_REQUIRE_LOWERCASE, true),
+  requireDigit: envFlag(process.env.PASSWORD_REQUIRE_DIGIT, true),
+  requireSymbol: envFlag(process.env.PASSWORD_REQUIRE_SYMBOL, false),
+  historySize: parseInt(process.env.PASSWORD_HISTORY_SIZE || '5')
+});
+
+// Personal details the password must not contain
+export interface PasswordContext {
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+}
+
+// Name/email fragments shorter than this are too common to reject on
+const MIN_PERSONAL_FRAGMENT_LENGTH = 3;
+
+export const validatePassword = (
+  password: string,
+  context: PasswordContext = {}
+): PasswordViolation[] => {
+  const policy = getPasswordPolicy();
+  const violations: PasswordViolation[] = [];
+
+  if (typeof password !== 'string') {
+    return [{ rule: 'type', message: 'Password must be a string' }];
+  }
+
+  if (password.length < policy.minLength) {
+    violations.push({
+      rule: 'minLength',
+      message: `Password must be at least ${policy.minLength} characters`
+    });
+  }
+
+  if (password.length > policy.maxLength) {
+    violations.push({
+      rule: 'maxLength',
+      message: `Password cannot exceed ${policy.maxLength} characters`
+    });
+  }
+
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    violations.push({ rule: 'uppercase', message: 'Password must contain an uppercase letter' });
+  }
+
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    violations.push({ rule: 'lowercase', message: 'Password must contain a lowercase letter' });
+  }
+
+  if (policy.requireDigit && !/\d/.test(password)) {
+    violations.push({ rule: 'digit', message: 'Password must contain a digit' });
+  }
+
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    violations.push({ rule: 'symbol', message: 'Password must contain a symbol' });
+  }
+
+  const lowered = password.toLowerCase();
+
+  const personalFragments = [
+    context.email ? context.email.split('@')[0] : undefined,
+    context.firstName,
+    context.lastName
+  ]
+    .filter((fragment): fragment is string => !!fragment && fragment.length >= MIN_PERSONAL_FRAGMENT_LENGTH)
+    .map(fragment => fragment.toLowerCase());
+
+  if (personalFragments.some(fragment => lowered.includes(fragment))) {
+    violations.push({
+      rule: 'personalInfo',
+      message: 'Password must not contain your name or email address'
+    });
+  }
+
+  if (COMMON_PASSWORDS.has(lowered)) {
+    violations.push({
+      rule: 'common',
+      message: 'Password is too common and appears in lists of breached passwords'
+    });
+  }
+
+  return violations;
+};
+
+export const assertPasswordAllowed = (password: string, context: PasswordContext = {}): void => {
+  const violations = validatePassword(password, context);
+  if (violations.length > 0) {
+    throw new PasswordPolicyError(violations);
+  }
+};
+
+// Reject the current password and the ones kept in history.
+// The user must be loaded with +password and +passwordHistory.
+export const assertPasswordNotReused = async (user: IUser, newPassword: string): Promise<void> => {
+  const { historySize } = getPasswordPolicy();
+  if (historySize <= 0) {
+    return;
+  }
+
+  const previousHashes = [user.password, ...(user.passwordHistory || [])]
+    .filter(Boolean)
+    .slice(0, historySize);
+
+  for (const hash of previousHashes) {
+    if (await bcrypt.compare(newPassword, hash)) {
+      throw new PasswordPolicyError([{
+        rule: 'history',
+        message: `Password must differ from your last ${historySize} passwords`
+      }]);
+    }
+  }
+};
+
+// Move the current hash into history before the password is replaced
+export const rememberCurrentPassword = (user: IUser): void => {
+  const { historySize } = getPasswordPolicy();
+  if (!user.password || historySize <= 1) {
+    user.passwordHistory = [];
+    return;
+  }
+
+  user.passwordHistory = [user.password, ...(user.passwordHistory || [])].slice(0, historySize - 1);
+};
@@ -0,0 +1,222 @@
+import crypto from 'crypto';
+import { User } from '../models/user.model';
+import { Order } from '../models/order.model';
+import { Review, syncProductRating } from '../models/review.model';
+import { Cart } from '../models/cart.model';
+import { VendorApplication } from '../models/vendorApplication.model';
+import { StockSubscription } from '../models/stockSubscription.model';
+import { deleteFile } from '../middlewares/upload.middleware';
+import * as SessionService from './session.service';
+import * as ApiKeyService from './apiKey.service';
+import * as AuditService from './audit.service';
+import * as LoginAttemptService from './loginAttempt.service';
+import * as TwoFactorService from './twoFactor.service';
+
+export type ReviewErasurePolicy = 'anonymize' | 'delete';
+
+// What happens to an erased user's reviews: 'anonymize' keeps rating and
+// comment attached to the anonymized account, 'delete' removes them.
+export const getReviewErasurePolicy = (): ReviewErasurePolicy => {
+  return process.env.ERASURE_REVIEW_POLICY === 'delete' ? 'delete' : 'anonymize';
+};
+
+export interface ErasureResult {
+  userId: string;
+  erasedAt: Date;
+  ordersAnonymized: number;
+  reviewPolicy: ReviewErasurePolicy;
+  reviewsAffected: number;
+  cartDeleted: boolean;
+}
+
+// Everything stored about a user, for a self-service data export
+export const exportUserData = async (userId: string): Promise<Record<string, any>> => {
+  const user = await User.findById(userId).select('-password');
+
+  if (!user || user.erasedAt) {
+    throw new Error('User not found');
+  }
+
+  const [orders, reviews, cart, vendorApplications, sessions, apiKeys] = await Promise.all([
+    Order.find({ userId }).sort({ createdAt: -1 }).lean(),
+    Review.find({ user: userId }).populate('product', 'name').sort({ createdAt: -1 }).lean(),
+    Cart.findOne({ userId }).lean(),
+    VendorApplication.find({ userId }).select('-reviewedBy').sort({ createdAt: -1 }).lean(),
+    SessionService.getActiveUserSessions(userId),
+    ApiKeyService.getUserApiKeys(userId)
+  ]);
+
+  return {
+    exportedAt: new Date(),
+    profile: {
+      id: user._id,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      email: user.email,
+      age: user.age,
+      status: user.status,
+      role: user.role,
+      profilePicture: user.profilePicture,
+      emailVerifiedAt: user.emailVerifiedAt,
+      twoFactorEnabled: user.twoFactorEnabled,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt
+    },
+    orders,
+    reviews,
+    cart,
+    vendorApplications,
+    sessions: sessions.map(session => ({
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      lastSeenAt: session.lastSeenAt,
+      createdAt: session.createdAt
+    })),
+    apiKeys: apiKeys.map(apiKey => ({
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes,
+      lastUsedAt: apiKey.lastUsedAt,
+      revokedAt: apiKey.revokedAt,
+      createdAt: apiKey.createdAt
+    }))
+  };
+};
+
+// Erase a user's personal data. The user document is kept as an anonymized
+// tombstone so orders (kept for accounting) still reference a valid account.
+export const eraseUser = async (
+  userId: string,
+  actor: { id: string; ipAddress?: string; userAgent?: string }
+): Promise<ErasureResult> => {
+  // Soft-deleted accounts are erased by the purge job
+  const user = await User.findById(userId).setOptions({ withDeleted: true });
+
+  if (!user || user.erasedAt) {
+    throw new Error('User not found');
+  }
+
+  const originalEmail = user.email;
+  const profilePicture = user.profilePicture;
+  const erasedAt = new Date();
+
+  await SessionService.revokeAllUserSessions(userId, 'account_erased');
+  await ApiKeyService.revokeAllUserApiKeys(userId);
+
+  user.firstName = 'Deleted';
+  user.lastName = 'User';
+  user.email = `erased-${user._id}@erased.invalid`;
+  user.password = crypto.randomBytes(32).toString('hex');
+  user.passwordHistory = [];
+  user.age = undefined;
+  user.status = 'inactive';
+  user.role = 'customer';
+  user.profilePicture = undefined;
+  user.resetPasswordToken = undefined;
+  user.resetPasswordExpire = undefined;
+  user.emailVerificationToken = undefined;
+  user.emailVerificationExpire = undefined;
+  user.twoFactorEnabled = false;
+  user.twoFactorSecret = undefined;
+  user.twoFactorPendingSecret = undefined;
+  user.twoFactorRecoveryCodes = [];
+  user.erasedAt = erasedAt;
+  await user.save();
+
+  if (profilePicture) {
+    try {
+      await deleteFile(profilePicture);
+    } catch (err) {
+      console.error('Failed to delete profile picture:', err);
+    }
+  }
+
+  const cartResult = await Cart.deleteOne({ userId });
+  await VendorApplication.deleteMany({ userId });
+  await StockSubscription.deleteMany({ $or: [{ user: userId }, { email: originalEmail.toLowerCase() }] });
+  await LoginAttemptService.clearFailedLogins(originalEmail);
+
+  // Orders keep their lines and totals for the books. The shipping address is
+  // personal data; only its country is kept, for sales by country. Line 1
+  // and city are required, so they read "Erased".
+  const ordersAnonymized = await Order.countDocuments({ userId });
+  const addressedOrders = await Order.find({ userId, shippingAddress: { $ne: null } }).select('shippingAddress');
+  if (addressedOrders.length > 0) {
+    await Order.bulkWrite(addressedOrders.map(order => ({
+      updateOne: {
+        filter: { _id: order._id },
+        update: {
+          $set: {
+            shippingAddress: { line1: 'Erased', city: 'Erased', country: order.shippingAddress!.country }
+          }
+        }
+      }
+    })));
+  }
+
+  const reviewPolicy = getReviewErasurePolicy();
+  let reviewsAffected: number;
+  if (reviewPolicy === 'delete') {
+    const reviewedProducts = await Review.find({ user: userId }).distinct('product');
+    const reviewResult = await Review.deleteMany({ user: userId });
+    reviewsAffected = reviewResult.deletedCount;
+    await Promise.all(reviewedProducts.map(productId => syncProductRating(productId)));
+  } else {
+    reviewsAffected = await Review.countDocuments({ user: userId });
+  }
+
+  const result: ErasureResult = {
+    userId,
+    erasedAt,
+    ordersAnonymized,
+    reviewPolicy,
+    reviewsAffected,
+    cartDeleted: cartResult.deletedCount > 0
+  };
+
+  AuditService.recordAuditLog({
+    action: 'user.erase',
+    actorId: actor.id,
+    subjectId: userId,
+    ipAddress: actor.ipAddress,
+    userAgent: actor.userAgent,
+    details: {
+      selfService: actor.id === userId,
+      ordersAnonymized,
+      reviewPolicy,
+      reviewsAffected
+    }
+  }).catch(err => console.error('Failed to record erasure audit log:', err));
+
+  return result;
+};
+
+// Self-service erasure: re-check the password (and second factor, when
+// enrolled) before anything is removed.
+export const eraseOwnAccount = async (
+  userId: string,
+  credentials: { password: string; code?: string; recoveryCode?: string },
+  metadata: { ipAddress?: string; userAgent?: string } = {}
+): Promise<ErasureResult> => {
+  const user = await User.findById(userId).select('+password');
+
+  if (!user || user.erasedAt) {
+    throw new Error('User not found');
+  }
+
+  if (!(await user.comparePassword(credentials.password))) {
+    throw new Error('Current password is incorrect');
+  }
+
+  if (user.twoFactorEnabled) {
+    const verified = await TwoFactorService.verifySecondFactor(userId, {
+      code: credentials.code,
+      recoveryCode: credentials.recoveryCode
+    });
+    if (!verified) {
+      throw new Error('Invalid two-factor code');
+    }
+  }
+
+  return await eraseUser(userId, { id: userId, ...metadata });
+};
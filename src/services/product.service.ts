@@ -1,6 +1,11 @@
-import { Product, IProduct } from '../models/product.model';
-import { Category } from '../models/category.model';
-import mongoose from 'mongoose';
+import { Product, IProduct, IProductOption, IProductVariant, IProductAttribute, ProductStatus } from '../models/product.model';
+import { Category, ICategoryAttribute } from '../models/category.model';
+import { Warehouse } from '../models/warehouse.model';
+import { Review } from '../models/review.model';
+import mongoose, { ClientSession } from 'mongoose';
+import * as CategoryService from './category.service';
+import * as InventoryService from './inventory.service';
+import * as BackInStockService from './backInStock.service';
 
 interface ProductFilters {
   category?: string;
@@ -15,33 +20,180 @@ interface PaginationOptions {
   limit?: number;
 }
 
+const coerceAttributeValue = (
+  attribute: ICategoryAttribute,
+  value: unknown
+): string | number | boolean | undefined => {
+  switch (attribute.type) {
+    case 'number': {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+    }
+    case 'boolean':
+      if (value === 'true') return true;
+      if (value === 'false') return false;
+      return typeof value === 'boolean' ? value : undefined;
+    case 'enum':
+      return typeof value === 'string' && attribute.options!.includes(value) ? value : undefined;
+    default:
+      return typeof value === 'string' && value.trim() !== '' && value.length <= 200 ? value.trim() : undefined;
+  }
+};
+
+const describeAttributeType = (attribute: ICategoryAttribute): string => {
+  return attribute.type === 'enum'
+    ? `one of ${attribute.options!.join(', ')}`
+    : `a ${attribute.type}`;
+};
+
+// Check attribute values ({ brand: 'Acme', wattage: 650 }) against the
+// category's attribute schema and convert them to stored key/value pairs
+export const normalizeAttributes = async (
+  categoryId: string | mongoose.Types.ObjectId,
+  input: Record<string, unknown> = {}
+): Promise<IProductAttribute[]> => {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error('Invalid attributes: attributes must be an object of key/value pairs');
+  }
+
+  const category = await Category.findById(categoryId).select('attributeSchema');
+  const attributeSchema = category ? category.attributeSchema : [];
+  const problems: string[] = [];
+  const attributes: IProductAttribute[] = [];
+
+  for (const key of Object.keys(input)) {
+    if (!attributeSchema.some(attribute => attribute.key === key)) {
+      problems.push(`${key} is not an attribute of this category`);
+    }
+  }
+
+  for (const attribute of attributeSchema) {
+    const raw = input[attribute.key];
+
+    if (raw === undefined || raw === null || raw === '') {
+      if (attribute.required) {
+        problems.push(`${attribute.key} is required`);
+      }
+      continue;
+    }
+
+    const value = coerceAttributeValue(attribute, raw);
+    if (value === undefined) {
+      problems.push(`${attribute.key} must be ${describeAttributeType(attribute)}`);
+      continue;
+    }
+
+    attributes.push({ key: attribute.key, value });
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid attributes: ${problems.join('; ')}`);
+  }
+
+  return attributes;
+};
+
+export const attributesToObject = (attributes: IProductAttribute[] = []): Record<string, unknown> => {
+  return Object.fromEntries(attributes.map(attribute => [attribute.key, attribute.value]));
+};
+
+const ATTRIBUTE_OPERATORS: Record<string, string> = {
+  eq: '$eq',
+  ne: '$ne',
+  gt: '$gt',
+  gte: '$gte',
+  lt: '$lt',
+  lte: '$lte',
+  in: '$in'
+};
+
+// Without a category schema, guess the type of a query string value
+const guessAttributeValue = (raw: string): string | number | boolean => {
+  if (raw === 'true') return true;
+  if (raw === 'false') return false;
+  return raw.trim() !== '' && Number.isFinite(Number(raw)) ? Number(raw) : raw;
+};
+
+// Turn attr.<key>=value and attr.<key>[op]=value query parameters into
+// $elemMatch conditions on the attributes index. With a category schema the
+// keys are checked and values converted to the declared types.
+export const buildAttributeFilters = (
+  query: Record<string, unknown>,
+  attributeSchema?: ICategoryAttribute[]
+): Record<string, any>[] => {
+  const conditionsByKey = new Map<string, Record<string, any>>();
+
+  for (const [param, rawValue] of Object.entries(query)) {
+    const match = /^attr\.([a-zA-Z0-9_]+)(?:\[([a-z]+)\])?$/.exec(param);
+    if (!match) {
+      continue;
+    }
+
+    const [, key, operatorName = 'eq'] = match;
+    const operator = ATTRIBUTE_OPERATORS[operatorName];
+    if (!operator) {
+      throw new Error(`Invalid attribute filter: unknown operator ${operatorName}`);
+    }
+
+    const attribute = attributeSchema?.find(candidate => candidate.key === key);
+    if (attributeSchema && !attribute) {
+      throw new Error(`Invalid attribute filter: ${key} is not an attribute of this category`);
+    }
+
+    const convert = (raw: string) => {
+      if (!attribute) {
+        return guessAttributeValue(raw);
+      }
+      const value = coerceAttributeValue(attribute, raw);
+      if (value === undefined) {
+        throw new Error(`Invalid attribute filter: ${key} must be ${describeAttributeType(attribute)}`);
+      }
+      return value;
+    };
+
+    const rawValues = (Array.isArray(rawValue) ? rawValue : [rawValue]).map(String);
+    const condition = conditionsByKey.get(key) || {};
+
+    if (operator === '$in') {
+      condition.$in = rawValues.flatMap(value => value.split(',')).map(convert);
+    } else if (operator === '$eq' && rawValues.length > 1) {
+      condition.$in = rawValues.map(convert);
+    } else {
+      condition[operator] = convert(rawValues[rawValues.length - 1]);
+    }
+
+    conditionsByKey.set(key, condition);
+  }
+
+  return [...conditionsByKey.entries()].map(([key, condition]) => ({
+    attributes: { $elemMatch: { key, value: condition } }
+  }));
+};
+
 export const createProduct = async (productData: Partial<IProduct>): Promise<IProduct> => {
   const product = new Product(productData);
   return await product.save();
 };
 
-const resolveCategoryId = async (category?: string) => {
+// A category (by ID, path or slug) and all of its descendants
+const resolveCategoryIds = async (category?: string) => {
   if (!category) {
     return undefined;
   }
 
-  if (mongoose.isValidObjectId(category)) {
-    return new mongoose.Types.ObjectId(category);
-  }
-
-  const categoryDoc = await Category.findOne({ slug: category });
-  return categoryDoc ? categoryDoc._id : undefined;
+  const categoryDoc = await CategoryService.resolveCategory(category);
+  return categoryDoc ? await CategoryService.getSubtreeIds(categoryDoc._id as mongoose.Types.ObjectId) : undefined;
 };
 
 export const getAllProducts = async (
   filters: ProductFilters = {},
   pagination: PaginationOptions = {}
 ) => {
-  const query: any = {};
+  const query: any = { status: 'published' };
   
   if (filters.category) {
-    const categoryId = await resolveCategoryId(filters.category);
-    if (!categoryId) {
+    const categoryIds = await resolveCategoryIds(filters.category);
+    if (!categoryIds) {
       return {
         products: [],
         pagination: {
@@ -52,7 +204,13 @@ export const getAllProducts = async (
         }
       };
     }
-    query.category = categoryId;
+    query.category = { $in: categoryIds };
+  }
+
+  // Products in archived categories are hidden from listings
+  const archivedCategoryIds = await CategoryService.getArchivedCategoryIds();
+  if (archivedCategoryIds.length > 0) {
+    query.category = { ...query.category, $nin: archivedCategoryIds };
   }
   
   if (filters.inStock !== undefined) {
@@ -69,19 +227,17 @@ export const getAllProducts = async (
     }
   }
   
+  // Use the text index and rank by relevance rather than scanning with a regex
   if (filters.search) {
-    query.$or = [
-      { name: { $regex: filters.search, $options: 'i' } },
-      { description: { $regex: filters.search, $options: 'i' } }
-    ];
+    query.$text = { $search: filters.search };
   }
 
   const page = pagination.page || 1;
   const limit = pagination.limit || 10;
   const skip = (page - 1) * limit;
 
-  const products = await Product.find(query)
-    .sort({ createdAt: -1 })
+  const products = await Product.find(query, filters.search ? { score: { $meta: 'textScore' } } : {})
+    .sort(filters.search ? { score: { $meta: 'textScore' } } : { createdAt: -1 })
     .skip(skip)
     .limit(limit)
     .populate('category', 'name slug')
@@ -101,7 +257,7 @@ export const getAllProducts = async (
 };
 
 export const getProductById = async (id: string): Promise<IProduct | null> => {
-  return await Product.findById(id).populate('category', 'name slug');
+  return await Product.findById(id).populate('category', 'name slug path');
 };
 
 export const updateProduct = async (
@@ -115,11 +271,174 @@ export const updateProduct = async (
   );
 };
 
-export const deleteProduct = async (id: string): Promise<boolean> => {
-  const result = await Product.findByIdAndDelete(id);
+// Soft delete: the product disappears from listings but orders and reviews
+// keep their reference until the purge job removes it
+export const deleteProduct = async (id: string, deletedBy?: string): Promise<boolean> => {
+  const result = await Product.findByIdAndUpdate(id, {
+    deletedAt: new Date(),
+    deletedBy: deletedBy || null
+  });
   return !!result;
 };
 
+export const getDeletedProductById = async (id: string): Promise<IProduct | null> => {
+  return await Product.findOne({ _id: id, deletedAt: { $ne: null } });
+};
+
+export const restoreProduct = async (id: string): Promise<IProduct | null> => {
+  const product = await getDeletedProductById(id);
+  if (!product) {
+    return null;
+  }
+
+  if (!(await Category.exists({ _id: product.category }))) {
+    throw new Error('Restore the product category first');
+  }
+
+  product.deletedAt = null;
+  product.deletedBy = null;
+  return await product.save();
+};
+
+
+// Publishing workflow: draft -> in_review -> published -> archived. Each step
+// checks the current status so a stale request cannot skip review.
+
+export const submitForReview = async (product: IProduct): Promise<IProduct> => {
+  if (product.status !== 'draft' && product.status !== 'archived') {
+    throw new Error(`Cannot submit a product that is ${product.status}`);
+  }
+
+  product.status = 'in_review';
+  product.submittedAt = new Date();
+  product.approvedAt = null;
+  product.approvedBy = null;
+  product.reviewNote = undefined;
+  return await product.save();
+};
+
+// Approved products go live now, or stay in review until publishAt when
+// that is in the future (the schedule job publishes them)
+export const approveProduct = async (product: IProduct, reviewerId: string): Promise<IProduct> => {
+  if (product.status !== 'in_review') {
+    throw new Error(`Cannot approve a product that is ${product.status}`);
+  }
+
+  const now = new Date();
+  product.approvedAt = now;
+  product.approvedBy = new mongoose.Types.ObjectId(reviewerId);
+  product.reviewNote = undefined;
+
+  if (!product.publishAt || product.publishAt <= now) {
+    product.status = 'published';
+    product.publishedAt = now;
+  }
+  return await product.save();
+};
+
+export const rejectProduct = async (
+  product: IProduct,
+  note?: string
+): Promise<IProduct> => {
+  if (product.status !== 'in_review') {
+    throw new Error(`Cannot reject a product that is ${product.status}`);
+  }
+
+  product.status = 'draft';
+  product.approvedAt = null;
+  product.approvedBy = null;
+  product.reviewNote = note;
+  return await product.save();
+};
+
+// What a reviewer approves; stock, schedule and reorder settings are not reviewed
+const REVIEWED_FIELDS = ['name', 'description', 'price', 'category', 'attributes', 'images', 'options', 'variants'];
+
+// Content edits to a live product (or an approved one waiting for publishAt)
+// by someone who cannot publish send it back to review, so an approval only
+// covers content a reviewer has seen
+export const editRequiresReview = (product: IProduct, changedFields: string[], canPublish: boolean): boolean => {
+  if (canPublish) {
+    return false;
+  }
+  const approved = product.status === 'published' || (product.status === 'in_review' && !!product.approvedAt);
+  return approved && changedFields.some(field => REVIEWED_FIELDS.includes(field));
+};
+
+export const getReviewResetFields = () => ({
+  status: 'in_review' as ProductStatus,
+  submittedAt: new Date(),
+  approvedAt: null,
+  approvedBy: null
+});
+
+export const archiveProduct = async (product: IProduct): Promise<IProduct> => {
+  if (product.status === 'archived') {
+    throw new Error('Cannot archive a product that is archived');
+  }
+
+  product.status = 'archived';
+  product.approvedAt = null;
+  return await product.save();
+};
+
+// Publish approved products whose publishAt has passed and archive published
+// products whose unpublishAt has passed
+export const applyProductSchedule = async (
+  now: Date = new Date()
+): Promise<{ published: number; unpublished: number }> => {
+  const published = await Product.updateMany(
+    { status: 'in_review', approvedAt: { $ne: null }, publishAt: { $lte: now } },
+    { status: 'published', publishedAt: now }
+  );
+
+  const unpublished = await Product.updateMany(
+    { status: 'published', unpublishAt: { $lte: now } },
+    { status: 'archived' }
+  );
+
+  return { published: published.modifiedCount, unpublished: unpublished.modifiedCount };
+};
+
+// Products created before the publishing workflow were all public
+export const backfillProductStatus = async (): Promise<number> => {
+  const result = await Product.updateMany(
+    { status: { $exists: false } },
+    { status: 'published' }
+  ).setOptions({ withDeleted: true });
+  return result.modifiedCount;
+};
+
+// Products from before ratings were denormalized get them from their reviews
+export const backfillProductRatings = async (): Promise<number> => {
+  const productIds = await Product.find({ ratingCount: { $exists: false } })
+    .setOptions({ withDeleted: true })
+    .distinct('_id');
+  if (productIds.length === 0) {
+    return 0;
+  }
+
+  const stats = await Review.aggregate([
+    { $match: { product: { $in: productIds } } },
+    { $group: { _id: '$product', average: { $avg: '$rating' }, count: { $sum: 1 } } }
+  ]);
+  const statsById = new Map(stats.map(stat => [stat._id.toString(), stat]));
+
+  const result = await Product.bulkWrite(productIds.map(productId => {
+    const stat = statsById.get(productId.toString());
+    return {
+      updateOne: {
+        filter: { _id: productId },
+        update: {
+          ratingAverage: stat ? Math.round(stat.average * 10) / 10 : 0,
+          ratingCount: stat ? stat.count : 0
+        },
+        timestamps: false
+      }
+    };
+  }));
+  return result.modifiedCount;
+};
 
 export const createMultipleProducts = async (
   productsData: Partial<IProduct>[]
@@ -127,13 +446,19 @@ export const createMultipleProducts = async (
   return await Product.insertMany(productsData);
 };
 
-export const deleteMultipleProducts = async (ids: string[]): Promise<number> => {
-  const result = await Product.deleteMany({ _id: { $in: ids } });
-  return result.deletedCount;
+export const deleteMultipleProducts = async (ids: string[], deletedBy?: string): Promise<number> => {
+  const result = await Product.updateMany(
+    { _id: { $in: ids } },
+    { deletedAt: new Date(), deletedBy: deletedBy || null }
+  );
+  return result.modifiedCount;
 };
 
 export const getCategoryStats = async () => {
   return await Product.aggregate([
+    {
+      $match: { status: 'published' }
+    },
     {
       $group: {
         _id: '$category',
@@ -174,11 +499,12 @@ export const getCategoryStats = async () => {
 };
 
 export const getProductsByCategory = async (category: string): Promise<IProduct[]> => {
-  const categoryId = await resolveCategoryId(category);
-  if (!categoryId) {
+  const categoryIds = await resolveCategoryIds(category);
+  if (!categoryIds) {
     return [];
   }
-  return await Product.find({ category: categoryId })
+  const archivedCategoryIds = await CategoryService.getArchivedCategoryIds();
+  return await Product.find({ category: { $in: categoryIds, $nin: archivedCategoryIds }, status: 'published' })
     .sort({ name: 1 })
     .populate('category', 'name slug');
 };
@@ -191,14 +517,201 @@ export const getOutOfStockProducts = async (): Promise<IProduct[]> => {
   return await Product.find({ $or: [{ inStock: false }, { quantity: 0 }] });
 };
 
+// The sellable unit a cart or order line refers to: the chosen variant when
+// the product has variants, otherwise the product itself. available leaves out
+// what checkout reservations hold.
+export const resolvePurchasableItem = (
+  product: IProduct,
+  variantId?: string | mongoose.Types.ObjectId | null
+): { variant?: IProductVariant; price: number; available: number; reserved: number; sku?: string } => {
+  if (product.status !== 'published') {
+    throw new Error(`${product.name} is not available for purchase`);
+  }
+
+  if (product.variants && product.variants.length > 0) {
+    if (!variantId) {
+      throw new Error(`Please choose a variant of ${product.name}`);
+    }
+
+    const variant = product.variants.id(variantId);
+    if (!variant) {
+      throw new Error('Variant not found');
+    }
+
+    return {
+      variant,
+      price: variant.price,
+      available: Math.max(variant.quantity - (variant.reserved || 0), 0),
+      reserved: variant.reserved || 0,
+      sku: variant.sku
+    };
+  }
+
+  if (variantId) {
+    throw new Error('Variant not found');
+  }
+
+  return {
+    price: product.price,
+    available: product.inStock ? Math.max(product.quantity - (product.reserved || 0), 0) : 0,
+    reserved: product.reserved || 0
+  };
+};
+
+// Stock set for one warehouse changes the total by the difference
+const totalForWarehouseQuantity = async (
+  productId: string,
+  variantId: string | null,
+  warehouseId: string | mongoose.Types.ObjectId,
+  quantity: number,
+  currentTotal: number,
+  session: ClientSession
+): Promise<number> => {
+  if (!await Warehouse.exists({ _id: warehouseId, isActive: true }).session(session)) {
+    throw new Error('Warehouse not found');
+  }
+  return currentTotal - await InventoryService.getLevelQuantity(productId, variantId, warehouseId, session) + quantity;
+};
+
+// Run a stock update in a transaction, so the ledger records the change from
+// the stock the update replaced. A checkout or cancellation committing in
+// between makes the transaction fail instead of being overwritten unseen.
+const runStockTransaction = async <T>(update: (session: ClientSession) => Promise<T>): Promise<T> => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const result = await update(session);
+    await session.commitTransaction();
+    return result;
+  } catch (error: any) {
+    await session.abortTransaction();
+    if (error.errorLabels?.includes('TransientTransactionError')) {
+      throw new Error('Stock changed during the update; please try again');
+    }
+    throw error;
+  } finally {
+    session.endSession();
+  }
+};
+
+// A stock update that tells waiting subscribers when it added stock
+const withStockTransaction = async (
+  update: (session: ClientSession) => Promise<{ product: IProduct; before: InventoryService.StockSnapshot } | null>
+): Promise<IProduct | null> => {
+  const result = await runStockTransaction(update);
+  if (!result) {
+    return null;
+  }
+  if (InventoryService.hasStockAdded(result.product, result.before)) {
+    BackInStockService.notifyRestock(result.product._id as mongoose.Types.ObjectId);
+  }
+  return result.product;
+};
+
+// With movement.warehouseId, quantity is the stock at that warehouse
+export const updateVariantStock = async (
+  id: string,
+  variantId: string,
+  quantity: number,
+  movement: InventoryService.StockMovementContext = { reason: 'adjustment' }
+): Promise<IProduct | null> => {
+  return await withStockTransaction(async session => {
+    const product = await Product.findById(id).session(session);
+    if (!product) {
+      return null;
+    }
+
+    const variant = product.variants.id(variantId);
+    if (!variant) {
+      throw new Error('Variant not found');
+    }
+
+    const before = InventoryService.snapshotStock(product);
+    variant.quantity = movement.warehouseId
+      ? await totalForWarehouseQuantity(id, variantId, movement.warehouseId, quantity, variant.quantity, session)
+      : quantity;
+    await product.save({ session });
+    await InventoryService.recordStockChanges(product, before, { ...movement, session });
+    return { product, before };
+  });
+};
+
+// With movement.warehouseId, quantity is the stock at that warehouse
 export const updateStock = async (
   id: string,
-  quantity: number
+  quantity: number,
+  movement: InventoryService.StockMovementContext = { reason: 'adjustment' }
 ): Promise<IProduct | null> => {
-  const inStock = quantity > 0;
-  return await Product.findByIdAndUpdate(
-    id,
-    { quantity, inStock },
-    { new: true, runValidators: true }
-  );
+  return await withStockTransaction(async session => {
+    const product = await Product.findById(id).select('sku quantity variants').session(session);
+    if (!product) {
+      return null;
+    }
+    if (product.variants.length > 0) {
+      throw new Error('Stock of a product with variants is set per variant');
+    }
+
+    const before = InventoryService.snapshotStock(product);
+    const total = movement.warehouseId
+      ? await totalForWarehouseQuantity(id, null, movement.warehouseId, quantity, product.quantity, session)
+      : quantity;
+    const updatedProduct = await Product.findByIdAndUpdate(
+      id,
+      { quantity: total, inStock: total > 0 },
+      { new: true, runValidators: true, session }
+    );
+    if (!updatedProduct) {
+      return null;
+    }
+    await InventoryService.recordStockChanges(updatedProduct, before, { ...movement, session });
+    return { product: updatedProduct, before };
+  });
+};
+
+// Update a product's details and, when given, replace its option axes and
+// variants. Variants go through save() so they are validated and the
+// product-level price and stock re-derived; existing variants keep their IDs
+// (and cart lines) when _id is passed back. Stock changed by the update is
+// recorded in the ledger from the stock it replaced, in one transaction, and
+// stock it added is announced to waiting subscribers.
+export const updateProductDetails = async (
+  id: string,
+  updateData: Partial<IProduct>,
+  variantChange: { options: IProductOption[]; variants: Partial<IProductVariant>[] } | null,
+  movement: InventoryService.StockMovementContext
+): Promise<IProduct | null> => {
+  return await withStockTransaction(async session => {
+    const product = await Product.findById(id).session(session);
+    if (!product) {
+      return null;
+    }
+
+    const before = InventoryService.snapshotStock(product);
+
+    // Variants first: a rejected set leaves the product untouched
+    if (variantChange) {
+      // Reservations follow a variant by its id: kept variants keep what is
+      // reserved on them, whatever the client sent
+      const reservedById = new Map(product.variants.map(variant => [String(variant._id), variant.reserved || 0]));
+
+      product.options = variantChange.options;
+      product.set('variants', variantChange.variants.map(variant => ({
+        ...variant,
+        reserved: (variant._id && reservedById.get(String(variant._id))) || 0
+      })));
+      await product.save({ session });
+    }
+
+    const updatedProduct = await Product.findByIdAndUpdate(
+      id,
+      updateData,
+      { new: true, runValidators: true, session }
+    );
+    if (!updatedProduct) {
+      return null;
+    }
+    await InventoryService.recordStockChanges(updatedProduct, before, { ...movement, session });
+    return { product: updatedProduct, before };
+  });
 };
@@ -0,0 +1,546 @@
+import mongoose from 'mongoose';
+import { Product, IProduct, ProductStatus } from '../models/product.model';
+import { ImportJob, IImportJob, IImportRowError, ImportFormat } from '../models/importJob.model';
+import { parseCsv, toCsvRow } from '../utils/csv.helper';
+import * as ProductService from './product.service';
+import * as CategoryService from './category.service';
+import * as InventoryService from './inventory.service';
+import * as BackInStockService from './backInStock.service';
+
+// Who runs an import: vendors may only touch their own products, and only
+// users with products:publish can publish on import
+export interface ImportActor {
+  id: string;
+  canManageAll: boolean;
+  canPublish: boolean;
+}
+
+// One product (or variant) row of an import file, keyed by SKU
+export interface ImportRow {
+  row: number;
+  sku?: string;
+  name?: string;
+  description?: string;
+  category?: string;
+  price?: unknown;
+  quantity?: unknown;
+  status?: string;
+  images?: string[];
+  attributes?: Record<string, unknown>;
+  // Set when the line itself could not be read
+  parseError?: string;
+}
+
+export type ImportAction = 'create' | 'update' | 'error';
+
+export interface ImportRowResult {
+  row: number;
+  sku?: string;
+  action: ImportAction;
+  productId?: string;
+  messages?: string[];
+}
+
+export interface ImportSummary {
+  totalRows: number;
+  created: number;
+  updated: number;
+  failed: number;
+}
+
+// Columns written by the export and read by the import. Attributes use one
+// attr.<key> column each; options (which variant a row is) is informational.
+// Columns read into the row as the text of the cell
+const CSV_TEXT_COLUMNS = ['sku', 'name', 'description', 'category', 'price', 'quantity', 'status'] as const;
+const CSV_COLUMNS: string[] = [...CSV_TEXT_COLUMNS, 'images'];
+const INFORMATIONAL_COLUMNS = ['options'];
+const ATTRIBUTE_PREFIX = 'attr.';
+
+// Row errors stored on a job; the counts stay exact beyond this
+const MAX_STORED_ROW_ERRORS = 1000;
+const PROGRESS_EVERY_ROWS = 100;
+
+export const getMaxImportRows = (): number => {
+  return parseInt(process.env.IMPORT_MAX_ROWS || '10000');
+};
+
+// Files with more rows than this are imported by a background job
+export const getSyncImportRowLimit = (): number => {
+  return parseInt(process.env.IMPORT_SYNC_MAX_ROWS || '500');
+};
+
+export const detectImportFormat = (fileName: string, requested?: string): ImportFormat | null => {
+  if (requested) {
+    return requested === 'csv' || requested === 'jsonl' ? requested : null;
+  }
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith('.csv')) return 'csv';
+  if (lower.endsWith('.jsonl') || lower.endsWith('.ndjson')) return 'jsonl';
+  return null;
+};
+
+const isCsvTextColumn = (column: string): column is typeof CSV_TEXT_COLUMNS[number] => {
+  return (CSV_TEXT_COLUMNS as readonly string[]).includes(column);
+};
+
+const parseCsvRows = (text: string): ImportRow[] => {
+  const [header, ...lines] = parseCsv(text);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map(column => column.trim().toLowerCase());
+  const unknown = columns.filter(column =>
+    !CSV_COLUMNS.includes(column) &&
+    !INFORMATIONAL_COLUMNS.includes(column) &&
+    !(column.startsWith(ATTRIBUTE_PREFIX) && column.length > ATTRIBUTE_PREFIX.length)
+  );
+  if (!columns.includes('sku')) {
+    throw new Error('Invalid import file: the sku column is required');
+  }
+  if (unknown.length > 0) {
+    throw new Error(`Invalid import file: unknown columns ${unknown.join(', ')}`);
+  }
+
+  return lines.map((cells, index) => {
+    const row: ImportRow = { row: index + 1 };
+    const attributes: Record<string, unknown> = {};
+
+    columns.forEach((column, position) => {
+      // Empty cells leave the field unchanged. The apostrophe the export puts
+      // in front of formula-like text is removed again.
+      const value = (cells[position] ?? '').trim().replace(/^'(?=[=+\-@])/, '');
+      if (value === '') {
+        return;
+      }
+
+      if (column.startsWith(ATTRIBUTE_PREFIX)) {
+        // Header case is kept for attribute keys
+        attributes[header[position].trim().slice(ATTRIBUTE_PREFIX.length)] = value;
+      } else if (column === 'images') {
+        row.images = value.split('|').map(image => image.trim()).filter(Boolean);
+      } else if (isCsvTextColumn(column)) {
+        row[column] = value;
+      }
+    });
+
+    if (Object.keys(attributes).length > 0) {
+      row.attributes = attributes;
+    }
+    return row;
+  });
+};
+
+const parseJsonLines = (text: string): ImportRow[] => {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map((line, index) => {
+      const row: ImportRow = { row: index + 1 };
+      try {
+        const data = JSON.parse(line);
+        if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+          throw new Error('not an object');
+        }
+        const { sku, name, description, category, price, quantity, status, images, attributes } = data;
+        return { ...row, sku, name, description, category, price, quantity, status, images, attributes };
+      } catch (error: any) {
+        return { ...row, parseError: `Invalid JSON: ${error.message}` };
+      }
+    });
+};
+
+export const parseImportFile = (buffer: Buffer, format: ImportFormat): ImportRow[] => {
+  const text = buffer.toString('utf8');
+  const rows = format === 'csv' ? parseCsvRows(text) : parseJsonLines(text);
+
+  if (rows.length === 0) {
+    throw new Error('Invalid import file: no rows found');
+  }
+  if (rows.length > getMaxImportRows()) {
+    throw new Error(`Invalid import file: at most ${getMaxImportRows()} rows can be imported at once`);
+  }
+  return rows;
+};
+
+const validationMessages = (error: any): string[] => {
+  if (error.name === 'ValidationError') {
+    return Object.values(error.errors).map((fieldError: any) => fieldError.message);
+  }
+  if (error.code === 11000) {
+    return ['A product with this SKU already exists'];
+  }
+  return [error.message];
+};
+
+// State shared by the rows of one import
+interface ImportContext {
+  actor: ImportActor;
+  dryRun: boolean;
+  jobId?: string;
+  categories: Map<string, mongoose.Types.ObjectId | null>;
+  seenSkus: Map<string, number>;
+}
+
+const resolveCategoryId = async (context: ImportContext, value: string) => {
+  if (!context.categories.has(value)) {
+    const category = await CategoryService.resolveCategory(value);
+    context.categories.set(value, category ? category._id as mongoose.Types.ObjectId : null);
+  }
+  return context.categories.get(value)!;
+};
+
+const readNumber = (value: unknown, integer: boolean): number | undefined => {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const number = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(number) || (integer && !Number.isInteger(number))) {
+    return NaN;
+  }
+  return number;
+};
+
+// Validate one row and, unless this is a dry run, create or update its product.
+// A row matching a variant SKU sets that variant's price and quantity.
+const importRow = async (row: ImportRow, context: ImportContext): Promise<ImportRowResult> => {
+  const { actor } = context;
+  const sku = typeof row.sku === 'string' ? row.sku.trim().toUpperCase() : '';
+  const fail = (messages: string[]): ImportRowResult => ({ row: row.row, sku: sku || undefined, action: 'error', messages });
+
+  if (row.parseError) {
+    return fail([row.parseError]);
+  }
+  if (!sku) {
+    return fail(['sku is required']);
+  }
+
+  const duplicateOf = context.seenSkus.get(sku);
+  if (duplicateOf !== undefined) {
+    return fail([`SKU ${sku} already appears in row ${duplicateOf}`]);
+  }
+  context.seenSkus.set(sku, row.row);
+
+  const messages: string[] = [];
+  const price = readNumber(row.price, false);
+  const quantity = readNumber(row.quantity, true);
+
+  if (price !== undefined && (Number.isNaN(price) || price <= 0)) {
+    messages.push('price must be a number greater than 0');
+  }
+  if (quantity !== undefined && (Number.isNaN(quantity) || quantity < 0)) {
+    messages.push('quantity must be a whole number of at least 0');
+  }
+  if (row.images !== undefined && (!Array.isArray(row.images) || row.images.some(image => typeof image !== 'string'))) {
+    messages.push('images must be a list of URLs');
+  }
+
+  let categoryId: mongoose.Types.ObjectId | null = null;
+  if (row.category !== undefined) {
+    categoryId = await resolveCategoryId(context, String(row.category));
+    if (!categoryId) {
+      messages.push(`Category ${row.category} not found`);
+    }
+  }
+
+  const existing = await Product.findOne({ $or: [{ sku }, { 'variants.sku': sku }] })
+    .setOptions({ withDeleted: true });
+
+  if (existing && existing.deletedAt) {
+    messages.push('SKU belongs to a deleted product; restore it first');
+  } else if (existing && !actor.canManageAll &&
+             (!existing.createdBy || existing.createdBy.toString() !== actor.id)) {
+    messages.push("SKU belongs to another vendor's product");
+  }
+
+  if (existing && row.status !== undefined && row.status !== existing.status) {
+    messages.push('status of an existing product changes through the submit, approve, reject and archive endpoints');
+  }
+
+  const allowedStatuses = actor.canPublish ? ['draft', 'in_review', 'published'] : ['draft', 'in_review'];
+  const initialStatus = row.status ?? 'draft';
+  if (!existing && !allowedStatuses.includes(initialStatus)) {
+    messages.push(`status must be one of ${allowedStatuses.join(', ')}`);
+  }
+
+  if (!existing) {
+    if (!row.name) messages.push('name is required for a new product');
+    if (!row.category) messages.push('category is required for a new product');
+    if (price === undefined) messages.push('price is required for a new product');
+  }
+
+  if (messages.length > 0) {
+    return fail(messages);
+  }
+
+  const stockBefore = InventoryService.snapshotStock(existing);
+  let product: IProduct;
+  try {
+    const targetCategoryId = categoryId ?? existing?.category;
+    const attributes = row.attributes !== undefined || categoryId
+      ? await ProductService.normalizeAttributes(
+          targetCategoryId!,
+          row.attributes ?? ProductService.attributesToObject(existing?.attributes)
+        )
+      : undefined;
+
+    product = existing ?? new Product({
+      sku,
+      status: initialStatus === 'draft' ? 'draft' : 'in_review',
+      submittedAt: initialStatus === 'draft' ? null : new Date(),
+      createdBy: new mongoose.Types.ObjectId(actor.id)
+    });
+
+    if (row.name !== undefined) product.name = String(row.name);
+    if (row.description !== undefined) product.description = String(row.description);
+    if (categoryId) product.category = categoryId;
+    if (attributes) product.attributes = attributes;
+    if (row.images !== undefined) product.images = row.images;
+
+    const variant = product.variants.find(item => item.sku === sku);
+    const target = variant ?? product;
+    if (price !== undefined) target.price = price;
+    if (quantity !== undefined) {
+      target.quantity = quantity;
+      if (!variant) product.inStock = quantity > 0;
+    }
+
+    // Same rule as editing through the API: content changes to a live
+    // product by a vendor who cannot publish need a new review
+    const contentFields = [
+      ...(row.name !== undefined ? ['name'] : []),
+      ...(row.description !== undefined ? ['description'] : []),
+      ...(categoryId ? ['category'] : []),
+      ...(attributes ? ['attributes'] : []),
+      ...(row.images !== undefined ? ['images'] : []),
+      ...(price !== undefined ? ['price'] : [])
+    ];
+    if (existing && ProductService.editRequiresReview(existing, contentFields, actor.canPublish)) {
+      product.set(ProductService.getReviewResetFields());
+    }
+
+    await product.validate();
+  } catch (error: any) {
+    return fail(validationMessages(error));
+  }
+
+  const action: ImportAction = existing ? 'update' : 'create';
+  if (context.dryRun) {
+    return { row: row.row, sku, action, productId: existing ? existing._id.toString() : undefined };
+  }
+
+  try {
+    await product.save();
+    await InventoryService.recordStockChanges(product, stockBefore, {
+      reason: 'import',
+      actorId: actor.id,
+      note: context.jobId ? `Import job ${context.jobId}` : undefined
+    });
+    if (InventoryService.hasStockAdded(product, stockBefore)) {
+      BackInStockService.notifyRestock(product._id as mongoose.Types.ObjectId);
+    }
+    if (initialStatus === 'published' && !existing) {
+      await ProductService.approveProduct(product, actor.id);
+    }
+  } catch (error: any) {
+    return fail(validationMessages(error));
+  }
+
+  return { row: row.row, sku, action, productId: product._id.toString() };
+};
+
+const countResult = (summary: ImportSummary, result: ImportRowResult) => {
+  if (result.action === 'create') summary.created++;
+  else if (result.action === 'update') summary.updated++;
+  else summary.failed++;
+};
+
+// Import rows in file order; with dryRun nothing is written
+export const importProducts = async (
+  rows: ImportRow[],
+  actor: ImportActor,
+  options: { dryRun?: boolean } = {}
+): Promise<{ summary: ImportSummary; results: ImportRowResult[] }> => {
+  const context: ImportContext = { actor, dryRun: !!options.dryRun, categories: new Map(), seenSkus: new Map() };
+  const summary: ImportSummary = { totalRows: rows.length, created: 0, updated: 0, failed: 0 };
+  const results: ImportRowResult[] = [];
+
+  for (const row of rows) {
+    const result = await importRow(row, context);
+    countResult(summary, result);
+    results.push(result);
+  }
+
+  return { summary, results };
+};
+
+const processImportJob = async (jobId: mongoose.Types.ObjectId, rows: ImportRow[], actor: ImportActor) => {
+  const job = await ImportJob.findById(jobId);
+  if (!job) {
+    return;
+  }
+
+  job.status = 'running';
+  job.startedAt = new Date();
+  await job.save();
+
+  const context: ImportContext = {
+    actor,
+    dryRun: job.dryRun,
+    jobId: jobId.toString(),
+    categories: new Map(),
+    seenSkus: new Map()
+  };
+  const summary: ImportSummary = { totalRows: rows.length, created: 0, updated: 0, failed: 0 };
+  const rowErrors: IImportRowError[] = [];
+
+  try {
+    for (const [index, row] of rows.entries()) {
+      const result = await importRow(row, context);
+      countResult(summary, result);
+      if (result.action === 'error' && rowErrors.length < MAX_STORED_ROW_ERRORS) {
+        rowErrors.push({ row: result.row, sku: result.sku, messages: result.messages! });
+      }
+
+      if ((index + 1) % PROGRESS_EVERY_ROWS === 0) {
+        await ImportJob.updateOne({ _id: jobId }, {
+          processedRows: index + 1,
+          created: summary.created,
+          updated: summary.updated,
+          failed: summary.failed
+        });
+      }
+    }
+
+    await ImportJob.updateOne({ _id: jobId }, {
+      status: 'completed',
+      processedRows: rows.length,
+      created: summary.created,
+      updated: summary.updated,
+      failed: summary.failed,
+      rowErrors,
+      completedAt: new Date()
+    });
+  } catch (error: any) {
+    await ImportJob.updateOne({ _id: jobId }, {
+      status: 'failed',
+      created: summary.created,
+      updated: summary.updated,
+      failed: summary.failed,
+      rowErrors,
+      error: error.message,
+      completedAt: new Date()
+    });
+  }
+};
+
+// Queue a background import and return right away; poll the job for progress
+export const startImportJob = async (
+  rows: ImportRow[],
+  actor: ImportActor,
+  options: { fileName?: string; format: ImportFormat; dryRun?: boolean }
+): Promise<IImportJob> => {
+  const job = await ImportJob.create({
+    fileName: options.fileName,
+    format: options.format,
+    dryRun: !!options.dryRun,
+    totalRows: rows.length,
+    createdBy: actor.id
+  });
+
+  setImmediate(() => {
+    processImportJob(job._id as mongoose.Types.ObjectId, rows, actor)
+      .catch(err => console.error(`Import job ${job._id} failed:`, err));
+  });
+
+  return job;
+};
+
+export const getImportJob = async (id: string): Promise<IImportJob | null> => {
+  return await ImportJob.findById(id);
+};
+
+// Rows are held in memory, so jobs cut off by a restart cannot resume
+export const failInterruptedImportJobs = async (): Promise<number> => {
+  const result = await ImportJob.updateMany(
+    { status: { $in: ['queued', 'running'] } },
+    { status: 'failed', error: 'Interrupted by a server restart', completedAt: new Date() }
+  );
+  return result.modifiedCount;
+};
+
+// Export rows: one per product without variants and one per variant, in the
+// import format so an edited export can be imported again
+// Path of the populated category; deleted categories are populated too
+const getCategoryPath = (category: unknown): string | undefined => {
+  return category && typeof category === 'object' && 'path' in category ? String(category.path) : undefined;
+};
+
+const toExportRows = (product: IProduct, categoryPath?: string): Record<string, unknown>[] => {
+  const base = {
+    name: product.name,
+    description: product.description,
+    category: categoryPath,
+    status: product.status as ProductStatus,
+    images: product.images || [],
+    attributes: ProductService.attributesToObject(product.attributes)
+  };
+
+  if (product.variants.length === 0) {
+    return [{ sku: product.sku, ...base, price: product.price, quantity: product.quantity }];
+  }
+
+  return product.variants.map(variant => ({
+    sku: variant.sku,
+    ...base,
+    price: variant.price,
+    quantity: variant.quantity,
+    options: variant.options.map(option => `${option.name}=${option.value}`).join('|')
+  }));
+};
+
+// Write products matching filter as CSV or JSON Lines, streaming from a cursor
+export const exportProducts = async (
+  filter: Record<string, unknown>,
+  format: ImportFormat,
+  write: (chunk: string) => void,
+  options: { withDeleted?: boolean } = {}
+): Promise<number> => {
+  const withDeleted = !!options.withDeleted;
+
+  // CSV needs every attribute column up front
+  const attributeColumns = format === 'csv'
+    ? (await Product.distinct('attributes.key', filter).setOptions({ withDeleted })).map(String).sort()
+    : [];
+
+  if (format === 'csv') {
+    write(toCsvRow([...CSV_COLUMNS, ...INFORMATIONAL_COLUMNS, ...attributeColumns.map(key => ATTRIBUTE_PREFIX + key)]));
+  }
+
+  const cursor = Product.find(filter)
+    .sort({ _id: 1 })
+    .populate({ path: 'category', select: 'path', options: { withDeleted: true } })
+    .setOptions({ withDeleted })
+    .cursor();
+
+  let count = 0;
+  for await (const product of cursor) {
+    for (const row of toExportRows(product, getCategoryPath(product.category))) {
+      if (format === 'jsonl') {
+        write(JSON.stringify(row) + '\n');
+        continue;
+      }
+
+      const attributes = row.attributes as Record<string, unknown>;
+      write(toCsvRow([
+        ...CSV_COLUMNS.map(column => column === 'images' ? (row.images as string[]).join('|') : row[column]),
+        ...INFORMATIONAL_COLUMNS.map(column => row[column]),
+        ...attributeColumns.map(key => attributes[key])
+      ]));
+    }
+    count++;
+  }
+
+  return count;
+};
@@ -0,0 +1,211 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { Cart } from '../models/cart.model';
+import { Product } from '../models/product.model';
+import { StockReservation, IStockReservation, ReservationStatus } from '../models/stockReservation.model';
+import * as ProductService from './product.service';
+
+// How long checkout holds stock, RESERVATION_TTL_MINUTES (default 15)
+export const getReservationTtlMinutes = (): number => {
+  return parseFloat(process.env.RESERVATION_TTL_MINUTES || '15');
+};
+
+// On hand minus reserved of one variant, for use in $expr
+const variantAvailableExpression = (variantId: mongoose.Types.ObjectId) => ({
+  $let: {
+    vars: {
+      variant: {
+        $arrayElemAt: [{ $filter: { input: '$variants', cond: { $eq: ['$$this._id', variantId] } } }, 0]
+      }
+    },
+    in: { $subtract: ['$$variant.quantity', { $ifNull: ['$$variant.reserved', 0] }] }
+  }
+});
+
+// Add quantity to the reserved count of a product or variant, but only while
+// enough is available. Concurrent checkouts cannot both take the last units.
+const holdStock = async (
+  productId: mongoose.Types.ObjectId,
+  variantId: mongoose.Types.ObjectId | null,
+  quantity: number,
+  session: ClientSession
+): Promise<boolean> => {
+  if (variantId) {
+    const result = await Product.updateOne(
+      { _id: productId, $expr: { $gte: [variantAvailableExpression(variantId), quantity] } },
+      { $inc: { 'variants.$[variant].reserved': quantity } },
+      { arrayFilters: [{ 'variant._id': variantId }], session }
+    );
+    return result.modifiedCount === 1;
+  }
+
+  const result = await Product.updateOne(
+    {
+      _id: productId,
+      inStock: true,
+      $expr: { $gte: [{ $subtract: ['$quantity', { $ifNull: ['$reserved', 0] }] }, quantity] }
+    },
+    { $inc: { reserved: quantity } },
+    { session }
+  );
+  return result.modifiedCount === 1;
+};
+
+// Give held stock back. The product may have been deleted or the variant
+// removed since; then there is nothing to give back to.
+const returnStock = async (reservation: IStockReservation, session: ClientSession): Promise<void> => {
+  if (reservation.variant) {
+    await Product.updateOne(
+      { _id: reservation.product },
+      { $inc: { 'variants.$[variant].reserved': -reservation.quantity } },
+      { arrayFilters: [{ 'variant._id': reservation.variant }], session }
+    ).setOptions({ withDeleted: true });
+  } else {
+    await Product.updateOne(
+      { _id: reservation.product },
+      { $inc: { reserved: -reservation.quantity } },
+      { session }
+    ).setOptions({ withDeleted: true });
+  }
+};
+
+// Mark matching active reservations as released or expired and give their
+// stock back. Returns how many were released.
+export const releaseReservations = async (
+  filter: Record<string, unknown>,
+  status: Exclude<ReservationStatus, 'active' | 'converted'>,
+  session: ClientSession
+): Promise<number> => {
+  const reservations = await StockReservation.find({ ...filter, status: 'active' }).session(session);
+
+  let released = 0;
+  for (const reservation of reservations) {
+    // Only the first to change the status gives the stock back
+    const result = await StockReservation.updateOne(
+      { _id: reservation._id, status: 'active' },
+      { status },
+      { session }
+    );
+    if (result.modifiedCount === 1) {
+      await returnStock(reservation, session);
+      released++;
+    }
+  }
+  return released;
+};
+
+// Hold stock for every line of the customer's cart. A new checkout replaces
+// the previous one; if any line cannot be held, nothing is.
+export const reserveCart = async (
+  userId: string
+): Promise<{ reservations: IStockReservation[]; expiresAt: Date }> => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const cart = await Cart.findOne({ userId }).session(session);
+
+    if (!cart || cart.items.length === 0) {
+      throw new Error('Cannot check out an empty cart');
+    }
+
+    await releaseReservations({ user: userId }, 'released', session);
+
+    const expiresAt = new Date(Date.now() + getReservationTtlMinutes() * 60 * 1000);
+    const reservations = [];
+
+    for (const item of cart.items) {
+      const product = await Product.findById(item.productId).session(session);
+
+      if (!product) {
+        throw new Error(`Product ${item.productId} not found`);
+      }
+
+      const { variant, available, sku } = ProductService.resolvePurchasableItem(product, item.variantId);
+      const label = sku ? `${product.name} (${sku})` : product.name;
+      const variantId = variant ? variant._id as mongoose.Types.ObjectId : null;
+
+      if (!await holdStock(product._id as mongoose.Types.ObjectId, variantId, item.quantity, session)) {
+        throw new Error(`Insufficient stock for ${label}. Available: ${available}, Requested: ${item.quantity}`);
+      }
+
+      reservations.push({
+        user: new mongoose.Types.ObjectId(userId),
+        product: product._id,
+        variant: variantId,
+        sku,
+        quantity: item.quantity,
+        expiresAt
+      });
+    }
+
+    const created = await StockReservation.insertMany(reservations, { session });
+
+    await session.commitTransaction();
+
+    return { reservations: created, expiresAt };
+  } catch (error) {
+    await session.abortTransaction();
+    throw error;
+  } finally {
+    session.endSession();
+  }
+};
+
+export const getActiveReservations = async (userId: string): Promise<IStockReservation[]> => {
+  return await StockReservation.find({ user: userId, status: 'active', expiresAt: { $gt: new Date() } })
+    .sort({ createdAt: 1 });
+};
+
+// Customer left checkout
+export const cancelCheckout = async (userId: string): Promise<number> => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const released = await releaseReservations({ user: userId }, 'released', session);
+    await session.commitTransaction();
+    return released;
+  } catch (error) {
+    await session.abortTransaction();
+    throw error;
+  } finally {
+    session.endSession();
+  }
+};
+
+// Release reservations past their expiry, a batch at a time. A batch that
+// conflicts with a checkout is rolled back and picked up by the next run.
+export const releaseExpiredReservations = async (now: Date = new Date(), batchSize = 500): Promise<number> => {
+  let total = 0;
+
+  while (true) {
+    const expired = await StockReservation.find({ status: 'active', expiresAt: { $lte: now } })
+      .select('_id')
+      .limit(batchSize);
+
+    if (expired.length === 0) {
+      return total;
+    }
+
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    try {
+      total += await releaseReservations(
+        { _id: { $in: expired.map(reservation => reservation._id) }, expiresAt: { $lte: now } },
+        'expired',
+        session
+      );
+      await session.commitTransaction();
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
+
+    if (expired.length < batchSize) {
+      return total;
+    }
+  }
+};
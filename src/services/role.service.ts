@@ -0,0 +1,169 @@
+import { Role, IRole } from '../models/role.model';
+import { User } from '../models/user.model';
+import {
+  SYSTEM_ROLES,
+  ALL_PERMISSIONS,
+  isValidPermission
+} from '../config/permissions.config';
+import mongoose from 'mongoose';
+
+// Role permissions are read on every authenticated request, so they are cached
+// briefly. Changes made through this service clear the cache immediately;
+// other instances pick them up once their entry expires.
+const CACHE_TTL_MS = 60 * 1000;
+const permissionCache = new Map<string, { permissions: string[]; expiresAt: number }>();
+
+const clearPermissionCache = (roleName?: string): void => {
+  if (roleName) {
+    permissionCache.delete(roleName);
+  } else {
+    permissionCache.clear();
+  }
+};
+
+const validatePermissions = (permissions: string[]): void => {
+  const invalid = permissions.filter(permission => !isValidPermission(permission));
+  if (invalid.length > 0) {
+    throw new Error(`Unknown permissions: ${invalid.join(', ')}`);
+  }
+};
+
+// Create the built-in roles if missing; edits to existing ones are kept
+export const ensureSystemRoles = async (): Promise<void> => {
+  await Promise.all(
+    SYSTEM_ROLES.map(role =>
+      Role.updateOne(
+        { name: role.name },
+        {
+          $setOnInsert: {
+            name: role.name,
+            description: role.description,
+            permissions: role.permissions
+          },
+          $set: { isSystem: true }
+        },
+        { upsert: true }
+      )
+    )
+  );
+
+  // Admin always has every permission
+  await Role.updateOne({ name: 'admin' }, { permissions: [ALL_PERMISSIONS] });
+  clearPermissionCache();
+};
+
+export const getRolePermissions = async (roleName: string): Promise<string[]> => {
+  const cached = permissionCache.get(roleName);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.permissions;
+  }
+
+  const role = await Role.findOne({ name: roleName }).lean();
+  // Users left with a deleted or unknown role get no permissions
+  const permissions = role ? role.permissions : [];
+
+  permissionCache.set(roleName, { permissions, expiresAt: Date.now() + CACHE_TTL_MS });
+  return permissions;
+};
+
+export const hasPermission = (granted: string[] | undefined, permission: string): boolean => {
+  return !!granted && (granted.includes(ALL_PERMISSIONS) || granted.includes(permission));
+};
+
+export const roleExists = async (roleName: string): Promise<boolean> => {
+  return !!(await Role.exists({ name: roleName }));
+};
+
+export const getAllRoles = async () => {
+  const [roles, counts] = await Promise.all([
+    Role.find().sort({ isSystem: -1, name: 1 }).lean(),
+    User.aggregate([{ $group: { _id: '$role', count: { $sum: 1 } } }])
+  ]);
+
+  const countByRole = new Map<string, number>(counts.map(c => [c._id, c.count]));
+
+  return roles.map(role => ({
+    ...role,
+    userCount: countByRole.get(role.name) || 0
+  }));
+};
+
+export const getRoleByName = async (roleName: string): Promise<IRole | null> => {
+  return await Role.findOne({ name: roleName });
+};
+
+export const createRole = async (
+  data: { name: string; description?: string; permissions: string[] },
+  adminId: string
+): Promise<IRole> => {
+  validatePermissions(data.permissions);
+
+  const existing = await Role.findOne({ name: data.name.trim().toLowerCase() });
+  if (existing) {
+    throw new Error('Role with this name already exists');
+  }
+
+  const role = await Role.create({
+    name: data.name,
+    description: data.description,
+    permissions: [...new Set(data.permissions)],
+    isSystem: false,
+    createdBy: adminId,
+    updatedBy: adminId
+  });
+
+  clearPermissionCache(role.name);
+  return role;
+};
+
+// The name is the key users reference, so it cannot be changed
+export const updateRole = async (
+  roleName: string,
+  data: { description?: string; permissions?: string[] },
+  adminId: string
+): Promise<IRole> => {
+  const role = await Role.findOne({ name: roleName });
+
+  if (!role) {
+    throw new Error('Role not found');
+  }
+
+  if (role.name === 'admin') {
+    throw new Error('The admin role cannot be modified');
+  }
+
+  if (data.permissions !== undefined) {
+    validatePermissions(data.permissions);
+    role.permissions = [...new Set(data.permissions)];
+  }
+
+  if (data.description !== undefined) {
+    role.description = data.description;
+  }
+
+  role.updatedBy = new mongoose.Types.ObjectId(adminId);
+  await role.save();
+
+  clearPermissionCache(role.name);
+  return role;
+};
+
+export const deleteRole = async (roleName: string): Promise<void> => {
+  const role = await Role.findOne({ name: roleName });
+
+  if (!role) {
+    throw new Error('Role not found');
+  }
+
+  if (role.isSystem) {
+    throw new Error('Built-in roles cannot be deleted');
+  }
+
+  const assignedCount = await User.countDocuments({ role: role.name });
+  if (assignedCount > 0) {
+    throw new Error(`Role is still assigned to ${assignedCount} user(s)`);
+  }
+
+  await role.deleteOne();
+  clearPermissionCache(role.name);
+};
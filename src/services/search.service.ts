@@ -0,0 +1,263 @@
+import mongoose, { PipelineStage } from 'mongoose';
+import { Product, IProduct, AVAILABLE_EXPRESSION } from '../models/product.model';
+
+export type ProductSearchSort = 'relevance' | 'price_asc' | 'price_desc' | 'newest' | 'rating';
+
+export interface ProductSearchParams {
+  q?: string;
+  categoryIds?: mongoose.Types.ObjectId[];
+  // Never returned or counted, e.g. archived categories
+  excludedCategoryIds?: mongoose.Types.ObjectId[];
+  vendorIds?: mongoose.Types.ObjectId[];
+  minPrice?: number;
+  maxPrice?: number;
+  inStock?: boolean;
+  minRating?: number;
+  // $elemMatch conditions from ProductService.buildAttributeFilters
+  attributeFilters?: Record<string, any>[];
+  sort?: ProductSearchSort;
+  page: number;
+  limit: number;
+}
+
+export interface ProductSearchFacets {
+  categories: { id: string; name: string; slug: string; count: number }[];
+  price: { min: number; max: number | null; count: number }[];
+  inStock: { value: boolean; count: number }[];
+  rating: { minRating: number; count: number }[];
+  vendors: { id: string; name: string; count: number }[];
+}
+
+export interface ProductSearchResult {
+  products: IProduct[];
+  total: number;
+  facets: ProductSearchFacets;
+}
+
+// A search implementation. The default runs on MongoDB's text index; another
+// engine (Atlas Search, Elasticsearch, ...) can be plugged in with setSearchBackend.
+export interface SearchBackend {
+  name: string;
+  searchProducts(params: ProductSearchParams): Promise<ProductSearchResult>;
+}
+
+const FACET_LIMIT = 20;
+const RATING_THRESHOLDS = [4, 3, 2, 1];
+
+const getPriceBoundaries = (): number[] => {
+  const boundaries = (process.env.SEARCH_PRICE_BUCKETS || '0,25,50,100,250,500,1000')
+    .split(',')
+    .map(value => Number(value.trim()))
+    .filter(value => Number.isFinite(value));
+  return [...new Set(boundaries)].sort((a, b) => a - b);
+};
+
+const SORT_STAGES: Record<Exclude<ProductSearchSort, 'relevance'>, Record<string, 1 | -1>> = {
+  price_asc: { price: 1, _id: 1 },
+  price_desc: { price: -1, _id: 1 },
+  newest: { createdAt: -1, _id: 1 },
+  rating: { ratingAverage: -1, ratingCount: -1, _id: 1 }
+};
+
+// Each filter is kept separately so a facet can be counted without its own
+// filter: choosing a category still shows the counts of the other categories.
+type FilterName = 'category' | 'vendor' | 'price' | 'inStock' | 'rating';
+
+const buildFilters = (params: ProductSearchParams): Partial<Record<FilterName, Record<string, any>>> => {
+  const filters: Partial<Record<FilterName, Record<string, any>>> = {};
+
+  if (params.categoryIds && params.categoryIds.length > 0) {
+    filters.category = { category: { $in: params.categoryIds } };
+  }
+
+  if (params.vendorIds && params.vendorIds.length > 0) {
+    filters.vendor = { createdBy: { $in: params.vendorIds } };
+  }
+
+  if (params.minPrice !== undefined || params.maxPrice !== undefined) {
+    const price: Record<string, number> = {};
+    if (params.minPrice !== undefined) price.$gte = params.minPrice;
+    if (params.maxPrice !== undefined) price.$lte = params.maxPrice;
+    filters.price = { price };
+  }
+
+  if (params.inStock !== undefined) {
+    filters.inStock = { inStock: params.inStock };
+  }
+
+  if (params.minRating !== undefined) {
+    filters.rating = { ratingAverage: { $gte: params.minRating } };
+  }
+
+  return filters;
+};
+
+const matchExcept = (
+  filters: Partial<Record<FilterName, Record<string, any>>>,
+  excluded?: FilterName
+): PipelineStage.FacetPipelineStage[] => {
+  const conditions = (Object.keys(filters) as FilterName[])
+    .filter(name => name !== excluded)
+    .map(name => filters[name]!);
+  return conditions.length > 0 ? [{ $match: { $and: conditions } }] : [];
+};
+
+const mongoSearchBackend: SearchBackend = {
+  name: 'mongo',
+
+  async searchProducts(params: ProductSearchParams): Promise<ProductSearchResult> {
+    const filters = buildFilters(params);
+    // Drafts, products in review and archived products are never searchable
+    const baseMatch: Record<string, any> = { status: 'published' };
+
+    if (params.q) {
+      baseMatch.$text = { $search: params.q };
+    }
+    if (params.attributeFilters && params.attributeFilters.length > 0) {
+      baseMatch.$and = params.attributeFilters;
+    }
+    if (params.excludedCategoryIds && params.excludedCategoryIds.length > 0) {
+      baseMatch.category = { $nin: params.excludedCategoryIds };
+    }
+
+    const sortName = params.sort || (params.q ? 'relevance' : 'newest');
+    const sort: Record<string, 1 | -1> = sortName === 'relevance'
+      ? (params.q ? { score: -1, _id: 1 } : SORT_STAGES.newest)
+      : SORT_STAGES[sortName];
+
+    const priceBoundaries = getPriceBoundaries();
+
+    const pipeline: PipelineStage[] = [{ $match: baseMatch }];
+
+    if (params.q) {
+      pipeline.push({ $addFields: { score: { $meta: 'textScore' } } });
+    }
+
+    pipeline.push({
+      $facet: {
+        results: [
+          ...matchExcept(filters),
+          { $sort: sort },
+          { $skip: (params.page - 1) * params.limit },
+          { $limit: params.limit },
+          { $addFields: { available: AVAILABLE_EXPRESSION } }
+        ],
+        total: [
+          ...matchExcept(filters),
+          { $count: 'count' }
+        ],
+        categories: [
+          ...matchExcept(filters, 'category'),
+          { $group: { _id: '$category', count: { $sum: 1 } } },
+          { $sort: { count: -1, _id: 1 } },
+          { $limit: FACET_LIMIT },
+          { $lookup: { from: 'categories', localField: '_id', foreignField: '_id', as: 'category' } },
+          { $unwind: '$category' },
+          { $project: { _id: 0, id: '$_id', name: '$category.name', slug: '$category.slug', count: 1 } }
+        ],
+        price: priceBoundaries.length > 1
+          ? [
+            ...matchExcept(filters, 'price'),
+            {
+              $bucket: {
+                groupBy: '$price',
+                boundaries: priceBoundaries,
+                default: 'above',
+                output: { count: { $sum: 1 } }
+              }
+            }
+          ]
+          : [{ $limit: 0 }],
+        inStock: [
+          ...matchExcept(filters, 'inStock'),
+          { $group: { _id: '$inStock', count: { $sum: 1 } } },
+          { $project: { _id: 0, value: '$_id', count: 1 } },
+          { $sort: { value: -1 } }
+        ],
+        rating: [
+          ...matchExcept(filters, 'rating'),
+          {
+            $group: {
+              _id: null,
+              ...Object.fromEntries(RATING_THRESHOLDS.map(threshold => [
+                `atLeast${threshold}`,
+                { $sum: { $cond: [{ $gte: ['$ratingAverage', threshold] }, 1, 0] } }
+              ]))
+            }
+          }
+        ],
+        vendors: [
+          ...matchExcept(filters, 'vendor'),
+          { $match: { createdBy: { $ne: null } } },
+          { $group: { _id: '$createdBy', count: { $sum: 1 } } },
+          // Deleted and erased vendors are left out before the limit, so they take no slots
+          {
+            $lookup: {
+              from: 'users',
+              localField: '_id',
+              foreignField: '_id',
+              pipeline: [{ $match: { deletedAt: null, erasedAt: null } }],
+              as: 'vendor'
+            }
+          },
+          { $unwind: '$vendor' },
+          { $sort: { count: -1, _id: 1 } },
+          { $limit: FACET_LIMIT },
+          {
+            $project: {
+              _id: 0,
+              id: '$_id',
+              name: { $concat: ['$vendor.firstName', ' ', '$vendor.lastName'] },
+              count: 1
+            }
+          }
+        ]
+      }
+    });
+
+    const [result] = await Product.aggregate(pipeline);
+
+    const products = await Product.populate<IProduct>(result.results as IProduct[], [
+      { path: 'category', select: 'name slug' },
+      { path: 'createdBy', select: 'firstName lastName' }
+    ]);
+
+    const lastBoundary = priceBoundaries[priceBoundaries.length - 1];
+    const price = result.price.map((bucket: { _id: number | 'above'; count: number }) => {
+      if (bucket._id === 'above') {
+        return { min: lastBoundary, max: null, count: bucket.count };
+      }
+      const index = priceBoundaries.indexOf(bucket._id);
+      return { min: bucket._id, max: priceBoundaries[index + 1], count: bucket.count };
+    });
+
+    const ratingCounts = result.rating[0] || {};
+
+    return {
+      products,
+      total: result.total[0] ? result.total[0].count : 0,
+      facets: {
+        categories: result.categories,
+        price,
+        inStock: result.inStock,
+        rating: RATING_THRESHOLDS.map(threshold => ({
+          minRating: threshold,
+          count: ratingCounts[`atLeast${threshold}`] || 0
+        })),
+        vendors: result.vendors
+      }
+    };
+  }
+};
+
+let activeBackend: SearchBackend = mongoSearchBackend;
+
+export const setSearchBackend = (backend: SearchBackend): void => {
+  activeBackend = backend;
+};
+
+export const getSearchBackend = (): SearchBackend => activeBackend;
+
+export const searchProducts = async (params: ProductSearchParams): Promise<ProductSearchResult> => {
+  return await activeBackend.searchProducts(params);
+};
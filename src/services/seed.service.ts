@@ -1,9 +1,17 @@
 import { Product } from '../models/product.model';
 import { User } from '../models/user.model';
 import { Category } from '../models/category.model';
-import { Review } from '../models/review.model';
+import { Review, syncProductRating } from '../models/review.model';
 import { Cart } from '../models/cart.model';
 import { Order } from '../models/order.model';
+import { StockMovement } from '../models/stockMovement.model';
+import { StockReservation } from '../models/stockReservation.model';
+import { Warehouse } from '../models/warehouse.model';
+import { InventoryLevel } from '../models/inventoryLevel.model';
+import { StockSubscription } from '../models/stockSubscription.model';
+import { ensureSystemRoles } from './role.service';
+import { recordOpeningBalances } from './inventory.service';
+import { ensureDefaultWarehouse } from './warehouse.service';
 
 export const seedDatabase = async () => {
   try {
@@ -15,20 +23,26 @@ export const seedDatabase = async () => {
       Review.deleteMany({}),
       Order.deleteMany({}),
       Cart.deleteMany({}),
-      Product.deleteMany({}),
-      Category.deleteMany({}),
-      User.deleteMany({})
+      StockReservation.deleteMany({}),
+      StockSubscription.deleteMany({}),
+      InventoryLevel.deleteMany({}),
+      Warehouse.deleteMany({}),
+      Product.deleteMany({}).setOptions({ withDeleted: true }),
+      Category.deleteMany({}).setOptions({ withDeleted: true }),
+      User.deleteMany({}).setOptions({ withDeleted: true }),
+      // The ledger is append-only, so it is cleared on the raw collection
+      StockMovement.collection.deleteMany({})
     ]);
     console.log('✅ Database cleared\n');
 
     // Seed categories
     console.log('📁 Seeding categories...');
     const categoryData = [
-      { name: 'Electronics', description: 'Electronic devices and accessories', slug: 'electronics' },
-      { name: 'Clothing', description: 'Apparel and fashion items', slug: 'clothing' },
-      { name: 'Books', description: 'Physical and digital books', slug: 'books' },
-      { name: 'Home', description: 'Home and kitchen items', slug: 'home' },
-      { name: 'Sports', description: 'Sports and fitness equipment', slug: 'sports' }
+      { name: 'Electronics', description: 'Electronic devices and accessories', slug: 'electronics', path: 'electronics' },
+      { name: 'Clothing', description: 'Apparel and fashion items', slug: 'clothing', path: 'clothing' },
+      { name: 'Books', description: 'Physical and digital books', slug: 'books', path: 'books' },
+      { name: 'Home', description: 'Home and kitchen items', slug: 'home', path: 'home' },
+      { name: 'Sports', description: 'Sports and fitness equipment', slug: 'sports', path: 'sports' }
     ];
     const categories = await Category.insertMany(categoryData);
     const categoryBySlug: { [key: string]: string } = {};
@@ -37,6 +51,9 @@ export const seedDatabase = async () => {
     }
     console.log(`✅ Created ${categories.length} categories\n`);
 
+    // Users reference roles by name, so the built-in ones must exist first
+    await ensureSystemRoles();
+
     // Seed users
     console.log('👥 Seeding users...');
     const users = await User.create([
@@ -391,7 +408,10 @@ export const seedDatabase = async () => {
         quantity: 80,
         createdBy: vendors[0]._id
       }
-    ]);
+    ].map(product => ({ ...product, status: 'published', publishedAt: new Date() })));
+    // Opening stock goes to the default warehouse
+    await ensureDefaultWarehouse();
+    await recordOpeningBalances();
     console.log(`✅ Created ${products.length} products across all categories\n`);
 
     // Seed reviews
@@ -458,6 +478,7 @@ export const seedDatabase = async () => {
         comment: 'This book changed how I write code. Highly recommended!'
       }
     ]);
+    await Promise.all(products.map(product => syncProductRating(product._id)));
     console.log(`✅ Created ${reviews.length} reviews\n`);
 
     console.log('✅ Database seeding completed successfully!\n');
@@ -480,9 +501,15 @@ export const clearDatabase = async () => {
       Review.deleteMany({}),
       Order.deleteMany({}),
       Cart.deleteMany({}),
-      Product.deleteMany({}),
-      Category.deleteMany({}),
-      User.deleteMany({})
+      StockReservation.deleteMany({}),
+      StockSubscription.deleteMany({}),
+      InventoryLevel.deleteMany({}),
+      Warehouse.deleteMany({}),
+      Product.deleteMany({}).setOptions({ withDeleted: true }),
+      Category.deleteMany({}).setOptions({ withDeleted: true }),
+      User.deleteMany({}).setOptions({ withDeleted: true }),
+      // The ledger is append-only, so it is cleared on the raw collection
+      StockMovement.collection.deleteMany({})
     ]);
     
     console.log('✅ Database cleared successfully!');
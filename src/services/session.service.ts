@@ -0,0 +1,181 @@
+import { Session, ISession } from '../models/session.model';
+import { User, IUser } from '../models/user.model';
+import crypto from 'crypto';
+
+export interface SessionMetadata {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+}
+
+// Number of rotated refresh token hashes kept per session for reuse detection
+const MAX_PREVIOUS_TOKEN_HASHES = 50;
+
+// Minimum interval between lastSeenAt writes for the same session
+const LAST_SEEN_UPDATE_INTERVAL_MS = 60 * 1000;
+
+const getRefreshTokenTtlMs = (): number => {
+  const days = parseInt(process.env.REFRESH_TOKEN_EXPIRES_DAYS || '30');
+  return days * 24 * 60 * 60 * 1000;
+};
+
+const hashToken = (token: string): string => {
+  return crypto
+    .createHash('sha256')
+    .update(token)
+    .digest('hex');
+};
+
+const generateRefreshToken = (): string => {
+  return crypto.randomBytes(48).toString('hex');
+};
+
+// Create a new session (token family) and issue its first token pair
+export const createSession = async (
+  user: IUser,
+  metadata: SessionMetadata = {}
+): Promise<SessionTokens> => {
+  const refreshToken = generateRefreshToken();
+
+  const session = await Session.create({
+    userId: user._id,
+    refreshTokenHash: hashToken(refreshToken),
+    userAgent: metadata.userAgent,
+    ipAddress: metadata.ipAddress,
+    expiresAt: new Date(Date.now() + getRefreshTokenTtlMs())
+  });
+
+  return {
+    token: user.generateAuthToken(session._id.toString()),
+    refreshToken
+  };
+};
+
+// Rotate a refresh token: the presented token is retired and a new pair is issued.
+// Replaying a retired token revokes the whole session.
+export const refreshSession = async (refreshToken: string): Promise<SessionTokens> => {
+  const tokenHash = hashToken(refreshToken);
+  const newRefreshToken = generateRefreshToken();
+
+  const session = await Session.findOneAndUpdate(
+    {
+      refreshTokenHash: tokenHash,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() }
+    },
+    {
+      $set: {
+        refreshTokenHash: hashToken(newRefreshToken),
+        expiresAt: new Date(Date.now() + getRefreshTokenTtlMs()),
+        lastSeenAt: new Date()
+      },
+      $push: {
+        previousTokenHashes: {
+          $each: [tokenHash],
+          $slice: -MAX_PREVIOUS_TOKEN_HASHES
+        }
+      }
+    },
+    { new: true }
+  );
+
+  if (!session) {
+    const reusedSession = await Session.findOne({ previousTokenHashes: tokenHash });
+    if (reusedSession) {
+      await revokeSession(reusedSession._id.toString(), 'refresh_token_reuse');
+      throw new Error('Refresh token reuse detected. Session has been revoked.');
+    }
+    throw new Error('Invalid or expired refresh token');
+  }
+
+  const user = await User.findById(session.userId);
+  if (!user || user.status !== 'active') {
+    await revokeSession(session._id.toString(), 'user_inactive');
+    throw new Error('Invalid or expired refresh token');
+  }
+
+  return {
+    token: user.generateAuthToken(session._id.toString()),
+    refreshToken: newRefreshToken
+  };
+};
+
+// Check that a session referenced by an access token is still usable
+// and record activity on it
+export const isSessionActive = async (
+  sessionId: string,
+  userId: string
+): Promise<boolean> => {
+  const session = await Session.findOne({
+    _id: sessionId,
+    userId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() }
+  }).select('lastSeenAt').lean();
+
+  if (!session) {
+    return false;
+  }
+
+  const lastSeen = session.lastSeenAt ? session.lastSeenAt.getTime() : 0;
+  if (Date.now() - lastSeen > LAST_SEEN_UPDATE_INTERVAL_MS) {
+    Session.updateOne({ _id: sessionId }, { lastSeenAt: new Date() }).catch(err => {
+      console.error('Failed to update session activity:', err);
+    });
+  }
+
+  return true;
+};
+
+// List sessions that can still be used, most recently active first
+export const getActiveUserSessions = async (userId: string): Promise<ISession[]> => {
+  return await Session.find({
+    userId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() }
+  }).sort({ lastSeenAt: -1 });
+};
+
+// Revoke one of the user's own sessions
+export const revokeUserSession = async (
+  userId: string,
+  sessionId: string
+): Promise<void> => {
+  const session = await Session.findOneAndUpdate(
+    { _id: sessionId, userId, revokedAt: null },
+    { revokedAt: new Date(), revokedReason: 'remote_sign_out' },
+    { new: true }
+  );
+
+  if (!session) {
+    throw new Error('Session not found');
+  }
+};
+
+export const revokeSession = async (
+  sessionId: string,
+  reason: string = 'logout'
+): Promise<ISession | null> => {
+  return await Session.findOneAndUpdate(
+    { _id: sessionId, revokedAt: null },
+    { revokedAt: new Date(), revokedReason: reason },
+    { new: true }
+  );
+};
+
+// keepSessionId spares the session making the request
+export const revokeAllUserSessions = async (
+  userId: string,
+  reason: string = 'logout_all',
+  keepSessionId?: string
+): Promise<number> => {
+  const result = await Session.updateMany(
+    { userId, revokedAt: null, ...(keepSessionId ? { _id: { $ne: keepSessionId } } : {}) },
+    { revokedAt: new Date(), revokedReason: reason }
+  );
+  return result.modifiedCount;
+};
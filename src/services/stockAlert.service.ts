@@ -0,0 +1,184 @@
+import mongoose from 'mongoose';
+import { Product, IProduct, StockAlertLevel } from '../models/product.model';
+import { User } from '../models/user.model';
+import { sendStockAlertEmail } from './email.service';
+
+export type StockAlertFrequency = 'immediate' | 'daily' | 'off';
+
+export const STOCK_ALERT_FREQUENCIES: StockAlertFrequency[] = ['immediate', 'daily', 'off'];
+
+// Reorder threshold of products that do not set their own, LOW_STOCK_THRESHOLD (default 10)
+export const getDefaultReorderThreshold = (): number => {
+  return parseInt(process.env.LOW_STOCK_THRESHOLD || '10');
+};
+
+// Hour (UTC) after which daily digests go out, STOCK_ALERT_DIGEST_HOUR (default 8)
+const getDigestHour = (): number => {
+  return parseInt(process.env.STOCK_ALERT_DIGEST_HOUR || '8');
+};
+
+export const getReorderThreshold = (product: Pick<IProduct, 'reorderThreshold'>): number => {
+  return product.reorderThreshold ?? getDefaultReorderThreshold();
+};
+
+export const getStockAlertLevel = (quantity: number, threshold: number): StockAlertLevel | null => {
+  if (quantity <= 0) {
+    return 'out';
+  }
+  return quantity <= threshold ? 'low' : null;
+};
+
+const SEVERITY = { low: 1, out: 2 };
+
+// Products at or below their threshold, or with an alert to clear
+const alertCandidates = () => ({
+  status: { $ne: 'archived' },
+  createdBy: { $ne: null },
+  $or: [
+    { 'stockAlert.level': { $in: ['low', 'out'] } },
+    { $expr: { $lte: ['$quantity', { $ifNull: ['$reorderThreshold', getDefaultReorderThreshold()] }] } }
+  ]
+});
+
+// Compare each product's stock with its threshold. A product crossing below
+// it (or running out after being low) gets a new alert; one restocked above
+// it is cleared so the next crossing alerts again. Going from out to low
+// changes the level without alerting again.
+export const detectStockAlerts = async (now: Date = new Date()): Promise<{ alerted: number; cleared: number }> => {
+  const products = await Product.find(alertCandidates()).select('quantity reorderThreshold stockAlert');
+  let alerted = 0;
+  let cleared = 0;
+
+  for (const product of products) {
+    const current = product.stockAlert?.level ?? null;
+    const level = getStockAlertLevel(product.quantity, getReorderThreshold(product));
+    if (level === current) {
+      continue;
+    }
+
+    let update;
+    if (!level) {
+      update = { stockAlert: { level: null, since: null, notifiedAt: null } };
+      cleared++;
+    } else if (!current || SEVERITY[level] > SEVERITY[current]) {
+      update = { stockAlert: { level, since: now, notifiedAt: null } };
+      alerted++;
+    } else {
+      update = { 'stockAlert.level': level };
+    }
+
+    // Not a change to the product itself, so updatedAt stays
+    await Product.updateOne({ _id: product._id }, { $set: update }, { timestamps: false });
+  }
+
+  return { alerted, cleared };
+};
+
+const isDigestDue = (lastSentAt: Date | null | undefined, now: Date): boolean => {
+  if (now.getUTCHours() < getDigestHour()) {
+    return false;
+  }
+  const startOfDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  return !lastSentAt || lastSentAt < startOfDay;
+};
+
+// Email vendors about alerts they have not heard about yet: right away, or
+// in their daily digest. Alerts of vendors who opted out (or no longer
+// exist) are marked as handled so they are not sent later.
+export const sendPendingStockAlerts = async (now: Date = new Date()): Promise<number> => {
+  const pending = await Product.find({ 'stockAlert.level': { $in: ['low', 'out'] }, 'stockAlert.notifiedAt': null })
+    .select('name sku quantity reorderThreshold stockAlert createdBy')
+    .sort({ 'stockAlert.since': 1 });
+
+  const byVendor = new Map<string, IProduct[]>();
+  for (const product of pending) {
+    const vendorId = product.createdBy!.toString();
+    byVendor.set(vendorId, [...(byVendor.get(vendorId) || []), product]);
+  }
+
+  const vendors = await User.find({ _id: { $in: [...byVendor.keys()] }, erasedAt: null })
+    .select('email firstName stockAlertFrequency stockAlertDigestSentAt');
+  const vendorById = new Map(vendors.map(vendor => [vendor._id.toString(), vendor]));
+
+  let sent = 0;
+  for (const [vendorId, products] of byVendor) {
+    const vendor = vendorById.get(vendorId);
+    const frequency = vendor ? vendor.stockAlertFrequency : 'off';
+    const digest = frequency === 'daily';
+
+    if (vendor && digest && !isDigestDue(vendor.stockAlertDigestSentAt, now)) {
+      continue;
+    }
+
+    if (vendor && frequency !== 'off') {
+      await sendStockAlertEmail(
+        vendor.email,
+        vendor.firstName,
+        products.map(product => ({
+          name: product.name,
+          sku: product.sku,
+          quantity: product.quantity,
+          threshold: getReorderThreshold(product),
+          level: product.stockAlert.level!
+        })),
+        digest
+      );
+      sent++;
+
+      if (digest) {
+        await User.updateOne({ _id: vendor._id }, { stockAlertDigestSentAt: now }, { timestamps: false });
+      }
+    }
+
+    // Only alerts still pending are marked; one cleared meanwhile alerts again
+    await Product.updateMany(
+      {
+        _id: { $in: products.map(product => product._id as mongoose.Types.ObjectId) },
+        'stockAlert.level': { $in: ['low', 'out'] },
+        'stockAlert.notifiedAt': null
+      },
+      { $set: { 'stockAlert.notifiedAt': now } },
+      { timestamps: false }
+    );
+  }
+
+  return sent;
+};
+
+export const runStockAlerts = async (
+  now: Date = new Date()
+): Promise<{ alerted: number; cleared: number; emailsSent: number }> => {
+  const { alerted, cleared } = await detectStockAlerts(now);
+  const emailsSent = await sendPendingStockAlerts(now);
+  return { alerted, cleared, emailsSent };
+};
+
+// A vendor's alert settings and their products currently in alert
+export const getVendorStockAlerts = async (vendorId: string) => {
+  const [vendor, products] = await Promise.all([
+    User.findById(vendorId).select('stockAlertFrequency stockAlertDigestSentAt'),
+    Product.find({ createdBy: vendorId, 'stockAlert.level': { $in: ['low', 'out'] } })
+      .select('name sku quantity reorderThreshold stockAlert')
+      .sort({ 'stockAlert.since': 1 })
+  ]);
+
+  return {
+    frequency: vendor ? vendor.stockAlertFrequency : 'immediate',
+    lastDigestAt: vendor ? vendor.stockAlertDigestSentAt ?? null : null,
+    defaultReorderThreshold: getDefaultReorderThreshold(),
+    alerts: products.map(product => ({
+      productId: product._id,
+      name: product.name,
+      sku: product.sku,
+      quantity: product.quantity,
+      reorderThreshold: getReorderThreshold(product),
+      level: product.stockAlert.level,
+      since: product.stockAlert.since,
+      notifiedAt: product.stockAlert.notifiedAt
+    }))
+  };
+};
+
+export const setStockAlertFrequency = async (vendorId: string, frequency: StockAlertFrequency): Promise<void> => {
+  await User.updateOne({ _id: vendorId }, { stockAlertFrequency: frequency }, { runValidators: true });
+};
@@ -0,0 +1,214 @@
+import { Product } from '../models/product.model';
+import { Category } from '../models/category.model';
+import { SearchQuery } from '../models/searchQuery.model';
+import { editDistance, maxTyposFor, tokenize } from '../utils/spelling.helper';
+import * as CategoryService from './category.service';
+
+export interface Suggestions {
+  products: { id: string; name: string }[];
+  categories: { id: string; name: string; slug: string }[];
+  queries: string[];
+}
+
+const SUGGESTION_LIMIT = 5;
+const MIN_PREFIX_LENGTH = 2;
+
+// Each suggestion source gets this long before it is dropped from the response
+const getSuggestTimeBudgetMs = (): number => {
+  return parseInt(process.env.SUGGEST_MAX_TIME_MS || '150');
+};
+
+// Case-insensitive collation matching the product name_ci index
+const CASE_INSENSITIVE = { locale: 'en', strength: 2 };
+
+export const normalizeQuery = (query: string): string => {
+  return query.trim().toLowerCase().replace(/\s+/g, ' ').slice(0, 100);
+};
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Remember a search so it can be suggested later. Fire-and-forget from callers.
+export const recordSearchQuery = async (query: string, resultCount: number): Promise<void> => {
+  const term = normalizeQuery(query);
+  if (term.length < MIN_PREFIX_LENGTH) {
+    return;
+  }
+
+  await SearchQuery.updateOne(
+    { term },
+    {
+      $inc: { count: 1 },
+      $set: { lastResultCount: resultCount, lastSearchedAt: new Date() }
+    },
+    { upsert: true }
+  );
+};
+
+// Prefix suggestions for a search box. The three sources run in parallel, each
+// capped by maxTimeMS; a source that is too slow is left out rather than
+// delaying the others.
+export const getSuggestions = async (prefix: string): Promise<Suggestions> => {
+  const term = normalizeQuery(prefix);
+  const empty: Suggestions = { products: [], categories: [], queries: [] };
+
+  if (term.length < MIN_PREFIX_LENGTH) {
+    return empty;
+  }
+
+  const maxTimeMS = getSuggestTimeBudgetMs();
+  const archivedCategoryIds = await CategoryService.getArchivedCategoryIds();
+  // '\uffff' sorts after every other character, closing the prefix range
+  const range = { $gte: term, $lt: `${term}\uffff` };
+
+  const [products, categories, queries] = await Promise.allSettled([
+    Product.find({ name: range, status: 'published', category: { $nin: archivedCategoryIds } }, { name: 1 })
+      .collation(CASE_INSENSITIVE)
+      .sort({ name: 1 })
+      .limit(SUGGESTION_LIMIT)
+      .maxTimeMS(maxTimeMS)
+      .lean(),
+    Category.find({ name: { $regex: `^${escapeRegex(term)}`, $options: 'i' }, _id: { $nin: archivedCategoryIds } }, { name: 1, slug: 1 })
+      .sort({ name: 1 })
+      .limit(SUGGESTION_LIMIT)
+      .maxTimeMS(maxTimeMS)
+      .lean(),
+    SearchQuery.find({ term: range, lastResultCount: { $gt: 0 } }, { term: 1 })
+      .sort({ count: -1 })
+      .limit(SUGGESTION_LIMIT)
+      .maxTimeMS(maxTimeMS)
+      .lean()
+  ]);
+
+  return {
+    products: products.status === 'fulfilled'
+      ? products.value.map(product => ({ id: product._id.toString(), name: product.name }))
+      : empty.products,
+    categories: categories.status === 'fulfilled'
+      ? categories.value.map(category => ({ id: category._id.toString(), name: category.name, slug: category.slug }))
+      : empty.categories,
+    queries: queries.status === 'fulfilled'
+      ? queries.value.map(query => query.term)
+      : empty.queries
+  };
+};
+
+// Words from product names, category names and successful searches, used to
+// correct misspelled queries. Rebuilt at most every few minutes, from the
+// newest products and categories in large catalogs.
+const VOCABULARY_TTL_MS = 10 * 60 * 1000;
+const VOCABULARY_MAX_DOCUMENTS = 5000;
+let vocabularyCache: { words: Map<string, number>; expiresAt: number } | null = null;
+
+const getVocabulary = async (): Promise<Map<string, number>> => {
+  if (vocabularyCache && vocabularyCache.expiresAt > Date.now()) {
+    return vocabularyCache.words;
+  }
+
+  // Like the suggestions, a source that is too slow is left out; the
+  // vocabulary is then rebuilt on the next search instead of being cached
+  const maxTimeMS = getSuggestTimeBudgetMs();
+  const sources = await Promise.allSettled([
+    Product.find({ status: 'published' }, { name: 1 })
+      .sort({ _id: -1 })
+      .limit(VOCABULARY_MAX_DOCUMENTS)
+      .maxTimeMS(maxTimeMS)
+      .lean(),
+    Category.find({ isActive: true }, { name: 1 })
+      .sort({ _id: -1 })
+      .limit(VOCABULARY_MAX_DOCUMENTS)
+      .maxTimeMS(maxTimeMS)
+      .lean(),
+    SearchQuery.find({ lastResultCount: { $gt: 0 } }, { term: 1, count: 1 })
+      .sort({ count: -1 })
+      .limit(1000)
+      .maxTimeMS(maxTimeMS)
+      .lean()
+  ]);
+  const [products, categories, queries] = sources;
+
+  // Weight words by how often they appear, so common words win ties
+  const words = new Map<string, number>();
+  const add = (text: string, weight: number) => {
+    for (const word of tokenize(text)) {
+      if (word.length > 1) {
+        words.set(word, (words.get(word) || 0) + weight);
+      }
+    }
+  };
+
+  if (products.status === 'fulfilled') {
+    products.value.forEach(product => add(product.name, 1));
+  }
+  if (categories.status === 'fulfilled') {
+    categories.value.forEach(category => add(category.name, 1));
+  }
+  if (queries.status === 'fulfilled') {
+    queries.value.forEach(query => add(query.term, query.count));
+  }
+
+  if (sources.every(source => source.status === 'fulfilled')) {
+    vocabularyCache = { words, expiresAt: Date.now() + VOCABULARY_TTL_MS };
+  }
+  return words;
+};
+
+const correctWord = (word: string, vocabulary: Map<string, number>): string => {
+  if (vocabulary.has(word)) {
+    return word;
+  }
+
+  const maxTypos = maxTyposFor(word);
+  let best = word;
+  let bestDistance = maxTypos + 1;
+  let bestWeight = 0;
+
+  for (const [candidate, weight] of vocabulary) {
+    const distance = editDistance(word, candidate, maxTypos);
+    if (distance < bestDistance || (distance === bestDistance && weight > bestWeight)) {
+      best = candidate;
+      bestDistance = distance;
+      bestWeight = weight;
+    }
+  }
+
+  return bestDistance <= maxTypos ? best : word;
+};
+
+// "Did you mean" corrections for a search that found nothing: the query with
+// each word corrected, plus popular successful queries spelled similarly.
+export const getDidYouMean = async (query: string): Promise<string[]> => {
+  const term = normalizeQuery(query);
+  if (term.length < MIN_PREFIX_LENGTH) {
+    return [];
+  }
+
+  const vocabulary = await getVocabulary();
+  const suggestions: string[] = [];
+
+  const corrected = tokenize(term).map(word => correctWord(word, vocabulary)).join(' ');
+  if (corrected && corrected !== tokenize(term).join(' ')) {
+    suggestions.push(corrected);
+  }
+
+  const maxTypos = Math.max(1, maxTyposFor(term));
+  const similarQueries = await SearchQuery.find(
+    { lastResultCount: { $gt: 0 }, term: { $regex: `^${escapeRegex(term[0])}` } },
+    { term: 1 }
+  )
+    .sort({ count: -1 })
+    .limit(200)
+    .maxTimeMS(getSuggestTimeBudgetMs())
+    .lean();
+
+  for (const similar of similarQueries) {
+    if (suggestions.length >= 3) {
+      break;
+    }
+    if (similar.term !== term && !suggestions.includes(similar.term) &&
+        editDistance(term, similar.term, maxTypos) <= maxTypos) {
+      suggestions.push(similar.term);
+    }
+  }
+
+  return suggestions;
+};
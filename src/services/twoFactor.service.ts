@@ -0,0 +1,254 @@
+import { User, IUser } from '../models/user.model';
+import { SecurityPolicy, ISecurityPolicy } from '../models/securityPolicy.model';
+import {
+  generateTotpSecret,
+  verifyTotp,
+  buildOtpauthUri
+} from '../utils/totp.helper';
+import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
+
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'E-Commerce API';
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_TOKEN_PURPOSE = 'two_factor_login';
+
+const hashRecoveryCode = (code: string): string => {
+  return crypto
+    .createHash('sha256')
+    .update(code.replace(/[\s-]/g, '').toLowerCase())
+    .digest('hex');
+};
+
+// Generate codes in the form "a1b2c-3d4e5"; only hashes are stored
+const generateRecoveryCodes = (): { codes: string[]; hashes: string[] } => {
+  const codes: string[] = [];
+  for (let i = 0; i < RECOVERY_CODE_COUNT; i++) {
+    const raw = crypto.randomBytes(5).toString('hex');
+    codes.push(`${raw.slice(0, 5)}-${raw.slice(5)}`);
+  }
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+};
+
+const getJwtSecret = (): string => {
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!jwtSecret) {
+    throw new Error('JWT_SECRET is not defined');
+  }
+  return jwtSecret;
+};
+
+export const getSecurityPolicy = async (): Promise<ISecurityPolicy> => {
+  const policy = await SecurityPolicy.findOneAndUpdate(
+    { key: 'default' },
+    { $setOnInsert: { key: 'default', twoFactorRequiredRoles: [] } },
+    { upsert: true, new: true }
+  );
+  return policy!;
+};
+
+export const updateTwoFactorPolicy = async (
+  requiredRoles: string[],
+  adminId: string
+): Promise<ISecurityPolicy> => {
+  const policy = await SecurityPolicy.findOneAndUpdate(
+    { key: 'default' },
+    { twoFactorRequiredRoles: requiredRoles, updatedBy: adminId },
+    { upsert: true, new: true, runValidators: true }
+  );
+  return policy!;
+};
+
+const isRoleRequiringTwoFactor = async (role: string): Promise<boolean> => {
+  const policy = await SecurityPolicy.findOne({ key: 'default' }).lean();
+  return !!policy && policy.twoFactorRequiredRoles.includes(role);
+};
+
+// True when the user's role must use 2FA but the user has not enrolled yet
+export const isTwoFactorSetupRequired = async (
+  role: string,
+  twoFactorEnabled: boolean
+): Promise<boolean> => {
+  if (twoFactorEnabled) {
+    return false;
+  }
+  return await isRoleRequiringTwoFactor(role);
+};
+
+// Start enrollment: store a pending secret and return it as an otpauth URI
+export const beginEnrollment = async (
+  userId: string
+): Promise<{ secret: string; otpauthUri: string }> => {
+  const user = await User.findById(userId);
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  if (user.twoFactorEnabled) {
+    throw new Error('Two-factor authentication is already enabled');
+  }
+
+  const secret = generateTotpSecret();
+  user.twoFactorPendingSecret = secret;
+  await user.save();
+
+  return {
+    secret,
+    otpauthUri: buildOtpauthUri(secret, user.email, TOTP_ISSUER)
+  };
+};
+
+// Finish enrollment by proving possession of the authenticator
+export const confirmEnrollment = async (
+  userId: string,
+  code: string
+): Promise<string[]> => {
+  const user = await User.findById(userId).select('+twoFactorPendingSecret');
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  if (user.twoFactorEnabled) {
+    throw new Error('Two-factor authentication is already enabled');
+  }
+
+  if (!user.twoFactorPendingSecret) {
+    throw new Error('Two-factor enrollment has not been started');
+  }
+
+  const step = verifyTotp(user.twoFactorPendingSecret, code);
+  if (step === null) {
+    throw new Error('Invalid two-factor code');
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+
+  user.twoFactorSecret = user.twoFactorPendingSecret;
+  user.twoFactorPendingSecret = undefined;
+  user.twoFactorRecoveryCodes = hashes;
+  user.twoFactorLastUsedStep = step;
+  user.twoFactorEnabled = true;
+  await user.save();
+
+  return codes;
+};
+
+// Check a TOTP code or a one-time recovery code for an enrolled user.
+// Both are consumed atomically so they cannot be replayed.
+export const verifySecondFactor = async (
+  userId: string,
+  credentials: { code?: string; recoveryCode?: string }
+): Promise<boolean> => {
+  if (credentials.recoveryCode) {
+    const codeHash = hashRecoveryCode(credentials.recoveryCode);
+    const result = await User.updateOne(
+      { _id: userId, twoFactorEnabled: true, twoFactorRecoveryCodes: codeHash },
+      { $pull: { twoFactorRecoveryCodes: codeHash } }
+    );
+    return result.modifiedCount === 1;
+  }
+
+  if (!credentials.code) {
+    return false;
+  }
+
+  const user = await User.findById(userId).select('+twoFactorSecret');
+  if (!user || !user.twoFactorEnabled || !user.twoFactorSecret) {
+    return false;
+  }
+
+  const step = verifyTotp(user.twoFactorSecret, credentials.code);
+  if (step === null) {
+    return false;
+  }
+
+  const result = await User.updateOne(
+    {
+      _id: userId,
+      $or: [
+        { twoFactorLastUsedStep: { $lt: step } },
+        { twoFactorLastUsedStep: null }
+      ]
+    },
+    { twoFactorLastUsedStep: step }
+  );
+  return result.modifiedCount === 1;
+};
+
+export const disableTwoFactor = async (
+  userId: string,
+  password: string,
+  code: string
+): Promise<void> => {
+  const user = await User.findById(userId).select('+password');
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  if (!user.twoFactorEnabled) {
+    throw new Error('Two-factor authentication is not enabled');
+  }
+
+  if (await isRoleRequiringTwoFactor(user.role)) {
+    throw new Error('Two-factor authentication is required for your role and cannot be disabled');
+  }
+
+  const isPasswordValid = await user.comparePassword(password);
+  if (!isPasswordValid) {
+    throw new Error('Current password is incorrect');
+  }
+
+  if (!(await verifySecondFactor(userId, { code }))) {
+    throw new Error('Invalid two-factor code');
+  }
+
+  await User.updateOne(
+    { _id: userId },
+    {
+      twoFactorEnabled: false,
+      $unset: {
+        twoFactorSecret: 1,
+        twoFactorPendingSecret: 1,
+        twoFactorRecoveryCodes: 1,
+        twoFactorLastUsedStep: 1
+      }
+    }
+  );
+};
+
+export const regenerateRecoveryCodes = async (
+  userId: string,
+  code: string
+): Promise<string[]> => {
+  if (!(await verifySecondFactor(userId, { code }))) {
+    throw new Error('Invalid two-factor code');
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+  await User.updateOne({ _id: userId }, { twoFactorRecoveryCodes: hashes });
+
+  return codes;
+};
+
+// Short-lived token proving the password step of a two-step login succeeded
+export const createLoginChallenge = (user: IUser): string => {
+  return jwt.sign(
+    { id: user._id.toString(), purpose: CHALLENGE_TOKEN_PURPOSE },
+    getJwtSecret(),
+    { expiresIn: '5m' }
+  );
+};
+
+export const verifyLoginChallenge = (challengeToken: string): string => {
+  try {
+    const decoded = jwt.verify(challengeToken, getJwtSecret()) as { id: string; purpose?: string };
+    if (decoded.purpose !== CHALLENGE_TOKEN_PURPOSE) {
+      throw new Error('Wrong token purpose');
+    }
+    return decoded.id;
+  } catch (error) {
+    throw new Error('Invalid or expired login challenge');
+  }
+};
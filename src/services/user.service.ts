@@ -1,7 +1,18 @@
+import { Types } from 'mongoose';
 import { User, IUser } from '../models/user.model';
+import * as SessionService from './session.service';
+import * as ApiKeyService from './apiKey.service';
+import * as AuditService from './audit.service';
+
+export interface UserActor {
+  id: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
 
 export const createUser = async (userData: Partial<IUser>): Promise<IUser> => {
-  const existingUser = await User.findOne({ email: userData.email });
+  // A deleted account keeps its email until it is purged
+  const existingUser = await User.findOne({ email: userData.email }).setOptions({ withDeleted: true });
   if (existingUser) {
     throw new Error('User with this email already exists');
   }
@@ -49,11 +60,6 @@ export const updateUser = async (
   ).select('-password');
 };
 
-export const deleteUser = async (id: string): Promise<boolean> => {
-  const result = await User.findByIdAndDelete(id);
-  return !!result;
-};
-
 export const getUsersByStatus = async (status: 'active' | 'inactive' | 'pending'): Promise<IUser[]> => {
   return await User.find({ status }).select('-password');
 };
@@ -72,3 +78,52 @@ export const updateUserStatus = async (
     { new: true, runValidators: true }
   ).select('-password');
 };
+
+// Soft delete: the account can no longer sign in and is hidden from listings,
+// but can be restored until the purge job erases its personal data
+export const softDeleteUser = async (id: string, actor: UserActor): Promise<IUser> => {
+  const user = await User.findById(id);
+
+  if (!user || user.erasedAt) {
+    throw new Error('User not found');
+  }
+
+  user.deletedAt = new Date();
+  user.deletedBy = new Types.ObjectId(actor.id);
+  await user.save();
+
+  await SessionService.revokeAllUserSessions(id, 'account_deleted');
+  await ApiKeyService.revokeAllUserApiKeys(id);
+
+  AuditService.recordAuditLog({
+    action: 'user.delete',
+    actorId: actor.id,
+    subjectId: id,
+    ipAddress: actor.ipAddress,
+    userAgent: actor.userAgent
+  }).catch(err => console.error('Failed to record user deletion audit log:', err));
+
+  return user;
+};
+
+export const restoreUser = async (id: string, actor: UserActor): Promise<IUser | null> => {
+  const user = await User.findOne({ _id: id, deletedAt: { $ne: null }, erasedAt: null });
+
+  if (!user) {
+    return null;
+  }
+
+  user.deletedAt = null;
+  user.deletedBy = null;
+  await user.save();
+
+  AuditService.recordAuditLog({
+    action: 'user.restore',
+    actorId: actor.id,
+    subjectId: id,
+    ipAddress: actor.ipAddress,
+    userAgent: actor.userAgent
+  }).catch(err => console.error('Failed to record user restore audit log:', err));
+
+  return user;
+};
@@ -0,0 +1,153 @@
+import { VendorApplication, IVendorApplication } from '../models/vendorApplication.model';
+import { User } from '../models/user.model';
+import mongoose from 'mongoose';
+
+// Customer: Submit a vendor application
+export const submitApplication = async (
+  userId: string,
+  applicationData: {
+    businessName: string;
+    contactName: string;
+    contactEmail: string;
+    contactPhone?: string;
+    taxId: string;
+  }
+): Promise<IVendorApplication> => {
+  const user = await User.findById(userId);
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  if (user.role !== 'customer') {
+    throw new Error('Only customer accounts can apply to become a vendor');
+  }
+
+  const pendingApplication = await VendorApplication.findOne({ userId, status: 'pending' });
+  if (pendingApplication) {
+    throw new Error('You already have a pending vendor application');
+  }
+
+  return await VendorApplication.create({
+    ...applicationData,
+    userId: new mongoose.Types.ObjectId(userId),
+    status: 'pending'
+  });
+};
+
+// Customer: Get own applications
+export const getUserApplications = async (userId: string): Promise<IVendorApplication[]> => {
+  return await VendorApplication.find({ userId: new mongoose.Types.ObjectId(userId) })
+    .sort({ createdAt: -1 })
+    .exec();
+};
+
+// Admin: Get applications with filters
+export const getAllApplications = async (filters: {
+  status?: string;
+  page?: number;
+  limit?: number;
+} = {}): Promise<{ applications: IVendorApplication[]; pagination: any }> => {
+  const query: any = {};
+
+  if (filters.status) {
+    query.status = filters.status;
+  }
+
+  const page = filters.page || 1;
+  const limit = filters.limit || 10;
+  const skip = (page - 1) * limit;
+
+  const applications = await VendorApplication.find(query)
+    .sort({ createdAt: 1 })
+    .skip(skip)
+    .limit(limit)
+    .populate('userId', 'firstName lastName email role')
+    .populate('reviewedBy', 'firstName lastName email')
+    .exec();
+
+  const total = await VendorApplication.countDocuments(query);
+
+  return {
+    applications,
+    pagination: {
+      page,
+      limit,
+      total,
+      pages: Math.ceil(total / limit)
+    }
+  };
+};
+
+// Admin: Approve application and elevate the applicant to vendor
+export const approveApplication = async (
+  applicationId: string,
+  adminId: string
+): Promise<IVendorApplication> => {
+  const session = await mongoose.startSession();
+  session.startTransaction();
+
+  try {
+    const application = await VendorApplication.findById(applicationId).session(session);
+
+    if (!application) {
+      throw new Error('Vendor application not found');
+    }
+
+    if (application.status !== 'pending') {
+      throw new Error(`Vendor application has already been ${application.status}`);
+    }
+
+    const user = await User.findById(application.userId).session(session);
+
+    if (!user) {
+      throw new Error('Applicant account no longer exists');
+    }
+
+    const reviewedAt = new Date();
+    const reviewedBy = new mongoose.Types.ObjectId(adminId);
+
+    user.role = 'vendor';
+    user.roleAssignedBy = reviewedBy;
+    user.roleAssignedAt = reviewedAt;
+    await user.save({ session });
+
+    application.status = 'approved';
+    application.reviewedBy = reviewedBy;
+    application.reviewedAt = reviewedAt;
+    await application.save({ session });
+
+    await session.commitTransaction();
+
+    return application;
+  } catch (error) {
+    await session.abortTransaction();
+    throw error;
+  } finally {
+    session.endSession();
+  }
+};
+
+// Admin: Reject application
+export const rejectApplication = async (
+  applicationId: string,
+  adminId: string,
+  reason?: string
+): Promise<IVendorApplication> => {
+  const application = await VendorApplication.findById(applicationId);
+
+  if (!application) {
+    throw new Error('Vendor application not found');
+  }
+
+  if (application.status !== 'pending') {
+    throw new Error(`Vendor application has already been ${application.status}`);
+  }
+
+  application.status = 'rejected';
+  application.reviewedBy = new mongoose.Types.ObjectId(adminId);
+  application.reviewedAt = new Date();
+  application.rejectionReason = reason;
+
+  return await application.save();
+};
@@ -0,0 +1,132 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { Warehouse, IWarehouse, IAddress } from '../models/warehouse.model';
+import { InventoryLevel } from '../models/inventoryLevel.model';
+
+export interface WarehouseInput {
+  name?: string;
+  code?: string;
+  address?: IAddress | null;
+  isDefault?: boolean;
+  isActive?: boolean;
+}
+
+// Products that existed before warehouses keep their stock in a default
+// location, created on first start. Give it an address to rank it properly.
+export const ensureDefaultWarehouse = async (): Promise<IWarehouse> => {
+  const existing = await Warehouse.findOne({ isDefault: true });
+  if (existing) {
+    return existing;
+  }
+
+  const first = await Warehouse.findOne().sort({ isActive: -1, createdAt: 1 });
+  if (first) {
+    first.isDefault = true;
+    first.isActive = true;
+    return await first.save();
+  }
+
+  return await Warehouse.create({ name: 'Main warehouse', code: 'MAIN', isDefault: true });
+};
+
+export const getDefaultWarehouse = async (session?: ClientSession): Promise<IWarehouse | null> => {
+  return await Warehouse.findOne({ isDefault: true }).session(session ?? null);
+};
+
+// Total units held at each warehouse
+const getStockTotals = async (warehouseIds: mongoose.Types.ObjectId[]): Promise<Map<string, number>> => {
+  const totals = await InventoryLevel.aggregate([
+    { $match: { warehouse: { $in: warehouseIds } } },
+    { $group: { _id: '$warehouse', quantity: { $sum: '$quantity' } } }
+  ]);
+  return new Map(totals.map(total => [total._id.toString(), total.quantity]));
+};
+
+export const getAllWarehouses = async (includeInactive = false) => {
+  const warehouses = await Warehouse.find(includeInactive ? {} : { isActive: true })
+    .sort({ isDefault: -1, code: 1 })
+    .lean();
+  const totals = await getStockTotals(warehouses.map(warehouse => warehouse._id as mongoose.Types.ObjectId));
+
+  return warehouses.map(warehouse => ({
+    ...warehouse,
+    stockQuantity: totals.get(warehouse._id.toString()) || 0
+  }));
+};
+
+export const getWarehouseById = async (id: string) => {
+  const warehouse = await Warehouse.findById(id).lean();
+  if (!warehouse) {
+    return null;
+  }
+
+  const totals = await getStockTotals([warehouse._id as mongoose.Types.ObjectId]);
+  return { ...warehouse, stockQuantity: totals.get(warehouse._id.toString()) || 0 };
+};
+
+// Make a warehouse the default; only one can be at a time
+const makeDefault = async (warehouse: IWarehouse): Promise<void> => {
+  await Warehouse.updateMany({ _id: { $ne: warehouse._id }, isDefault: true }, { isDefault: false });
+  warehouse.isDefault = true;
+};
+
+export const createWarehouse = async (data: WarehouseInput, userId: string): Promise<IWarehouse> => {
+  if (data.code && await Warehouse.exists({ code: data.code.toUpperCase() })) {
+    throw new Error('Warehouse with this code already exists');
+  }
+  if (data.isDefault && data.isActive === false) {
+    throw new Error('The default warehouse cannot be inactive');
+  }
+
+  const warehouse = new Warehouse({
+    name: data.name,
+    code: data.code,
+    address: data.address || undefined,
+    isActive: data.isActive ?? true,
+    createdBy: userId
+  });
+  await warehouse.validate();
+
+  if (data.isDefault) {
+    await makeDefault(warehouse);
+  }
+  return await warehouse.save();
+};
+
+export const updateWarehouse = async (id: string, data: WarehouseInput): Promise<IWarehouse> => {
+  const warehouse = await Warehouse.findById(id);
+  if (!warehouse) {
+    throw new Error('Warehouse not found');
+  }
+
+  if (data.code && data.code.toUpperCase() !== warehouse.code &&
+      await Warehouse.exists({ code: data.code.toUpperCase() })) {
+    throw new Error('Warehouse with this code already exists');
+  }
+
+  if (data.isDefault === false && warehouse.isDefault) {
+    throw new Error('Make another warehouse the default instead');
+  }
+
+  if ((data.isDefault ?? warehouse.isDefault) && !(data.isActive ?? warehouse.isActive)) {
+    throw new Error('The default warehouse cannot be inactive');
+  }
+
+  if (data.isActive === false && warehouse.isActive) {
+    // Stock at an inactive warehouse could never ship
+    const totals = await getStockTotals([warehouse._id as mongoose.Types.ObjectId]);
+    if ((totals.get(warehouse._id.toString()) || 0) > 0) {
+      throw new Error(`Transfer the stock at ${warehouse.code} elsewhere before deactivating it`);
+    }
+  }
+
+  if (data.name !== undefined) warehouse.name = data.name;
+  if (data.code !== undefined) warehouse.code = data.code;
+  if (data.address !== undefined) warehouse.set('address', data.address || undefined);
+  if (data.isActive !== undefined) warehouse.isActive = data.isActive;
+  await warehouse.validate();
+
+  if (data.isDefault && !warehouse.isDefault) {
+    await makeDefault(warehouse);
+  }
+  return await warehouse.save();
+};
@@ -92,6 +92,56 @@ export const passwordResetTemplate = (firstName: string, resetToken: string) =>
   `;
 };
 
+export const emailVerificationTemplate = (firstName: string, verificationToken: string) => {
+  const verifyUrl = `https://api-node-ecommerce-0mh7.onrender.com/api/v1/auth/verify-email?token=${verificationToken}`;
+  
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: #2196F3; color: white; padding: 20px; text-align: center; }
+        .content { padding: 20px; background: #f9f9f9; }
+        .button { 
+          display: inline-block; 
+          padding: 10px 20px; 
+          background: #2196F3; 
+          color: white; 
+          text-decoration: none; 
+          border-radius: 5px; 
+          margin: 20px 0;
+        }
+        .warning { background: #fff3cd; padding: 10px; border-left: 4px solid #ffc107; margin: 20px 0; }
+        .footer { text-align: center; padding: 20px; color: #777; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>Verify Your Email Address</h1>
+        </div>
+        <div class="content">
+          <h2>Hello ${firstName}!</h2>
+          <p>Thanks for signing up. Please confirm your email address to activate your account:</p>
+          <a href="${verifyUrl}" class="button">Verify Email</a>
+          <div class="warning">
+            <strong>Security Notice:</strong>
+            <p>This link will expire in 24 hours. If you didn't create an account, please ignore this email.</p>
+          </div>
+          <p>Or copy and paste this link into your browser:</p>
+          <p style="word-break: break-all; color: #666;">${verifyUrl}</p>
+        </div>
+        <div class="footer">
+          <p>© 2024 Your Company. All rights reserved.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+};
+
 export const passwordChangedTemplate = (firstName: string) => {
   return `
     <!DOCTYPE html>
@@ -128,6 +178,43 @@ export const passwordChangedTemplate = (firstName: string) => {
   `;
 };
 
+export const accountLockedTemplate = (firstName: string, lockedUntil: Date) => {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: #FF5722; color: white; padding: 20px; text-align: center; }
+        .content { padding: 20px; background: #f9f9f9; }
+        .warning { background: #fff3cd; padding: 10px; border-left: 4px solid #ffc107; margin: 20px 0; }
+        .footer { text-align: center; padding: 20px; color: #777; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>Account Temporarily Locked</h1>
+        </div>
+        <div class="content">
+          <h2>Hello ${firstName}!</h2>
+          <p>We detected several failed sign-in attempts on your account, so we have temporarily locked it.</p>
+          <p>You can try again after <strong>${lockedUntil.toUTCString()}</strong>.</p>
+          <div class="warning">
+            <strong>Security Notice:</strong>
+            <p>If these attempts weren't you, we recommend resetting your password once the lock expires.</p>
+          </div>
+        </div>
+        <div class="footer">
+          <p>© 2024 Your Company. All rights reserved.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+};
+
 export const orderConfirmationTemplate = (firstName: string, orderId: string, total: number) => {
   return `
     <!DOCTYPE html>
@@ -207,3 +294,180 @@ export const orderStatusUpdateTemplate = (firstName: string, orderId: string, st
     </html>
   `;
 };
+
+export const vendorApplicationDecisionTemplate = (
+  firstName: string,
+  businessName: string,
+  approved: boolean,
+  reason?: string
+) => {
+  const color = approved ? '#4CAF50' : '#FF5722';
+  const title = approved ? 'Vendor Application Approved' : 'Vendor Application Update';
+  const body = approved
+    ? `<p>Good news! Your vendor application for <strong>${businessName}</strong> has been approved.</p>
+          <p>Your account now has vendor access and you can start listing products.</p>`
+    : `<p>Unfortunately, your vendor application for <strong>${businessName}</strong> was not approved.</p>
+          ${reason ? `<p><strong>Reason:</strong> ${reason}</p>` : ''}
+          <p>You are welcome to submit a new application once the issues above have been addressed.</p>`;
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: ${color}; color: white; padding: 20px; text-align: center; }
+        .content { padding: 20px; background: #f9f9f9; }
+        .footer { text-align: center; padding: 20px; color: #777; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>${title}</h1>
+        </div>
+        <div class="content">
+          <h2>Hello ${firstName}!</h2>
+          ${body}
+        </div>
+        <div class="footer">
+          <p>© 2024 Your Company. All rights reserved.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+};
+
+export interface StockAlertEmailItem {
+  name: string;
+  sku?: string;
+  quantity: number;
+  threshold: number;
+  level: 'low' | 'out';
+}
+
+export const stockAlertTemplate = (firstName: string, items: StockAlertEmailItem[], digest: boolean) => {
+  const rows = items.map(item => `
+            <tr>
+              <td>${item.name}${item.sku ? ` (${item.sku})` : ''}</td>
+              <td>${item.quantity}</td>
+              <td>${item.threshold}</td>
+              <td><span class="${item.level}">${item.level === 'out' ? 'Out of stock' : 'Low stock'}</span></td>
+            </tr>`).join('');
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: #FF9800; color: white; padding: 20px; text-align: center; }
+        .content { padding: 20px; background: #f9f9f9; }
+        table { width: 100%; border-collapse: collapse; }
+        th, td { text-align: left; padding: 8px; border-bottom: 1px solid #ddd; }
+        .low { color: #FF9800; font-weight: bold; }
+        .out { color: #F44336; font-weight: bold; }
+        .footer { text-align: center; padding: 20px; color: #777; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>${digest ? 'Daily Stock Digest' : 'Stock Alert'}</h1>
+        </div>
+        <div class="content">
+          <h2>Hello ${firstName}!</h2>
+          <p>${items.length === 1 ? 'One of your products is' : `${items.length} of your products are`} running low. Restock to keep them available to customers.</p>
+          <table>
+            <tr><th>Product</th><th>In stock</th><th>Reorder at</th><th></th></tr>${rows}
+          </table>
+          <p>You will not be alerted about these products again until they are restocked above their reorder threshold.</p>
+        </div>
+        <div class="footer">
+          <p>© 2024 Your Company. All rights reserved.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+};
+
+export const backInStockSubscribedTemplate = (productName: string, unsubscribeToken: string) => {
+  const unsubscribeUrl = `https://api-node-ecommerce-0mh7.onrender.com/api/v1/products/notify-me/unsubscribe?token=${unsubscribeToken}`;
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: #2196F3; color: white; padding: 20px; text-align: center; }
+        .content { padding: 20px; background: #f9f9f9; }
+        .footer { text-align: center; padding: 20px; color: #777; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>We'll Let You Know</h1>
+        </div>
+        <div class="content">
+          <h2>${productName} is out of stock</h2>
+          <p>We will email you once when it is available again. Customers who asked earlier are told first, so act quickly when you hear from us.</p>
+          <p>Changed your mind, or didn't ask for this? <a href="${unsubscribeUrl}">Unsubscribe</a></p>
+        </div>
+        <div class="footer">
+          <p>© 2024 Your Company. All rights reserved.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+};
+
+export const backInStockTemplate = (productId: string, productName: string, price: number) => {
+  const productUrl = `https://api-node-ecommerce-0mh7.onrender.com/api/v1/products/${productId}`;
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: #4CAF50; color: white; padding: 20px; text-align: center; }
+        .content { padding: 20px; background: #f9f9f9; }
+        .button { 
+          display: inline-block; 
+          padding: 12px 30px; 
+          background: #4CAF50; 
+          color: white; 
+          text-decoration: none; 
+          border-radius: 5px; 
+          margin: 20px 0;
+        }
+        .footer { text-align: center; padding: 20px; color: #777; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>Back in Stock!</h1>
+        </div>
+        <div class="content">
+          <h2>${productName} is available again</h2>
+          <p>You asked us to let you know when this product was back. It is now available for <strong>$${price.toFixed(2)}</strong>, while stock lasts.</p>
+          <a href="${productUrl}" class="button">View Product</a>
+        </div>
+        <div class="footer">
+          <p>© 2024 Your Company. All rights reserved.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+};